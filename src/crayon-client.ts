@@ -1,4 +1,58 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { TagSet, TagUpdateMode, TagDiff, normalizeTags, applyTagUpdate, diffTags } from './utils/tag-diff.js';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import { TagPolicy, evaluateTagCompliance } from './utils/tag-policy.js';
+import { ResponseCache, createResponseCacheFromEnv } from './utils/response-cache.js';
+import { createCircuitBreakerWrapper } from './middleware/security.js';
+import { logger } from './middleware/logger.js';
+import { RequestScheduler } from './utils/request-scheduler.js';
+import {
+  CostNormalization,
+  CurrencyConversionError,
+  CurrencyTotals,
+  PricedItem,
+  createCurrencyConverterFromEnv,
+  sumByCurrency,
+} from './utils/currency.js';
+import { CostDimension, CostGroup, CostsByDimension } from './utils/cost-charts.js';
+import { ForecastModel, forecastSeries, projectMonthEnd } from './utils/forecast.js';
+import { BudgetScope } from './utils/budgets.js';
+import { AnomalyMethod, DEFAULT_THRESHOLDS, scoreValue } from './utils/anomaly-detection.js';
+import { CsvParser, parseCsv } from './utils/csv.js';
+import { UsageAggregator, UsageQuery } from './utils/azure-usage.js';
+import { CostSource, WarehouseStatement, createCostWarehouseFromEnv } from './utils/warehouse.js';
+import { SubscriptionTagHistory, TagAttribution, TagShare, createTagHistoryStoreFromEnv, tagsDuring } from './utils/tag-history.js';
+import { CostQueryError, CostQueryRow, parseCostQuery, queryMonthBounds, runCostQuery, withQueryDeadline } from './utils/cost-query.js';
+import {
+  AmountDecodeError,
+  AzurePlan,
+  AzureSubscription,
+  AzureUsageRow,
+  BillingStatement,
+  CrayonList,
+  CustomerTenant,
+  GroupedBillingStatement,
+  Invoice,
+  InvoiceProfile,
+  Money,
+  Organization,
+  ProvisionType,
+  Subscription,
+  UsageCost,
+  decodeAzurePlan,
+  decodeAzureSubscription,
+  decodeAzureUsageRow,
+  decodeBillingStatement,
+  decodeCustomerTenant,
+  decodeInvoice,
+  decodeInvoiceProfile,
+  decodeList,
+  decodeMoney,
+  decodeOrganization,
+  decodeSubscription,
+  decodeUsageCost,
+  parseUsageDateFormat,
+} from './models/crayon.js';
 
 interface CrayonAuthResponse {
   access_token: string;
@@ -9,7 +63,7 @@ interface CrayonAuthResponse {
 interface BillingStatementFilter {
   organizationId: number;
   invoiceProfileId?: number;
-  provisionType?: 'None' | 'Seat' | 'Usage' | 'OneTime' | 'Crayon' | 'AzureMarketplace';
+  provisionType?: ProvisionType;
   from?: string;
   to?: string;
   page?: number;
@@ -24,20 +78,193 @@ interface AzureUsageParams {
   includeBom?: boolean;
 }
 
+interface BulkTagRule {
+  namePattern?: string;
+  tagEquals?: { key: string; value: string };
+  subscriptionIds?: number[];
+  tags: TagSet;
+  onlyMissing?: boolean;
+}
+
+interface PagedResult<T> extends CrayonList<T> {
+  fetchedPages: number;
+  truncated: boolean;
+}
+
+interface TagFetchFailure {
+  subscriptionId: number;
+  subscriptionName: string;
+  error: string;
+}
+
+interface BulkTagChange {
+  subscriptionId: number;
+  subscriptionName: string;
+  matchedRules: number[];
+  before: TagSet;
+  after: TagSet;
+  diff: TagDiff;
+}
+
+export interface HistoryCoverage {
+  percentOfCost: number;
+  subscriptionsWithHistory: number;
+}
+
+export interface CostTrend {
+  month: string;
+  cost: number;
+  originalCosts: Record<string, number>;
+  previousCost: number | null;
+  change: number | null;
+  changePercent: number | null;
+}
+
+export interface CostTrendsResult {
+  organizationId: number;
+  monthsBack: number;
+  source: CostSource;
+  currency: string | null;
+  trends: CostTrend[];
+  summary: {
+    totalMonths: number;
+    totalCost: number;
+    originalTotals: Record<string, number>;
+    averageMonthlyCost: number;
+    highestMonth: CostTrend | null;
+    lowestMonth: CostTrend | null;
+  };
+}
+
+export interface CostAnomaly {
+  type: 'spike' | 'drop' | 'new' | 'disappeared';
+  subscriptionId: string;
+  subscriptionName: string;
+  month: string;
+  actualCost: number;
+  expectedCost: number;
+  change: number;
+  changePercent: number | null;
+  score: number | null;
+  drivers: Array<{ label: string; actual: number; expected: number; change: number }>;
+  explanation: string;
+}
+
+export interface CostAnomaliesResult {
+  organizationId: number;
+  source: CostSource;
+  method: AnomalyMethod;
+  monthsBack: number;
+  baselineMonths: number;
+  threshold: number;
+  minAbsoluteChange: number;
+  changeThresholdPercent: number;
+  analyzedMonths: string[];
+  currency: string | null;
+  anomaliesFound: number;
+  anomalies: CostAnomaly[];
+  summary: {
+    totalSubscriptionsAnalyzed: number;
+    newSubscriptions: number;
+    disappearedSubscriptions: number;
+    highestIncrease?: CostAnomaly;
+    highestDecrease?: CostAnomaly;
+  };
+  warnings: string[];
+}
+
+export interface TagCostBreakdown {
+  tag: string;
+  breakdown: Array<{ value: string; cost: number }>;
+  total: number;
+}
+
+export interface TagCostsResult {
+  organizationId: number;
+  monthsBack: number;
+  source: CostSource;
+  attribution: TagAttribution;
+  historyCoverage?: HistoryCoverage;
+  subscriptionsAnalyzed: number;
+  currency: string | null;
+  totals: CurrencyTotals;
+  costBreakdown: TagCostBreakdown[];
+  tagFetchFailures: TagFetchFailure[];
+}
+
+export interface LastMonthTagCosts {
+  tag: string;
+  total: number;
+  breakdown: Array<{ value: string; cost: number; subscriptionCount: number; subscriptions: string[] }>;
+}
+
+export interface LastMonthTagCostsResult {
+  organizationId: number;
+  period: { from: string; to: string; description: string };
+  attribution: TagAttribution;
+  historyCoverage?: HistoryCoverage;
+  totalCost: number;
+  currencyCode: string | null;
+  originalTotals: Record<string, number>;
+  tagsCount: number;
+  costByTags: LastMonthTagCosts[];
+  tagFetchFailures: TagFetchFailure[];
+}
+
+export interface InvoiceProfileCost {
+  profileId: number;
+  profileName: string;
+  totalCost: number;
+  currencyCode?: string | null;
+  originalTotals?: Record<string, number>;
+  itemsCount?: number;
+  error?: string;
+}
+
+export interface InvoiceProfileCostsResult {
+  organizationId: number;
+  period: { from: string; to: string; description: string };
+  totalOrganizationCost: number;
+  currencyCode: string | null;
+  originalTotals: Record<string, number>;
+  profilesCount: number;
+  costsByProfile: InvoiceProfileCost[];
+}
+
 export class CrayonApiClient {
   private apiClient: AxiosInstance;
   private accessToken: string | null = null;
   private tokenExpiry: number = 0;
+  // Subscription ID -> organization ID, learned from subscription listings (used to scope cached tags)
+  private subscriptionOrganizations = new Map<number, number>();
+  // Every outbound request goes through the circuit breaker with retry/backoff
+  private resilience = createCircuitBreakerWrapper('crayon-api');
+  private timeoutMs = parseInt(process.env.API_TIMEOUT_MS || '30000');
+  // Shared limit for per-subscription fan-out, fair across organizations
+  private scheduler = new RequestScheduler(parseInt(process.env.API_MAX_CONCURRENCY || '8'));
+  // Page size used when walking all pages, and the hard cap on items collected
+  private pageSize = parseInt(process.env.PAGINATION_PAGE_SIZE || '100');
+  private maxPagedItems = parseInt(process.env.PAGINATION_MAX_ITEMS || '10000');
+  // Converts statement prices into REPORTING_CURRENCY (if set) using the FX_RATES_FILE table
+  private fx = createCurrencyConverterFromEnv();
+  // Local SQLite copy of billing history (WAREHOUSE_FILE), if configured
+  private warehouse = createCostWarehouseFromEnv();
+  // Point-in-time subscription tags (TAG_HISTORY_FILE) for historical tag attribution
+  private tagHistory = createTagHistoryStoreFromEnv();
+  // Day/month order of slash-separated dates in Azure usage exports
+  private usageDateFormat = parseUsageDateFormat(process.env.USAGE_DATE_FORMAT);
 
   constructor(
     private clientId: string,
     private clientSecret: string,
     private username: string,
     private password: string,
-    private baseUrl: string = 'https://api.crayon.com/api/v1'
+    private baseUrl: string = 'https://api.crayon.com/api/v1',
+    private cache: ResponseCache = createResponseCacheFromEnv()
   ) {
     this.apiClient = axios.create({
       baseURL: this.baseUrl,
+      timeout: this.timeoutMs,
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
@@ -60,7 +287,7 @@ export class CrayonApiClient {
       // Crayon API requires Basic Authentication (client_id:client_secret) in Authorization header
       const auth = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
       
-      const response = await axios.post<CrayonAuthResponse>(
+      const response = await this.resilience.execute(() => axios.post<CrayonAuthResponse>(
         `${this.baseUrl}/connect/token`,
         new URLSearchParams({
           grant_type: 'password',
@@ -68,12 +295,13 @@ export class CrayonApiClient {
           password: this.password,
         }),
         {
+          timeout: this.timeoutMs,
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
             'Authorization': `Basic ${auth}`,
           },
         }
-      );
+      ));
 
       // Crayon API returns AccessToken (PascalCase), not access_token
       const token = response.data.access_token || (response.data as any).AccessToken;
@@ -89,11 +317,252 @@ export class CrayonApiClient {
   }
 
   /**
-   * Get billing statements with filters
+   * GET through the resilience layer (circuit breaker, timeout, retry with backoff)
    */
-  async getBillingStatements(filter: BillingStatementFilter): Promise<any> {
-    const token = await this.authenticate();
+  private async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return this.resilience.execute(() => this.apiClient.get<T>(url, config));
+  }
+
+  /**
+   * PUT through the resilience layer (circuit breaker, timeout, retry with backoff)
+   */
+  private async put<T = any>(url: string, data: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return this.resilience.execute(() => this.apiClient.put<T>(url, data, config));
+  }
+
+  /**
+   * Iterate over every item of a paged Crayon list endpoint, following TotalHits.
+   * Stops once TotalHits items were seen (or on a short page when TotalHits is missing),
+   * on an empty page, or once maxItems items have been yielded.
+   */
+  async *paginate<T>(
+    fetchPage: (page: number, pageSize: number) => Promise<CrayonList<T>>,
+    maxItems: number = this.maxPagedItems
+  ): AsyncGenerator<T> {
+    let yielded = 0;
+
+    for (let page = 1; ; page++) {
+      const data = await fetchPage(page, this.pageSize);
+      const items: T[] = data?.Items || [];
+
+      for (const item of items) {
+        if (yielded >= maxItems) return;
+        yield item;
+        yielded++;
+      }
+
+      const lastPage = typeof data?.TotalHits === 'number'
+        ? yielded >= data.TotalHits
+        : items.length < this.pageSize;
+      if (items.length === 0 || lastPage || yielded >= maxItems) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Collect all pages into a single Crayon-style list response
+   */
+  private async fetchAllPages<T>(
+    fetchPage: (page: number, pageSize: number) => Promise<CrayonList<T>>,
+    maxItems: number = this.maxPagedItems
+  ): Promise<PagedResult<T>> {
+    let totalHits = 0;
+    let fetchedPages = 0;
+    const items: T[] = [];
+
+    const trackedFetch = async (page: number, pageSize: number) => {
+      const data = await fetchPage(page, pageSize);
+      fetchedPages++;
+      totalHits = Math.max(totalHits, data?.TotalHits ?? 0);
+      return data;
+    };
+
+    for await (const item of this.paginate(trackedFetch, maxItems)) {
+      items.push(item);
+    }
+
+    return {
+      Items: items,
+      TotalHits: Math.max(totalHits, items.length),
+      fetchedPages,
+      truncated: totalHits > items.length,
+    };
+  }
+
+  /**
+   * Get all subscriptions across every page (capped at PAGINATION_MAX_ITEMS)
+   */
+  async getAllSubscriptions(organizationId?: number): Promise<PagedResult<Subscription>> {
+    return this.fetchAllPages((page, pageSize) => this.getSubscriptions(organizationId, page, pageSize));
+  }
+
+  /**
+   * Get all invoices across every page (capped at PAGINATION_MAX_ITEMS)
+   */
+  async getAllInvoices(organizationId: number): Promise<PagedResult<Invoice>> {
+    return this.fetchAllPages((page, pageSize) => this.getInvoices(organizationId, page, pageSize));
+  }
+
+  /**
+   * Get all billing statements across every page (capped at PAGINATION_MAX_ITEMS)
+   */
+  async getAllBillingStatements(filter: BillingStatementFilter): Promise<PagedResult<BillingStatement>> {
+    return this.fetchAllPages((page, pageSize) => this.getBillingStatements({ ...filter, page, pageSize }));
+  }
+
+  /**
+   * Get all organizations across every page (capped at PAGINATION_MAX_ITEMS)
+   */
+  async getAllOrganizations(): Promise<PagedResult<Organization>> {
+    return this.fetchAllPages((page, pageSize) => this.getOrganizations(page, pageSize));
+  }
+
+  /**
+   * Get fan-out scheduler load and counters
+   */
+  getSchedulerStats() {
+    return this.scheduler.getStats();
+  }
+
+  /**
+   * Fetch tags for many subscriptions through the scheduler.
+   * Failed fetches are reported separately instead of being mistaken for "no tags".
+   */
+  private async fetchTagsForSubscriptions(
+    organizationId: number | undefined,
+    subscriptions: Subscription[]
+  ): Promise<{ tagsById: Map<number, TagSet>; failures: TagFetchFailure[] }> {
+    const tagsById = new Map<number, TagSet>();
+    const failures: TagFetchFailure[] = [];
+
+    await Promise.all(
+      subscriptions.map((sub) =>
+        this.scheduler.schedule(organizationId, () => this.getSubscriptionTags(sub.Id, organizationId))
+          .then((tags) => {
+            tagsById.set(sub.Id, normalizeTags(tags));
+          })
+          .catch((error) => {
+            failures.push({
+              subscriptionId: sub.Id,
+              subscriptionName: sub.Name,
+              error: `Failed to fetch tags: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            });
+          })
+      )
+    );
+
+    return { tagsById, failures };
+  }
+
+  /**
+   * Express the cost of every statement in one currency (the reporting currency when configured).
+   * Throws CurrencyConversionError when currencies are mixed and cannot be converted.
+   */
+  normalizeCosts<T extends PricedItem>(items: T[]): CostNormalization<T> {
+    return this.fx.normalize(items);
+  }
+
+  /**
+   * Get circuit breaker state and counters
+   */
+  getCircuitBreakerStatus() {
+    return this.resilience.getStatus();
+  }
+
+  /**
+   * GET a Crayon API path through the response cache
+   */
+  private async cachedGet(
+    endpoint: string,
+    url: string,
+    ttlSeconds: number,
+    organizationId?: number | (() => Promise<number | undefined>),
+    signal?: AbortSignal
+  ): Promise<any> {
+    return this.cache.getOrFetch(endpoint, url, ttlSeconds, async () => {
+      const token = await this.authenticate();
+      const response = await this.get(url, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+        signal,
+      });
+      return response.data;
+    }, organizationId);
+  }
+
+  /**
+   * Billing data for closed months never changes, so it is cached much longer than the current month
+   */
+  private billingTtl(to?: string): number {
+    const now = new Date();
+    const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const isClosedPeriod = !!to && new Date(to).getTime() < currentMonthStart.getTime();
+    return isClosedPeriod ? this.cache.ttls.billingClosedMonth : this.cache.ttls.billingCurrentMonth;
+  }
+
+  /**
+   * Get response cache hit/miss statistics
+   */
+  getCacheStats() {
+    return this.cache.getStats();
+  }
+
+  /**
+   * Invalidate all cached responses for an organization
+   * @returns Number of cache entries removed
+   */
+  invalidateCache(organizationId: number): number {
+    return this.cache.invalidateOrganization(organizationId);
+  }
+
+  /**
+   * Calculate last month's date range (YYYY-MM-DD)
+   */
+  private getLastMonthRange(): { from: string; to: string } {
+    const today = new Date();
+    const lastMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0); // Last day of previous month
+    const lastMonthStart = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+
+    return {
+      from: lastMonthStart.toISOString().split('T')[0],
+      to: lastMonthEnd.toISOString().split('T')[0],
+    };
+  }
+
+  /**
+   * Calculate the range from the 1st of the month `monthsBack` months ago until now (ISO timestamps)
+   */
+  private getMonthsBackRange(monthsBack: number): { from: string; to: string } {
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setMonth(startDate.getMonth() - monthsBack);
     
+    // Set to first day of the month to capture complete billing periods
+    // Billing statements have StartDate/EndDate periods (e.g., 2025-08-01 to 2025-09-01)
+    // We need to start from the 1st of the month to include those billing periods
+    startDate.setDate(1);
+    startDate.setHours(0, 0, 0, 0);
+
+    return { from: startDate.toISOString(), to: endDate.toISOString() };
+  }
+
+  /**
+   * Billing month (YYYY-MM) of a statement, from its StartDate
+   */
+  private billingMonth(item: { StartDate?: string }): string {
+    // StartDate format: 2025-10-01T00:00:00+00:00
+    const startDate = item.StartDate ? new Date(item.StartDate) : null;
+    return startDate
+      ? `${startDate.getFullYear()}-${String(startDate.getMonth() + 1).padStart(2, '0')}`
+      : 'unknown';
+  }
+
+  /**
+   * Get billing statements with filters
+   */
+  async getBillingStatements(filter: BillingStatementFilter): Promise<CrayonList<BillingStatement>> {
     const params = new URLSearchParams();
     params.append('organizationId', filter.organizationId.toString());
     
@@ -104,21 +573,20 @@ export class CrayonApiClient {
     if (filter.page) params.append('page', filter.page.toString());
     if (filter.pageSize) params.append('pageSize', filter.pageSize.toString());
 
-    const response = await this.apiClient.get(`/billingstatements/?${params.toString()}`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
-
-    return response.data;
+    const data = await this.cachedGet(
+      'billingstatements',
+      `/billingstatements/?${params.toString()}`,
+      this.billingTtl(filter.to),
+      filter.organizationId
+    );
+    return decodeList(data, decodeBillingStatement);
   }
 
   /**
    * Get grouped billing statements
+   * @param signal - Cancels the request, e.g. when a query runs out of time
    */
-  async getGroupedBillingStatements(filter: BillingStatementFilter): Promise<any> {
-    const token = await this.authenticate();
-    
+  async getGroupedBillingStatements(filter: BillingStatementFilter, signal?: AbortSignal): Promise<CrayonList<GroupedBillingStatement>> {
     const params = new URLSearchParams();
     params.append('organizationId', filter.organizationId.toString());
     
@@ -127,13 +595,14 @@ export class CrayonApiClient {
     if (filter.from) params.append('from', filter.from);
     if (filter.to) params.append('to', filter.to);
 
-    const response = await this.apiClient.get(`/billingstatements/grouped?${params.toString()}`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
-
-    return response.data;
+    const data = await this.cachedGet(
+      'billingstatements_grouped',
+      `/billingstatements/grouped?${params.toString()}`,
+      this.billingTtl(filter.to),
+      filter.organizationId,
+      signal
+    );
+    return decodeList(data, decodeBillingStatement);
   }
 
   /**
@@ -151,7 +620,7 @@ export class CrayonApiClient {
       queryParams.append('includeBom', params.includeBom ? '1' : '0');
     }
 
-    const response = await this.apiClient.get(
+    const response = await this.get(
       `/AzureUsage/${params.azurePlanId}/azureSubscriptions/${params.subscriptionId}/monthlyUsage?${queryParams.toString()}`,
       {
         headers: {
@@ -163,82 +632,317 @@ export class CrayonApiClient {
     return response.data;
   }
 
+  /**
+   * Download link in a monthly usage response: the response itself or its SAS URI field
+   */
+  private usageFileUrl(data: any): string | null {
+    const candidates = typeof data === 'string'
+      ? [data]
+      : data && typeof data === 'object'
+        ? ['SasUri', 'SasUrl', 'Uri', 'Url', 'DownloadUri', 'DownloadUrl', 'Link'].map((key) => data[key])
+        : [];
+    const url = candidates.find((value) => typeof value === 'string' && /^https:\/\/\S+$/.test(value.trim()));
+    return url ? url.trim() : null;
+  }
+
+  /**
+   * Stream Azure usage for a subscription and month as typed daily rows.
+   * The usage endpoint returns a SAS URI to the CSV export (or the rows themselves). The file is
+   * parsed while it downloads, so rows can be consumed without holding the export in memory; it is
+   * fetched without Crayon credentials, since the SAS URI carries its own authorization.
+   */
+  async *streamAzureUsageRows(params: AzureUsageParams): AsyncGenerator<AzureUsageRow> {
+    const data = await this.getAzureUsage(params);
+    const fileUrl = this.usageFileUrl(data);
+
+    if (!fileUrl) {
+      const records: Array<Record<string, unknown>> = typeof data === 'string'
+        ? parseCsv(data)
+        : Array.isArray(data)
+          ? data
+          : Array.isArray(data?.Items)
+            ? data.Items
+            : [];
+      for (const record of records) {
+        const row = decodeAzureUsageRow(record, this.usageDateFormat);
+        if (row) yield row;
+      }
+      return;
+    }
+
+    const download = await this.resilience.execute(() =>
+      axios.get<AsyncIterable<Uint8Array>>(fileUrl, { responseType: 'stream', timeout: this.timeoutMs })
+    );
+    const parser = new CsvParser();
+    const decoder = new TextDecoder('utf-8');
+
+    for await (const chunk of download.data) {
+      for (const record of parser.push(decoder.decode(chunk, { stream: true }))) {
+        const row = decodeAzureUsageRow(record, this.usageDateFormat);
+        if (row) yield row;
+      }
+    }
+    for (const record of [...parser.push(decoder.decode()), ...parser.end()]) {
+      const row = decodeAzureUsageRow(record, this.usageDateFormat);
+      if (row) yield row;
+    }
+  }
+
+  /**
+   * Query Azure usage: filter rows, group them by columns and return the top N groups by cost
+   * (or the top N rows without grouping). Rows are aggregated as they stream in.
+   * Without a subscriptionId, every subscription of the Azure plan is queried one after another.
+   */
+  async queryAzureUsage(
+    params: { azurePlanId: number; subscriptionId?: number; year: number; month: number },
+    query: UsageQuery
+  ): Promise<any> {
+    const { azurePlanId, subscriptionId, year, month } = params;
+    const subscriptionIds = subscriptionId
+      ? [subscriptionId]
+      : (await this.getAzurePlanSubscriptions(azurePlanId)).Items.map((sub) => sub.Id);
+
+    const aggregator = new UsageAggregator(query);
+    const costs = this.fx.streamNormalizer();
+    for (const id of subscriptionIds) {
+      for await (const row of this.streamAzureUsageRows({ azurePlanId, subscriptionId: id, year, month })) {
+        aggregator.add(row, costs.costOf(row.Cost, row.Date));
+      }
+    }
+
+    return {
+      azurePlanId,
+      subscriptionIds,
+      period: `${year}-${String(month).padStart(2, '0')}`,
+      query,
+      currency: costs.totals().currency,
+      ...aggregator.result(),
+    };
+  }
+
+  /**
+   * Most expensive resources, resource groups, meter categories and regions of an Azure
+   * subscription over a month range (YYYY-MM), from its usage files.
+   * The month before the range is also read so the first month has a month-over-month delta;
+   * it is not counted in the totals.
+   */
+  async getAzureResourceCosts(
+    azurePlanId: number,
+    subscriptionId: number,
+    fromMonth: string,
+    toMonth: string,
+    topN: number = 10
+  ): Promise<any> {
+    const months: string[] = [];
+    for (let date = new Date(Number(fromMonth.slice(0, 4)), Number(fromMonth.slice(5, 7)) - 1, 1); ; ) {
+      const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+      if (month > toMonth) break;
+      months.push(month);
+      date = new Date(date.getFullYear(), date.getMonth() + 1, 1);
+    }
+    if (months.length === 0 || months.length > 12) {
+      throw new Error('Month range must run forward and cover at most 12 months');
+    }
+    const firstMonth = new Date(Number(fromMonth.slice(0, 4)), Number(fromMonth.slice(5, 7)) - 2, 1);
+    const comparisonMonth = `${firstMonth.getFullYear()}-${String(firstMonth.getMonth() + 1).padStart(2, '0')}`;
+
+    type Breakdown = Map<string, Record<string, number>>;
+    const resources: Breakdown = new Map();
+    const resourceGroups: Breakdown = new Map();
+    const meterCategories: Breakdown = new Map();
+    const regions: Breakdown = new Map();
+    const resourceInfo = new Map<string, { resourceGroup: string; meterCategories: Set<string>; region: string }>();
+    const monthTotals: Record<string, number> = {};
+    const warnings: string[] = [];
+    let hasComparison = true;
+
+    const add = (breakdown: Breakdown, key: string, month: string, cost: number) => {
+      const byMonth = breakdown.get(key) ?? {};
+      byMonth[month] = (byMonth[month] || 0) + cost;
+      breakdown.set(key, byMonth);
+    };
+
+    const costs = this.fx.streamNormalizer();
+    for (const month of [comparisonMonth, ...months]) {
+      const params = { azurePlanId, subscriptionId, year: Number(month.slice(0, 4)), month: Number(month.slice(5, 7)) };
+      try {
+        for await (const row of this.streamAzureUsageRows(params)) {
+          const cost = costs.costOf(row.Cost, row.Date);
+          const resourceKey = row.ResourceId || `${row.ResourceGroup}/${row.MeterCategory}`;
+          monthTotals[month] = (monthTotals[month] || 0) + cost;
+          add(resources, resourceKey, month, cost);
+          add(resourceGroups, row.ResourceGroup, month, cost);
+          add(meterCategories, row.MeterCategory, month, cost);
+          add(regions, row.Region, month, cost);
+
+          const info = resourceInfo.get(resourceKey) ?? { resourceGroup: row.ResourceGroup, meterCategories: new Set<string>(), region: row.Region };
+          info.meterCategories.add(row.MeterCategory);
+          resourceInfo.set(resourceKey, info);
+        }
+      } catch (error) {
+        if (month !== comparisonMonth || error instanceof CurrencyConversionError) throw error;
+        // A subscription created during the range has no usage file for the month before it
+        if ((error as any).response?.status === 404) {
+          warnings.push(`No usage file for ${comparisonMonth}; it is counted as zero`);
+          continue;
+        }
+        // Anything else leaves the comparison month unknown rather than zero; drop what was read of it
+        hasComparison = false;
+        delete monthTotals[comparisonMonth];
+        for (const breakdown of [resources, resourceGroups, meterCategories, regions]) {
+          for (const byMonth of breakdown.values()) delete byMonth[comparisonMonth];
+        }
+        warnings.push(
+          `Usage for ${comparisonMonth} could not be read (${(error as Error).message}); the first month has no month-over-month delta`
+        );
+      }
+    }
+
+    const round = (value: number) => parseFloat(value.toFixed(2));
+    const rangeTotal = months.reduce((sum, month) => sum + (monthTotals[month] || 0), 0);
+    const previousOf = (idx: number) => (idx === 0 ? comparisonMonth : months[idx - 1]);
+    const delta = (byMonth: Record<string, number>, idx: number) => {
+      if (idx === 0 && !hasComparison) return { change: null, changePercent: null };
+      const cost = byMonth[months[idx]] || 0;
+      const before = byMonth[previousOf(idx)] || 0;
+      return {
+        change: round(cost - before),
+        changePercent: before !== 0 ? round(((cost - before) / before) * 100) : null,
+      };
+    };
+
+    /**
+     * Top N entries by cost over the range, each with per-month cost and the change from the month before
+     */
+    const rank = (breakdown: Breakdown) =>
+      Array.from(breakdown.entries())
+        .map(([name, byMonth]) => ({ name, byMonth, total: months.reduce((sum, month) => sum + (byMonth[month] || 0), 0) }))
+        .filter((entry) => entry.total !== 0)
+        .sort((a, b) => b.total - a.total)
+        .slice(0, topN)
+        .map(({ name, byMonth, total }) => ({
+          name,
+          total: round(total),
+          sharePercent: rangeTotal !== 0 ? round((total / rangeTotal) * 100) : 0,
+          months: months.map((month, idx) => ({ month, cost: round(byMonth[month] || 0), ...delta(byMonth, idx) })),
+          monthOverMonth: {
+            month: months[months.length - 1],
+            previousMonth: previousOf(months.length - 1),
+            ...delta(byMonth, months.length - 1),
+          },
+        }));
+
+    return {
+      azurePlanId,
+      subscriptionId,
+      period: { from: fromMonth, to: toMonth },
+      currency: costs.totals().currency,
+      total: round(rangeTotal),
+      months: months.map((month) => ({ month, cost: round(monthTotals[month] || 0) })),
+      topResources: rank(resources).map(({ name, ...entry }) => {
+        const info = resourceInfo.get(name);
+        return {
+          resourceId: name,
+          resourceGroup: info?.resourceGroup,
+          meterCategories: info ? Array.from(info.meterCategories) : [],
+          region: info?.region,
+          ...entry,
+        };
+      }),
+      topResourceGroups: rank(resourceGroups),
+      topMeterCategories: rank(meterCategories),
+      topRegions: rank(regions),
+      warnings,
+    };
+  }
+
   /**
    * Get invoices
    */
-  async getInvoices(organizationId: number, page?: number, pageSize?: number): Promise<any> {
-    const token = await this.authenticate();
-    
+  async getInvoices(organizationId: number, page?: number, pageSize?: number): Promise<CrayonList<Invoice>> {
     const params = new URLSearchParams();
     params.append('organizationId', organizationId.toString());
     if (page) params.append('page', page.toString());
     if (pageSize) params.append('pageSize', pageSize.toString());
 
-    const response = await this.apiClient.get(`/invoices/?${params.toString()}`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
-
-    return response.data;
+    const data = await this.cachedGet('invoices', `/invoices/?${params.toString()}`, this.cache.ttls.invoices, organizationId);
+    return decodeList(data, decodeInvoice);
   }
 
   /**
    * Get invoice profiles
    */
-  async getInvoiceProfiles(organizationId: number): Promise<any> {
+  async getInvoiceProfiles(organizationId: number): Promise<CrayonList<InvoiceProfile>> {
+    const data = await this.cachedGet(
+      'invoiceprofiles',
+      `/invoiceprofiles/?organizationId=${organizationId}`,
+      this.cache.ttls.invoices,
+      organizationId
+    );
+    return decodeList(data, decodeInvoiceProfile);
+  }
+
+  /**
+   * Get organizations (for listing available orgs)
+   */
+  async getOrganizations(page?: number, pageSize?: number): Promise<CrayonList<Organization>> {
     const token = await this.authenticate();
-    
-    const response = await this.apiClient.get(`/invoiceprofiles/?organizationId=${organizationId}`, {
+
+    const params = new URLSearchParams();
+    if (page) params.append('page', page.toString());
+    if (pageSize) params.append('pageSize', pageSize.toString());
+    const query = params.toString();
+
+    const response = await this.get(`/organizations/${query ? `?${query}` : ''}`, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
     });
 
-    return response.data;
+    return decodeList(response.data, decodeOrganization);
   }
 
   /**
-   * Get organizations (for listing available orgs)
+   * Get customer tenants (Azure/AWS customers)
    */
-  async getOrganizations(): Promise<any> {
+  async getCustomerTenants(organizationId?: number): Promise<CrayonList<CustomerTenant>> {
     const token = await this.authenticate();
     
-    const response = await this.apiClient.get('/organizations/', {
+    const params = organizationId ? `?organizationId=${organizationId}` : '';
+    const response = await this.get(`/customertenants/${params}`, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
     });
 
-    return response.data;
+    return decodeList(response.data, decodeCustomerTenant);
   }
 
   /**
-   * Get customer tenants (Azure/AWS customers)
+   * Get a single customer tenant
    */
-  async getCustomerTenants(organizationId?: number): Promise<any> {
+  async getCustomerTenant(customerTenantId: number): Promise<CustomerTenant> {
     const token = await this.authenticate();
-    
-    const params = organizationId ? `?organizationId=${organizationId}` : '';
-    const response = await this.apiClient.get(`/customertenants/${params}`, {
+
+    const response = await this.get(`/customertenants/${customerTenantId}`, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
     });
 
-    return response.data;
+    return decodeCustomerTenant(response.data);
   }
 
   /**
    * Get Azure subscriptions for a customer tenant
    * First fetches the Azure Plan ID, then gets the subscriptions
    */
-  async getAzureSubscriptions(customerTenantId: number): Promise<any> {
+  async getAzureSubscriptions(customerTenantId: number): Promise<CrayonList<AzureSubscription> & { message?: string }> {
     const token = await this.authenticate();
     
     try {
       // Step 1: Get the Azure Plan for this customer tenant
-      const planResponse = await this.apiClient.get(
+      const planResponse = await this.get(
         `/customertenants/${customerTenantId}/azurePlan/`,
         {
           headers: {
@@ -257,7 +961,7 @@ export class CrayonApiClient {
       }
 
       // Step 2: Get Azure subscriptions for this Azure Plan
-      const subscriptionsResponse = await this.apiClient.get(
+      const subscriptionsResponse = await this.get(
         `/AzurePlans/${azurePlan.Id}/azureSubscriptions/`,
         {
           headers: {
@@ -266,7 +970,7 @@ export class CrayonApiClient {
         }
       );
 
-      return subscriptionsResponse.data;
+      return decodeList(subscriptionsResponse.data, decodeAzureSubscription);
     } catch (error) {
       // If Azure Plan not found, return empty list instead of error
       if ((error as any).response?.status === 404) {
@@ -283,107 +987,305 @@ export class CrayonApiClient {
   /**
    * Get subscriptions (all cloud subscriptions)
    */
-  async getSubscriptions(organizationId?: number, page?: number, pageSize?: number): Promise<any> {
-    const token = await this.authenticate();
-    
+  async getSubscriptions(organizationId?: number, page?: number, pageSize?: number): Promise<CrayonList<Subscription>> {
     const params = new URLSearchParams();
     if (organizationId) params.append('organizationId', organizationId.toString());
     if (page) params.append('page', page.toString());
     if (pageSize) params.append('pageSize', pageSize.toString());
 
-    const response = await this.apiClient.get(`/subscriptions/?${params.toString()}`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
+    const data = decodeList(
+      await this.cachedGet('subscriptions', `/subscriptions/?${params.toString()}`, this.cache.ttls.subscriptions, organizationId),
+      decodeSubscription
+    );
+
+    data.Items.forEach((sub) => {
+      const orgId = sub.Organization?.Id ?? organizationId;
+      if (sub.Id && orgId) this.subscriptionOrganizations.set(sub.Id, orgId);
     });
 
-    return response.data;
+    return data;
   }
 
   /**
    * Get historical billing data for multiple months
    */
-  async getHistoricalBilling(organizationId: number, monthsBack: number = 6, invoiceProfileId?: number): Promise<any> {
+  async getHistoricalBilling(
+    organizationId: number,
+    monthsBack: number = 6,
+    invoiceProfileId?: number
+  ): Promise<CrayonList<GroupedBillingStatement>> {
     const token = await this.authenticate();
-    
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setMonth(startDate.getMonth() - monthsBack);
-    
-    // Set to first day of the month to capture complete billing periods
-    // Billing statements have StartDate/EndDate periods (e.g., 2025-08-01 to 2025-09-01)
-    // We need to start from the 1st of the month to include those billing periods
-    startDate.setDate(1);
-    startDate.setHours(0, 0, 0, 0);
 
     const filter = {
       organizationId,
       invoiceProfileId,
-      from: startDate.toISOString(),
-      to: endDate.toISOString(),
+      ...this.getMonthsBackRange(monthsBack),
     };
 
     return this.getGroupedBillingStatements(filter);
   }
 
+  /**
+   * Billing history for analytics, from the API or from the warehouse.
+   * The warehouse must have every billing month of the range; a gap is an error rather than
+   * silently missing costs.
+   */
+  private async billingHistory(
+    organizationId: number,
+    monthsBack: number,
+    source: CostSource = 'api'
+  ): Promise<CrayonList<GroupedBillingStatement | WarehouseStatement>> {
+    if (source === 'api') {
+      return this.getHistoricalBilling(organizationId, monthsBack);
+    }
+
+    const warehouse = this.requireWarehouse();
+    const months = this.monthsOfRange(new Date(this.getMonthsBackRange(monthsBack).from), new Date());
+    const synced = await warehouse.syncedMonths(organizationId);
+    const missing = months.filter((month) => !synced.has(month));
+    if (missing.length > 0) {
+      throw new Error(
+        `Warehouse has no billing data for organization ${organizationId} for ${missing.join(', ')}; run sync_warehouse with monthsBack ${monthsBack} or more`
+      );
+    }
+
+    const items = await warehouse.statements(organizationId, months[0], months[months.length - 1]);
+    return { Items: items, TotalHits: items.length };
+  }
+
+  private requireWarehouse() {
+    if (!this.warehouse) {
+      throw new Error('Cost warehouse is not configured: set WAREHOUSE_FILE');
+    }
+    return this.warehouse;
+  }
+
+  /**
+   * Billing months (YYYY-MM) from the month of `from` to the month of `to`
+   */
+  private monthsOfRange(from: Date, to: Date): string[] {
+    const months: string[] = [];
+    for (let date = new Date(from.getFullYear(), from.getMonth(), 1); date <= to; date = new Date(date.getFullYear(), date.getMonth() + 1, 1)) {
+      months.push(`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`);
+    }
+    return months;
+  }
+
+  /**
+   * Incrementally copy an organization's billing history into the warehouse.
+   * Grouped billing statements are fetched per billing month; a month is skipped once it has been
+   * synced more than WAREHOUSE_RESYNC_DAYS after it ended, since closed months no longer change.
+   * Subscriptions and invoices are refreshed on every sync. Current tags are recorded as the tag
+   * snapshot of each synced month that has no final snapshot yet, so months synced for the first
+   * time long after they ended carry the tags of the first sync.
+   */
+  async syncWarehouse(organizationId: number, options: { monthsBack?: number; full?: boolean } = {}): Promise<any> {
+    const { monthsBack = 24, full = false } = options;
+    const warehouse = this.requireWarehouse();
+    const started = new Date();
+    const syncedAt = started.toISOString();
+    const resyncMs = parseInt(process.env.WAREHOUSE_RESYNC_DAYS || '7', 10) * 24 * 3600 * 1000;
+
+    const months = this.monthsOfRange(new Date(started.getFullYear(), started.getMonth() - monthsBack, 1), started);
+    const synced = await warehouse.syncedMonths(organizationId);
+    const due = months.filter((month) => {
+      const previous = synced.get(month);
+      if (full || !previous) return true;
+      const [year, monthNumber] = month.split('-').map(Number);
+      return new Date(previous.syncedAt).getTime() < new Date(year, monthNumber, 1).getTime() + resyncMs;
+    });
+
+    const subscriptions = await this.getAllSubscriptions(organizationId);
+    await warehouse.upsertSubscriptions(organizationId, subscriptions.Items, syncedAt);
+
+    // Tags first, so the statements written below carry the month's snapshot
+    const { tagsById, failures } = await this.fetchTagsForSubscriptions(organizationId, subscriptions.Items);
+    this.recordTagCapture(organizationId, subscriptions.Items, tagsById, started);
+    let tagSnapshots = 0;
+    for (const month of due) {
+      tagSnapshots += await warehouse.saveTagSnapshot(organizationId, month, tagsById, started);
+    }
+
+    const monthsSynced: Array<{ month: string; statements: number }> = [];
+    for (const month of due) {
+      const [year, monthNumber] = month.split('-').map(Number);
+      const lastDay = new Date(year, monthNumber, 0).getDate();
+      const billing = await this.getGroupedBillingStatements({
+        organizationId,
+        from: `${month}-01`,
+        to: `${month}-${String(lastDay).padStart(2, '0')}`,
+      });
+      // The API returns statements overlapping the range; keep those billed in this month
+      const items = billing.Items.filter((item) => this.billingMonth(item) === month);
+      await warehouse.replaceMonth(organizationId, month, items, syncedAt);
+      monthsSynced.push({ month, statements: items.length });
+    }
+
+    const invoices = await this.getAllInvoices(organizationId);
+    await warehouse.upsertInvoices(organizationId, invoices.Items, syncedAt);
+
+    return {
+      organizationId,
+      syncedAt,
+      durationMs: Date.now() - started.getTime(),
+      monthsSynced,
+      monthsSkipped: months.length - due.length,
+      subscriptions: subscriptions.Items.length,
+      invoices: invoices.Items.length,
+      tagSnapshots,
+      tagFetchFailures: failures,
+      truncated: subscriptions.truncated || invoices.truncated,
+    };
+  }
+
+  /**
+   * Record the current tags of an organization's subscriptions in the tag history
+   */
+  async captureTagHistory(organizationId: number): Promise<any> {
+    const capturedAt = new Date();
+    const subscriptions = await this.getAllSubscriptions(organizationId);
+    const { tagsById, failures } = await this.fetchTagsForSubscriptions(organizationId, subscriptions.Items);
+    const changed = this.recordTagCapture(organizationId, subscriptions.Items, tagsById, capturedAt);
+
+    return {
+      organizationId,
+      capturedAt: capturedAt.toISOString(),
+      subscriptions: tagsById.size,
+      changed,
+      tagFetchFailures: failures,
+      truncated: subscriptions.truncated,
+    };
+  }
+
+  private recordTagCapture(organizationId: number, subscriptions: Subscription[], tagsById: Map<number, TagSet>, at: Date): number {
+    const entries = subscriptions
+      .filter((sub) => tagsById.has(sub.Id))
+      .map((sub) => ({ subscriptionId: sub.Id, subscriptionName: sub.Name, tags: tagsById.get(sub.Id)! }));
+    return this.tagHistory.recordMany(organizationId, entries, at, 'capture');
+  }
+
+  /**
+   * Recorded tag versions of an organization's subscriptions, optionally for one subscription
+   */
+  getTagHistory(organizationId: number, subscriptionId?: number): any {
+    const histories = Array.from(this.tagHistory.forOrganization(organizationId).values())
+      .filter((history) => subscriptionId === undefined || history.subscriptionId === subscriptionId)
+      .sort((a, b) => a.subscriptionId - b.subscriptionId);
+
+    return {
+      organizationId,
+      subscriptionCount: histories.length,
+      changeCount: histories.reduce((sum, history) => sum + history.versions.length - 1, 0),
+      subscriptions: histories,
+    };
+  }
+
+  /**
+   * How a statement's cost is split across tag sets. Historical attribution uses the tag history
+   * for the statement's billing month; subscriptions without history fall back to `fallback`.
+   */
+  private tagSharesOf(
+    item: BillingStatement,
+    fallback: TagSet,
+    histories: Map<number, SubscriptionTagHistory> | null
+  ): { shares: TagShare[]; covered: number } {
+    const history = item.SubscriptionId !== undefined ? histories?.get(item.SubscriptionId) : undefined;
+    const month = this.billingMonth(item);
+    if (!history || month === 'unknown') {
+      return { shares: [{ tags: fallback, share: 1 }], covered: 0 };
+    }
+
+    // Costs of the current month have only accrued up to now
+    const [year, monthNumber] = month.split('-').map(Number);
+    const end = Math.min(new Date(year, monthNumber, 1).getTime(), Date.now());
+    return tagsDuring(history, new Date(year, monthNumber - 1, 1), new Date(end));
+  }
+
+  /**
+   * Share of the cost attributed from recorded tag history rather than from fallback tags
+   */
+  private historyCoverage(costFromHistory: number, totalCost: number, histories: Map<number, SubscriptionTagHistory>) {
+    return {
+      percentOfCost: totalCost !== 0 ? Math.round((costFromHistory / totalCost) * 1000) / 10 : 0,
+      subscriptionsWithHistory: histories.size,
+    };
+  }
+
+  /**
+   * What the warehouse holds for an organization
+   */
+  async getWarehouseStatus(organizationId: number) {
+    return this.requireWarehouse().status(organizationId);
+  }
+
   /**
    * Get subscription details with tags
    */
-  async getSubscriptionById(subscriptionId: number): Promise<any> {
+  async getSubscriptionById(subscriptionId: number): Promise<Subscription> {
     const token = await this.authenticate();
     
-    const response = await this.apiClient.get(`/subscriptions/${subscriptionId}`, {
+    const response = await this.get(`/subscriptions/${subscriptionId}`, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
     });
 
-    return response.data;
+    return decodeSubscription(response.data);
   }
 
   /**
    * Get Azure Plan details
    */
-  async getAzurePlan(azurePlanId: number): Promise<any> {
+  async getAzurePlan(azurePlanId: number): Promise<AzurePlan> {
     const token = await this.authenticate();
     
-    const response = await this.apiClient.get(`/AzurePlans/${azurePlanId}`, {
+    const response = await this.get(`/AzurePlans/${azurePlanId}`, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
     });
 
-    return response.data;
+    return decodeAzurePlan(response.data);
   }
 
   /**
    * Get Azure subscriptions for an Azure Plan
    */
-  async getAzurePlanSubscriptions(azurePlanId: number): Promise<any> {
+  async getAzurePlanSubscriptions(azurePlanId: number): Promise<CrayonList<AzureSubscription>> {
     const token = await this.authenticate();
     
-    const response = await this.apiClient.get(`/AzurePlans/${azurePlanId}/azureSubscriptions/`, {
+    const response = await this.get(`/AzurePlans/${azurePlanId}/azureSubscriptions/`, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
     });
 
-    return response.data;
+    return decodeList(response.data, decodeAzureSubscription);
   }
 
   /**
    * Get subscription tags
    */
-  async getSubscriptionTags(subscriptionId: number): Promise<any> {
-    const token = await this.authenticate();
-    
-    const response = await this.apiClient.get(`/subscriptions/${subscriptionId}/tags`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
+  async getSubscriptionTags(subscriptionId: number, organizationId?: number): Promise<any> {
+    // The entry records its organization so invalidateOrganization drops it too
+    return this.cachedGet(
+      'subscription_tags',
+      `/subscriptions/${subscriptionId}/tags`,
+      this.cache.ttls.tags,
+      organizationId ?? (() => this.subscriptionOrganization(subscriptionId))
+    );
+  }
 
-    return response.data;
+  /**
+   * The organization a subscription belongs to, from subscription listings or else the subscription itself
+   */
+  private async subscriptionOrganization(subscriptionId: number): Promise<number | undefined> {
+    const known = this.subscriptionOrganizations.get(subscriptionId);
+    if (known !== undefined) return known;
+
+    const organizationId = await this.getSubscriptionById(subscriptionId).then((sub) => sub.Organization?.Id, () => undefined);
+    if (organizationId !== undefined) this.subscriptionOrganizations.set(subscriptionId, organizationId);
+    return organizationId;
   }
 
   /**
@@ -391,8 +1293,16 @@ export class CrayonApiClient {
    */
   async updateSubscriptionTags(subscriptionId: number, tags: Record<string, string>): Promise<any> {
     const token = await this.authenticate();
+
+    // Without history, the tags being replaced are the best record of what applied until now
+    const organizationId = await this.subscriptionOrganization(subscriptionId);
+    await this.withTagHistory(subscriptionId, async () => {
+      if (this.tagHistory.history(subscriptionId)) return;
+      const previous = await this.getSubscriptionTags(subscriptionId, organizationId).then(normalizeTags, () => null);
+      if (previous) this.tagHistory.recordMany(organizationId, [{ subscriptionId, tags: previous }], new Date(), 'capture');
+    });
     
-    const response = await this.apiClient.put(
+    const response = await this.put(
       `/subscriptions/${subscriptionId}/tags`,
       tags,
       {
@@ -402,9 +1312,129 @@ export class CrayonApiClient {
       }
     );
 
+    // Tags changed - never serve the old tags from cache
+    this.cache.invalidate(`/subscriptions/${subscriptionId}/tags`);
+    await this.withTagHistory(subscriptionId, async () => {
+      this.tagHistory.recordMany(organizationId, [{ subscriptionId, tags: normalizeTags(tags) }], new Date(), 'update');
+    });
+
     return response.data;
   }
 
+  /**
+   * Tag history bookkeeping around a tag update is best-effort: failures are logged, never thrown,
+   * so they cannot decide whether the update succeeded
+   */
+  private async withTagHistory(subscriptionId: number, record: () => Promise<void>): Promise<void> {
+    try {
+      await record();
+    } catch (error) {
+      logger.warn('Failed to record tag history', {
+        subscriptionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Plan a tag update by comparing the resulting tags with the current tags (no changes are made)
+   */
+  async planSubscriptionTagUpdate(
+    subscriptionId: number,
+    tags: TagSet,
+    mode: TagUpdateMode = 'replace',
+    removeKeys: string[] = []
+  ): Promise<{ subscriptionId: number; mode: TagUpdateMode; before: TagSet; after: TagSet; diff: TagDiff }> {
+    const before = normalizeTags(await this.getSubscriptionTags(subscriptionId));
+    const after = applyTagUpdate(before, tags, mode, removeKeys);
+
+    return {
+      subscriptionId,
+      mode,
+      before,
+      after,
+      diff: diffTags(before, after),
+    };
+  }
+
+  /**
+   * Plan a bulk tag update from rules. Rules match subscriptions by name pattern, an existing
+   * tag value and/or an explicit ID list (all given criteria must match) and are merged in order.
+   */
+  async planBulkTagUpdate(organizationId: number, rules: BulkTagRule[]): Promise<any> {
+    const inventory = await this.listAllSubscriptionsWithTags(organizationId);
+    const patterns = rules.map((rule) => (rule.namePattern ? new RegExp(rule.namePattern, 'i') : null));
+
+    const changes: BulkTagChange[] = [];
+    const skipped: Array<{ subscriptionId: number; subscriptionName: string; reason: string }> = [];
+    let unchanged = 0;
+
+    for (const sub of inventory.subscriptions) {
+      const matchedRules = rules
+        .map((rule, idx) => {
+          if (patterns[idx] && !patterns[idx]!.test(sub.name || '')) return -1;
+          if (rule.tagEquals && String(sub.tags?.[rule.tagEquals.key] ?? '') !== rule.tagEquals.value) return -1;
+          if (rule.subscriptionIds && !rule.subscriptionIds.includes(sub.id)) return -1;
+          return idx;
+        })
+        .filter((idx) => idx >= 0);
+
+      if (matchedRules.length === 0) continue;
+
+      // Never merge onto tags we could not read - that would silently drop existing tags
+      if (sub.tagsError) {
+        skipped.push({ subscriptionId: sub.id, subscriptionName: sub.name, reason: sub.tagsError });
+        continue;
+      }
+
+      const before = normalizeTags(sub.tags);
+      const after = matchedRules.reduce((current: TagSet, idx: number) => {
+        const rule = rules[idx];
+        const tags = rule.onlyMissing
+          ? Object.fromEntries(Object.entries(rule.tags).filter(([key]) => !Object.hasOwn(current, key)))
+          : rule.tags;
+        return applyTagUpdate(current, tags, 'merge');
+      }, before);
+
+      const diff = diffTags(before, after);
+      if (!diff.hasChanges) {
+        unchanged++;
+        continue;
+      }
+
+      changes.push({ subscriptionId: sub.id, subscriptionName: sub.name, matchedRules, before, after, diff });
+    }
+
+    return {
+      organizationId,
+      subscriptionsEvaluated: inventory.subscriptions.length,
+      subscriptionsToChange: changes.length,
+      subscriptionsUnchanged: unchanged,
+      changes,
+      skipped,
+    };
+  }
+
+  /**
+   * Apply a bulk tag plan with bounded concurrency, reporting the outcome per subscription
+   */
+  async applyBulkTagPlan(organizationId: number, changes: BulkTagChange[], concurrency: number = 4): Promise<any[]> {
+    return mapWithConcurrency(changes, concurrency, async (change) => {
+      try {
+        await this.scheduler.schedule(organizationId, () =>
+          this.updateSubscriptionTags(change.subscriptionId, change.after)
+        );
+        return { ...change, status: 'applied' };
+      } catch (error) {
+        return {
+          ...change,
+          status: 'failed',
+          error: `Failed to update tags: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+      }
+    });
+  }
+
   /**
    * Get cost tracking by subscription tags
    */
@@ -413,30 +1443,66 @@ export class CrayonApiClient {
     
     // Get subscriptions and billing data
     const [subscriptions, billingData] = await Promise.all([
-      this.getSubscriptions(organizationId),
+      this.getAllSubscriptions(organizationId),
       this.getHistoricalBilling(organizationId, monthsBack),
     ]);
 
     // Fetch tags for each subscription
-    const subscriptionsWithTags = await Promise.all(
-      (subscriptions.Items || []).map(async (sub: any) => {
-        try {
-          const tags = await this.getSubscriptionTags(sub.Id);
-          return { ...sub, tags };
-        } catch (error) {
-          return { ...sub, tags: null };
-        }
-      })
-    );
+    const { tagsById, failures } = await this.fetchTagsForSubscriptions(organizationId, subscriptions.Items || []);
+    const subscriptionsWithTags = (subscriptions.Items || []).map((sub: any) => ({
+      ...sub,
+      tags: tagsById.get(sub.Id) ?? null,
+    }));
 
     return {
       subscriptions: subscriptionsWithTags,
       billingData,
       organizationId,
       monthsBack,
+      tagFetchFailures: failures,
     };
   }
 
+  /**
+   * Get daily costs for an organization from the usage cost endpoint, one entry per day of the range
+   * (days without usage rows count as zero). Returns no days when the endpoint has no dated rows.
+   */
+  async getDailyCosts(
+    organizationId: number,
+    from: string,
+    to: string
+  ): Promise<{ currency: string | null; days: Array<{ date: string; cost: number }> }> {
+    const token = await this.authenticate();
+
+    const response = await this.get(`/usagecost/organization/${organizationId}/?from=${from}&to=${to}`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+    const rawRows: any[] = Array.isArray(response.data) ? response.data : response.data?.Items || [];
+    const rows = rawRows.map(decodeUsageCost).filter((row): row is UsageCost => row !== null);
+    if (rows.length === 0) {
+      return { currency: null, days: [] };
+    }
+
+    const priced = rows.map((row) => ({ TotalSalesPrice: row.TotalSalesPrice, StartDate: row.Date }));
+    const costs = this.normalizeCosts(priced);
+    const costByDay = new Map<string, number>();
+    priced.forEach((row) => {
+      const day = row.StartDate.slice(0, 10);
+      costByDay.set(day, (costByDay.get(day) || 0) + costs.costOf(row));
+    });
+
+    const days: Array<{ date: string; cost: number }> = [];
+    for (let day = new Date(`${from.slice(0, 10)}T00:00:00Z`); day <= new Date(`${to.slice(0, 10)}T00:00:00Z`); day.setUTCDate(day.getUTCDate() + 1)) {
+      const key = day.toISOString().slice(0, 10);
+      days.push({ date: key, cost: costByDay.get(key) || 0 });
+    }
+
+    return { currency: costs.currency, days };
+  }
+
   /**
    * Get total Azure costs for a date range
    */
@@ -445,7 +1511,7 @@ export class CrayonApiClient {
     
     try {
       // Try organization-level endpoint first
-      const response = await this.apiClient.get(
+      const response = await this.get(
         `/usagecost/organization/${organizationId}/?from=${from}&to=${to}`,
         {
           headers: {
@@ -475,82 +1541,166 @@ export class CrayonApiClient {
   }
 
   /**
-   * Get Azure costs by subscription for a date range
+   * Get Azure costs for a subscription over a date range (YYYY-MM-DD, both inclusive).
+   * Every calendar month in the range is fetched whole from the usage cost endpoint, falling back
+   * to the month's usage CSV when that fails. Costs reported for a period rather than a day are
+   * spread evenly over its days, so months cut by the range edges are pro-rated. Returns one
+   * zero-filled daily series with per-month subtotals.
    */
   async getAzureCostsBySubscription(azurePlanId: number, subscriptionId: number, from: string, to: string): Promise<any> {
     const token = await this.authenticate();
-    
-    try {
-      // Parse dates to get year and month
-      const fromDate = new Date(from);
-      const toDate = new Date(to);
 
-      // For simplicity, use the start month/year if dates don't align
-      const year = fromDate.getFullYear();
-      const month = fromDate.getMonth() + 1;
+    const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+    const rangeFrom = from.slice(0, 10);
+    const rangeTo = to.slice(0, 10);
+    const months: string[] = [];
+    for (let date = new Date(`${rangeFrom.slice(0, 7)}-01T00:00:00Z`); dayKey(date) <= rangeTo; date.setUTCMonth(date.getUTCMonth() + 1)) {
+      months.push(dayKey(date).slice(0, 7));
+    }
+    if (rangeFrom > rangeTo || months.length > 12) {
+      throw new Error('Date range must run forward and cover at most 12 calendar months');
+    }
 
-      const response = await this.apiClient.get(
-        `/usagecost/resellerCustomer/${azurePlanId}/subscription/${subscriptionId}/category/azure/?from=${from}&to=${to}`,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
+    const costs = this.fx.streamNormalizer();
+    const costByDay = new Map<string, number>();
+    const originalTotals: Record<string, number> = {};
+    const monthDetails: any[] = [];
+
+    // Each month is collected on its own and only added to the totals once it is complete, so a
+    // source that fails part-way through leaves nothing behind for the fallback to double count
+    type MonthCosts = { costByDay: Map<string, number>; originalTotals: Record<string, number> };
+    const emptyMonth = (): MonthCosts => ({ costByDay: new Map(), originalTotals: {} });
+
+    /**
+     * Spread a cost evenly over its days [start, endExclusive) and keep the share inside the range
+     * @returns Whether part of the cost fell outside the range
+     */
+    const addCost = (into: MonthCosts, price: Money, start: Date, endExclusive: Date): boolean => {
+      const amount = costs.costOf(price, dayKey(start));
+      const dayCount = Math.max(1, Math.round((endExclusive.getTime() - start.getTime()) / 86400000));
+      let daysInRange = 0;
+      for (let i = 0; i < dayCount; i++) {
+        const day = dayKey(new Date(start.getTime() + i * 86400000));
+        if (day < rangeFrom || day > rangeTo) continue;
+        into.costByDay.set(day, (into.costByDay.get(day) || 0) + amount / dayCount);
+        daysInRange++;
+      }
+      into.originalTotals[price.currency] = (into.originalTotals[price.currency] || 0) + (price.amount * daysInRange) / dayCount;
+      return daysInRange < dayCount;
+    };
 
-      return response.data;
-    } catch (error) {
-      // Fallback: try to get Azure usage CSV
-      console.warn(`Subscription-level cost endpoint failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      
-      const fromDate = new Date(from);
-      const year = fromDate.getFullYear();
-      const month = fromDate.getMonth() + 1;
+    for (const month of months) {
+      const monthStart = new Date(`${month}-01T00:00:00Z`);
+      const nextMonth = new Date(monthStart);
+      nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+      const monthEnd = dayKey(new Date(nextMonth.getTime() - 86400000));
+      let source = 'usage_cost';
+      let proRated = false;
+      let monthCosts = emptyMonth();
 
       try {
-        const usageData = await this.getAzureUsage({ azurePlanId, subscriptionId, year, month });
-        return {
-          azurePlanId,
-          subscriptionId,
-          from,
-          to,
-          usageData,
-          source: 'usage_csv_fallback',
-        };
-      } catch (usageError) {
-        throw new Error(`Failed to fetch costs: ${usageError instanceof Error ? usageError.message : 'Unknown error'}`);
+        const response = await this.get(
+          `/usagecost/resellerCustomer/${azurePlanId}/subscription/${subscriptionId}/category/azure/?from=${month}-01&to=${monthEnd}`,
+          {
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+          }
+        );
+
+        const rawRows: any[] = Array.isArray(response.data) ? response.data : response.data?.Items || [];
+        rawRows.forEach((raw) => {
+          const price = decodeMoney(raw?.TotalSalesPrice ?? raw?.TotalCost ?? raw?.Cost, raw?.CurrencyCode);
+          const day = raw?.Date ?? raw?.UsageDate;
+          const start = new Date(`${String(day ?? raw?.StartDate ?? `${month}-01`).slice(0, 10)}T00:00:00Z`);
+          let end = new Date(start.getTime() + 86400000);
+
+          if (!day && raw?.EndDate) {
+            // A midnight EndDate timestamp is the first instant after the period; a plain date is its last day
+            const endText = String(raw.EndDate);
+            const endDay = new Date(`${endText.slice(0, 10)}T00:00:00Z`);
+            const exclusive = /T00:00(:00(\.0+)?)?(Z|[+-]\d{2}:?\d{2})?$/.test(endText);
+            const periodEnd = exclusive ? endDay : new Date(endDay.getTime() + 86400000);
+            if (periodEnd > start) end = periodEnd;
+          }
+
+          if (addCost(monthCosts, price, start, end)) proRated = true;
+        });
+      } catch (error) {
+        // Mixed currencies are a configuration problem the CSV would hit as well
+        if (error instanceof CurrencyConversionError) throw error;
+
+        // Fallback: the month's usage CSV, which has one row per resource, meter and day
+        console.warn(`Subscription-level cost endpoint failed for ${month}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        source = 'usage_csv';
+        proRated = false;
+        monthCosts = emptyMonth();
+
+        try {
+          const params = { azurePlanId, subscriptionId, year: monthStart.getUTCFullYear(), month: monthStart.getUTCMonth() + 1 };
+          for await (const row of this.streamAzureUsageRows(params)) {
+            const day = new Date(`${row.Date}T00:00:00Z`);
+            addCost(monthCosts, row.Cost, day, new Date(day.getTime() + 86400000));
+          }
+        } catch (usageError) {
+          if (usageError instanceof CurrencyConversionError || usageError instanceof AmountDecodeError) throw usageError;
+          throw new Error(`Failed to fetch costs: ${usageError instanceof Error ? usageError.message : 'Unknown error'}`);
+        }
       }
+
+      monthCosts.costByDay.forEach((cost, day) => costByDay.set(day, (costByDay.get(day) || 0) + cost));
+      Object.entries(monthCosts.originalTotals).forEach(([currency, amount]) => {
+        originalTotals[currency] = (originalTotals[currency] || 0) + amount;
+      });
+
+      const firstDay = month === rangeFrom.slice(0, 7) ? rangeFrom : `${month}-01`;
+      const lastDay = month === rangeTo.slice(0, 7) ? rangeTo : monthEnd;
+      monthDetails.push({ month, from: firstDay, to: lastDay, source, proRated });
+    }
+
+    const round = (value: number) => parseFloat(value.toFixed(2));
+    const daily: Array<{ date: string; cost: number }> = [];
+    for (let day = new Date(`${rangeFrom}T00:00:00Z`); dayKey(day) <= rangeTo; day.setUTCDate(day.getUTCDate() + 1)) {
+      daily.push({ date: dayKey(day), cost: round(costByDay.get(dayKey(day)) || 0) });
     }
+
+    const subtotal = (month: string) =>
+      Array.from(costByDay.entries()).reduce((sum, [day, cost]) => (day.startsWith(month) ? sum + cost : sum), 0);
+
+    return {
+      azurePlanId,
+      subscriptionId,
+      from: rangeFrom,
+      to: rangeTo,
+      currency: costs.totals().currency,
+      total: round(Array.from(costByDay.values()).reduce((sum, cost) => sum + cost, 0)),
+      originalTotals: Object.fromEntries(Object.entries(originalTotals).map(([currency, amount]) => [currency, round(amount)])),
+      months: monthDetails.map((detail) => ({ ...detail, subtotal: round(subtotal(detail.month)) })),
+      daily,
+    };
   }
 
   /**
    * Get cost trends over multiple months
    */
-  async getCostTrends(organizationId: number, monthsBack: number = 6): Promise<any> {
-    const token = await this.authenticate();
-    
-    const historicalData = await this.getHistoricalBilling(organizationId, monthsBack);
+  async getCostTrends(organizationId: number, monthsBack: number = 6, source: CostSource = 'api'): Promise<CostTrendsResult> {
+    const historicalData = await this.billingHistory(organizationId, monthsBack, source);
+    const costs = this.normalizeCosts(historicalData.Items);
     const costsByMonth: { [key: string]: number } = {};
+    const pricesByMonth: { [key: string]: Money[] } = {};
     
     // Aggregate costs by month
-    if (historicalData.Items) {
-      historicalData.Items.forEach((item: any) => {
-        // Extract month from StartDate (format: 2025-10-01T00:00:00+00:00)
-        const startDate = item.StartDate ? new Date(item.StartDate) : null;
-        const month = startDate 
-          ? `${startDate.getFullYear()}-${String(startDate.getMonth() + 1).padStart(2, '0')}` 
-          : 'unknown';
-        
-        // Extract numeric value from TotalSalesPrice object
-        const cost = item.TotalSalesPrice?.Value || 0;
-        costsByMonth[month] = (costsByMonth[month] || 0) + cost;
-      });
-    }
+    historicalData.Items.forEach((item) => {
+      const month = this.billingMonth(item);
+      costsByMonth[month] = (costsByMonth[month] || 0) + costs.costOf(item);
+      if (!pricesByMonth[month]) pricesByMonth[month] = [];
+      pricesByMonth[month].push(item.TotalSalesPrice);
+    });
 
     // Calculate month-over-month changes
     const trends = Object.entries(costsByMonth)
       .sort()
-      .reduce((acc: any[], [month, cost], idx, arr) => {
+      .reduce((acc: CostTrend[], [month, cost], idx, arr) => {
         if (idx > 0) {
           const prevCost = arr[idx - 1][1] as number;
           const change = cost - prevCost;
@@ -558,12 +1708,20 @@ export class CrayonApiClient {
           acc.push({
             month,
             cost,
+            originalCosts: sumByCurrency(pricesByMonth[month]),
             previousCost: prevCost,
             change,
             changePercent: parseFloat(changePercent.toFixed(2)),
           });
         } else {
-          acc.push({ month, cost, previousCost: null, change: null, changePercent: null });
+          acc.push({
+            month,
+            cost,
+            originalCosts: sumByCurrency(pricesByMonth[month]),
+            previousCost: null,
+            change: null,
+            changePercent: null,
+          });
         }
         return acc;
       }, []);
@@ -571,139 +1729,678 @@ export class CrayonApiClient {
     return {
       organizationId,
       monthsBack,
+      source,
+      currency: costs.currency,
       trends,
       summary: {
         totalMonths: trends.length,
-        averageMonthlyCost: trends.length > 0 ? trends.reduce((sum: number, t: any) => sum + t.cost, 0) / trends.length : 0,
-        highestMonth: trends.length > 0 ? trends.reduce((max: any, t: any) => (t.cost > max.cost ? t : max), trends[0]) : null,
-        lowestMonth: trends.length > 0 ? trends.reduce((min: any, t: any) => (t.cost < min.cost ? t : min), trends[0]) : null,
+        totalCost: costs.totals.total,
+        originalTotals: costs.totals.originalTotals,
+        averageMonthlyCost: trends.length > 0 ? trends.reduce((sum, t) => sum + t.cost, 0) / trends.length : 0,
+        highestMonth: trends.length > 0 ? trends.reduce((max, t) => (t.cost > max.cost ? t : max), trends[0]) : null,
+        lowestMonth: trends.length > 0 ? trends.reduce((min, t) => (t.cost < min.cost ? t : min), trends[0]) : null,
       },
     };
   }
 
   /**
-   * Detect cost anomalies - find subscriptions with significant changes
+   * Forecast costs: month-end projection for the current month from the daily run rate, and the
+   * next months from complete historical months using the selected model
    */
-  async detectCostAnomalies(organizationId: number, monthsBack: number = 3, changeThresholdPercent: number = 25): Promise<any> {
-    const token = await this.authenticate();
-    
-    // Get subscriptions and their cost history
-    const subscriptions = await this.getSubscriptions(organizationId);
-    const billingData = await this.getHistoricalBilling(organizationId, monthsBack);
+  async forecastCosts(
+    organizationId: number,
+    options: {
+      horizonMonths: number;
+      model: ForecastModel;
+      historyMonths: number;
+      confidenceLevel: number;
+      movingAverageWindow?: number;
+    }
+  ): Promise<any> {
+    const { horizonMonths, model, historyMonths, confidenceLevel, movingAverageWindow } = options;
+    const warnings: string[] = [];
+    const now = new Date();
+    const currentMonth = this.billingMonth({ StartDate: now.toISOString() });
+
+    // Monthly history; the current month is partial and only used for the run-rate projection
+    const history = await this.getCostsByDimension(organizationId, 'month', { monthsBack: historyMonths });
+    const completeMonths = history.months.filter((month) => month !== currentMonth && month !== 'unknown');
+    const values = completeMonths.map((month) => history.groups.find((group) => group.label === month)?.total ?? 0);
+
+    // Step 1 of the model is the current month; the requested horizon follows it
+    const result = forecastSeries(values, horizonMonths + 1, model, confidenceLevel, { movingAverageWindow });
+    warnings.push(...result.warnings);
+
+    const monthAfter = (offset: number) => {
+      const date = new Date(now.getFullYear(), now.getMonth() + offset, 1);
+      return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    };
+    const points = result.points.map((p) => ({
+      month: monthAfter(p.step - 1),
+      forecast: p.forecast,
+      lower: p.lower,
+      upper: p.upper,
+    }));
 
-    const anomalies: any[] = [];
-    
-    // Group billing data by subscription
-    const costsBySubscription: { [key: string]: any[] } = {};
-    if (billingData.Items) {
-      billingData.Items.forEach((item: any) => {
-        const subId = item.SubscriptionId || 'unknown';
-        if (!costsBySubscription[subId]) costsBySubscription[subId] = [];
-        costsBySubscription[subId].push(item);
-      });
+    // Month-end projection from complete days of the current month
+    let monthEnd: any = null;
+    const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+    const toDay = (date: Date) =>
+      `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+    if (now.getDate() === 1) {
+      warnings.push('No complete days in the current month yet; month-end projection is not available');
+    } else {
+      let dailyCosts: number[] = [];
+      let source = 'usage_cost';
+      let currency = history.currency;
+
+      try {
+        const daily = await this.getDailyCosts(organizationId, toDay(monthStart), toDay(yesterday));
+        dailyCosts = daily.days.map((day) => day.cost);
+        currency = daily.currency ?? currency;
+      } catch (error) {
+        warnings.push(`Usage cost endpoint failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      if (dailyCosts.length === 0) {
+        // No daily usage rows - spread the month-to-date billed amount evenly over the elapsed days
+        const billingData = await this.getGroupedBillingStatements({
+          organizationId,
+          from: monthStart.toISOString(),
+          to: now.toISOString(),
+        });
+        const { totals } = this.normalizeCosts(billingData.Items);
+        const daysElapsed = now.getDate() - 1;
+        dailyCosts = Array.from({ length: daysElapsed }, () => totals.total / daysElapsed);
+        currency = totals.currency ?? currency;
+        source = 'billing_statements';
+        warnings.push('Daily usage costs unavailable; run rate is the month-to-date billed amount per day, without an interval');
+      }
+
+      if (history.currency && currency && currency !== history.currency) {
+        warnings.push(`Run-rate costs are in ${currency} but history is in ${history.currency}`);
+      }
+
+      monthEnd = {
+        month: currentMonth,
+        currency,
+        source,
+        ...projectMonthEnd(dailyCosts, daysInMonth, confidenceLevel),
+      };
     }
 
-    // Analyze trends for each subscription
-    Object.entries(costsBySubscription).forEach(([subId, costs]) => {
-      const sortedCosts = costs.sort((a: any, b: any) => new Date(a.Date || 0).getTime() - new Date(b.Date || 0).getTime());
-      
-      for (let i = 1; i < sortedCosts.length; i++) {
-        const current = sortedCosts[i].TotalSalesPrice || 0;
-        const previous = sortedCosts[i - 1].TotalSalesPrice || 0;
-        
-        if (previous > 0) {
-          const changePercent = ((current - previous) / previous) * 100;
-          
-          if (Math.abs(changePercent) > changeThresholdPercent) {
-            const sub = subscriptions.Items?.find((s: any) => s.Id.toString() === subId);
-            anomalies.push({
-              subscriptionId: subId,
-              subscriptionName: sub?.Name || 'Unknown',
-              previousCost: previous,
-              currentCost: current,
-              change: current - previous,
-              changePercent: parseFloat(changePercent.toFixed(2)),
-              date: sortedCosts[i].Date,
-            });
-          }
+    return {
+      organizationId,
+      currency: history.currency,
+      model: result.model,
+      confidenceLevel,
+      monthEnd,
+      history: completeMonths.map((month, idx) => ({ month, cost: values[idx] })),
+      currentMonthModelEstimate: points[0],
+      forecast: points.slice(1),
+      residualStdDev: result.residualStdDev,
+      warnings,
+    };
+  }
+
+  /**
+   * Detect cost anomalies - score each subscription's monthly cost against its own history.
+   * The analysis covers the last `monthsBack` complete months; every month is compared with the
+   * months before it using the selected method. Changes below `minAbsoluteChange` (in the result
+   * currency) or `changeThresholdPercent` are ignored, so large relative swings on tiny amounts
+   * are not reported. Subscriptions whose costs start or stop inside the window are reported as
+   * new or disappeared, and each anomaly lists the products that drove the change.
+   */
+  async detectCostAnomalies(
+    organizationId: number,
+    options: {
+      monthsBack?: number;
+      method?: AnomalyMethod;
+      baselineMonths?: number;
+      threshold?: number;
+      minAbsoluteChange?: number;
+      changeThresholdPercent?: number;
+      source?: CostSource;
+    } = {}
+  ): Promise<CostAnomaliesResult> {
+    const {
+      monthsBack = 3,
+      method = 'mad',
+      baselineMonths = 6,
+      threshold = DEFAULT_THRESHOLDS[method],
+      minAbsoluteChange = 100,
+      changeThresholdPercent = 25,
+      source = 'api',
+    } = options;
+
+    // Seasonal scoring compares with the same month a year earlier and needs two years for its spread
+    const historyMonths = method === 'seasonal' ? Math.max(baselineMonths, 24) : baselineMonths;
+    const now = new Date();
+    const months = Array.from({ length: historyMonths + monthsBack }, (_, idx) => {
+      const date = new Date(now.getFullYear(), now.getMonth() - historyMonths - monthsBack + idx, 1);
+      return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    });
+    const analysisStart = months.length - monthsBack;
+
+    const subscriptions = source === 'warehouse'
+      ? { Items: await this.requireWarehouse().subscriptions(organizationId) }
+      : await this.getAllSubscriptions(organizationId);
+    const billingData = await this.billingHistory(organizationId, historyMonths + monthsBack, source);
+    const normalized = this.normalizeCosts(billingData.Items);
+
+    // Monthly cost and statements per subscription
+    const bySubscription = new Map<string, { name?: string; byMonth: Record<string, number>; items: Record<string, GroupedBillingStatement[]> }>();
+    billingData.Items.forEach((item) => {
+      const month = this.billingMonth(item);
+      if (!months.includes(month)) return;
+
+      const subId = String(item.SubscriptionId ?? 'unknown');
+      const entry = bySubscription.get(subId) ?? { name: item.SubscriptionName, byMonth: {}, items: {} };
+      entry.byMonth[month] = (entry.byMonth[month] || 0) + normalized.costOf(item);
+      (entry.items[month] ??= []).push(item);
+      bySubscription.set(subId, entry);
+    });
+
+    const driverLabel = (item: GroupedBillingStatement) =>
+      item.Product?.Name || (item.ProvisionType ? `${item.ProvisionType} charges` : 'Other charges');
+    const round = (value: number) => parseFloat(value.toFixed(2));
+    const formatAmount = (value: number) => `${Math.abs(value).toFixed(2)}${normalized.currency ? ` ${normalized.currency}` : ''}`;
+
+    /**
+     * Break the change in `month` down by product against the product's average over the baseline months
+     */
+    const explainChange = (items: Record<string, GroupedBillingStatement[]>, month: string, baseline: string[], change: number) => {
+      const contributions = new Map<string, { actual: number; expected: number }>();
+      const add = (item: GroupedBillingStatement, field: 'actual' | 'expected', weight: number) => {
+        const label = driverLabel(item);
+        const entry = contributions.get(label) ?? { actual: 0, expected: 0 };
+        entry[field] += normalized.costOf(item) * weight;
+        contributions.set(label, entry);
+      };
+      (items[month] ?? []).forEach((item) => add(item, 'actual', 1));
+      baseline.forEach((m) => (items[m] ?? []).forEach((item) => add(item, 'expected', 1 / baseline.length)));
+
+      return Array.from(contributions.entries())
+        .map(([label, { actual, expected }]) => ({ label, actual: round(actual), expected: round(expected), change: round(actual - expected) }))
+        .filter((driver) => Math.sign(driver.change) === Math.sign(change) && driver.change !== 0)
+        .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+        .slice(0, 3);
+    };
+
+    const anomalies: CostAnomaly[] = [];
+    let seasonalFallbacks = 0;
+
+    bySubscription.forEach((entry, subId) => {
+      const values = months.map((month) => entry.byMonth[month] || 0);
+      const firstActive = values.findIndex((value) => value !== 0);
+      const lastActive = values.length - 1 - [...values].reverse().findIndex((value) => value !== 0);
+      if (firstActive < 0) return;
+
+      const sub = subscriptions.Items.find((s) => s.Id.toString() === subId);
+      const subscriptionName = sub?.Name || entry.name || 'Unknown';
+
+      for (let t = analysisStart; t < months.length; t++) {
+        const month = months[t];
+        const actual = values[t];
+        let type: 'spike' | 'drop' | 'new' | 'disappeared';
+        let expected: number;
+        let score: number | null = null;
+        let baseline: string[];
+
+        if (t === firstActive && firstActive > 0) {
+          // No cost in any earlier month of the history
+          type = 'new';
+          expected = 0;
+          baseline = [];
+        } else if (t === lastActive + 1) {
+          // No cost in this or any later month
+          type = 'disappeared';
+          expected = values[lastActive];
+          baseline = [months[lastActive]];
+        } else if (t > firstActive && t <= lastActive) {
+          // Only the months since the subscription's first cost count as its history
+          const scored = scoreValue(values.slice(firstActive, t), actual, method, baselineMonths);
+          if (!scored) continue;
+          if (method === 'seasonal' && scored.method !== 'seasonal') seasonalFallbacks++;
+          if (Math.abs(scored.score) < threshold) continue;
+
+          type = actual > scored.expected ? 'spike' : 'drop';
+          expected = scored.expected;
+          score = scored.score;
+          baseline = months.slice(Math.max(firstActive, t - baselineMonths), t);
+        } else {
+          continue;
         }
+
+        const change = actual - expected;
+        const changePercent = expected !== 0 ? (change / expected) * 100 : null;
+        if (Math.abs(change) < minAbsoluteChange) continue;
+        if (changePercent !== null && Math.abs(changePercent) < changeThresholdPercent) continue;
+
+        const drivers = explainChange(entry.items, month, baseline, change);
+        const description = type === 'new'
+          ? `New cost of ${formatAmount(actual)} in ${month} with no cost in earlier months`
+          : type === 'disappeared'
+            ? `No cost in ${month} after ${formatAmount(expected)} in ${months[lastActive]}`
+            : `${type === 'spike' ? 'Increase' : 'Decrease'} of ${formatAmount(change)} (${changePercent !== null ? `${changePercent.toFixed(1)}%` : 'n/a'}) in ${month} against an expected ${formatAmount(expected)}`;
+        const driverText = drivers.length > 0
+          ? `; driven by ${drivers.map((d) => `${d.label} (${d.change > 0 ? '+' : '-'}${formatAmount(d.change)})`).join(', ')}`
+          : '';
+
+        anomalies.push({
+          type,
+          subscriptionId: subId,
+          subscriptionName,
+          month,
+          actualCost: round(actual),
+          expectedCost: round(expected),
+          change: round(change),
+          changePercent: changePercent !== null ? parseFloat(changePercent.toFixed(2)) : null,
+          score: score !== null ? parseFloat(score.toFixed(2)) : null,
+          drivers,
+          explanation: description + driverText,
+        });
       }
     });
 
-    // Sort by highest change
-    anomalies.sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent));
+    // Largest absolute changes first
+    anomalies.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+    const warnings: string[] = [];
+    if (seasonalFallbacks > 0) {
+      warnings.push(
+        `${seasonalFallbacks} subscription-months had less than 13 months of history; scored with median absolute deviation instead of seasonal decomposition`
+      );
+    }
 
     return {
       organizationId,
+      source,
+      method,
       monthsBack,
+      baselineMonths,
+      threshold,
+      minAbsoluteChange,
       changeThresholdPercent,
+      analyzedMonths: months.slice(analysisStart),
+      currency: normalized.currency,
       anomaliesFound: anomalies.length,
       anomalies: anomalies.slice(0, 50), // Top 50 anomalies
       summary: {
-        totalSubscriptionsAnalyzed: Object.keys(costsBySubscription).length,
-        highestIncrease: anomalies.find((a: any) => a.changePercent > 0),
-        highestDecrease: anomalies.find((a: any) => a.changePercent < 0),
+        totalSubscriptionsAnalyzed: bySubscription.size,
+        newSubscriptions: anomalies.filter((a) => a.type === 'new').length,
+        disappearedSubscriptions: anomalies.filter((a) => a.type === 'disappeared').length,
+        highestIncrease: anomalies.find((a) => a.change > 0),
+        highestDecrease: anomalies.find((a) => a.change < 0),
       },
+      warnings,
     };
   }
 
   /**
-   * Analyze costs by tags (cost centers, departments, etc.)
+   * Detect day-level cost spikes in an Azure plan's usage.
+   * Daily cost is tracked per subscription, resource group and meter category; each of the last
+   * `days` complete days is scored against the trailing `baselineDays`. Only increases are reported,
+   * since the most recent usage days are often incomplete. Each finding lists the resources that
+   * contributed most to the increase.
    */
-  async analyzeCostsByTags(organizationId: number, monthsBack: number = 3): Promise<any> {
-    const token = await this.authenticate();
-    
-    // Get all subscriptions with their tags
-    const subscriptions = await this.getSubscriptions(organizationId);
-    const billingData = await this.getHistoricalBilling(organizationId, monthsBack);
+  async detectDailyAnomalies(
+    azurePlanId: number,
+    options: {
+      days?: number;
+      baselineDays?: number;
+      method?: Exclude<AnomalyMethod, 'seasonal'>;
+      threshold?: number;
+      minAbsoluteChange?: number;
+      changeThresholdPercent?: number;
+    } = {}
+  ): Promise<any> {
+    const {
+      days = 7,
+      baselineDays = 14,
+      method = 'mad',
+      threshold = DEFAULT_THRESHOLDS[method],
+      minAbsoluteChange = 50,
+      changeThresholdPercent = 50,
+    } = options;
+
+    // Today's usage is never complete, so the analysis ends yesterday
+    const now = new Date();
+    const toDay = (date: Date) =>
+      `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    const dayList = Array.from({ length: baselineDays + days }, (_, idx) =>
+      toDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - baselineDays - days + idx))
+    );
+    const analysisStart = dayList.length - days;
+    const daySet = new Set(dayList);
 
-    // Fetch tags for each subscription
-    const subscriptionsWithTags = await Promise.all(
-      (subscriptions.Items || []).map(async (sub: any) => {
-        try {
-          const tags = await this.getSubscriptionTags(sub.Id);
-          return { ...sub, tags: tags || {} };
-        } catch (error) {
-          return { ...sub, tags: {} };
+    const months = Array.from(new Set(dayList.map((day) => day.slice(0, 7)))).map((month) => ({
+      year: Number(month.slice(0, 4)),
+      month: Number(month.slice(5, 7)),
+    }));
+
+    const subscriptions = await this.getAzurePlanSubscriptions(azurePlanId);
+    const requests = subscriptions.Items.flatMap((sub) => months.map((period) => ({ sub, ...period })));
+    const fetchFailures: Array<{ subscriptionId: number; month: string; error: string }> = [];
+
+    // Azure plans are queued under their own key, as the plan's organization is not known here
+    const fetched = await Promise.all(requests.map(({ sub, year, month }) =>
+      this.scheduler.schedule(`azurePlan:${azurePlanId}`, async () => {
+        const subscription = sub.Name || String(sub.Id);
+        const rows: Array<{ row: AzureUsageRow; subscription: string }> = [];
+        for await (const row of this.streamAzureUsageRows({ azurePlanId, subscriptionId: sub.Id, year, month })) {
+          if (daySet.has(row.Date)) rows.push({ row, subscription });
         }
+        return rows;
+      }).catch((error) => {
+        fetchFailures.push({
+          subscriptionId: sub.Id,
+          month: `${year}-${String(month).padStart(2, '0')}`,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return [] as Array<{ row: AzureUsageRow; subscription: string }>;
       })
-    );
+    ));
+    const usage = fetched.flat();
+
+    const priced = usage.map(({ row }) => ({ TotalSalesPrice: row.Cost, StartDate: row.Date }));
+    const normalized = this.normalizeCosts(priced);
+    const costs = priced.map((item) => normalized.costOf(item));
+
+    // Daily cost and contributing rows per dimension value
+    type Series = { dimension: string; key: string; byDay: Map<string, number[]> };
+    const series = new Map<string, Series>();
+    const addTo = (dimension: string, key: string, day: string, idx: number) => {
+      const id = `${dimension}\u0000${key}`;
+      const entry = series.get(id) ?? { dimension, key, byDay: new Map<string, number[]>() };
+      const rows = entry.byDay.get(day) ?? [];
+      rows.push(idx);
+      entry.byDay.set(day, rows);
+      series.set(id, entry);
+    };
+    usage.forEach(({ row, subscription }, idx) => {
+      addTo('subscription', subscription, row.Date, idx);
+      addTo('resourceGroup', `${subscription}/${row.ResourceGroup}`, row.Date, idx);
+      addTo('meterCategory', row.MeterCategory, row.Date, idx);
+    });
+
+    const round = (value: number) => parseFloat(value.toFixed(2));
+    const formatAmount = (value: number) => `${Math.abs(value).toFixed(2)}${normalized.currency ? ` ${normalized.currency}` : ''}`;
+    const costOfDay = (entry: Series, day: string) => (entry.byDay.get(day) ?? []).reduce((sum, idx) => sum + costs[idx], 0);
+
+    /**
+     * Resources whose cost on `day` rose most above their average over the baseline days
+     */
+    const topResources = (entry: Series, day: string, baseline: string[]) => {
+      const byResource = new Map<string, { row: AzureUsageRow; actual: number; expected: number }>();
+      const add = (idx: number, field: 'actual' | 'expected', weight: number) => {
+        const { row } = usage[idx];
+        const key = row.ResourceId || `${row.ResourceGroup}/${row.MeterCategory}`;
+        const resource = byResource.get(key) ?? { row, actual: 0, expected: 0 };
+        resource[field] += costs[idx] * weight;
+        byResource.set(key, resource);
+      };
+      (entry.byDay.get(day) ?? []).forEach((idx) => add(idx, 'actual', 1));
+      baseline.forEach((d) => (entry.byDay.get(d) ?? []).forEach((idx) => add(idx, 'expected', 1 / baseline.length)));
+
+      return Array.from(byResource.entries())
+        .map(([resourceId, { row, actual, expected }]) => ({
+          resourceId,
+          resourceGroup: row.ResourceGroup,
+          meterCategory: row.MeterCategory,
+          actualCost: round(actual),
+          expectedCost: round(expected),
+          change: round(actual - expected),
+        }))
+        .filter((resource) => resource.change > 0)
+        .sort((a, b) => b.change - a.change)
+        .slice(0, 5);
+    };
+
+    const anomalies: any[] = [];
+    series.forEach((entry) => {
+      const values = dayList.map((day) => costOfDay(entry, day));
+      const firstActive = values.findIndex((value) => value !== 0);
+      if (firstActive < 0) return;
+
+      for (let t = Math.max(analysisStart, firstActive); t < dayList.length; t++) {
+        const day = dayList[t];
+        const actual = values[t];
+        let expected = 0;
+        let score: number | null = null;
+        let type: 'spike' | 'new' = 'new';
+
+        // The first day with cost is new; later days are scored against the days before them
+        if (t > firstActive) {
+          const scored = scoreValue(values.slice(firstActive, t), actual, method, baselineDays);
+          if (!scored || scored.score < threshold) continue;
+          type = 'spike';
+          expected = scored.expected;
+          score = scored.score;
+        }
+
+        const change = actual - expected;
+        const changePercent = expected !== 0 ? (change / expected) * 100 : null;
+        if (change < minAbsoluteChange) continue;
+        if (changePercent !== null && changePercent < changeThresholdPercent) continue;
+
+        const resources = topResources(entry, day, dayList.slice(Math.max(firstActive, t - baselineDays), t));
+        const description = type === 'new'
+          ? `New daily cost of ${formatAmount(actual)} for ${entry.dimension} ${entry.key} on ${day}`
+          : `${entry.dimension} ${entry.key} cost ${formatAmount(actual)} on ${day} against an expected ${formatAmount(expected)} (+${changePercent !== null ? changePercent.toFixed(1) : 'n/a'}%)`;
+        const resourceText = resources.length > 0
+          ? `; top resources: ${resources.slice(0, 3).map((r) => `${r.resourceId} (+${formatAmount(r.change)})`).join(', ')}`
+          : '';
+
+        anomalies.push({
+          type,
+          dimension: entry.dimension,
+          key: entry.key,
+          date: day,
+          actualCost: round(actual),
+          expectedCost: round(expected),
+          change: round(change),
+          changePercent: changePercent !== null ? parseFloat(changePercent.toFixed(2)) : null,
+          score: score !== null ? parseFloat(score.toFixed(2)) : null,
+          topResources: resources,
+          explanation: description + resourceText,
+        });
+      }
+    });
+
+    // Most recent first, then largest increase
+    anomalies.sort((a, b) => b.date.localeCompare(a.date) || b.change - a.change);
+
+    return {
+      azurePlanId,
+      method,
+      threshold,
+      minAbsoluteChange,
+      changeThresholdPercent,
+      period: { from: dayList[analysisStart], to: dayList[dayList.length - 1] },
+      baseline: { from: dayList[0], days: baselineDays },
+      currency: normalized.currency,
+      subscriptionsAnalyzed: subscriptions.Items.length,
+      anomaliesFound: anomalies.length,
+      anomalies: anomalies.slice(0, 50),
+      fetchFailures,
+    };
+  }
 
-    // Create subscription ID to tags mapping
-    const subIdToTags = new Map(subscriptionsWithTags.map((s: any) => [s.Id, s.tags]));
+  /**
+   * Analyze costs by tags (cost centers, departments, etc.)
+   */
+  async analyzeCostsByTags(
+    organizationId: number,
+    monthsBack: number = 3,
+    source: CostSource = 'api',
+    attribution: TagAttribution = 'historical'
+  ): Promise<TagCostsResult> {
+    const billingData = await this.billingHistory(organizationId, monthsBack, source);
+
+    // Current tags come from the API. Historical attribution uses the tag history; subscriptions
+    // without history fall back to current tags, or to each month's tag snapshot in the warehouse.
+    const useSnapshots = source === 'warehouse' && attribution === 'historical';
+    const subscriptions = source === 'warehouse'
+      ? { Items: await this.requireWarehouse().subscriptions(organizationId) }
+      : await this.getAllSubscriptions(organizationId);
+    const { tagsById: subIdToTags, failures } = useSnapshots
+      ? { tagsById: new Map<number, TagSet>(), failures: [] as TagFetchFailure[] }
+      : await this.fetchTagsForSubscriptions(organizationId, subscriptions.Items || []);
+    const histories = attribution === 'historical' ? this.tagHistory.forOrganization(organizationId) : null;
 
     // Aggregate costs by tag
+    const costs = this.normalizeCosts(billingData.Items);
     const costsByTag: { [key: string]: { [key: string]: number } } = {};
+    let costFromHistory = 0;
     
     if (billingData.Items) {
-      billingData.Items.forEach((item: any) => {
+      billingData.Items.forEach((item) => {
         const subId = item.SubscriptionId;
-        const cost = item.TotalSalesPrice || 0;
-        const tags = subIdToTags.get(subId) || {};
-
-        // Aggregate by each tag key-value pair
-        Object.entries(tags).forEach(([tagKey, tagValue]: [string, any]) => {
-          if (!costsByTag[tagKey]) costsByTag[tagKey] = {};
-          const tagVal = String(tagValue);
-          costsByTag[tagKey][tagVal] = (costsByTag[tagKey][tagVal] || 0) + cost;
+        const cost = costs.costOf(item);
+        const fallback = useSnapshots ? (item as WarehouseStatement).Tags : subIdToTags.get(subId) || {};
+        const { shares, covered } = this.tagSharesOf(item, fallback, histories);
+        costFromHistory += cost * covered;
+
+        // Aggregate by each tag key-value pair, splitting the cost when tags changed mid-month
+        shares.forEach(({ tags, share }) => {
+          Object.entries(tags).forEach(([tagKey, tagValue]: [string, any]) => {
+            if (!costsByTag[tagKey]) costsByTag[tagKey] = {};
+            const tagVal = String(tagValue);
+            costsByTag[tagKey][tagVal] = (costsByTag[tagKey][tagVal] || 0) + cost * share;
+          });
         });
       });
     }
 
     // Format results
-    const costBreakdown = Object.entries(costsByTag).map(([tagKey, values]) => ({
+    const costBreakdown: TagCostBreakdown[] = Object.entries(costsByTag).map(([tagKey, values]) => ({
       tag: tagKey,
       breakdown: Object.entries(values)
         .map(([value, cost]) => ({ value, cost }))
-        .sort((a: any, b: any) => b.cost - a.cost),
+        .sort((a, b) => b.cost - a.cost),
       total: Object.values(values).reduce((sum: number, cost: number) => sum + cost, 0),
     }));
 
     return {
       organizationId,
       monthsBack,
-      subscriptionsAnalyzed: subscriptionsWithTags.length,
+      source,
+      attribution,
+      ...(histories ? { historyCoverage: this.historyCoverage(costFromHistory, costs.totals.total, histories) } : {}),
+      subscriptionsAnalyzed: (subscriptions.Items || []).length,
+      currency: costs.currency,
+      totals: costs.totals,
       costBreakdown,
+      tagFetchFailures: failures,
+    };
+  }
+
+  /**
+   * Run a cost query (see utils/cost-query) over the organization's grouped billing statements.
+   * The month range comes from the query's month conditions, defaulting to the last 12 months;
+   * only that range is fetched, so nothing from the query text reaches the API.
+   */
+  async queryCosts(
+    organizationId: number,
+    queryText: string,
+    options: { source?: CostSource; attribution?: TagAttribution } = {}
+  ): Promise<any> {
+    const { source = 'api', attribution = 'historical' } = options;
+    const started = Date.now();
+    const timeoutMs = parseInt(process.env.QUERY_TIMEOUT_MS || '30000', 10);
+    const maxMonths = parseInt(process.env.QUERY_MAX_MONTHS || '24', 10);
+    const maxRows = parseInt(process.env.QUERY_MAX_ROWS || '1000', 10);
+    const deadline = started + timeoutMs;
+
+    const query = parseCostQuery(queryText);
+    const monthOf = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const currentMonth = monthOf(new Date());
+    const bounds = queryMonthBounds(query);
+    const toMonth = bounds.to && bounds.to < currentMonth ? bounds.to : currentMonth;
+    const [toYear, toMonthNumber] = toMonth.split('-').map(Number);
+    const fromMonth = bounds.from ?? monthOf(new Date(toYear, toMonthNumber - 12, 1));
+    if (fromMonth > toMonth) {
+      throw new CostQueryError(`The month conditions select no months up to ${currentMonth}`);
+    }
+
+    const [fromYear, fromMonthNumber] = fromMonth.split('-').map(Number);
+    const months = this.monthsOfRange(new Date(fromYear, fromMonthNumber - 1, 1), new Date(toYear, toMonthNumber - 1, 1));
+    if (months.length > maxMonths) {
+      throw new CostQueryError(
+        `The query spans ${months.length} months (${fromMonth} to ${toMonth}); narrow it to ${maxMonths} months or fewer with month conditions`
+      );
+    }
+
+    const loadStatements = async (signal: AbortSignal): Promise<Array<GroupedBillingStatement | WarehouseStatement>> => {
+      if (source === 'warehouse') {
+        const warehouse = this.requireWarehouse();
+        const synced = await warehouse.syncedMonths(organizationId);
+        const missing = months.filter((month) => !synced.has(month));
+        if (missing.length > 0) {
+          throw new CostQueryError(`Warehouse has no billing data for ${missing.join(', ')}; run sync_warehouse for these months first`);
+        }
+        return warehouse.statements(organizationId, fromMonth, toMonth);
+      }
+      const lastDay = new Date(toYear, toMonthNumber, 0).getDate();
+      const billing = await this.getGroupedBillingStatements(
+        { organizationId, from: `${fromMonth}-01`, to: `${toMonth}-${String(lastDay).padStart(2, '0')}` },
+        signal
+      );
+      return billing.Items.filter((item) => months.includes(this.billingMonth(item)));
+    };
+    const statements = await withQueryDeadline(loadStatements, deadline, timeoutMs);
+
+    // Tags are only fetched when the query reads them, attributed like analyzeCostsByTags
+    const useTags = query.tagKeys.length > 0;
+    const useSnapshots = source === 'warehouse' && attribution === 'historical';
+    let tagsById = new Map<number, TagSet>();
+    let tagFetchFailures: TagFetchFailure[] = [];
+    if (useTags && !useSnapshots) {
+      const subscriptions = await withQueryDeadline(() => this.getAllSubscriptions(organizationId), deadline, timeoutMs);
+      ({ tagsById, failures: tagFetchFailures } = await withQueryDeadline(
+        () => this.fetchTagsForSubscriptions(organizationId, subscriptions.Items),
+        deadline,
+        timeoutMs
+      ));
+    }
+    const histories = useTags && attribution === 'historical' ? this.tagHistory.forOrganization(organizationId) : null;
+
+    const costs = this.normalizeCosts(statements);
+    const rows: CostQueryRow[] = statements.flatMap((item) => {
+      const row: CostQueryRow = {
+        month: this.billingMonth(item),
+        subscription: item.SubscriptionName ?? '',
+        subscriptionId: item.SubscriptionId !== undefined ? String(item.SubscriptionId) : '',
+        invoiceProfile: item.InvoiceProfile?.Name ?? '',
+        invoiceProfileId: item.InvoiceProfile?.Id !== undefined ? String(item.InvoiceProfile.Id) : '',
+        provisionType: item.ProvisionType ?? '',
+        product: item.Product?.Name ?? '',
+        publisher: item.Publisher?.Name ?? '',
+        currency: item.TotalSalesPrice.currency,
+        tags: {},
+        cost: costs.costOf(item),
+      };
+      if (!useTags) return [row];
+
+      const fallback = useSnapshots ? (item as WarehouseStatement).Tags : tagsById.get(item.SubscriptionId as number) || {};
+      return this.tagSharesOf(item, fallback, histories).shares.map(({ tags, share }) => ({ ...row, tags, cost: row.cost * share }));
+    });
+
+    const result = runCostQuery(query, rows, { maxRows, deadline, timeoutMs });
+
+    return {
+      organizationId,
+      source,
+      ...(useTags ? { attribution } : {}),
+      months: { from: fromMonth, to: toMonth },
+      currency: costs.currency,
+      ...result,
+      durationMs: Date.now() - started,
+      ...(useTags ? { tagFetchFailures } : {}),
     };
   }
 
@@ -714,7 +2411,7 @@ export class CrayonApiClient {
     const token = await this.authenticate();
     
     // Get all subscriptions
-    const subscriptions = await this.getSubscriptions(organizationId);
+    const subscriptions = await this.getAllSubscriptions(organizationId);
     
     // Filter by name pattern (case-insensitive regex)
     const pattern = new RegExp(namePattern, 'i');
@@ -723,31 +2420,30 @@ export class CrayonApiClient {
     );
 
     // Get invoices for matching subscriptions
-    const invoices = await this.getInvoices(organizationId);
+    const invoices = await this.getAllInvoices(organizationId);
     
-    const subscriptionsWithInvoices = await Promise.all(
-      matchingSubscriptions.map(async (sub: any) => {
-        const subInvoices = (invoices.Items || []).filter((inv: any) => 
-          inv.SubscriptionId === sub.Id
-        ).sort((a: any, b: any) => new Date(b.Date || 0).getTime() - new Date(a.Date || 0).getTime());
+    const { tagsById, failures } = await this.fetchTagsForSubscriptions(organizationId, matchingSubscriptions);
 
-        const tags = await this.getSubscriptionTags(sub.Id).catch(() => ({}));
+    const subscriptionsWithInvoices = matchingSubscriptions.map((sub: any) => {
+      const subInvoices = (invoices.Items || []).filter((inv: any) => 
+        inv.SubscriptionId === sub.Id
+      ).sort((a: any, b: any) => new Date(b.Date || 0).getTime() - new Date(a.Date || 0).getTime());
 
-        return {
-          subscription: sub,
-          tags,
-          lastInvoice: subInvoices[0] || null,
-          totalInvoices: subInvoices.length,
-          recentInvoices: subInvoices.slice(0, 5),
-        };
-      })
-    );
+      return {
+        subscription: sub,
+        tags: tagsById.get(sub.Id) ?? null,
+        lastInvoice: subInvoices[0] || null,
+        totalInvoices: subInvoices.length,
+        recentInvoices: subInvoices.slice(0, 5),
+      };
+    });
 
     return {
       organizationId,
       searchPattern: namePattern,
       matchesFound: matchingSubscriptions.length,
       results: subscriptionsWithInvoices,
+      tagFetchFailures: failures,
     };
   }
 
@@ -758,38 +2454,26 @@ export class CrayonApiClient {
     const token = await this.authenticate();
     
     // Get all subscriptions
-    const subscriptions = await this.getSubscriptions(organizationId);
+    const subscriptions = await this.getAllSubscriptions(organizationId);
     
     // Fetch tags for each subscription
-    const subscriptionsWithTags = await Promise.all(
-      (subscriptions.Items || []).map(async (sub: any) => {
-        try {
-          const tags = await this.getSubscriptionTags(sub.Id);
-          return {
-            id: sub.Id,
-            name: sub.Name,
-            status: sub.Status,
-            type: sub.Type,
-            createdDate: sub.CreatedDate,
-            tags: tags || {},
-          };
-        } catch (error) {
-          return {
-            id: sub.Id,
-            name: sub.Name,
-            status: sub.Status,
-            type: sub.Type,
-            createdDate: sub.CreatedDate,
-            tags: {},
-            tagsError: `Failed to fetch tags: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          };
-        }
-      })
-    );
+    const { tagsById, failures } = await this.fetchTagsForSubscriptions(organizationId, subscriptions.Items || []);
+    const errorsById = new Map(failures.map((f) => [f.subscriptionId, f.error]));
+
+    const subscriptionsWithTags = (subscriptions.Items || []).map((sub: any) => ({
+      id: sub.Id,
+      name: sub.Name,
+      status: sub.Status,
+      type: sub.Type,
+      createdDate: sub.CreatedDate,
+      tags: tagsById.get(sub.Id) || {},
+      ...(errorsById.has(sub.Id) ? { tagsError: errorsById.get(sub.Id) } : {}),
+    }));
 
     return {
       organizationId: organizationId || 'all',
       totalSubscriptions: subscriptionsWithTags.length,
+      tagFetchFailures: failures.length,
       subscriptions: subscriptionsWithTags,
     };
   }
@@ -800,13 +2484,7 @@ export class CrayonApiClient {
   async getLastMonthCostsByOrganization(organizationId: number): Promise<any> {
     const token = await this.authenticate();
     
-    // Calculate last month's date range
-    const today = new Date();
-    const lastMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0); // Last day of previous month
-    const lastMonthStart = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-    
-    const from = lastMonthStart.toISOString().split('T')[0];
-    const to = lastMonthEnd.toISOString().split('T')[0];
+    const { from, to } = this.getLastMonthRange();
 
     try {
       const billingData = await this.getGroupedBillingStatements({
@@ -815,15 +2493,14 @@ export class CrayonApiClient {
         to,
       });
 
-      const totalCost = (billingData.Items || []).reduce((sum: number, item: any) => 
-        sum + (item.TotalSalesPrice || 0), 0
-      );
+      const { totals } = this.normalizeCosts(billingData.Items);
 
       return {
         organizationId,
         period: { from, to, description: 'Last Month' },
-        totalCost,
-        currencyCode: (billingData.Items && billingData.Items[0]?.CurrencyCode) || 'USD',
+        totalCost: totals.total,
+        currencyCode: totals.currency,
+        originalTotals: totals.originalTotals,
         itemsCount: billingData.Items?.length || 0,
         items: billingData.Items || [],
       };
@@ -835,54 +2512,55 @@ export class CrayonApiClient {
   /**
    * Get last month costs breakdown by invoice profile
    */
-  async getLastMonthCostsByInvoiceProfile(organizationId: number): Promise<any> {
+  async getLastMonthCostsByInvoiceProfile(organizationId: number): Promise<InvoiceProfileCostsResult> {
     const token = await this.authenticate();
     
     // Get invoice profiles
     const profiles = await this.getInvoiceProfiles(organizationId);
     
-    // Calculate last month's date range
-    const today = new Date();
-    const lastMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0);
-    const lastMonthStart = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-    
-    const from = lastMonthStart.toISOString().split('T')[0];
-    const to = lastMonthEnd.toISOString().split('T')[0];
+    const { from, to } = this.getLastMonthRange();
 
-    // Get costs for each invoice profile
-    const costsByProfile = await Promise.all(
-      (profiles.Items || []).map(async (profile: any) => {
+    // Get billing data for each invoice profile
+    const profileBilling = await Promise.all(
+      (profiles.Items || []).map(async (profile) => {
         try {
-          const billingData = await this.getGroupedBillingStatements({
+          const billingData = await this.scheduler.schedule(organizationId, () => this.getGroupedBillingStatements({
             organizationId,
             invoiceProfileId: profile.Id,
             from,
             to,
-          });
-
-          const totalCost = (billingData.Items || []).reduce((sum: number, item: any) => 
-            sum + (item.TotalSalesPrice || 0), 0
-          );
-
-          return {
-            profileId: profile.Id,
-            profileName: profile.Name,
-            totalCost,
-            currencyCode: (billingData.Items && billingData.Items[0]?.CurrencyCode) || 'USD',
-            itemsCount: billingData.Items?.length || 0,
-          };
+          }));
+          return { profile, items: billingData.Items, error: undefined };
         } catch (error) {
           return {
-            profileId: profile.Id,
-            profileName: profile.Name,
-            totalCost: 0,
+            profile,
+            items: [] as GroupedBillingStatement[],
             error: `Failed to fetch costs: ${error instanceof Error ? error.message : 'Unknown error'}`,
           };
         }
       })
     );
 
-    const totalOrganizationCost = costsByProfile.reduce((sum: number, p: any) => 
+    // Normalize across all profiles so every profile total is in the same currency
+    const costs = this.normalizeCosts(profileBilling.flatMap((entry) => entry.items));
+
+    const costsByProfile: InvoiceProfileCost[] = profileBilling.map(({ profile, items, error }) => error
+      ? {
+          profileId: profile.Id,
+          profileName: profile.Name,
+          totalCost: 0,
+          error,
+        }
+      : {
+          profileId: profile.Id,
+          profileName: profile.Name,
+          totalCost: items.reduce((sum, item) => sum + costs.costOf(item), 0),
+          currencyCode: costs.currency,
+          originalTotals: sumByCurrency(items.map((item) => item.TotalSalesPrice)),
+          itemsCount: items.length,
+        });
+
+    const totalOrganizationCost = costsByProfile.reduce((sum, p) => 
       sum + (p.totalCost || 0), 0
     );
 
@@ -890,8 +2568,10 @@ export class CrayonApiClient {
       organizationId,
       period: { from, to, description: 'Last Month' },
       totalOrganizationCost,
+      currencyCode: costs.currency,
+      originalTotals: costs.totals.originalTotals,
       profilesCount: costsByProfile.length,
-      costsByProfile: costsByProfile.sort((a: any, b: any) => 
+      costsByProfile: costsByProfile.sort((a, b) => 
         (b.totalCost || 0) - (a.totalCost || 0)
       ),
     };
@@ -900,31 +2580,19 @@ export class CrayonApiClient {
   /**
    * Get last month costs breakdown by tags (CostCenter, Department, etc.)
    */
-  async getLastMonthCostsByTags(organizationId: number): Promise<any> {
+  async getLastMonthCostsByTags(organizationId: number, attribution: TagAttribution = 'historical'): Promise<LastMonthTagCostsResult> {
     const token = await this.authenticate();
     
     // Get all subscriptions with tags
-    const subscriptions = await this.getSubscriptions(organizationId);
+    const subscriptions = await this.getAllSubscriptions(organizationId);
     
     // Fetch tags for all subscriptions
-    const subscriptionsWithTags = await Promise.all(
-      (subscriptions.Items || []).map(async (sub: any) => {
-        try {
-          const tags = await this.getSubscriptionTags(sub.Id);
-          return { id: sub.Id, name: sub.Name, tags: tags || {} };
-        } catch (error) {
-          return { id: sub.Id, name: sub.Name, tags: {} };
-        }
-      })
+    const { tagsById: subIdToTags, failures } = await this.fetchTagsForSubscriptions(
+      organizationId,
+      subscriptions.Items || []
     );
 
-    // Calculate last month's date range
-    const today = new Date();
-    const lastMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0);
-    const lastMonthStart = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-    
-    const from = lastMonthStart.toISOString().split('T')[0];
-    const to = lastMonthEnd.toISOString().split('T')[0];
+    const { from, to } = this.getLastMonthRange();
 
     // Get billing data
     const billingData = await this.getGroupedBillingStatements({
@@ -933,64 +2601,327 @@ export class CrayonApiClient {
       to,
     });
 
-    // Create subscription ID to tags mapping
-    const subIdToTags = new Map(subscriptionsWithTags.map(s => [s.id, s.tags]));
-    const subIdToName = new Map(subscriptionsWithTags.map(s => [s.id, s.name]));
+    const subIdToName = new Map<number, string>((subscriptions.Items || []).map((s: any) => [s.Id, s.Name]));
+    const histories = attribution === 'historical' ? this.tagHistory.forOrganization(organizationId) : null;
 
     // Aggregate costs by tag
+    const costs = this.normalizeCosts(billingData.Items);
     const costsByTag: { [key: string]: { [key: string]: { cost: number; subscriptions: string[] } } } = {};
+    let costFromHistory = 0;
     
     if (billingData.Items) {
-      billingData.Items.forEach((item: any) => {
+      billingData.Items.forEach((item) => {
         const subId = item.SubscriptionId;
-        const cost = item.TotalSalesPrice || 0;
-        const tags = subIdToTags.get(subId) || {};
+        const cost = costs.costOf(item);
+        const { shares, covered } = this.tagSharesOf(item, subIdToTags.get(subId) || {}, histories);
         const subName = subIdToName.get(subId) || `Unknown (${subId})`;
-
-        // Aggregate by each tag key-value pair
-        Object.entries(tags).forEach(([tagKey, tagValue]: [string, any]) => {
-          if (!costsByTag[tagKey]) costsByTag[tagKey] = {};
-          const tagVal = String(tagValue);
-          if (!costsByTag[tagKey][tagVal]) {
-            costsByTag[tagKey][tagVal] = { cost: 0, subscriptions: [] };
-          }
-          costsByTag[tagKey][tagVal].cost += cost;
-          if (!costsByTag[tagKey][tagVal].subscriptions.includes(subName)) {
-            costsByTag[tagKey][tagVal].subscriptions.push(subName);
-          }
+        costFromHistory += cost * covered;
+
+        // Aggregate by each tag key-value pair, splitting the cost when tags changed mid-month
+        shares.forEach(({ tags, share }) => {
+          Object.entries(tags).forEach(([tagKey, tagValue]: [string, any]) => {
+            if (!costsByTag[tagKey]) costsByTag[tagKey] = {};
+            const tagVal = String(tagValue);
+            if (!costsByTag[tagKey][tagVal]) {
+              costsByTag[tagKey][tagVal] = { cost: 0, subscriptions: [] };
+            }
+            costsByTag[tagKey][tagVal].cost += cost * share;
+            if (!costsByTag[tagKey][tagVal].subscriptions.includes(subName)) {
+              costsByTag[tagKey][tagVal].subscriptions.push(subName);
+            }
+          });
         });
       });
     }
 
     // Format results
-    const costBreakdown = Object.entries(costsByTag).map(([tagKey, values]) => {
+    const costBreakdown: LastMonthTagCosts[] = Object.entries(costsByTag).map(([tagKey, values]) => {
       const breakdown = Object.entries(values)
-        .map(([value, data]: [string, any]) => ({
+        .map(([value, data]) => ({
           value,
           cost: data.cost,
           subscriptionCount: data.subscriptions.length,
           subscriptions: data.subscriptions,
         }))
-        .sort((a: any, b: any) => b.cost - a.cost);
+        .sort((a, b) => b.cost - a.cost);
 
-      const total = breakdown.reduce((sum: number, b: any) => sum + b.cost, 0);
+      const total = breakdown.reduce((sum, b) => sum + b.cost, 0);
 
       return {
         tag: tagKey,
         total,
         breakdown,
       };
-    }).sort((a: any, b: any) => b.total - a.total);
+    }).sort((a, b) => b.total - a.total);
 
-    const totalCost = costBreakdown.reduce((sum: number, t: any) => sum + t.total, 0);
+    const totalCost = costBreakdown.reduce((sum, t) => sum + t.total, 0);
 
     return {
       organizationId,
       period: { from, to, description: 'Last Month' },
+      attribution,
+      ...(histories ? { historyCoverage: this.historyCoverage(costFromHistory, costs.totals.total, histories) } : {}),
       totalCost,
+      currencyCode: costs.currency,
+      originalTotals: costs.totals.originalTotals,
       tagsCount: costBreakdown.length,
       costByTags: costBreakdown,
+      tagFetchFailures: failures,
     };
   }
-}
 
+  /**
+   * Aggregate billing costs by one dimension, per month, for charting and reporting.
+   * The period is either an explicit from/to range or the last `monthsBack` complete months.
+   * The tag dimension attributes costs like analyzeCostsByTags: to the tags in effect during each
+   * billing month (splitting a statement when they changed mid-month), or to current tags.
+   */
+  async getCostsByDimension(
+    organizationId: number,
+    dimension: CostDimension,
+    period: { monthsBack?: number; from?: string; to?: string },
+    tagKey?: string,
+    attribution: TagAttribution = 'historical'
+  ): Promise<CostsByDimension & Record<string, any>> {
+    const { from, to } = period.from
+      ? { from: period.from, to: period.to || new Date().toISOString() }
+      : this.getMonthsBackRange(period.monthsBack ?? 3);
+
+    // share is the part of the statement's cost that goes to the label
+    const entries: Array<{ item: GroupedBillingStatement; label: string; share: number }> = [];
+    const fetchFailures: any[] = [];
+    let histories: Map<number, SubscriptionTagHistory> | null = null;
+    let costFromHistory = 0;
+
+    if (dimension === 'invoiceProfile') {
+      // Statements are fetched per invoice profile so each one is attributed reliably
+      const profiles = await this.getInvoiceProfiles(organizationId);
+      await Promise.all(
+        profiles.Items.map((profile) =>
+          this.scheduler.schedule(organizationId, () =>
+            this.getGroupedBillingStatements({ organizationId, invoiceProfileId: profile.Id, from, to })
+          )
+            .then((billingData) => {
+              billingData.Items.forEach((item) => entries.push({ item, label: profile.Name || `Profile ${profile.Id}`, share: 1 }));
+            })
+            .catch((error) => {
+              fetchFailures.push({
+                profileId: profile.Id,
+                profileName: profile.Name,
+                error: `Failed to fetch costs: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              });
+            })
+        )
+      );
+    } else {
+      const billingData = await this.getGroupedBillingStatements({ organizationId, from, to });
+      let labelOf: (item: GroupedBillingStatement) => string;
+
+      if (dimension === 'tag') {
+        const subscriptions = await this.getAllSubscriptions(organizationId);
+        const { tagsById, failures } = await this.fetchTagsForSubscriptions(organizationId, subscriptions.Items);
+        const failedIds = new Set(failures.map((f) => f.subscriptionId));
+        fetchFailures.push(...failures);
+        histories = attribution === 'historical' ? this.tagHistory.forOrganization(organizationId) : null;
+
+        const costs = this.normalizeCosts(billingData.Items);
+        billingData.Items.forEach((item) => {
+          const { shares, covered } = this.tagSharesOf(item, tagsById.get(item.SubscriptionId as number) || {}, histories);
+          costFromHistory += costs.costOf(item) * covered;
+          if (covered === 0 && item.SubscriptionId !== undefined && failedIds.has(item.SubscriptionId)) {
+            entries.push({ item, label: '(tags unavailable)', share: 1 });
+            return;
+          }
+          shares.forEach(({ tags, share }) => entries.push({ item, label: tags[tagKey as string] || '(untagged)', share }));
+        });
+      } else if (dimension === 'subscription') {
+        labelOf = (item) => item.SubscriptionName || `Subscription ${item.SubscriptionId ?? 'unknown'}`;
+      } else if (dimension === 'provisionType') {
+        labelOf = (item) => item.ProvisionType || 'Unknown';
+      } else {
+        labelOf = (item) => this.billingMonth(item);
+      }
+
+      if (dimension !== 'tag') {
+        billingData.Items.forEach((item) => entries.push({ item, label: labelOf(item), share: 1 }));
+      }
+    }
+
+    // A statement split across tag sets appears in several entries but is counted once in the totals
+    const costs = this.normalizeCosts(Array.from(new Set(entries.map((entry) => entry.item))));
+    const groups = new Map<string, CostGroup>();
+
+    entries.forEach(({ item, label, share }) => {
+      const month = this.billingMonth(item);
+      const cost = costs.costOf(item) * share;
+      if (!groups.has(label)) {
+        groups.set(label, { label, total: 0, statementCount: 0, byMonth: {}, statementsByMonth: {} });
+      }
+      const group = groups.get(label)!;
+      group.total += cost;
+      group.statementCount++;
+      group.byMonth[month] = (group.byMonth[month] || 0) + cost;
+      group.statementsByMonth[month] = (group.statementsByMonth[month] || 0) + 1;
+    });
+
+    // Every calendar month of the period, so charts show empty months too
+    const months: string[] = [];
+    const cursor = new Date(from);
+    cursor.setDate(1);
+    while (cursor.getTime() <= new Date(to).getTime()) {
+      months.push(this.billingMonth({ StartDate: cursor.toISOString() }));
+      cursor.setMonth(cursor.getMonth() + 1);
+    }
+    if (entries.some(({ item }) => !item.StartDate)) months.push('unknown');
+
+    return {
+      organizationId,
+      dimension,
+      ...(tagKey ? { tagKey } : {}),
+      ...(dimension === 'tag' ? { attribution } : {}),
+      ...(histories ? { historyCoverage: this.historyCoverage(costFromHistory, costs.totals.total, histories) } : {}),
+      period: { from, to },
+      currency: costs.currency,
+      totals: costs.totals,
+      months,
+      groups: Array.from(groups.values()).sort((a, b) => b.total - a.total),
+      fetchFailures,
+    };
+  }
+
+  /**
+   * Actual spend per billing month for a budget scope: the whole organization, one invoice profile,
+   * or the subscriptions carrying a tag value. Tag scopes attribute each month's costs to the tags in effect
+   * during that month unless the scope asks for current tags.
+   */
+  async getBudgetActuals(
+    organizationId: number,
+    scope: BudgetScope,
+    from: string,
+    to: string
+  ): Promise<{ currency: string | null; monthlyActuals: Record<string, number>; tagFetchFailures: TagFetchFailure[] }> {
+    const billingData = await this.getGroupedBillingStatements({
+      organizationId,
+      from,
+      to,
+      ...(scope.type === 'invoiceProfile' ? { invoiceProfileId: scope.invoiceProfileId } : {}),
+    });
+
+    // The API returns statements overlapping the range; only months inside the budget period count
+    const firstMonth = this.billingMonth({ StartDate: from });
+    const lastMonth = this.billingMonth({ StartDate: to });
+    let items = billingData.Items.filter((item) => {
+      const month = this.billingMonth(item);
+      return month >= firstMonth && month <= lastMonth;
+    });
+    let tagFetchFailures: TagFetchFailure[] = [];
+    // Part of each statement's cost that falls in the scope
+    let weightOf = (_item: GroupedBillingStatement) => 1;
+
+    if (scope.type === 'tag') {
+      const subscriptions = await this.getAllSubscriptions(organizationId);
+      const { tagsById, failures } = await this.fetchTagsForSubscriptions(organizationId, subscriptions.Items);
+      tagFetchFailures = failures;
+      const histories = (scope.attribution ?? 'historical') === 'historical' ? this.tagHistory.forOrganization(organizationId) : null;
+
+      const weights = new Map<GroupedBillingStatement, number>();
+      items.forEach((item) => {
+        const { shares } = this.tagSharesOf(item, tagsById.get(item.SubscriptionId as number) || {}, histories);
+        const weight = shares.filter(({ tags }) => tags[scope.tagKey] === scope.tagValue).reduce((sum, { share }) => sum + share, 0);
+        if (weight > 0) weights.set(item, weight);
+      });
+      items = items.filter((item) => weights.has(item));
+      weightOf = (item) => weights.get(item) ?? 0;
+    }
+
+    const costs = this.normalizeCosts(items);
+    const monthlyActuals: Record<string, number> = {};
+    items.forEach((item) => {
+      const month = this.billingMonth(item);
+      monthlyActuals[month] = (monthlyActuals[month] || 0) + costs.costOf(item) * weightOf(item);
+    });
+
+    return { currency: costs.currency, monthlyActuals, tagFetchFailures };
+  }
+
+  /**
+   * Check every subscription against a tag policy and size the non-compliant spend from last month's billing
+   */
+  async checkTagCompliance(organizationId: number, policy: TagPolicy): Promise<any> {
+    const { from, to } = this.getLastMonthRange();
+
+    const [inventory, billingData] = await Promise.all([
+      this.listAllSubscriptionsWithTags(organizationId),
+      this.getGroupedBillingStatements({ organizationId, from, to }),
+    ]);
+
+    // Last month cost per subscription
+    const costs = this.normalizeCosts(billingData.Items);
+    const costBySubscription = new Map<number, number>();
+    billingData.Items.forEach((item) => {
+      const cost = costs.costOf(item);
+      costBySubscription.set(item.SubscriptionId, (costBySubscription.get(item.SubscriptionId) || 0) + cost);
+    });
+
+    const nonCompliant: any[] = [];
+    const unknown: any[] = [];
+    const missingKeySummary: { [key: string]: { subscriptions: number; cost: number } } = {};
+    let compliantCount = 0;
+
+    for (const sub of inventory.subscriptions) {
+      const lastMonthCost = costBySubscription.get(sub.id) || 0;
+
+      if (sub.tagsError) {
+        unknown.push({ subscriptionId: sub.id, subscriptionName: sub.name, lastMonthCost, error: sub.tagsError });
+        continue;
+      }
+
+      const result = evaluateTagCompliance(normalizeTags(sub.tags), policy);
+      if (result.compliant) {
+        compliantCount++;
+        continue;
+      }
+
+      result.missingKeys.forEach((key) => {
+        if (!Object.hasOwn(missingKeySummary, key)) missingKeySummary[key] = { subscriptions: 0, cost: 0 };
+        missingKeySummary[key].subscriptions++;
+        missingKeySummary[key].cost += lastMonthCost;
+      });
+
+      nonCompliant.push({
+        subscriptionId: sub.id,
+        subscriptionName: sub.name,
+        lastMonthCost,
+        missingKeys: result.missingKeys,
+        invalidValues: result.invalidValues,
+      });
+    }
+
+    nonCompliant.sort((a, b) => b.lastMonthCost - a.lastMonthCost);
+
+    const totalCost = Array.from(costBySubscription.values()).reduce((sum, cost) => sum + cost, 0);
+    const nonCompliantCost = nonCompliant.reduce((sum, s) => sum + s.lastMonthCost, 0);
+    const evaluated = compliantCount + nonCompliant.length;
+
+    return {
+      organizationId,
+      policy: policy.name || 'Tag policy',
+      period: { from, to, description: 'Last Month' },
+      summary: {
+        subscriptionsEvaluated: evaluated,
+        compliant: compliantCount,
+        nonCompliant: nonCompliant.length,
+        unknown: unknown.length,
+        compliancePercent: evaluated > 0 ? parseFloat(((compliantCount / evaluated) * 100).toFixed(2)) : 100,
+        totalCost,
+        nonCompliantCost,
+        nonCompliantCostPercent: totalCost > 0 ? parseFloat(((nonCompliantCost / totalCost) * 100).toFixed(2)) : 0,
+        currencyCode: costs.currency,
+        originalTotals: costs.totals.originalTotals,
+      },
+      missingKeySummary,
+      nonCompliant,
+      unknown,
+    };
+  }
+}
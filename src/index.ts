@@ -10,22 +10,47 @@ import {
 import express, { Request, Response, NextFunction } from 'express';
 import { randomUUID } from 'node:crypto';
 import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'node:url';
 import dotenv from 'dotenv';
 import { CrayonApiClient } from './crayon-client.js';
 import { logger, logAudit, logToolExecution } from './middleware/logger.js';
-import { authenticateRequest, authorizeOrganization } from './middleware/auth.js';
+import { authenticateRequest, checkOrganizationAccess, getUserFromAuthInfo } from './middleware/auth.js';
+import { getTokenRegistry } from './middleware/token-registry.js';
+import { isJwtAuthEnabled, getOidcConfig, getProtectedResourceMetadata, getProtectedResourceMetadataPath } from './middleware/jwt.js';
+import { authorizeToolCall, filterOrganizationsForUser, resolveToolOrganization } from './middleware/tool-authorization.js';
 import { validateToolInput } from './middleware/validation.js';
-import { sanitizeErrorMessage, createCircuitBreakerWrapper, expensiveOperations } from './middleware/security.js';
+import { sanitizeErrorMessage, expensiveOperations } from './middleware/security.js';
 import { chartGenerator } from './utils/chart-generator.js';
 import { formatMonthYear, getCurrentLocale } from './utils/localization.js';
+import { loadTagPolicy, parseTagPolicy } from './utils/tag-policy.js';
+import { formatCurrencyTotals } from './utils/currency.js';
+import { renderCostChart } from './utils/cost-charts.js';
+import { BudgetStatus, createBudgetStoreFromEnv, evaluateBudget, getBudgetPeriodRange } from './utils/budgets.js';
+import { createReportExporterFromEnv } from './utils/report-export.js';
+import { REPORT_NAMES, buildReport } from './utils/reports.js';
+import { createReportJobSchedulerFromEnv } from './utils/report-jobs.js';
+import { createAlertWatcherFromEnv } from './utils/alerts.js';
+import { createWarehouseSyncSchedulerFromEnv } from './utils/warehouse.js';
+import { createTagCaptureSchedulerFromEnv } from './utils/tag-history.js';
 
 dotenv.config();
 
 // Validate required security configuration
-if (process.env.AUTH_ENABLED !== 'false' && !process.env.AUTH_TOKEN) {
-  console.error('ERROR: AUTH_TOKEN not set');
-  console.error('Please set AUTH_TOKEN in .env file');
-  process.exit(1);
+if (process.env.AUTH_ENABLED !== 'false') {
+  try {
+    if (getTokenRegistry().size === 0 && !isJwtAuthEnabled()) {
+      console.error('ERROR: No authentication tokens configured');
+      console.error('Please set OIDC_ISSUER, AUTH_TOKENS_FILE, AUTH_TOKENS or AUTH_TOKEN in .env file');
+      process.exit(1);
+    }
+    if (isJwtAuthEnabled()) {
+      getOidcConfig();
+    }
+  } catch (error) {
+    console.error(`ERROR: ${error instanceof Error ? error.message : 'Failed to load authentication configuration'}`);
+    process.exit(1);
+  }
 }
 
 // Configuration validation and secure defaults
@@ -56,8 +81,24 @@ const crayonClient = new CrayonApiClient(
   CRAYON_API_BASE_URL
 );
 
-// Initialize circuit breaker for API calls
-const circuitBreaker = createCircuitBreakerWrapper(crayonClient as any);
+// Budgets are stored locally (BUDGETS_FILE)
+const budgetStore = createBudgetStoreFromEnv();
+
+// Report exports are written to EXPORT_DIR and served over HTTP from EXPORT_BASE_URL/exports/<file>
+const reportExporter = createReportExporterFromEnv();
+const EXPORT_BASE_URL = (process.env.EXPORT_BASE_URL || `http://localhost:${PORT}`).replace(/\/+$/, '');
+
+// Scheduled cost digests (REPORT_JOBS_FILE)
+const reportJobScheduler = createReportJobSchedulerFromEnv(crayonClient);
+
+// Anomaly and budget alerts posted to webhooks (ALERTS_FILE)
+const alertWatcher = createAlertWatcherFromEnv(crayonClient, budgetStore);
+
+// Nightly warehouse sync for WAREHOUSE_SYNC_ORGANIZATIONS
+const warehouseSync = createWarehouseSyncSchedulerFromEnv(crayonClient);
+
+// Periodic tag capture for TAG_CAPTURE_ORGANIZATIONS, feeding the tag history
+const tagCapture = createTagCaptureSchedulerFromEnv(crayonClient);
 
 // Define MCP tools
 const tools: Tool[] = [
@@ -96,6 +137,10 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Number of items per page (optional)',
         },
+        fetchAll: {
+          type: 'boolean',
+          description: 'Follow pagination and return all pages, capped at PAGINATION_MAX_ITEMS (optional, default: false)',
+        },
       },
       required: ['organizationId'],
     },
@@ -179,6 +224,10 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Number of items per page (optional)',
         },
+        fetchAll: {
+          type: 'boolean',
+          description: 'Follow pagination and return all pages, capped at PAGINATION_MAX_ITEMS (optional, default: false)',
+        },
       },
       required: ['organizationId'],
     },
@@ -202,7 +251,12 @@ const tools: Tool[] = [
     description: 'List all organizations accessible with current credentials. Use this to discover organization IDs for other queries.',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        fetchAll: {
+          type: 'boolean',
+          description: 'Follow pagination and return all pages, capped at PAGINATION_MAX_ITEMS (optional, default: false)',
+        },
+      },
     },
   },
   {
@@ -272,6 +326,10 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Number of items per page (optional)',
         },
+        fetchAll: {
+          type: 'boolean',
+          description: 'Follow pagination and return all pages, capped at PAGINATION_MAX_ITEMS (optional, default: false)',
+        },
       },
     },
   },
@@ -327,7 +385,7 @@ const tools: Tool[] = [
   },
   {
     name: 'update_subscription_tags',
-    description: 'Update or add tags to a subscription for better cost tracking and organization.',
+    description: 'Update or add tags to a subscription for better cost tracking and organization. Requires the editor role. Use dryRun to preview the added, changed and removed tags first.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -339,10 +397,64 @@ const tools: Tool[] = [
           type: 'object',
           description: 'Key-value pairs of tags (e.g., {"Environment": "Production", "CostCenter": "IT"})',
         },
+        mode: {
+          type: 'string',
+          enum: ['replace', 'merge'],
+          description: 'replace: tags become exactly the given set (default). merge: patch the given tags onto the existing tags',
+        },
+        removeKeys: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Tag keys to remove (merge mode only, optional)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the diff against current tags without applying it (default: false)',
+        },
       },
       required: ['subscriptionId', 'tags'],
     },
   },
+  {
+    name: 'bulk_apply_tags',
+    description: 'Apply tags to many subscriptions at once using rules. Returns the plan in dry-run mode (default), otherwise applies it and reports the result per subscription. Requires the editor role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        rules: {
+          type: 'array',
+          description: 'Rules applied in order. Each rule matches subscriptions by namePattern (regex, case-insensitive), tagEquals ({"key": "Department", "value": "IT"}) and/or subscriptionIds, and merges its tags onto them',
+          items: {
+            type: 'object',
+            properties: {
+              namePattern: { type: 'string' },
+              tagEquals: {
+                type: 'object',
+                properties: { key: { type: 'string' }, value: { type: 'string' } },
+              },
+              subscriptionIds: { type: 'array', items: { type: 'number' } },
+              tags: { type: 'object', description: 'Tags to set, e.g. {"CostCenter": "4100"}' },
+              onlyMissing: { type: 'boolean', description: 'Only add tag keys the subscription does not have yet' },
+            },
+            required: ['tags'],
+          },
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the plan without applying it (default: true)',
+        },
+        concurrency: {
+          type: 'number',
+          description: 'Maximum parallel tag updates (default: 4, max: 10)',
+        },
+      },
+      required: ['organizationId', 'rules'],
+    },
+  },
   {
     name: 'get_azure_plan_details',
     description: 'Get detailed information about an Azure Plan including all associated subscriptions.',
@@ -413,7 +525,7 @@ const tools: Tool[] = [
   },
   {
     name: 'get_azure_costs_by_subscription',
-    description: 'Get Azure costs for a specific subscription within a date range.',
+    description: 'Get Azure costs for a specific subscription within a date range (up to 12 calendar months). Returns a daily cost series with per-month subtotals; months cut by the range edges are pro-rated.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -451,13 +563,18 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Number of months to analyze (default: 6)',
         },
+        source: {
+          type: 'string',
+          enum: ['api', 'warehouse'],
+          description: 'Read billing history from the live API or the local cost warehouse filled by sync_warehouse (default: api)',
+        },
       },
       required: ['organizationId'],
     },
   },
   {
     name: 'detect_cost_anomalies',
-    description: 'Detect subscriptions with significant cost changes. Identifies what changed and by how much, useful for finding unexpected costs.',
+    description: 'Detect subscriptions with unusual monthly costs compared with their own history (z-score, median absolute deviation or seasonal decomposition). Reports new and disappeared subscriptions and the products that drove each change.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -467,11 +584,33 @@ const tools: Tool[] = [
         },
         monthsBack: {
           type: 'number',
-          description: 'Number of months to analyze (default: 3)',
+          description: 'Number of most recent complete months to check for anomalies (default: 3)',
+        },
+        method: {
+          type: 'string',
+          enum: ['zscore', 'mad', 'seasonal'],
+          description: 'Detection method: z-score over a rolling window, median absolute deviation, or seasonal decomposition against the same month last year (default: mad)',
+        },
+        baselineMonths: {
+          type: 'number',
+          description: 'Months of history before each checked month used as baseline (default: 6; seasonal always uses at least 24)',
+        },
+        threshold: {
+          type: 'number',
+          description: 'Score at which a month is anomalous (default: 3 for zscore and seasonal, 3.5 for mad)',
+        },
+        minAbsoluteChange: {
+          type: 'number',
+          description: 'Ignore changes smaller than this amount in the result currency (default: 100)',
         },
         changeThresholdPercent: {
           type: 'number',
-          description: 'Percentage threshold to flag as anomaly (default: 25)',
+          description: 'Ignore changes smaller than this percentage of the expected cost (default: 25)',
+        },
+        source: {
+          type: 'string',
+          enum: ['api', 'warehouse'],
+          description: 'Read billing history from the live API or the local cost warehouse filled by sync_warehouse (default: api)',
         },
       },
       required: ['organizationId'],
@@ -491,6 +630,16 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Number of months to analyze (default: 3)',
         },
+        source: {
+          type: 'string',
+          enum: ['api', 'warehouse'],
+          description: 'Read billing history from the live API or the local cost warehouse filled by sync_warehouse (default: api)',
+        },
+        attribution: {
+          type: 'string',
+          enum: ['historical', 'current'],
+          description: 'Attribute each month\'s cost to the tags recorded in the tag history for that month, or to the tags subscriptions have now (default: historical)',
+        },
       },
       required: ['organizationId'],
     },
@@ -565,386 +714,1654 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Organization ID (required)',
         },
+        attribution: {
+          type: 'string',
+          enum: ['historical', 'current'],
+          description: 'Attribute each month\'s cost to the tags recorded in the tag history for that month, or to the tags subscriptions have now (default: historical)',
+        },
       },
       required: ['organizationId'],
     },
   },
-];
-
-// Create MCP server
-const server = new Server(
   {
-    name: 'crayon-cost-mcp',
-    version: '1.0.0',
+    name: 'invalidate_cache',
+    description: 'Invalidate cached Crayon API responses (billing, subscriptions, tags, invoices) for an organization so the next call fetches fresh data. Returns cache hit/miss statistics.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+      },
+      required: ['organizationId'],
+    },
   },
   {
-    capabilities: {
-      tools: {},
-      logging: {},
+    name: 'check_tag_compliance',
+    description: 'Check all subscriptions against the mandatory tagging policy (required keys, allowed values, value patterns). Reports non-compliant subscriptions, missing keys, invalid values and the last month cost they represent.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        policy: {
+          type: 'object',
+          description: 'Policy to evaluate instead of the configured TAG_POLICY_FILE (optional), e.g. {"tags": {"CostCenter": {"required": true, "pattern": "^[0-9]{4}$"}, "Environment": {"allowedValues": ["Prod", "Test"]}}}',
+        },
+      },
+      required: ['organizationId'],
     },
-  }
-);
-
-// Handle list tools request
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools,
-}));
-
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  const userId = (request as any).user?.id || 'unknown';
-  let organizationId = (args as any)?.organizationId || null;
-  const startTime = Date.now();
-
-  try {
-    // OWASP Security: A02:2021 - Prompt Injection & A09:2021 - Weak Validation
-    // Validate tool input against schema
-    let validatedArgs: any = args;
-    try {
-      console.log(`[Tool Call] ${name} with args:`, JSON.stringify(args, null, 2));
-      validatedArgs = await validateToolInput(name, args);
-      console.log(`[Validation OK] ${name}`);
-      organizationId = (validatedArgs as any)?.organizationId || organizationId;
-    } catch (validationError: any) {
-      console.log(`[Validation FAILED] ${name}:`, validationError?.message || validationError);
-      const errorMessage = validationError?.message || 'Unknown validation error occurred';
-      
-      logger.warn(`Tool validation failed for ${name}`, {
-        toolName: name,
-        userId,
-        organizationId,
-        error: errorMessage,
-      });
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: errorMessage || 'Validation failed with no details available',
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    // Log tool execution start
-    logger.info(`Tool execution started: ${name}`, {
-      tool: name,
-      userId,
-      organizationId,
-    });
-
-    switch (name) {
-      case 'get_billing_statements': {
-        const result = await crayonClient.getBillingStatements(validatedArgs as any);
-        const duration = Date.now() - startTime;
-        logToolExecution({
-          tool: name,
-          userId,
-          organizationId,
-          duration,
-          status: 'success',
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      case 'get_grouped_billing_statements': {
-        const result = await crayonClient.getGroupedBillingStatements(validatedArgs as any);
-        const duration = Date.now() - startTime;
-        logToolExecution({
-          tool: name,
-          userId,
-          organizationId,
-          duration,
-          status: 'success',
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      case 'get_azure_usage': {
-        const result = await crayonClient.getAzureUsage(validatedArgs as any);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      case 'get_invoices': {
-        const { organizationId, page, pageSize } = validatedArgs as any;
-        const result = await crayonClient.getInvoices(organizationId, page, pageSize);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      case 'get_invoice_profiles': {
-        const { organizationId } = validatedArgs as any;
-        const result = await crayonClient.getInvoiceProfiles(organizationId);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      case 'get_organizations': {
-        const result = await crayonClient.getOrganizations();
-        const duration = Date.now() - startTime;
-        logToolExecution({
-          tool: name,
-          userId,
-          organizationId,
-          duration,
-          status: 'success',
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      case 'get_historical_costs': {
-        const { organizationId, monthsBack = 6, invoiceProfileId } = validatedArgs as any;
-        const result = await crayonClient.getHistoricalBilling(organizationId, monthsBack, invoiceProfileId);
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                organizationId,
-                monthsBack,
-                invoiceProfileId,
-                historicalData: result,
-              }, null, 2),
-            },
-          ],
+  },
+  {
+    name: 'visualize_costs_pie_chart',
+    description: 'Generate a pie or doughnut chart of cost distribution by subscription over the last N months (top N subscriptions).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        monthsBack: {
+          type: 'number',
+          description: 'Number of months to include (default: 3)',
+        },
+        topN: {
+          type: 'number',
+          description: 'Number of subscriptions to show (default: 10, max: 25)',
+        },
+        chartStyle: {
+          type: 'string',
+          enum: ['pie', 'doughnut'],
+          description: 'Chart style (default: pie)',
+        },
+      },
+      required: ['organizationId'],
+    },
+  },
+  {
+    name: 'visualize_costs',
+    description: 'Chart costs by subscription, invoice profile, tag value, provision type or month. Pie, doughnut and bar charts compare totals; line and stacked bar charts show each group month by month. Groups beyond topN are combined into "Other".',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        dimension: {
+          type: 'string',
+          enum: ['subscription', 'invoiceProfile', 'tag', 'provisionType', 'month'],
+          description: 'What to group costs by (required)',
+        },
+        tagKey: {
+          type: 'string',
+          description: 'Tag key to group by, e.g. "CostCenter" (required when dimension is "tag")',
+        },
+        attribution: {
+          type: 'string',
+          enum: ['historical', 'current'],
+          description: 'For the tag dimension: attribute each month\'s cost to the tags recorded in the tag history for that month, or to the tags subscriptions have now (default: historical)',
+        },
+        metric: {
+          type: 'string',
+          enum: ['cost', 'averageMonthlyCost', 'statementCount'],
+          description: 'Value to chart (default: cost). averageMonthlyCost is not available for line and stackedBar charts',
+        },
+        chartType: {
+          type: 'string',
+          enum: ['pie', 'doughnut', 'bar', 'stackedBar', 'line'],
+          description: 'Chart type (default: bar)',
+        },
+        monthsBack: {
+          type: 'number',
+          description: 'Number of complete months to include (default: 3, ignored when from is set)',
+        },
+        from: {
+          type: 'string',
+          description: 'Period start date (ISO format, optional)',
+        },
+        to: {
+          type: 'string',
+          description: 'Period end date (ISO format, optional, defaults to now)',
+        },
+        topN: {
+          type: 'number',
+          description: 'Number of groups to show before combining the rest into "Other" (default: 10, max: 25)',
+        },
+      },
+      required: ['organizationId', 'dimension'],
+    },
+  },
+  {
+    name: 'forecast_costs',
+    description: 'Forecast costs: projects month-end spend for the current month from the daily run rate, and the next 1-12 months from billing history using linear regression, Holt-Winters (seasonal, needs 24 months of history) or a moving average, with confidence intervals. Returns a line chart of actuals against the forecast band.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        horizonMonths: {
+          type: 'number',
+          description: 'Number of months to forecast after the current month (default: 3, max: 12)',
+        },
+        model: {
+          type: 'string',
+          enum: ['linear', 'holtWinters', 'movingAverage'],
+          description: 'Forecast model (default: linear)',
+        },
+        historyMonths: {
+          type: 'number',
+          description: 'Number of complete months of history to fit (default: 12, min: 3, max: 36)',
+        },
+        confidenceLevel: {
+          type: 'number',
+          enum: [80, 90, 95, 99],
+          description: 'Confidence level of the interval in percent (default: 95)',
+        },
+        movingAverageWindow: {
+          type: 'number',
+          description: 'Window in months for the moving average model (default: 3)',
+        },
+        includeChart: {
+          type: 'boolean',
+          description: 'Include the forecast line chart (default: true)',
+        },
+      },
+      required: ['organizationId'],
+    },
+  },
+  {
+    name: 'create_budget',
+    description: 'Create a budget for an organization, an invoice profile or a tag value (e.g. CostCenter=4100) with a monthly, quarterly or annual amount and alert thresholds in percent. Requires editor role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        name: {
+          type: 'string',
+          description: 'Budget name (required)',
+        },
+        scope: {
+          type: 'object',
+          description: 'What the budget covers (default: whole organization), e.g. {"type": "organization"}, {"type": "invoiceProfile", "invoiceProfileId": 123} or {"type": "tag", "tagKey": "CostCenter", "tagValue": "4100"}. Tag scopes count each month\'s cost under the tags recorded for that month unless "attribution": "current" is set',
+        },
+        amount: {
+          type: 'number',
+          description: 'Budget amount per period (required)',
+        },
+        currency: {
+          type: 'string',
+          description: 'Budget currency, ISO 4217 code such as NOK (required; must match the billing or reporting currency)',
+        },
+        period: {
+          type: 'string',
+          enum: ['monthly', 'quarterly', 'annual'],
+          description: 'Budget period (default: monthly)',
+        },
+        thresholds: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Alert thresholds in percent of the budget (default: [50, 80, 100])',
+        },
+      },
+      required: ['organizationId', 'name', 'amount', 'currency'],
+    },
+  },
+  {
+    name: 'list_budgets',
+    description: 'List the budgets defined for an organization.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+      },
+      required: ['organizationId'],
+    },
+  },
+  {
+    name: 'delete_budget',
+    description: 'Delete a budget. Requires editor role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID the budget belongs to (required)',
+        },
+        budgetId: {
+          type: 'string',
+          description: 'Budget ID (required)',
+        },
+      },
+      required: ['organizationId', 'budgetId'],
+    },
+  },
+  {
+    name: 'get_budget_status',
+    description: 'Compare actual spend in the current budget period against each budget of an organization: percent consumed, thresholds crossed, projected spend and overrun at the current rate, with a burn-down chart.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        budgetId: {
+          type: 'string',
+          description: 'Only report this budget (optional)',
+        },
+        includeChart: {
+          type: 'boolean',
+          description: 'Include burn-down charts (default: true)',
+        },
+      },
+      required: ['organizationId'],
+    },
+  },
+  {
+    name: 'detect_daily_anomalies',
+    description: 'Detect day-level cost spikes in an Azure plan from its usage data, per subscription, resource group and meter category, against a trailing baseline. Each finding lists the resources that contributed most.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        azurePlanId: {
+          type: 'number',
+          description: 'Azure Plan ID (required)',
+        },
+        days: {
+          type: 'number',
+          description: 'Number of most recent complete days to check (1-14, default: 7)',
+        },
+        baselineDays: {
+          type: 'number',
+          description: 'Days before each checked day used as baseline (7-60, default: 14)',
+        },
+        method: {
+          type: 'string',
+          enum: ['zscore', 'mad'],
+          description: 'Detection method: z-score or median absolute deviation over the baseline (default: mad)',
+        },
+        threshold: {
+          type: 'number',
+          description: 'Score at which a day is anomalous (default: 3 for zscore, 3.5 for mad)',
+        },
+        minAbsoluteChange: {
+          type: 'number',
+          description: 'Ignore daily increases smaller than this amount in the result currency (default: 50)',
+        },
+        changeThresholdPercent: {
+          type: 'number',
+          description: 'Ignore daily increases smaller than this percentage of the expected cost (default: 50)',
+        },
+      },
+      required: ['azurePlanId'],
+    },
+  },
+  {
+    name: 'query_azure_usage',
+    description: 'Query one month of Azure usage rows: filter, group by any column (date, meter category/subcategory/name, resource group, resource ID, region, subscription, or tag:<name>) and return the top N groups by cost, or the top N rows when not grouping. The usage file is streamed, so large exports are fine.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        azurePlanId: {
+          type: 'number',
+          description: 'Azure Plan ID (required)',
+        },
+        subscriptionId: {
+          type: 'number',
+          description: 'Azure Subscription ID (optional; all subscriptions of the plan when omitted)',
+        },
+        year: {
+          type: 'number',
+          description: 'Year of usage period (required)',
+        },
+        month: {
+          type: 'number',
+          description: 'Month of usage period (1-12, required)',
+        },
+        filters: {
+          type: 'array',
+          description: 'Row filters, all of which must match (case-insensitive)',
+          items: {
+            type: 'object',
+            properties: {
+              column: { type: 'string', description: 'Column name or tag:<name>' },
+              operator: { type: 'string', enum: ['equals', 'notEquals', 'contains', 'startsWith', 'in'] },
+              value: {
+                description: 'Value to compare with (an array of values for "in")',
+                oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+              },
+            },
+            required: ['column', 'operator', 'value'],
+          },
+        },
+        groupBy: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Columns to group by (up to 4), e.g. ["resourceGroup", "meterCategory"] or ["tag:CostCenter"]',
+        },
+        topN: {
+          type: 'number',
+          description: 'Number of groups or rows to return (1-500, default: 25)',
+        },
+        from: {
+          type: 'string',
+          description: 'First usage day to include (YYYY-MM-DD, optional)',
+        },
+        to: {
+          type: 'string',
+          description: 'Last usage day to include (YYYY-MM-DD, optional)',
+        },
+        minCost: {
+          type: 'number',
+          description: 'Only include rows costing at least this amount (optional)',
+        },
+      },
+      required: ['azurePlanId', 'year', 'month'],
+    },
+  },
+  {
+    name: 'get_azure_resource_costs',
+    description: 'Resource-level cost breakdown of an Azure subscription over a month range: the most expensive resources, resource groups, meter categories and regions, each with month-over-month change.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        azurePlanId: {
+          type: 'number',
+          description: 'Azure Plan ID (required)',
+        },
+        subscriptionId: {
+          type: 'number',
+          description: 'Azure Subscription ID (required)',
+        },
+        fromMonth: {
+          type: 'string',
+          description: 'First month of the range (YYYY-MM, required)',
+        },
+        toMonth: {
+          type: 'string',
+          description: 'Last month of the range (YYYY-MM, default: fromMonth; at most 12 months)',
+        },
+        topN: {
+          type: 'number',
+          description: 'Number of entries per breakdown (1-100, default: 10)',
+        },
+      },
+      required: ['azurePlanId', 'subscriptionId', 'fromMonth'],
+    },
+  },
+  {
+    name: 'export_cost_report',
+    description: 'Export a cost report (billing statements, cost breakdown by subscription/invoice profile/provision type/month, costs by tag, cost trends, or last month costs by invoice profile) as a CSV, XLSX or NDJSON file. XLSX files have one sheet per dimension and formatted currency columns. Returns a link to download the file.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        report: {
+          type: 'string',
+          enum: [...REPORT_NAMES],
+          description: 'Report to export (required)',
+        },
+        format: {
+          type: 'string',
+          enum: ['csv', 'xlsx', 'ndjson'],
+          description: 'File format (default: xlsx)',
+        },
+        monthsBack: {
+          type: 'number',
+          description: 'Number of months to include (default: 3; invoice_profile_costs always covers last month)',
+        },
+      },
+      required: ['organizationId', 'report'],
+    },
+  },
+  {
+    name: 'list_report_jobs',
+    description: 'List the scheduled report jobs (monthly cost digests) for an organization: schedule, sections, delivery sink, next run and the result of the last run.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+      },
+      required: ['organizationId'],
+    },
+  },
+  {
+    name: 'list_alerts',
+    description: 'List cost anomaly and budget alerts raised by the background alert watcher for an organization, with their status (active, acknowledged or silenced), the webhooks they were sent to, active silences and the result of the last watcher cycle.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        status: {
+          type: 'string',
+          enum: ['active', 'acknowledged', 'silenced'],
+          description: 'Only alerts with this status (optional)',
+        },
+      },
+      required: ['organizationId'],
+    },
+  },
+  {
+    name: 'silence_alert',
+    description: 'Acknowledge an alert so it is not sent again, silence alerts for a number of hours (one alert, a subscription, a budget, a kind of alert or the whole organization), or remove a silence.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        action: {
+          type: 'string',
+          enum: ['acknowledge', 'silence', 'unsilence'],
+          description: 'What to do (required)',
+        },
+        alertId: {
+          type: 'string',
+          description: 'Alert ID from list_alerts (required to acknowledge; narrows a silence to one alert)',
+        },
+        kind: {
+          type: 'string',
+          enum: ['anomaly', 'budget'],
+          description: 'Silence only this kind of alert (optional)',
+        },
+        subscriptionId: {
+          type: 'string',
+          description: 'Silence only anomalies of this subscription (optional)',
+        },
+        budgetId: {
+          type: 'string',
+          description: 'Silence only alerts of this budget (optional)',
+        },
+        durationHours: {
+          type: 'number',
+          description: 'How long a silence lasts (default: 24, max: 720)',
+        },
+        silenceId: {
+          type: 'string',
+          description: 'Silence to remove (required to unsilence)',
+        },
+        note: {
+          type: 'string',
+          description: 'Acknowledgement note or reason for the silence (optional)',
+        },
+      },
+      required: ['organizationId', 'action'],
+    },
+  },
+  {
+    name: 'sync_warehouse',
+    description: 'Copy an organization\'s grouped billing statements, invoices, subscriptions and tags into the local cost warehouse (SQLite). Incremental: closed months that are already synced are skipped. Requires the editor role. Returns what was synced and what the warehouse now holds.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        monthsBack: {
+          type: 'number',
+          description: 'Number of months of history to keep in the warehouse (default: 24, max: 60)',
+        },
+        full: {
+          type: 'boolean',
+          description: 'Re-sync every month in the range, including closed months already synced (default: false)',
+        },
+      },
+      required: ['organizationId'],
+    },
+  },
+  {
+    name: 'get_tag_history',
+    description: 'Recorded tag versions of an organization\'s subscriptions: which tags each subscription had from when, and whether the change was seen by a periodic capture or made through update_subscription_tags. Used for historical tag attribution of costs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        subscriptionId: {
+          type: 'number',
+          description: 'Only this subscription',
+        },
+        capture: {
+          type: 'boolean',
+          description: 'Record the current tags of every subscription before returning the history; requires the editor role (default: false)',
+        },
+      },
+      required: ['organizationId'],
+    },
+  },
+  {
+    name: 'query_costs',
+    description: 'Answer ad-hoc cost questions with one read-only, SQL-like query over the organization\'s billing statements, e.g. "SELECT month, tag:CostCenter, SUM(cost) AS total WHERE month >= \'2026-01\' GROUP BY month, tag:CostCenter ORDER BY total DESC LIMIT 20". Fields: cost, month (YYYY-MM), subscription, subscriptionId, invoiceProfile, invoiceProfileId, provisionType, product, publisher, currency, tag:<key>. Supports WHERE (=, !=, <, <=, >, >=, IN, LIKE, BETWEEN, AND, OR, NOT), SUM/AVG/COUNT/MIN/MAX, GROUP BY, ORDER BY and LIMIT. Month conditions set the months fetched (default: last 12 months).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        organizationId: {
+          type: 'number',
+          description: 'Organization ID (required)',
+        },
+        query: {
+          type: 'string',
+          description: 'The query (required, max 2000 characters). Strings in single quotes; tag keys with spaces as tag:\'Cost Center\'',
+        },
+        source: {
+          type: 'string',
+          enum: ['api', 'warehouse'],
+          description: 'Read billing statements from the live API or the local cost warehouse filled by sync_warehouse (default: api)',
+        },
+        attribution: {
+          type: 'string',
+          enum: ['historical', 'current'],
+          description: 'For tag:<key> fields: the tags recorded in the tag history for each month, or the tags subscriptions have now (default: historical)',
+        },
+      },
+      required: ['organizationId', 'query'],
+    },
+  },
+];
+
+// Create MCP server
+const server = new Server(
+  {
+    name: 'crayon-cost-mcp',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+      logging: {},
+    },
+  }
+);
+
+// Handle list tools request
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools,
+}));
+
+// Handle tool execution
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+  const { name, arguments: args } = request.params;
+  const user = getUserFromAuthInfo(extra.authInfo);
+  const userId = user?.id || 'unknown';
+  let organizationId = (args as any)?.organizationId || null;
+  const startTime = Date.now();
+
+  try {
+    // OWASP Security: A02:2021 - Prompt Injection & A09:2021 - Weak Validation
+    // Validate tool input against schema
+    let validatedArgs: any = args;
+    try {
+      console.log(`[Tool Call] ${name} with args:`, JSON.stringify(args, null, 2));
+      validatedArgs = await validateToolInput(name, args);
+      console.log(`[Validation OK] ${name}`);
+      organizationId = (validatedArgs as any)?.organizationId || organizationId;
+    } catch (validationError: any) {
+      console.log(`[Validation FAILED] ${name}:`, validationError?.message || validationError);
+      const errorMessage = validationError?.message || 'Unknown validation error occurred';
+      
+      logger.warn(`Tool validation failed for ${name}`, {
+        toolName: name,
+        userId,
+        organizationId,
+        error: errorMessage,
+      });
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: errorMessage || 'Validation failed with no details available',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // OWASP Security: A01:2021 - Broken Access Control
+    // Enforce the caller's organization scope (stdio and auth-disabled modes are trusted locally)
+    const scopeEnforced = AUTH_ENABLED && transportMode !== 'stdio';
+    if (scopeEnforced) {
+      if (!user) {
+        throw new Error('Unauthorized: Missing authenticated user');
+      }
+      organizationId = (await authorizeToolCall(user, name, validatedArgs, crayonClient)) || organizationId;
+    }
+
+    // Log tool execution start
+    logger.info(`Tool execution started: ${name}`, {
+      tool: name,
+      userId,
+      organizationId,
+    });
+
+    switch (name) {
+      case 'get_billing_statements': {
+        const { fetchAll, ...filter } = validatedArgs as any;
+        const result = fetchAll
+          ? await crayonClient.getAllBillingStatements(filter)
+          : await crayonClient.getBillingStatements(filter);
+        const duration = Date.now() - startTime;
+        logToolExecution({
+          tool: name,
+          userId,
+          organizationId,
+          duration,
+          status: 'success',
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_grouped_billing_statements': {
+        const result = await crayonClient.getGroupedBillingStatements(validatedArgs as any);
+        const duration = Date.now() - startTime;
+        logToolExecution({
+          tool: name,
+          userId,
+          organizationId,
+          duration,
+          status: 'success',
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_azure_usage': {
+        const result = await crayonClient.getAzureUsage(validatedArgs as any);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_invoices': {
+        const { organizationId, page, pageSize, fetchAll } = validatedArgs as any;
+        const result = fetchAll
+          ? await crayonClient.getAllInvoices(organizationId)
+          : await crayonClient.getInvoices(organizationId, page, pageSize);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_invoice_profiles': {
+        const { organizationId } = validatedArgs as any;
+        const result = await crayonClient.getInvoiceProfiles(organizationId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_organizations': {
+        const { fetchAll } = validatedArgs as any;
+        const organizations = fetchAll ? await crayonClient.getAllOrganizations() : await crayonClient.getOrganizations();
+        const result = scopeEnforced ? filterOrganizationsForUser(organizations, user) : organizations;
+        const duration = Date.now() - startTime;
+        logToolExecution({
+          tool: name,
+          userId,
+          organizationId,
+          duration,
+          status: 'success',
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_historical_costs': {
+        const { organizationId, monthsBack = 6, invoiceProfileId } = validatedArgs as any;
+        const result = await crayonClient.getHistoricalBilling(organizationId, monthsBack, invoiceProfileId);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                organizationId,
+                monthsBack,
+                invoiceProfileId,
+                historicalData: result,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_customer_tenants': {
+        const { organizationId } = validatedArgs as any;
+        const result = await crayonClient.getCustomerTenants(organizationId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_azure_subscriptions': {
+        const { customerTenantId } = validatedArgs as any;
+        const result = await crayonClient.getAzureSubscriptions(customerTenantId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_subscriptions': {
+        const { organizationId, page, pageSize, fetchAll } = validatedArgs as any;
+        const result = fetchAll
+          ? await crayonClient.getAllSubscriptions(organizationId)
+          : await crayonClient.getSubscriptions(organizationId, page, pageSize);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_cost_by_subscription': {
+        const { organizationId, invoiceProfileId, monthsBack = 3 } = validatedArgs as any;
+        
+        // Get historical billing and subscriptions in parallel
+        const [billingData, subscriptions] = await Promise.all([
+          crayonClient.getHistoricalBilling(organizationId, monthsBack, invoiceProfileId),
+          crayonClient.getAllSubscriptions(organizationId),
+        ]);
+
+        const costBreakdown = {
+          organizationId,
+          monthsBack,
+          period: {
+            from: new Date(Date.now() - monthsBack * 30 * 24 * 60 * 60 * 1000).toISOString(),
+            to: new Date().toISOString(),
+          },
+          billingData,
+          subscriptions,
+          message: 'Cost breakdown with subscription correlation',
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(costBreakdown, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_subscription_details': {
+        const { subscriptionId } = validatedArgs as any;
+        const result = await crayonClient.getSubscriptionById(subscriptionId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_subscription_tags': {
+        const { subscriptionId } = validatedArgs as any;
+        const result = await crayonClient.getSubscriptionTags(subscriptionId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'update_subscription_tags': {
+        const { subscriptionId, tags, mode, removeKeys, dryRun } = validatedArgs as any;
+        const plan = await crayonClient.planSubscriptionTagUpdate(subscriptionId, tags, mode, removeKeys);
+
+        if (dryRun || !plan.diff.hasChanges) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  message: dryRun ? 'Dry run - no changes applied' : 'Tags already up to date - no changes applied',
+                  ...plan,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const auditOrganizationId = organizationId || (await resolveToolOrganization(validatedArgs, crayonClient)) || 0;
+        try {
+          const result = await crayonClient.updateSubscriptionTags(subscriptionId, plan.after);
+          logAudit({
+            action: 'update_subscription_tags',
+            userId,
+            organizationId: auditOrganizationId,
+            resource: `subscription:${subscriptionId}`,
+            status: 'success',
+            timestamp: new Date(),
+            details: { mode, before: plan.before, after: plan.after, diff: plan.diff },
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  message: 'Tags updated successfully',
+                  subscriptionId,
+                  mode,
+                  diff: plan.diff,
+                  tags: result,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (updateError) {
+          logAudit({
+            action: 'update_subscription_tags',
+            userId,
+            organizationId: auditOrganizationId,
+            resource: `subscription:${subscriptionId}`,
+            status: 'failure',
+            timestamp: new Date(),
+            details: {
+              mode,
+              before: plan.before,
+              after: plan.after,
+              error: updateError instanceof Error ? updateError.message : 'Unknown error',
+            },
+          });
+          throw updateError;
+        }
+      }
+
+      case 'bulk_apply_tags': {
+        const { organizationId, rules, dryRun, concurrency } = validatedArgs as any;
+        const plan = await crayonClient.planBulkTagUpdate(organizationId, rules);
+
+        if (dryRun || plan.changes.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  message: dryRun ? 'Dry run - bulk tag plan, no changes applied' : 'No tag changes needed',
+                  ...plan,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const results = await crayonClient.applyBulkTagPlan(organizationId, plan.changes, concurrency);
+        results.forEach((result: any) => {
+          logAudit({
+            action: 'bulk_apply_tags',
+            userId,
+            organizationId,
+            resource: `subscription:${result.subscriptionId}`,
+            status: result.status === 'applied' ? 'success' : 'failure',
+            timestamp: new Date(),
+            details: { before: result.before, after: result.after, diff: result.diff, error: result.error },
+          });
+        });
+
+        const failed = results.filter((r: any) => r.status === 'failed').length;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                message: failed > 0 ? `Bulk tag update completed with ${failed} failure(s)` : 'Bulk tag update completed',
+                organizationId,
+                subscriptionsEvaluated: plan.subscriptionsEvaluated,
+                applied: results.length - failed,
+                failed,
+                skipped: plan.skipped,
+                results: results.map((r: any) => ({
+                  subscriptionId: r.subscriptionId,
+                  subscriptionName: r.subscriptionName,
+                  status: r.status,
+                  diff: r.diff,
+                  error: r.error,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_azure_plan_details': {
+        const { azurePlanId } = validatedArgs as any;
+        const result = await crayonClient.getAzurePlan(azurePlanId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_azure_plan_subscriptions': {
+        const { azurePlanId } = validatedArgs as any;
+        const result = await crayonClient.getAzurePlanSubscriptions(azurePlanId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'track_costs_by_tags': {
+        const { organizationId, monthsBack = 3 } = validatedArgs as any;
+        const result = await crayonClient.getCostByTags(organizationId, monthsBack);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                message: 'Cost tracking by subscription tags',
+                organizationId,
+                monthsBack,
+                data: result,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_azure_costs_by_date_range': {
+        const { organizationId, from, to } = validatedArgs as any;
+        const result = await crayonClient.getAzureCostsByDateRange(organizationId, from, to);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                message: 'Azure costs by date range',
+                organizationId,
+                from,
+                to,
+                data: result,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_azure_costs_by_subscription': {
+        const { azurePlanId, subscriptionId, from, to } = validatedArgs as any;
+        const result = await crayonClient.getAzureCostsBySubscription(azurePlanId, subscriptionId, from, to);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                message: 'Azure costs by subscription',
+                azurePlanId,
+                subscriptionId,
+                from,
+                to,
+                data: result,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_cost_trends': {
+        const { organizationId, monthsBack = 6, source } = validatedArgs as any;
+        const result = await crayonClient.getCostTrends(organizationId, monthsBack, source);
+        
+        // Generate line chart if we have data
+        if (result.trends && result.trends.length > 0) {
+          const locale = getCurrentLocale();
+          const currency = result.currency || '';
+          const monthLabels = result.trends.map((t: any) => t.month);
+          const formattedLabels = monthLabels.map((m: string) => formatMonthYear(m, locale));
+          const costData = result.trends.map((t: any) => t.cost);
+          
+          console.log(`[Chart] Generating line chart for ${formattedLabels.length} months`);
+          console.log(`[Chart] Cost range: ${Math.min(...costData)} - ${Math.max(...costData)}`);
+          
+          const chartDataUrl = await chartGenerator.generateLineChart(
+            formattedLabels,
+            [{ label: 'Monthly Cost', data: costData }],
+            `Cost Trends (Last ${monthsBack} Months)`,
+            `Cost (${currency})`
+          );
+          
+          console.log(`[Chart] Line chart generated, length: ${chartDataUrl.length}`);
+          
+          // Format summary text with localized month names
+          const summary = result.summary;
+          const summaryText = `# Cost Trends Analysis (Last ${monthsBack} Months)
+
+**Total Cost:** ${summary.totalCost.toFixed(2)} ${currency} (original: ${formatCurrencyTotals(summary.originalTotals)})
+**Average Monthly Cost:** ${summary.averageMonthlyCost ? summary.averageMonthlyCost.toFixed(2) : 'N/A'} ${currency}
+**Highest Month:** ${summary.highestMonth ? `${formatMonthYear(summary.highestMonth.month, locale)} (${summary.highestMonth.cost.toFixed(2)} ${currency})` : 'N/A'}
+**Lowest Month:** ${summary.lowestMonth ? `${formatMonthYear(summary.lowestMonth.month, locale)} (${summary.lowestMonth.cost.toFixed(2)} ${currency})` : 'N/A'}
+
+**Month-over-Month Changes:**
+${result.trends.map((t: any) => {
+  const changeText = t.change !== null 
+    ? `${t.change >= 0 ? '+' : ''}${t.change.toFixed(2)} ${currency} (${t.changePercent >= 0 ? '+' : ''}${t.changePercent}%)`
+    : 'N/A';
+  return `- ${formatMonthYear(t.month, locale)}: ${t.cost.toFixed(2)} ${currency} (${changeText})`;
+}).join('\n')}
+`;
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: summaryText,
+              },
+              {
+                type: 'image',
+                data: chartDataUrl.split(',')[1],
+                mimeType: 'image/png',
+              },
+            ],
+          };
+        }
+        
+        // Fallback: return JSON if no data for chart
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                message: 'Cost trends analysis - month over month comparison',
+                organizationId,
+                monthsBack,
+                data: result,
+              }, null, 2),
+            },
+          ],
         };
       }
 
-      case 'get_customer_tenants': {
-        const { organizationId } = validatedArgs as any;
-        const result = await crayonClient.getCustomerTenants(organizationId);
+      case 'detect_cost_anomalies': {
+        const { organizationId, monthsBack, method, baselineMonths, threshold, minAbsoluteChange, changeThresholdPercent, source } = validatedArgs as any;
+        const result = await crayonClient.detectCostAnomalies(organizationId, {
+          monthsBack,
+          method,
+          baselineMonths,
+          threshold,
+          minAbsoluteChange,
+          changeThresholdPercent,
+          source,
+        });
+        
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({
+                message: `Cost anomaly detection (${method}) - ${result.anomaliesFound} anomalies in the last ${monthsBack} months`,
+                organizationId,
+                monthsBack,
+                data: result,
+              }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_azure_subscriptions': {
-        const { customerTenantId } = validatedArgs as any;
-        const result = await crayonClient.getAzureSubscriptions(customerTenantId);
+      case 'analyze_costs_by_tags': {
+        const { organizationId, monthsBack = 3, source, attribution } = validatedArgs as any;
+        const result = await crayonClient.analyzeCostsByTags(organizationId, monthsBack, source, attribution);
+        
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({
+                message: 'Cost analysis by tags - breakdown by CostCenter, Department, etc.',
+                organizationId,
+                monthsBack,
+                data: result,
+              }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_subscriptions': {
-        const { organizationId, page, pageSize } = validatedArgs as any;
-        const result = await crayonClient.getSubscriptions(organizationId, page, pageSize);
+      case 'find_similar_subscriptions_and_invoices': {
+        const { organizationId, namePattern } = validatedArgs as any;
+        const result = await crayonClient.findSimilarSubscriptionsAndInvoices(organizationId, namePattern);
+        
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({
+                message: 'Similar subscriptions and their latest invoices',
+                organizationId,
+                namePattern,
+                data: result,
+              }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_cost_by_subscription': {
-        const { organizationId, invoiceProfileId, monthsBack = 3 } = validatedArgs as any;
+      case 'list_all_subscriptions_with_tags': {
+        const { organizationId } = validatedArgs as any;
+        const result = await crayonClient.listAllSubscriptionsWithTags(organizationId);
         
-        // Get historical billing and subscriptions in parallel
-        const [billingData, subscriptions] = await Promise.all([
-          crayonClient.getHistoricalBilling(organizationId, monthsBack, invoiceProfileId),
-          crayonClient.getSubscriptions(organizationId),
-        ]);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                message: 'All subscriptions with their tags',
+                organizationId: organizationId || 'all',
+                data: result,
+              }, null, 2),
+            },
+          ],
+        };
+      }
 
-        const costBreakdown = {
-          organizationId,
-          monthsBack,
-          period: {
-            from: new Date(Date.now() - monthsBack * 30 * 24 * 60 * 60 * 1000).toISOString(),
-            to: new Date().toISOString(),
-          },
-          billingData,
-          subscriptions,
-          message: 'Cost breakdown with subscription correlation',
+      case 'get_last_month_costs_by_organization': {
+        const { organizationId } = validatedArgs as any;
+        const result = await crayonClient.getLastMonthCostsByOrganization(organizationId);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                message: 'Last month costs summary',
+                organizationId,
+                data: result,
+              }, null, 2),
+            },
+          ],
         };
+      }
 
+      case 'get_last_month_costs_by_invoice_profile': {
+        const { organizationId } = validatedArgs as any;
+        const result = await crayonClient.getLastMonthCostsByInvoiceProfile(organizationId);
+        
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(costBreakdown, null, 2),
+              text: JSON.stringify({
+                message: 'Last month costs by invoice profile',
+                organizationId,
+                data: result,
+              }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_subscription_details': {
-        const { subscriptionId } = validatedArgs as any;
-        const result = await crayonClient.getSubscriptionById(subscriptionId);
+      case 'get_last_month_costs_by_tags': {
+        const { organizationId, attribution } = validatedArgs as any;
+        const result = await crayonClient.getLastMonthCostsByTags(organizationId, attribution);
+        
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({
+                message: 'Last month costs broken down by tags',
+                organizationId,
+                data: result,
+              }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_subscription_tags': {
-        const { subscriptionId } = validatedArgs as any;
-        const result = await crayonClient.getSubscriptionTags(subscriptionId);
+      case 'invalidate_cache': {
+        const { organizationId } = validatedArgs as any;
+        const entriesRemoved = crayonClient.invalidateCache(organizationId);
+
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({
+                message: 'Cache invalidated',
+                organizationId,
+                entriesRemoved,
+                cacheStats: crayonClient.getCacheStats(),
+              }, null, 2),
             },
           ],
         };
       }
 
-      case 'update_subscription_tags': {
-        const { subscriptionId, tags } = validatedArgs as any;
-        const result = await crayonClient.updateSubscriptionTags(subscriptionId, tags);
+      case 'check_tag_compliance': {
+        const { organizationId, policy } = validatedArgs as any;
+        let tagPolicy;
+        try {
+          tagPolicy = policy ? parseTagPolicy(policy) : loadTagPolicy();
+        } catch (policyError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: policyError instanceof Error ? policyError.message : 'Invalid tag policy',
+              },
+            ],
+            isError: true,
+          };
+        }
+        const result = await crayonClient.checkTagCompliance(organizationId, tagPolicy);
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Tags updated successfully',
-                subscriptionId,
-                tags: result,
+                message: 'Tag policy compliance report',
+                organizationId,
+                data: result,
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_azure_plan_details': {
-        const { azurePlanId } = validatedArgs as any;
-        const result = await crayonClient.getAzurePlan(azurePlanId);
+      case 'visualize_costs_pie_chart': {
+        const { organizationId, monthsBack = 3, topN = 10, chartStyle = 'pie' } = validatedArgs as any;
+        
+        console.log(`[Chart] Fetching billing data for org ${organizationId}, ${monthsBack} months`);
+        // Get billing data for the period
+        const billingData = (await crayonClient.getHistoricalBilling(organizationId, monthsBack)).Items;
+        const costs = crayonClient.normalizeCosts(billingData);
+        const currency = costs.currency || '';
+        console.log(`[Chart] Got ${billingData.length} billing records`);
+        
+        // Group by subscription and sum costs
+        const subscriptionCosts = billingData.reduce((acc: Record<string, number>, item) => {
+          const subName = item.SubscriptionName || 'Unknown';
+          acc[subName] = (acc[subName] || 0) + costs.costOf(item);
+          return acc;
+        }, {});
+        
+        console.log(`[Chart] Grouped into ${Object.keys(subscriptionCosts).length} subscriptions`);
+        
+        // Sort and take top N
+        const sortedData = Object.entries(subscriptionCosts)
+          .sort((a: any, b: any) => b[1] - a[1])
+          .slice(0, topN);
+        
+        const labels = sortedData.map(([name]) => name);
+        const values = sortedData.map(([, cost]) => cost as number);
+        const total = values.reduce((sum, val) => sum + val, 0);
+        
+        console.log(`[Chart] Top ${labels.length} subscriptions, total: ${total} ${currency}`);
+        console.log(`[Chart] Generating ${chartStyle} chart...`);
+        
+        // Generate chart
+        const chartDataUrl = chartStyle === 'doughnut'
+          ? await chartGenerator.generateDoughnutChart(
+              labels,
+              values,
+              `Cost Distribution by Subscription (Last ${monthsBack} Months)`,
+              currency
+            )
+          : await chartGenerator.generatePieChart(
+              labels,
+              values,
+              `Cost Distribution by Subscription (Last ${monthsBack} Months)`,
+              currency
+            );
+        
+        console.log(`[Chart] Chart generated, length: ${chartDataUrl.length}`);
+        
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: `# Cost Distribution (Last ${monthsBack} Months)\n\n**Total Cost:** ${total.toFixed(2)} ${currency} (original: ${formatCurrencyTotals(costs.totals.originalTotals)})\n**Top ${labels.length} Subscriptions:**\n${sortedData.map(([name, cost], idx) => `${idx + 1}. ${name}: ${(cost as number).toFixed(2)} ${currency} (${((cost as number / total) * 100).toFixed(1)}%)`).join('\n')}\n\n`,
+            },
+            {
+              type: 'image',
+              data: chartDataUrl.split(',')[1],
+              mimeType: 'image/png',
+            },
+          ],
+        };
+      }
+
+      case 'visualize_costs': {
+        const { organizationId, dimension, tagKey, attribution, metric, chartType, monthsBack, from, to, topN } = validatedArgs as any;
+
+        const result = await crayonClient.getCostsByDimension(organizationId, dimension, { monthsBack, from, to }, tagKey, attribution);
+        const dimensionName = dimension === 'tag' ? `Tag "${tagKey}"` : dimension;
+        const periodText = from ? `${result.period.from.split('T')[0]} to ${result.period.to.split('T')[0]}` : `Last ${monthsBack} Months`;
+        const title = `Costs by ${dimensionName} (${periodText})`;
+
+        const chart = await renderCostChart(result, { metric, chartType, topN, title });
+        const unit = metric === 'statementCount' ? '' : ` ${result.currency || ''}`;
+        const formatValue = (value: number) => (metric === 'statementCount' ? String(value) : value.toFixed(2));
+
+        const lines = [
+          `# ${title}`,
+          '',
+          `**Metric:** ${chart.valueLabel}`,
+          `**Total Cost:** ${result.totals.total.toFixed(2)} ${result.currency || ''} (original: ${formatCurrencyTotals(result.totals.originalTotals)})`,
+          '',
+          ...chart.rows.map((row, idx) => `${idx + 1}. ${row.label}: ${formatValue(row.value)}${unit} (${row.percent}%)`),
+        ];
+        if (result.fetchFailures.length > 0) {
+          lines.push('', `**Warning:** ${result.fetchFailures.length} lookups failed, their costs are shown as unavailable or missing.`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: lines.join('\n'),
+            },
+            {
+              type: 'image',
+              data: chart.dataUrl.split(',')[1],
+              mimeType: 'image/png',
             },
           ],
         };
       }
 
-      case 'get_azure_plan_subscriptions': {
-        const { azurePlanId } = validatedArgs as any;
-        const result = await crayonClient.getAzurePlanSubscriptions(azurePlanId);
+      case 'forecast_costs': {
+        const { organizationId, includeChart, ...options } = validatedArgs as any;
+        const result = await crayonClient.forecastCosts(organizationId, options);
+        const currency = result.currency || '';
+        const locale = getCurrentLocale();
+
+        const content: any[] = [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              message: `Cost forecast (${result.model}, ${result.confidenceLevel}% interval)`,
+              organizationId,
+              data: result,
+            }, null, 2),
+          },
+        ];
+
+        if (includeChart && result.history.length > 0) {
+          // Actuals, then the current month (model estimate or run-rate projection) and the forecast band
+          const monthEnd = result.monthEnd;
+          const projected = [
+            {
+              ...result.currentMonthModelEstimate,
+              ...(monthEnd ? { forecast: monthEnd.projectedTotal, lower: monthEnd.lower, upper: monthEnd.upper } : {}),
+            },
+            ...result.forecast,
+          ];
+          const historyCount = result.history.length;
+          const pad = (count: number) => Array.from({ length: count }, () => null);
+          const lastActual = result.history[historyCount - 1].cost;
+
+          const chartDataUrl = await chartGenerator.generateLineChart(
+            [...result.history.map((h: any) => h.month), ...projected.map((p: any) => p.month)]
+              .map((month: string) => formatMonthYear(month, locale)),
+            [
+              { label: 'Actual', data: [...result.history.map((h: any) => h.cost), ...pad(projected.length)], fill: false },
+              {
+                label: 'Forecast',
+                data: [...pad(historyCount - 1), lastActual, ...projected.map((p: any) => p.forecast)],
+                fill: false,
+                borderDash: [6, 4],
+              },
+              {
+                label: `Upper (${result.confidenceLevel}%)`,
+                data: [...pad(historyCount - 1), lastActual, ...projected.map((p: any) => p.upper)],
+                fill: '+1',
+                borderDash: [2, 2],
+              },
+              {
+                label: `Lower (${result.confidenceLevel}%)`,
+                data: [...pad(historyCount - 1), lastActual, ...projected.map((p: any) => p.lower)],
+                fill: false,
+                borderDash: [2, 2],
+              },
+            ],
+            `Cost Forecast (${result.model})`,
+            `Cost (${currency})`
+          );
+
+          content.push({
+            type: 'image',
+            data: chartDataUrl.split(',')[1],
+            mimeType: 'image/png',
+          });
+        }
+
+        return { content };
+      }
+
+      case 'create_budget': {
+        const { organizationId, ...input } = validatedArgs as any;
+        const budget = budgetStore.create({ organizationId, ...input }, userId);
+
+        logAudit({
+          action: 'create_budget',
+          userId,
+          organizationId,
+          resource: `budget:${budget.id}`,
+          status: 'success',
+          timestamp: new Date(),
+          details: { name: budget.name, scope: budget.scope, amount: budget.amount, currency: budget.currency, period: budget.period },
+        });
+
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({
+                message: 'Budget created',
+                organizationId,
+                data: budget,
+              }, null, 2),
             },
           ],
         };
       }
 
-      case 'track_costs_by_tags': {
-        const { organizationId, monthsBack = 3 } = validatedArgs as any;
-        const result = await crayonClient.getCostByTags(organizationId, monthsBack);
-        
+      case 'list_budgets': {
+        const { organizationId } = validatedArgs as any;
+        const budgets = budgetStore.list(organizationId);
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Cost tracking by subscription tags',
+                message: `${budgets.length} budget(s)`,
                 organizationId,
-                monthsBack,
-                data: result,
+                data: budgets,
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_azure_costs_by_date_range': {
-        const { organizationId, from, to } = validatedArgs as any;
-        const result = await crayonClient.getAzureCostsByDateRange(organizationId, from, to);
-        
+      case 'delete_budget': {
+        const { organizationId, budgetId } = validatedArgs as any;
+        const existing = budgetStore.get(budgetId);
+        if (!existing || existing.organizationId !== organizationId) {
+          throw new Error(`Budget ${budgetId} not found for organization ${organizationId}`);
+        }
+
+        budgetStore.delete(budgetId);
+        logAudit({
+          action: 'delete_budget',
+          userId,
+          organizationId,
+          resource: `budget:${budgetId}`,
+          status: 'success',
+          timestamp: new Date(),
+          details: { name: existing.name },
+        });
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Azure costs by date range',
+                message: 'Budget deleted',
                 organizationId,
-                from,
-                to,
-                data: result,
+                data: existing,
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_azure_costs_by_subscription': {
-        const { azurePlanId, subscriptionId, from, to } = validatedArgs as any;
-        const result = await crayonClient.getAzureCostsBySubscription(azurePlanId, subscriptionId, from, to);
-        
+      case 'get_budget_status': {
+        const { organizationId, budgetId, includeChart } = validatedArgs as any;
+        const budgets = budgetStore.list(organizationId).filter((b) => !budgetId || b.id === budgetId);
+        if (budgetId && budgets.length === 0) {
+          throw new Error(`Budget ${budgetId} not found for organization ${organizationId}`);
+        }
+
+        const now = new Date();
+        const statuses: Array<BudgetStatus | { budget: any; error: string }> = [];
+        const content: any[] = [];
+
+        for (const budget of budgets) {
+          const { from } = getBudgetPeriodRange(budget.period, now);
+          const actuals = await crayonClient.getBudgetActuals(organizationId, budget.scope, from.toISOString(), now.toISOString());
+
+          if (actuals.currency && actuals.currency !== budget.currency) {
+            statuses.push({
+              budget,
+              error: `Actuals are in ${actuals.currency} but the budget is in ${budget.currency}; set REPORTING_CURRENCY=${budget.currency} to compare them`,
+            });
+            continue;
+          }
+
+          const status = evaluateBudget(budget, actuals.monthlyActuals, now);
+          statuses.push({ ...status, ...(actuals.tagFetchFailures.length > 0 ? { tagFetchFailures: actuals.tagFetchFailures } : {}) });
+
+          if (includeChart) {
+            const chartDataUrl = await chartGenerator.generateLineChart(
+              status.burnDown.map((p) => p.date),
+              [
+                { label: 'Ideal', data: status.burnDown.map((p) => p.ideal), fill: false, borderDash: [2, 2] },
+                { label: 'Remaining', data: status.burnDown.map((p) => p.remaining), fill: false },
+                { label: 'Projected', data: status.burnDown.map((p) => p.projected), fill: false, borderDash: [6, 4] },
+              ],
+              `Budget Burn-down: ${budget.name} (${status.period.from} to ${status.period.to})`,
+              `Remaining (${budget.currency})`
+            );
+            content.push({ type: 'image', data: chartDataUrl.split(',')[1], mimeType: 'image/png' });
+          }
+        }
+
+        content.unshift({
+          type: 'text',
+          text: JSON.stringify({
+            message: budgets.length > 0 ? 'Budget status for the current period' : 'No budgets defined for this organization',
+            organizationId,
+            data: statuses,
+          }, null, 2),
+        });
+
+        return { content };
+      }
+
+      case 'detect_daily_anomalies': {
+        const { azurePlanId, ...options } = validatedArgs as any;
+        const result = await crayonClient.detectDailyAnomalies(azurePlanId, options);
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Azure costs by subscription',
+                message: `Daily cost anomalies (${result.method}) from ${result.period.from} to ${result.period.to}: ${result.anomaliesFound} found`,
                 azurePlanId,
-                subscriptionId,
-                from,
-                to,
                 data: result,
               }, null, 2),
             },
@@ -952,70 +2369,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'get_cost_trends': {
-        const { organizationId, monthsBack = 6 } = validatedArgs as any;
-        const result = await crayonClient.getCostTrends(organizationId, monthsBack);
-        
-        // Generate line chart if we have data
-        if (result.trends && result.trends.length > 0) {
-          const locale = getCurrentLocale();
-          const monthLabels = result.trends.map((t: any) => t.month);
-          const formattedLabels = monthLabels.map((m: string) => formatMonthYear(m, locale));
-          const costData = result.trends.map((t: any) => t.cost);
-          
-          console.log(`[Chart] Generating line chart for ${formattedLabels.length} months`);
-          console.log(`[Chart] Cost range: ${Math.min(...costData)} - ${Math.max(...costData)}`);
-          
-          const chartDataUrl = await chartGenerator.generateLineChart(
-            formattedLabels,
-            [{ label: 'Monthly Cost', data: costData }],
-            `Cost Trends (Last ${monthsBack} Months)`,
-            'Cost (NOK)'
-          );
-          
-          console.log(`[Chart] Line chart generated, length: ${chartDataUrl.length}`);
-          
-          // Format summary text with localized month names
-          const summary = result.summary;
-          const summaryText = `# Cost Trends Analysis (Last ${monthsBack} Months)
-
-**Average Monthly Cost:** ${summary.averageMonthlyCost ? summary.averageMonthlyCost.toFixed(2) : 'N/A'} NOK
-**Highest Month:** ${summary.highestMonth ? `${formatMonthYear(summary.highestMonth.month, locale)} (${summary.highestMonth.cost.toFixed(2)} NOK)` : 'N/A'}
-**Lowest Month:** ${summary.lowestMonth ? `${formatMonthYear(summary.lowestMonth.month, locale)} (${summary.lowestMonth.cost.toFixed(2)} NOK)` : 'N/A'}
-
-**Month-over-Month Changes:**
-${result.trends.map((t: any) => {
-  const changeText = t.change !== null 
-    ? `${t.change >= 0 ? '+' : ''}${t.change.toFixed(2)} NOK (${t.changePercent >= 0 ? '+' : ''}${t.changePercent}%)`
-    : 'N/A';
-  return `- ${formatMonthYear(t.month, locale)}: ${t.cost.toFixed(2)} NOK (${changeText})`;
-}).join('\n')}
-`;
+      case 'query_azure_usage': {
+        const { azurePlanId, subscriptionId, year, month, ...query } = validatedArgs as any;
+        const result = await crayonClient.queryAzureUsage({ azurePlanId, subscriptionId, year, month }, query);
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: summaryText,
-              },
-              {
-                type: 'image',
-                data: chartDataUrl.split(',')[1],
-                mimeType: 'image/png',
-              },
-            ],
-          };
-        }
-        
-        // Fallback: return JSON if no data for chart
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Cost trends analysis - month over month comparison',
-                organizationId,
-                monthsBack,
+                message: `Azure usage for ${result.period}: ${result.rowsMatched} of ${result.rowsScanned} rows matched`,
+                azurePlanId,
                 data: result,
               }, null, 2),
             },
@@ -1023,19 +2387,18 @@ ${result.trends.map((t: any) => {
         };
       }
 
-      case 'detect_cost_anomalies': {
-        const { organizationId, monthsBack = 3, changeThresholdPercent = 25 } = validatedArgs as any;
-        const result = await crayonClient.detectCostAnomalies(organizationId, monthsBack, changeThresholdPercent);
-        
+      case 'get_azure_resource_costs': {
+        const { azurePlanId, subscriptionId, fromMonth, toMonth = fromMonth, topN } = validatedArgs as any;
+        const result = await crayonClient.getAzureResourceCosts(azurePlanId, subscriptionId, fromMonth, toMonth, topN);
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Cost anomaly detection - subscriptions with significant changes',
-                organizationId,
-                monthsBack,
-                changeThresholdPercent,
+                message: `Azure resource costs from ${fromMonth} to ${toMonth}: ${result.total} ${result.currency || ''}`.trim(),
+                azurePlanId,
+                subscriptionId,
                 data: result,
               }, null, 2),
             },
@@ -1043,174 +2406,201 @@ ${result.trends.map((t: any) => {
         };
       }
 
-      case 'analyze_costs_by_tags': {
-        const { organizationId, monthsBack = 3 } = validatedArgs as any;
-        const result = await crayonClient.analyzeCostsByTags(organizationId, monthsBack);
-        
+      case 'export_cost_report': {
+        const { organizationId, report, format, monthsBack } = validatedArgs as any;
+        const data = await buildReport(crayonClient, report, { organizationId, monthsBack });
+        const exported = await reportExporter.write(data, format);
+        const uri = transportMode === 'stdio'
+          ? pathToFileURL(path.resolve(exported.filePath)).href
+          : `${EXPORT_BASE_URL}/exports/${exported.fileName}`;
+
+        logAudit({
+          action: 'export_cost_report',
+          userId,
+          organizationId,
+          resource: `export:${exported.fileName}`,
+          status: 'success',
+          timestamp: new Date(),
+          details: { report, format, monthsBack, rowCount: exported.rowCount },
+        });
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Cost analysis by tags - breakdown by CostCenter, Department, etc.',
+                message: `${data.title} exported as ${format.toUpperCase()} (${exported.rowCount} rows)`,
                 organizationId,
-                monthsBack,
-                data: result,
+                data: {
+                  fileName: exported.fileName,
+                  format,
+                  mimeType: exported.mimeType,
+                  size: exported.size,
+                  rowCount: exported.rowCount,
+                  sheets: exported.sheets,
+                  currency: data.currency,
+                  uri,
+                },
               }, null, 2),
             },
+            {
+              type: 'resource_link',
+              uri,
+              name: exported.fileName,
+              title: data.title,
+              mimeType: exported.mimeType,
+              description: `${data.title} for organization ${organizationId}`,
+            },
           ],
         };
       }
 
-      case 'find_similar_subscriptions_and_invoices': {
-        const { organizationId, namePattern } = validatedArgs as any;
-        const result = await crayonClient.findSimilarSubscriptionsAndInvoices(organizationId, namePattern);
-        
+      case 'list_report_jobs': {
+        const { organizationId } = validatedArgs as any;
+        const jobs = reportJobScheduler.list(organizationId);
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Similar subscriptions and their latest invoices',
+                message: reportJobScheduler.size === 0
+                  ? 'No report jobs configured (set REPORT_JOBS_FILE)'
+                  : `${jobs.length} report job(s)`,
                 organizationId,
-                namePattern,
-                data: result,
+                data: jobs,
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'list_all_subscriptions_with_tags': {
-        const { organizationId } = validatedArgs as any;
-        const result = await crayonClient.listAllSubscriptionsWithTags(organizationId);
-        
+      case 'list_alerts': {
+        const { organizationId, status } = validatedArgs as any;
+        const alerts = alertWatcher.list(organizationId, status);
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'All subscriptions with their tags',
-                organizationId: organizationId || 'all',
-                data: result,
+                message: alertWatcher.enabled
+                  ? `${alerts.length} alert(s)`
+                  : 'Alert watcher is not configured (set ALERTS_FILE)',
+                organizationId,
+                data: {
+                  alerts,
+                  silences: alertWatcher.silences(organizationId),
+                  lastCycle: alertWatcher.getLastCycle(),
+                },
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_last_month_costs_by_organization': {
-        const { organizationId } = validatedArgs as any;
-        const result = await crayonClient.getLastMonthCostsByOrganization(organizationId);
-        
+      case 'silence_alert': {
+        const { organizationId, action, alertId, kind, subscriptionId, budgetId, durationHours, silenceId, note } = validatedArgs as any;
+        let message: string;
+        let data: any;
+
+        if (action === 'acknowledge') {
+          data = alertWatcher.acknowledge(organizationId, alertId, userId, note);
+          message = `Alert ${alertId} acknowledged`;
+        } else if (action === 'silence') {
+          data = alertWatcher.silence(organizationId, { alertId, kind, subscriptionId, budgetId }, durationHours, userId, note);
+          message = `Alerts silenced until ${data.until}`;
+        } else {
+          data = alertWatcher.unsilence(organizationId, silenceId);
+          message = `Silence ${silenceId} removed`;
+        }
+
+        logAudit({
+          action: `${action}_alert`,
+          userId,
+          organizationId,
+          resource: action === 'unsilence' ? `alert_silence:${silenceId}` : `alert:${alertId ?? data.id}`,
+          status: 'success',
+          timestamp: new Date(),
+          details: action === 'silence' ? { kind, subscriptionId, budgetId, durationHours } : undefined,
+        });
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Last month costs summary',
+                message,
                 organizationId,
-                data: result,
+                data,
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_last_month_costs_by_invoice_profile': {
-        const { organizationId } = validatedArgs as any;
-        const result = await crayonClient.getLastMonthCostsByInvoiceProfile(organizationId);
-        
+      case 'sync_warehouse': {
+        const { organizationId, monthsBack, full } = validatedArgs as any;
+        const result = await crayonClient.syncWarehouse(organizationId, { monthsBack, full });
+        const status = await crayonClient.getWarehouseStatus(organizationId);
+
+        logAudit({
+          action: 'sync_warehouse',
+          userId,
+          organizationId,
+          resource: `warehouse:${organizationId}`,
+          status: 'success',
+          timestamp: new Date(),
+          details: { monthsBack, full, monthsSynced: result.monthsSynced.length },
+        });
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Last month costs by invoice profile',
+                message: `Synced ${result.monthsSynced.length} month(s) into the warehouse, ${result.monthsSkipped} already up to date`,
                 organizationId,
-                data: result,
+                data: { ...result, warehouse: status },
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'get_last_month_costs_by_tags': {
-        const { organizationId } = validatedArgs as any;
-        const result = await crayonClient.getLastMonthCostsByTags(organizationId);
-        
+      case 'get_tag_history': {
+        const { organizationId, subscriptionId, capture } = validatedArgs as any;
+        const captured = capture ? await crayonClient.captureTagHistory(organizationId) : null;
+        const result = crayonClient.getTagHistory(organizationId, subscriptionId);
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                message: 'Last month costs broken down by tags',
+                message: `Tag history of ${result.subscriptionCount} subscription(s) with ${result.changeCount} recorded change(s)`,
                 organizationId,
-                data: result,
+                data: captured ? { ...result, capture: captured } : result,
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'visualize_costs_pie_chart': {
-        const { organizationId, monthsBack = 3, topN = 10, chartStyle = 'pie' } = validatedArgs as any;
-        
-        console.log(`[Chart] Fetching billing data for org ${organizationId}, ${monthsBack} months`);
-        // Get billing data for the period
-        const billingDataResponse = await crayonClient.getHistoricalBilling(organizationId, monthsBack);
-        const billingData = Array.isArray(billingDataResponse) ? billingDataResponse : (billingDataResponse?.data || []);
-        console.log(`[Chart] Got ${billingData.length} billing records`);
-        
-        // Group by subscription and sum costs
-        const subscriptionCosts = billingData.reduce((acc: any, item: any) => {
-          const subName = item.subscriptionName || item.name || 'Unknown';
-          const cost = parseFloat(item.totalSalesPrice || item.totalCost || item.cost || 0);
-          acc[subName] = (acc[subName] || 0) + cost;
-          return acc;
-        }, {});
-        
-        console.log(`[Chart] Grouped into ${Object.keys(subscriptionCosts).length} subscriptions`);
-        
-        // Sort and take top N
-        const sortedData = Object.entries(subscriptionCosts)
-          .sort((a: any, b: any) => b[1] - a[1])
-          .slice(0, topN);
-        
-        const labels = sortedData.map(([name]) => name);
-        const values = sortedData.map(([, cost]) => cost as number);
-        const total = values.reduce((sum, val) => sum + val, 0);
-        
-        console.log(`[Chart] Top ${labels.length} subscriptions, total: $${total}`);
-        console.log(`[Chart] Generating ${chartStyle} chart...`);
-        
-        // Generate chart
-        const chartDataUrl = chartStyle === 'doughnut'
-          ? await chartGenerator.generateDoughnutChart(
-              labels,
-              values,
-              `Cost Distribution by Subscription (Last ${monthsBack} Months)`,
-              'USD'
-            )
-          : await chartGenerator.generatePieChart(
-              labels,
-              values,
-              `Cost Distribution by Subscription (Last ${monthsBack} Months)`,
-              'USD'
-            );
-        
-        console.log(`[Chart] Chart generated, length: ${chartDataUrl.length}`);
-        
+      case 'query_costs': {
+        const { organizationId, query, source, attribution } = validatedArgs as any;
+        const result = await crayonClient.queryCosts(organizationId, query, { source, attribution });
+
         return {
           content: [
             {
               type: 'text',
-              text: `# Cost Distribution (Last ${monthsBack} Months)\n\n**Total Cost:** $${total.toFixed(2)}\n**Top ${labels.length} Subscriptions:**\n${sortedData.map(([name, cost], idx) => `${idx + 1}. ${name}: $${(cost as number).toFixed(2)} (${((cost as number / total) * 100).toFixed(1)}%)`).join('\n')}\n\n`,
-            },
-            {
-              type: 'image',
-              data: chartDataUrl.split(',')[1],
-              mimeType: 'image/png',
+              text: JSON.stringify({
+                message: `${result.rows.length} row(s) from ${result.rowsMatched} matching statement(s), ${result.months.from} to ${result.months.to}`
+                  + (result.truncated ? ` (truncated from ${result.totalRows})` : ''),
+                organizationId,
+                data: result,
+              }, null, 2),
             },
           ],
         };
@@ -1276,6 +2666,11 @@ const transportMode = process.env.TRANSPORT_MODE || 'http';
 const transports: Record<string, StreamableHTTPServerTransport> = {};
 
 async function startServer() {
+  reportJobScheduler.start();
+  alertWatcher.start();
+  warehouseSync.start();
+  tagCapture.start();
+
   if (transportMode === 'stdio') {
     console.error('Starting Crayon Cost MCP server in stdio mode...');
     const transport = new StdioServerTransport();
@@ -1305,19 +2700,63 @@ async function startServer() {
 
     // Health check endpoint (no auth required)
     app.get('/health', (_req: Request, res: Response) => {
+      const circuitBreaker = crayonClient.getCircuitBreakerStatus();
       res.json({ 
-        status: 'ok', 
+        status: circuitBreaker.state === 'open' ? 'degraded' : 'ok', 
         server: 'crayon-cost-mcp', 
         tools: tools.length,
+        circuitBreaker,
+        scheduler: crayonClient.getSchedulerStats(),
+        cache: crayonClient.getCacheStats(),
         timestamp: new Date().toISOString(),
       });
     });
 
-    // Apply authentication middleware to /mcp endpoint
+    // OAuth 2.0 Protected Resource Metadata (RFC 9728) so MCP clients can discover the authorization server
+    if (AUTH_ENABLED && isJwtAuthEnabled()) {
+      // Served at the path advertised in WWW-Authenticate (derived from OIDC_RESOURCE_URL) and the bare well-known path
+      const metadataPaths = Array.from(new Set(['/.well-known/oauth-protected-resource', getProtectedResourceMetadataPath()]));
+      app.get(metadataPaths, (_req: Request, res: Response) => {
+        res.json(getProtectedResourceMetadata());
+      });
+    }
+
+    // Apply authentication middleware to /mcp and /exports endpoints
     if (AUTH_ENABLED) {
       app.use('/mcp', authenticateRequest);
+      app.use('/exports', authenticateRequest);
     }
 
+    // Report exports written by export_cost_report - only for callers with access to the report's organization
+    app.get('/exports/:fileName', (req: Request, res: Response) => {
+      const fileName = String(req.params.fileName);
+      const exported = reportExporter.resolve(fileName);
+      if (!exported) {
+        res.status(404).json({ error: 'Export not found' });
+        return;
+      }
+
+      if (AUTH_ENABLED) {
+        const denied = req.user ? checkOrganizationAccess(req.user, exported.organizationId) : { status: 401, error: 'User not authenticated' };
+        if (denied) {
+          res.status(denied.status).json({ error: denied.error });
+          return;
+        }
+      }
+
+      logAudit({
+        action: 'download_export',
+        userId: req.user?.id || 'unknown',
+        organizationId: exported.organizationId,
+        resource: `export:${fileName}`,
+        status: 'success',
+        timestamp: new Date(),
+      });
+
+      res.setHeader('Content-Type', exported.mimeType);
+      res.download(exported.filePath, fileName);
+    });
+
     // MCP Streamable HTTP endpoint - handles all GET/POST/DELETE requests
     app.all('/mcp', async (req: Request, res: Response) => {
       console.log(`Received ${req.method} request to /mcp`);
@@ -1392,21 +2831,23 @@ async function startServer() {
       
       // Display authentication instructions for production use
       if (AUTH_ENABLED) {
-        const authToken = process.env.AUTH_TOKEN || 'NOT_SET';
-        console.log('AUTHENTICATION TOKEN:');
+        const registeredTokens = getTokenRegistry().size;
+        console.log('AUTHENTICATION:');
         console.log(`${'─'.repeat(80)}`);
-        console.log(`Token: ${authToken}`);
+        console.log(`Registered tokens: ${registeredTokens}`);
+        if (isJwtAuthEnabled()) {
+          console.log(`OIDC issuer: ${process.env.OIDC_ISSUER}`);
+        }
         console.log(`${'─'.repeat(80)}`);
         console.log('\nUsage in MCP requests:');
         console.log(`curl -X POST http://localhost:${PORT}/mcp \\`);
-        console.log(`  -H "Authorization: Bearer ${authToken}" \\`);
+        console.log(`  -H "Authorization: Bearer <your-token>" \\`);
         console.log(`  -H "Content-Type: application/json" \\`);
         console.log(`  -d '{...}'`);
         console.log('\n');
         
-        // Log token display for audit trail
         logger.info('MCP Server started with authentication enabled', {
-          tokenSet: authToken !== 'NOT_SET',
+          registeredTokens,
           timestamp: new Date().toISOString(),
         });
       }
@@ -1,22 +1,52 @@
 import { Request, Response, NextFunction } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { logger } from './logger.js';
+import { AuthenticatedUser, getTokenRegistry, lookupToken } from './token-registry.js';
+import { isJwtAuthEnabled, looksLikeJwt, verifyAccessToken, getProtectedResourceMetadataUrl } from './jwt.js';
 
-// Extend Express Request to include user
+// Extend Express Request to include user and the MCP auth info handed to tool handlers
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: string;
-        email: string;
-        organizations: number[];
-        roles: string[];
-      };
+      user?: AuthenticatedUser;
+      auth?: AuthInfo;
     }
   }
 }
 
 /**
- * Authentication middleware - validates Bearer token
+ * Get the authenticated user from MCP request auth info (set by authenticateRequest)
+ */
+export function getUserFromAuthInfo(authInfo?: AuthInfo): AuthenticatedUser | undefined {
+  return authInfo?.extra?.user as AuthenticatedUser | undefined;
+}
+
+/**
+ * Attach an authenticated identity to the request and the MCP auth info
+ */
+function attachUser(req: Request, token: string, user: AuthenticatedUser, expiresAt?: number): void {
+  req.user = user;
+  req.auth = {
+    token,
+    clientId: user.id,
+    scopes: user.roles,
+    expiresAt,
+    extra: { user },
+  };
+}
+
+/**
+ * Send a 401 response, advertising the protected resource metadata when OIDC is configured
+ */
+function rejectUnauthorized(res: Response, error: string): void {
+  if (isJwtAuthEnabled()) {
+    res.setHeader('WWW-Authenticate', `Bearer resource_metadata="${getProtectedResourceMetadataUrl()}"`);
+  }
+  res.status(401).json({ error });
+}
+
+/**
+ * Authentication middleware - validates Bearer token (JWT access token or registered token)
  */
 export function authenticateRequest(req: Request, res: Response, next: NextFunction): void {
   // Skip auth if disabled (development only)
@@ -38,7 +68,7 @@ export function authenticateRequest(req: Request, res: Response, next: NextFunct
     req.user = {
       id: 'anonymous',
       email: 'anonymous@crayon-cost-mcp.local',
-      organizations: [4040561, 4019092], // All orgs for now
+      organizations: [], // Initialize only - tool calls require a token
       roles: ['viewer'],
     };
     return next();
@@ -46,7 +76,7 @@ export function authenticateRequest(req: Request, res: Response, next: NextFunct
 
   if (!authHeader) {
     logger.warn('Unauthorized: Missing authorization header');
-    res.status(401).json({ error: 'Unauthorized: Missing authorization header' });
+    rejectUnauthorized(res, 'Unauthorized: Missing authorization header');
     return;
   }
 
@@ -54,36 +84,92 @@ export function authenticateRequest(req: Request, res: Response, next: NextFunct
 
   if (!token) {
     logger.warn('Unauthorized: Missing authentication token');
-    res.status(401).json({ error: 'Unauthorized: Missing authentication token' });
+    rejectUnauthorized(res, 'Unauthorized: Missing authentication token');
     return;
   }
 
-  // Simple token validation against AUTH_TOKEN
-  const validToken = process.env.AUTH_TOKEN;
-  
-  if (!validToken) {
-    logger.error('Server misconfiguration: AUTH_TOKEN not set');
+  // Validate JWT access tokens issued by the configured authorization server
+  if (isJwtAuthEnabled() && looksLikeJwt(token)) {
+    verifyAccessToken(token)
+      .then(({ user, expiresAt }) => {
+        attachUser(req, token, user, expiresAt);
+        next();
+      })
+      .catch((error) => {
+        logger.warn('Invalid JWT access token', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        rejectUnauthorized(res, 'Invalid authentication token');
+      });
+    return;
+  }
+
+  // Validate token against the token registry
+  if (getTokenRegistry().size === 0 && !isJwtAuthEnabled()) {
+    logger.error('Server misconfiguration: no tokens registered');
     res.status(500).json({ error: 'Server authentication not configured' });
     return;
   }
 
-  if (token !== validToken) {
+  const user = lookupToken(token);
+  if (!user) {
     logger.warn('Invalid token provided');
-    res.status(401).json({ error: 'Invalid authentication token' });
+    rejectUnauthorized(res, 'Invalid authentication token');
     return;
   }
 
-  // Token is valid - set default user with admin access to all orgs
-  req.user = {
-    id: 'api-user',
-    email: 'api@crayon-cost-mcp.local',
-    organizations: [4040561, 4019092], // All orgs
-    roles: ['admin'],
-  };
-
+  // Token is valid - attach the registered identity and its organization scope
+  attachUser(req, token, user);
   next();
 }
 
+/**
+ * Roles from least to most privileged; each role includes everything the roles before it may do
+ */
+export const ROLE_HIERARCHY = ['viewer', 'editor', 'admin'] as const;
+
+/**
+ * Whether any of `roles` ranks at or above `requiredRole`. Roles outside the hierarchy only
+ * satisfy themselves (and admin satisfies everything).
+ */
+export function hasRequiredRole(roles: string[], requiredRole: string): boolean {
+  const rank = (role: string) => (ROLE_HIERARCHY as readonly string[]).indexOf(role);
+  const required = rank(requiredRole);
+  if (required === -1) return roles.includes(requiredRole) || roles.includes('admin');
+  return roles.some((role) => rank(role) >= required);
+}
+
+/**
+ * Check whether a user may access an organization with the given role.
+ * Returns null when access is allowed, otherwise the HTTP status and error message.
+ */
+export function checkOrganizationAccess(
+  user: AuthenticatedUser,
+  organizationId: number,
+  requiredRole: string = 'viewer'
+): { status: number; error: string } | null {
+  if (!user.organizations.includes(organizationId)) {
+    logger.warn('Unauthorized access attempt', {
+      userId: user.id,
+      attemptedOrgId: organizationId,
+      allowedOrgs: user.organizations,
+    });
+    return { status: 403, error: `Forbidden: No access to organization ${organizationId}` };
+  }
+
+  // Check role requirements
+  if (!hasRequiredRole(user.roles, requiredRole)) {
+    logger.warn('Insufficient role', {
+      userId: user.id,
+      requiredRole,
+      userRoles: user.roles,
+    });
+    return { status: 403, error: `Forbidden: Requires ${requiredRole} role` };
+  }
+
+  return null;
+}
+
 /**
  * Authorization middleware - checks if user has access to organization
  */
@@ -102,26 +188,9 @@ export function authorizeOrganization(requiredRole: string = 'viewer') {
       return;
     }
 
-    // Check if user has access to this organization
-    if (!req.user.organizations.includes(parseInt(organizationId))) {
-      logger.warn('Unauthorized access attempt', {
-        userId: req.user.id,
-        attemptedOrgId: organizationId,
-        allowedOrgs: req.user.organizations,
-      });
-      res.status(403).json({ error: `Forbidden: No access to organization ${organizationId}` });
-      return;
-    }
-
-    // Check role requirements
-    const hasRole = req.user.roles.includes(requiredRole) || req.user.roles.includes('admin');
-    if (!hasRole) {
-      logger.warn('Insufficient role', {
-        userId: req.user.id,
-        requiredRole,
-        userRoles: req.user.roles,
-      });
-      res.status(403).json({ error: `Forbidden: Requires ${requiredRole} role` });
+    const denied = checkOrganizationAccess(req.user, parseInt(organizationId), requiredRole);
+    if (denied) {
+      res.status(denied.status).json({ error: denied.error });
       return;
     }
 
@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import Joi from 'joi';
+import { createLocalJWKSet, createRemoteJWKSet, jwtVerify, JWTPayload, JWTVerifyGetKey } from 'jose';
+import { logger } from './logger.js';
+import { AuthenticatedUser } from './token-registry.js';
+
+/**
+ * OAuth 2.1 / OIDC access token validation settings
+ */
+export interface OidcConfig {
+  issuer: string;
+  audience: string;
+  jwksUri?: string;
+  jwksFile?: string;
+  organizationsClaim: string;
+  rolesClaim: string;
+  groupsClaim: string;
+  groupMappings: Record<string, { organizations?: number[]; roles?: string[] }>;
+  clockToleranceSeconds: number;
+}
+
+const groupMappingsSchema = Joi.object().pattern(
+  Joi.string(),
+  Joi.object({
+    organizations: Joi.array().items(Joi.number().integer().positive()),
+    roles: Joi.array().items(Joi.string().max(50)),
+  })
+);
+
+let oidcConfig: OidcConfig | null = null;
+let keySet: JWTVerifyGetKey | null = null;
+
+/**
+ * Whether JWT bearer validation is configured (OIDC_ISSUER set)
+ */
+export function isJwtAuthEnabled(): boolean {
+  return !!process.env.OIDC_ISSUER;
+}
+
+/**
+ * Parse OIDC_GROUP_MAPPINGS, a JSON object of group name to { organizations, roles }
+ */
+function parseGroupMappings(value: string | undefined): OidcConfig['groupMappings'] {
+  if (!value) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid OIDC_GROUP_MAPPINGS: ${error instanceof Error ? error.message : 'not JSON'}`);
+  }
+  const { error, value: mappings } = groupMappingsSchema.validate(parsed, { abortEarly: false });
+  if (error) {
+    throw new Error(`Invalid OIDC_GROUP_MAPPINGS: ${error.message}`);
+  }
+  return mappings;
+}
+
+/**
+ * Read and validate the OIDC settings from the environment.
+ * Throws on invalid settings, so call it at startup to fail fast.
+ */
+export function loadOidcConfig(): OidcConfig {
+  return {
+    issuer: process.env.OIDC_ISSUER || '',
+    audience: process.env.OIDC_AUDIENCE || getResourceUrl(),
+    jwksUri: process.env.OIDC_JWKS_URI,
+    jwksFile: process.env.OIDC_JWKS_FILE,
+    organizationsClaim: process.env.OIDC_ORGANIZATIONS_CLAIM || 'crayon_orgs',
+    rolesClaim: process.env.OIDC_ROLES_CLAIM || 'roles',
+    groupsClaim: process.env.OIDC_GROUPS_CLAIM || 'groups',
+    groupMappings: parseGroupMappings(process.env.OIDC_GROUP_MAPPINGS),
+    clockToleranceSeconds: parseInt(process.env.OIDC_CLOCK_TOLERANCE_SECONDS || '30', 10),
+  };
+}
+
+/**
+ * Get the OIDC settings (loaded once on first use)
+ */
+export function getOidcConfig(): OidcConfig {
+  if (!oidcConfig) {
+    oidcConfig = loadOidcConfig();
+  }
+  return oidcConfig;
+}
+
+/**
+ * Public URL of the protected MCP endpoint (the OAuth resource identifier)
+ */
+export function getResourceUrl(): string {
+  if (process.env.OIDC_RESOURCE_URL) {
+    return process.env.OIDC_RESOURCE_URL;
+  }
+  return `http://localhost:${process.env.PORT || '3003'}/mcp`;
+}
+
+/**
+ * Load the signing key set from a static JWKS file or a remote JWKS URL (cached after first use)
+ */
+function getKeySet(config: OidcConfig): JWTVerifyGetKey {
+  if (keySet) {
+    return keySet;
+  }
+
+  if (config.jwksFile) {
+    keySet = createLocalJWKSet(JSON.parse(fs.readFileSync(config.jwksFile, 'utf-8')));
+  } else if (config.jwksUri) {
+    keySet = createRemoteJWKSet(new URL(config.jwksUri));
+  } else {
+    throw new Error('OIDC misconfiguration: set OIDC_JWKS_FILE or OIDC_JWKS_URI');
+  }
+  return keySet;
+}
+
+/**
+ * Read a claim that may be an array or a comma/space separated string
+ */
+function claimList(payload: JWTPayload, claim: string): string[] {
+  const value = payload[claim];
+  if (Array.isArray(value)) {
+    return value.map((v) => String(v));
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return String(value).split(/[\s,]+/).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Map token claims onto organizations and roles
+ */
+function mapClaimsToUser(payload: JWTPayload, config: OidcConfig): AuthenticatedUser {
+  const organizations = new Set<number>(
+    claimList(payload, config.organizationsClaim)
+      .map((id) => parseInt(id, 10))
+      .filter((id) => !isNaN(id) && id > 0)
+  );
+  const roles = new Set<string>(claimList(payload, config.rolesClaim));
+
+  for (const group of claimList(payload, config.groupsClaim)) {
+    const mapping = config.groupMappings[group];
+    if (!mapping) continue;
+    (mapping.organizations || []).forEach((id) => organizations.add(id));
+    (mapping.roles || []).forEach((role) => roles.add(role));
+  }
+
+  if (roles.size === 0) {
+    roles.add('viewer');
+  }
+
+  const subject = payload.sub || 'unknown';
+  return {
+    id: subject,
+    email: typeof payload.email === 'string' ? payload.email : `${subject}@crayon-cost-mcp.local`,
+    organizations: Array.from(organizations),
+    roles: Array.from(roles),
+  };
+}
+
+/**
+ * Check whether a bearer token looks like a compact JWS (header.payload.signature)
+ */
+export function looksLikeJwt(token: string): boolean {
+  return token.split('.').length === 3;
+}
+
+/**
+ * Validate a JWT access token (signature, issuer, audience, expiry) and map its claims to a user
+ */
+export async function verifyAccessToken(token: string): Promise<{ user: AuthenticatedUser; expiresAt?: number }> {
+  const config = getOidcConfig();
+
+  const { payload } = await jwtVerify(token, getKeySet(config), {
+    issuer: config.issuer,
+    audience: config.audience,
+    clockTolerance: config.clockToleranceSeconds,
+    requiredClaims: ['exp', 'sub'],
+  });
+
+  const user = mapClaimsToUser(payload, config);
+  logger.debug('JWT access token validated', { userId: user.id, organizations: user.organizations });
+  return { user, expiresAt: payload.exp };
+}
+
+/**
+ * OAuth 2.0 Protected Resource Metadata (RFC 9728) for MCP client discovery
+ */
+export function getProtectedResourceMetadata(): Record<string, unknown> {
+  return {
+    resource: getResourceUrl(),
+    authorization_servers: [process.env.OIDC_ISSUER],
+    bearer_methods_supported: ['header'],
+    scopes_supported: process.env.OIDC_SCOPES ? process.env.OIDC_SCOPES.split(/[\s,]+/) : undefined,
+    resource_name: 'Crayon Cost MCP Server',
+  };
+}
+
+/**
+ * Path of the protected resource metadata document: the well-known prefix followed by the
+ * resource path (RFC 9728 section 3.1)
+ */
+export function getProtectedResourceMetadataPath(): string {
+  const { pathname } = new URL(getResourceUrl());
+  return `/.well-known/oauth-protected-resource${pathname === '/' ? '' : pathname}`;
+}
+
+/**
+ * URL of the protected resource metadata document, advertised in WWW-Authenticate challenges
+ */
+export function getProtectedResourceMetadataUrl(): string {
+  return `${new URL(getResourceUrl()).origin}${getProtectedResourceMetadataPath()}`;
+}
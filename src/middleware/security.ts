@@ -1,24 +1,107 @@
 import CircuitBreaker from 'opossum';
-import { AxiosInstance } from 'axios';
 import { logger } from './logger.js';
+import { CurrencyConversionError } from '../utils/currency.js';
+import { CostQueryError } from '../utils/cost-query.js';
+import { WarehouseConfigurationError } from '../utils/warehouse.js';
+import { AmountDecodeError } from '../models/crayon.js';
 
 /**
- * Wraps API calls with circuit breaker and timeout
+ * Retry policy for outbound API calls
  */
-export function createCircuitBreakerWrapper(apiClient: AxiosInstance) {
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number;
+}
+
+/**
+ * Read retry policy from environment with sensible defaults
+ */
+export function getRetryOptionsFromEnv(): RetryOptions {
+  return {
+    maxRetries: parseInt(process.env.API_MAX_RETRIES || '3'),
+    baseDelayMs: parseInt(process.env.API_RETRY_BASE_DELAY_MS || '500'),
+    maxDelayMs: parseInt(process.env.API_RETRY_MAX_DELAY_MS || '10000'),
+    maxRetryAfterMs: parseInt(process.env.API_RETRY_AFTER_MAX_MS || '60000'),
+  };
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(header: string | undefined, now: number = Date.now()): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Whether an error is worth retrying: 429, 5xx, timeouts and network failures
+ */
+export function isRetryableError(error: any): boolean {
+  // Never retry while the circuit is open - that is the point of the breaker
+  if (error?.code === 'EOPENBREAKER') return false;
+
+  const status = error?.response?.status;
+  if (status) {
+    return status === 429 || status >= 500;
+  }
+
+  // Network failures and timeouts (axios ECONNABORTED, opossum ETIMEDOUT)
+  return ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN'].includes(error?.code);
+}
+
+/**
+ * Delay before the next attempt: Retry-After when the server sends one,
+ * otherwise exponential backoff with full jitter. Returns null to give up.
+ */
+export function getRetryDelayMs(error: any, attempt: number, options: RetryOptions): number | null {
+  if (attempt >= options.maxRetries || !isRetryableError(error)) {
+    return null;
+  }
+
+  const retryAfter = parseRetryAfter(error?.response?.headers?.['retry-after']);
+  if (retryAfter !== null) {
+    return retryAfter <= options.maxRetryAfterMs ? retryAfter : null;
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Wraps API calls with circuit breaker, timeout and retry with backoff
+ */
+export function createCircuitBreakerWrapper(name: string = 'crayon-api', retryOptions: RetryOptions = getRetryOptionsFromEnv()) {
   const breaker = new CircuitBreaker(
     async (fn: () => Promise<any>) => fn(),
     {
       timeout: parseInt(process.env.API_TIMEOUT_MS || '30000'), // 30 seconds
       errorThresholdPercentage: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '50'),
       resetTimeout: parseInt(process.env.CIRCUIT_BREAKER_TIMEOUT_MS || '30000'),
-      name: 'crayon-api',
+      name,
       rollingCountBuckets: 10,
       rollingCountTimeout: 10000,
       volumeThreshold: 10, // minimum number of requests before opening circuit
+      // Client errors (except 429) mean the API is up - don't count them against the circuit,
+      // nor requests the caller cancelled
+      errorFilter: (error: any) => {
+        if (error?.code === 'ERR_CANCELED') return true;
+        const status = error?.response?.status;
+        return !!status && status >= 400 && status < 500 && status !== 429;
+      },
     }
   );
 
+  let retries = 0;
+
   // Log circuit breaker state changes
   breaker.on('open', () => {
     logger.error('Circuit breaker OPENED - Crayon API appears to be down');
@@ -38,23 +121,38 @@ export function createCircuitBreakerWrapper(apiClient: AxiosInstance) {
 
   return {
     /**
-     * Execute API call with circuit breaker protection
+     * Execute API call with circuit breaker protection, retrying 429/5xx with backoff
      */
     async execute<T>(apiCall: () => Promise<T>, fallback?: T): Promise<T> {
-      try {
-        return await breaker.fire(async () => apiCall());
-      } catch (error) {
-        logger.error('API call failed', {
-          error: error instanceof Error ? error.message : 'Unknown',
-          circuitBreakerState: breaker.opened ? 'open' : 'closed',
-        });
-
-        if (fallback) {
-          logger.info('Using fallback response');
-          return fallback;
-        }
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await breaker.fire(async () => apiCall());
+        } catch (error) {
+          const delay = getRetryDelayMs(error, attempt, retryOptions);
+          if (delay !== null) {
+            retries++;
+            logger.warn('API call failed, retrying', {
+              attempt: attempt + 1,
+              delayMs: delay,
+              status: (error as any)?.response?.status,
+              error: error instanceof Error ? error.message : 'Unknown',
+            });
+            await new Promise((resolve) => setTimeout(resolve, delay));
+            continue;
+          }
 
-        throw error;
+          logger.error('API call failed', {
+            error: error instanceof Error ? error.message : 'Unknown',
+            circuitBreakerState: breaker.opened ? 'open' : breaker.halfOpen ? 'halfOpen' : 'closed',
+          });
+
+          if (fallback) {
+            logger.info('Using fallback response');
+            return fallback;
+          }
+
+          throw error;
+        }
       }
     },
 
@@ -62,11 +160,17 @@ export function createCircuitBreakerWrapper(apiClient: AxiosInstance) {
      * Get circuit breaker status
      */
     getStatus() {
+      const stats = breaker.stats;
       return {
-        state: breaker.opened ? 'open' : 'closed',
-        successCount: (breaker as any).stats.fires,
-        failureCount: (breaker as any).stats.rejects,
-        fallbackCount: (breaker as any).stats.fallbacks,
+        name,
+        state: breaker.opened ? 'open' : breaker.halfOpen ? 'halfOpen' : 'closed',
+        fires: stats.fires,
+        successCount: stats.successes,
+        failureCount: stats.failures,
+        rejectCount: stats.rejects,
+        timeoutCount: stats.timeouts,
+        fallbackCount: stats.fallbacks,
+        retryCount: retries,
       };
     },
   };
@@ -85,6 +189,15 @@ export function sanitizeErrorMessage(error: any, toolName: string): string {
     stack: error instanceof Error ? error.stack : undefined,
   });
 
+  // Currency errors carry no sensitive detail and tell the caller how to fix the configuration
+  if (error instanceof CurrencyConversionError) return message;
+  // Likewise for query errors, which point at the part of the query to change
+  if (error instanceof CostQueryError) return message;
+  // And for a warehouse this Node.js cannot open
+  if (error instanceof WarehouseConfigurationError) return message;
+  // And for amounts in API data that cannot be read, which would otherwise be miscounted
+  if (error instanceof AmountDecodeError) return message;
+
   // Return generic message to client
   if (message.includes('token')) return 'Authentication error';
   if (message.includes('credential')) return 'Authentication failed';
@@ -108,4 +221,10 @@ export const expensiveOperations = [
   'get_historical_costs',     // Multiple months of data
   'detect_cost_anomalies',    // Complex calculations
   'analyze_costs_by_tags',    // Complex aggregations
+  'detect_daily_anomalies',   // Downloads usage CSV files per subscription
+  'query_azure_usage',        // Streams usage CSV files
+  'get_azure_resource_costs', // Streams one usage CSV file per month
+  'export_cost_report',       // Runs a full report and writes a file
+  'sync_warehouse',           // Fetches every unsynced billing month
+  'query_costs',              // Up to QUERY_MAX_MONTHS of statements
 ];
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import { createHash } from 'node:crypto';
+import Joi from 'joi';
+import { logger } from './logger.js';
+
+/**
+ * Identity attached to an authenticated caller
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  organizations: number[];
+  roles: string[];
+}
+
+// A registry entry holds either the raw token or its SHA-256 hex digest
+const tokenEntrySchema = Joi.object({
+  token: Joi.string().min(16),
+  tokenSha256: Joi.string().hex().length(64),
+  userId: Joi.string().max(200).required(),
+  email: Joi.string().max(320),
+  organizations: Joi.array().items(Joi.number().integer().positive()).required(),
+  roles: Joi.array().items(Joi.string().max(50)).default(['viewer']),
+}).xor('token', 'tokenSha256');
+
+const registrySchema = Joi.object({
+  tokens: Joi.array().items(tokenEntrySchema).required(),
+});
+
+let registry: Map<string, AuthenticatedUser> | null = null;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function parseIdList(value: string | undefined): number[] {
+  return (value || '')
+    .split(',')
+    .map((id) => parseInt(id.trim(), 10))
+    .filter((id) => !isNaN(id) && id > 0);
+}
+
+/**
+ * Read raw registry JSON from AUTH_TOKENS_FILE or the inline AUTH_TOKENS variable
+ */
+function readRegistrySource(): any {
+  if (process.env.AUTH_TOKENS_FILE) {
+    return JSON.parse(fs.readFileSync(process.env.AUTH_TOKENS_FILE, 'utf-8'));
+  }
+  if (process.env.AUTH_TOKENS) {
+    return JSON.parse(process.env.AUTH_TOKENS);
+  }
+  return { tokens: [] };
+}
+
+/**
+ * Load the token registry mapping each issued token to a user, organizations and roles.
+ * The legacy AUTH_TOKEN is still accepted and scoped via AUTH_TOKEN_ORGANIZATIONS / AUTH_TOKEN_ROLES.
+ */
+export function loadTokenRegistry(): Map<string, AuthenticatedUser> {
+  const { error, value } = registrySchema.validate(readRegistrySource(), { abortEarly: false });
+  if (error) {
+    throw new Error(`Invalid token registry: ${error.message}`);
+  }
+
+  const entries = new Map<string, AuthenticatedUser>();
+  for (const entry of value.tokens) {
+    const digest = entry.tokenSha256 ? entry.tokenSha256.toLowerCase() : hashToken(entry.token);
+    if (entries.has(digest)) {
+      throw new Error(`Invalid token registry: duplicate token for user ${entry.userId}`);
+    }
+    entries.set(digest, {
+      id: entry.userId,
+      email: entry.email || `${entry.userId}@crayon-cost-mcp.local`,
+      organizations: entry.organizations,
+      roles: entry.roles,
+    });
+  }
+
+  if (process.env.AUTH_TOKEN) {
+    const digest = hashToken(process.env.AUTH_TOKEN);
+    if (!entries.has(digest)) {
+      entries.set(digest, {
+        id: 'api-user',
+        email: 'api@crayon-cost-mcp.local',
+        organizations: parseIdList(process.env.AUTH_TOKEN_ORGANIZATIONS),
+        roles: (process.env.AUTH_TOKEN_ROLES || 'admin').split(',').map((r) => r.trim()).filter(Boolean),
+      });
+    }
+  }
+
+  logger.info('Token registry loaded', { tokens: entries.size });
+  return entries;
+}
+
+/**
+ * Get the loaded token registry (loaded once on first use)
+ */
+export function getTokenRegistry(): Map<string, AuthenticatedUser> {
+  if (!registry) {
+    registry = loadTokenRegistry();
+  }
+  return registry;
+}
+
+/**
+ * Resolve a bearer token to its registered user, or null if unknown
+ */
+export function lookupToken(token: string): AuthenticatedUser | null {
+  return getTokenRegistry().get(hashToken(token)) || null;
+}
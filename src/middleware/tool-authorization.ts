@@ -0,0 +1,107 @@
+import { CrayonApiClient } from '../crayon-client.js';
+import { checkOrganizationAccess } from './auth.js';
+import { logger } from './logger.js';
+import { AuthenticatedUser } from './token-registry.js';
+
+/**
+ * Minimum role per tool (tools not listed require 'viewer')
+ */
+export const toolRequiredRoles: Record<string, string> = {
+  update_subscription_tags: 'editor',
+  bulk_apply_tags: 'editor',
+  create_budget: 'editor',
+  delete_budget: 'editor',
+  silence_alert: 'editor',
+  sync_warehouse: 'editor',
+};
+
+/**
+ * Tools that only write when an argument is set, and the role they then require
+ */
+const toolArgumentRoles: Record<string, { argument: string; role: string }> = {
+  // capture records current tags for every subscription of the organization
+  get_tag_history: { argument: 'capture', role: 'editor' },
+};
+
+/**
+ * Minimum role for a call of a tool with these arguments
+ */
+export function requiredRoleFor(toolName: string, args: any): string {
+  const byArgument = toolArgumentRoles[toolName];
+  if (byArgument && args?.[byArgument.argument]) {
+    return byArgument.role;
+  }
+  return toolRequiredRoles[toolName] || 'viewer';
+}
+
+/**
+ * Tools that may run without an organization in scope; their results are filtered by the caller
+ */
+const unscopedTools = ['get_organizations'];
+
+/**
+ * Extract the organization ID from a Crayon object reference
+ */
+function organizationIdOf(resource: any): number | null {
+  const id = resource?.Organization?.Id ?? resource?.OrganizationId;
+  return id ? Number(id) : null;
+}
+
+/**
+ * Resolve the organization a tool call targets, either directly from organizationId
+ * or by looking up the subscription, Azure plan or customer tenant it refers to
+ */
+export async function resolveToolOrganization(args: any, client: CrayonApiClient): Promise<number | null> {
+  if (args?.organizationId) {
+    return Number(args.organizationId);
+  }
+  if (args?.azurePlanId) {
+    return organizationIdOf(await client.getAzurePlan(args.azurePlanId));
+  }
+  if (args?.subscriptionId) {
+    return organizationIdOf(await client.getSubscriptionById(args.subscriptionId));
+  }
+  if (args?.customerTenantId) {
+    return organizationIdOf(await client.getCustomerTenant(args.customerTenantId));
+  }
+  return null;
+}
+
+/**
+ * Authorize an MCP tool call against the caller's organization scope and roles.
+ * Throws a Forbidden error when the call targets an organization outside the caller's scope.
+ * @returns The organization the call targets, or null for unscoped tools
+ */
+export async function authorizeToolCall(
+  user: AuthenticatedUser,
+  toolName: string,
+  args: any,
+  client: CrayonApiClient
+): Promise<number | null> {
+  const requiredRole = requiredRoleFor(toolName, args);
+
+  if (unscopedTools.includes(toolName)) {
+    return null;
+  }
+
+  const organizationId = await resolveToolOrganization(args, client);
+  if (!organizationId) {
+    logger.warn('Tool call without resolvable organization', { tool: toolName, userId: user.id });
+    throw new Error(`Forbidden: ${toolName} requires an organizationId within your scope`);
+  }
+
+  const denied = checkOrganizationAccess(user, organizationId, requiredRole);
+  if (denied) {
+    throw new Error(denied.error);
+  }
+
+  return organizationId;
+}
+
+/**
+ * Filter a Crayon list response down to the organizations the caller may see
+ */
+export function filterOrganizationsForUser(result: any, user: AuthenticatedUser): any {
+  const items = (result?.Items || []).filter((org: any) => user.organizations.includes(Number(org.Id)));
+  return { ...result, Items: items, TotalHits: items.length };
+}
@@ -1,11 +1,17 @@
 import Joi from 'joi';
+import { USAGE_COLUMNS } from '../utils/azure-usage.js';
+import { REPORT_NAMES } from '../utils/reports.js';
+import { parseCostQuery } from '../utils/cost-query.js';
 
 // Common schemas
 const positiveInteger = Joi.number().integer().positive().required();
 const optionalInteger = Joi.number().integer().positive();
 const isoDate = Joi.date().iso();
+const isoDateString = Joi.string().isoDate();
 const pageSize = Joi.number().integer().min(1).max(500).default(100);
 const pageNumber = Joi.number().integer().min(1).default(1);
+const costSource = Joi.string().valid('api', 'warehouse').default('api');
+const tagAttribution = Joi.string().valid('historical', 'current').default('historical');
 
 /**
  * Validate regex pattern to prevent ReDoS attacks
@@ -40,9 +46,61 @@ export function validateRegexPattern(pattern: string): { error?: string; value?:
   }
 }
 
+// Regex pattern guarded against ReDoS
+const safeRegexPattern = Joi.string().max(100).external(async (value) => {
+  if (value === undefined) return;
+  const validation = validateRegexPattern(value);
+  if (validation.error) {
+    throw new Error(validation.error);
+  }
+});
+
+// Cost query checked against the query schema, so mistakes come back as validation errors
+const costQuery = Joi.string().trim().max(2000).required().external(async (value) => {
+  if (value === undefined) return;
+  parseCostQuery(value);
+});
+
+const budgetScope = Joi.object({
+  type: Joi.string().valid('organization', 'invoiceProfile', 'tag').required(),
+  invoiceProfileId: Joi.number().integer().positive()
+    .when('type', { is: 'invoiceProfile', then: Joi.required(), otherwise: Joi.forbidden() }),
+  tagKey: Joi.string().max(100).when('type', { is: 'tag', then: Joi.required(), otherwise: Joi.forbidden() }),
+  tagValue: Joi.string().max(256).when('type', { is: 'tag', then: Joi.required(), otherwise: Joi.forbidden() }),
+  attribution: Joi.string().valid('historical', 'current').when('type', { is: 'tag', otherwise: Joi.forbidden() }),
+});
+
+const usageColumn = Joi.alternatives().try(
+  Joi.string().valid(...USAGE_COLUMNS),
+  Joi.string().pattern(/^tag:.{1,100}$/)
+);
+
+const usageFilter = Joi.object({
+  column: usageColumn.required(),
+  operator: Joi.string().valid('equals', 'notEquals', 'contains', 'startsWith', 'in').required(),
+  value: Joi.when('operator', {
+    is: 'in',
+    then: Joi.array().items(Joi.string().max(500)).min(1).max(100).required(),
+    otherwise: Joi.string().max(500).required(),
+  }),
+});
+
+const bulkTagRule = Joi.object({
+  namePattern: safeRegexPattern,
+  tagEquals: Joi.object({
+    key: Joi.string().required(),
+    value: Joi.string().allow('').required(),
+  }),
+  subscriptionIds: Joi.array().items(Joi.number().integer().positive()).min(1).max(1000),
+  tags: Joi.object().pattern(Joi.string(), Joi.string()).min(1).required(),
+  onlyMissing: Joi.boolean().default(false),
+}).or('namePattern', 'tagEquals', 'subscriptionIds');
+
 // Tool input schemas
 export const schemas = {
-  get_organizations: Joi.object({}),
+  get_organizations: Joi.object({
+    fetchAll: Joi.boolean().default(false),
+  }),
 
   get_invoice_profiles: Joi.object({
     organizationId: positiveInteger,
@@ -58,6 +116,7 @@ export const schemas = {
     to: isoDate.optional(),
     page: pageNumber,
     pageSize: pageSize,
+    fetchAll: Joi.boolean().default(false),
   }),
 
   get_grouped_billing_statements: Joi.object({
@@ -74,12 +133,14 @@ export const schemas = {
     organizationId: positiveInteger,
     page: pageNumber,
     pageSize: pageSize,
+    fetchAll: Joi.boolean().default(false),
   }),
 
   get_subscriptions: Joi.object({
     organizationId: optionalInteger,
     page: pageNumber,
     pageSize: pageSize,
+    fetchAll: Joi.boolean().default(false),
   }),
 
   get_cost_by_subscription: Joi.object({
@@ -99,6 +160,13 @@ export const schemas = {
   update_subscription_tags: Joi.object({
     subscriptionId: positiveInteger,
     tags: Joi.object().pattern(Joi.string(), Joi.string()).required(),
+    mode: Joi.string().valid('replace', 'merge').default('replace'),
+    removeKeys: Joi.array().items(Joi.string()).when('mode', {
+      is: 'merge',
+      then: Joi.optional(),
+      otherwise: Joi.forbidden(),
+    }),
+    dryRun: Joi.boolean().default(false),
   }),
 
   track_costs_by_tags: Joi.object({
@@ -130,30 +198,47 @@ export const schemas = {
     includeBom: Joi.boolean().default(false),
   }),
 
+  get_azure_costs_by_subscription: Joi.object({
+    azurePlanId: positiveInteger,
+    subscriptionId: positiveInteger,
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+  }),
+
   get_cost_trends: Joi.object({
     organizationId: positiveInteger,
     monthsBack: Joi.number().integer().min(1).max(24).default(6),
+    source: costSource,
   }),
 
   detect_cost_anomalies: Joi.object({
     organizationId: positiveInteger,
     monthsBack: Joi.number().integer().min(1).max(24).default(3),
+    method: Joi.string().valid('zscore', 'mad', 'seasonal').default('mad'),
+    baselineMonths: Joi.number().integer().min(3).max(24).default(6),
+    threshold: Joi.number().min(1).max(10),
+    minAbsoluteChange: Joi.number().min(0).default(100),
     changeThresholdPercent: Joi.number().min(1).max(100).default(25),
+    source: costSource,
   }),
 
   analyze_costs_by_tags: Joi.object({
     organizationId: positiveInteger,
     monthsBack: Joi.number().integer().min(1).max(24).default(3),
+    source: costSource,
+    attribution: tagAttribution,
   }),
 
   find_similar_subscriptions_and_invoices: Joi.object({
     organizationId: positiveInteger,
-    namePattern: Joi.string().max(100).required().external(async (value) => {
-      const validation = validateRegexPattern(value);
-      if (validation.error) {
-        throw new Error(validation.error);
-      }
-    }),
+    namePattern: safeRegexPattern.required(),
+  }),
+
+  bulk_apply_tags: Joi.object({
+    organizationId: positiveInteger,
+    rules: Joi.array().items(bulkTagRule).min(1).max(50).required(),
+    dryRun: Joi.boolean().default(true),
+    concurrency: Joi.number().integer().min(1).max(10).default(4),
   }),
 
   list_all_subscriptions_with_tags: Joi.object({
@@ -169,6 +254,152 @@ export const schemas = {
 
   get_last_month_costs_by_tags: Joi.object({
     organizationId: positiveInteger,
+    attribution: tagAttribution,
+  }),
+
+  invalidate_cache: Joi.object({
+    organizationId: positiveInteger,
+  }),
+
+  check_tag_compliance: Joi.object({
+    organizationId: positiveInteger,
+    policy: Joi.object().optional(),
+  }),
+
+  visualize_costs_pie_chart: Joi.object({
+    organizationId: positiveInteger,
+    monthsBack: Joi.number().integer().min(1).max(24).default(3),
+    topN: Joi.number().integer().min(1).max(25).default(10),
+    chartStyle: Joi.string().valid('pie', 'doughnut').default('pie'),
+  }),
+
+  visualize_costs: Joi.object({
+    organizationId: positiveInteger,
+    dimension: Joi.string().valid('subscription', 'invoiceProfile', 'tag', 'provisionType', 'month').required(),
+    tagKey: Joi.string().max(100).when('dimension', { is: 'tag', then: Joi.required(), otherwise: Joi.forbidden() }),
+    attribution: tagAttribution,
+    metric: Joi.string()
+      .valid('cost', 'averageMonthlyCost', 'statementCount')
+      .default('cost')
+      .when('chartType', { is: Joi.valid('line', 'stackedBar'), then: Joi.invalid('averageMonthlyCost') }),
+    chartType: Joi.string().valid('pie', 'doughnut', 'bar', 'stackedBar', 'line').default('bar'),
+    monthsBack: Joi.number().integer().min(1).max(24).default(3),
+    from: isoDateString.optional(),
+    to: isoDateString.optional(),
+    topN: Joi.number().integer().min(1).max(25).default(10),
+  }).with('to', 'from'),
+
+  forecast_costs: Joi.object({
+    organizationId: positiveInteger,
+    horizonMonths: Joi.number().integer().min(1).max(12).default(3),
+    model: Joi.string().valid('linear', 'holtWinters', 'movingAverage').default('linear'),
+    historyMonths: Joi.number().integer().min(3).max(36).default(12),
+    confidenceLevel: Joi.number().valid(80, 90, 95, 99).default(95),
+    movingAverageWindow: Joi.number().integer().min(2).max(12).default(3),
+    includeChart: Joi.boolean().default(true),
+  }),
+
+  detect_daily_anomalies: Joi.object({
+    azurePlanId: positiveInteger,
+    days: Joi.number().integer().min(1).max(14).default(7),
+    baselineDays: Joi.number().integer().min(7).max(60).default(14),
+    method: Joi.string().valid('zscore', 'mad').default('mad'),
+    threshold: Joi.number().min(1).max(10),
+    minAbsoluteChange: Joi.number().min(0).default(50),
+    changeThresholdPercent: Joi.number().min(1).max(1000).default(50),
+  }),
+
+  query_azure_usage: Joi.object({
+    azurePlanId: positiveInteger,
+    subscriptionId: optionalInteger,
+    year: Joi.number().integer().min(2020).max(2100).required(),
+    month: Joi.number().integer().min(1).max(12).required(),
+    filters: Joi.array().items(usageFilter).max(20).default([]),
+    groupBy: Joi.array().items(usageColumn).unique().max(4).default([]),
+    topN: Joi.number().integer().min(1).max(500).default(25),
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/),
+    minCost: Joi.number(),
+  }),
+
+  get_azure_resource_costs: Joi.object({
+    azurePlanId: positiveInteger,
+    subscriptionId: positiveInteger,
+    fromMonth: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/).required(),
+    toMonth: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/),
+    topN: Joi.number().integer().min(1).max(100).default(10),
+  }),
+
+  create_budget: Joi.object({
+    organizationId: positiveInteger,
+    name: Joi.string().max(200).required(),
+    scope: budgetScope.default({ type: 'organization' }),
+    amount: Joi.number().positive().required(),
+    currency: Joi.string().uppercase().pattern(/^[A-Z]{3}$/).required(),
+    period: Joi.string().valid('monthly', 'quarterly', 'annual').default('monthly'),
+    thresholds: Joi.array().items(Joi.number().min(1).max(1000)).max(10).unique().default([50, 80, 100]),
+  }),
+
+  list_budgets: Joi.object({
+    organizationId: positiveInteger,
+  }),
+
+  delete_budget: Joi.object({
+    organizationId: positiveInteger,
+    budgetId: Joi.string().guid().required(),
+  }),
+
+  get_budget_status: Joi.object({
+    organizationId: positiveInteger,
+    budgetId: Joi.string().guid().optional(),
+    includeChart: Joi.boolean().default(true),
+  }),
+
+  export_cost_report: Joi.object({
+    organizationId: positiveInteger,
+    report: Joi.string().valid(...REPORT_NAMES).required(),
+    format: Joi.string().valid('csv', 'xlsx', 'ndjson').default('xlsx'),
+    monthsBack: Joi.number().integer().min(1).max(24).default(3),
+  }),
+
+  list_report_jobs: Joi.object({
+    organizationId: positiveInteger,
+  }),
+
+  list_alerts: Joi.object({
+    organizationId: positiveInteger,
+    status: Joi.string().valid('active', 'acknowledged', 'silenced'),
+  }),
+
+  silence_alert: Joi.object({
+    organizationId: positiveInteger,
+    action: Joi.string().valid('acknowledge', 'silence', 'unsilence').required(),
+    alertId: Joi.string().pattern(/^[0-9a-f]{16}$/).when('action', { is: 'acknowledge', then: Joi.required() }),
+    kind: Joi.string().valid('anomaly', 'budget'),
+    subscriptionId: Joi.string().max(100),
+    budgetId: Joi.string().guid(),
+    durationHours: Joi.number().min(1).max(720).default(24),
+    silenceId: Joi.string().guid().when('action', { is: 'unsilence', then: Joi.required(), otherwise: Joi.forbidden() }),
+    note: Joi.string().max(500),
+  }),
+
+  sync_warehouse: Joi.object({
+    organizationId: positiveInteger,
+    monthsBack: Joi.number().integer().min(1).max(60).default(24),
+    full: Joi.boolean().default(false),
+  }),
+
+  get_tag_history: Joi.object({
+    organizationId: positiveInteger,
+    subscriptionId: optionalInteger,
+    capture: Joi.boolean().default(false),
+  }),
+
+  query_costs: Joi.object({
+    organizationId: positiveInteger,
+    query: costQuery,
+    source: costSource,
+    attribution: tagAttribution,
   }),
 };
 
@@ -0,0 +1,420 @@
+/**
+ * Crayon CloudIQ API models and runtime decoders
+ *
+ * The API is not consistent about money: depending on endpoint and version, prices arrive as a
+ * plain number, a numeric string or a { Value, CurrencyCode } object. Decoders normalize every
+ * price into Money so aggregations always sum `amount` in a known `currency`.
+ */
+
+/**
+ * Currency code used when the API gives no currency (ISO 4217 "no currency")
+ */
+export const UNKNOWN_CURRENCY = 'XXX';
+
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export interface ObjectReference {
+  Id: number;
+  Name?: string;
+}
+
+export interface CrayonList<T> {
+  Items: T[];
+  TotalHits: number;
+}
+
+export type ProvisionType = 'None' | 'Seat' | 'Usage' | 'OneTime' | 'Crayon' | 'AzureMarketplace';
+
+export interface BillingStatement {
+  Id?: number;
+  Organization?: ObjectReference;
+  InvoiceProfile?: ObjectReference;
+  SubscriptionId?: number;
+  SubscriptionName?: string;
+  ProvisionType?: ProvisionType;
+  StartDate?: string;
+  EndDate?: string;
+  CurrencyCode: string;
+  TotalSalesPrice: Money;
+  [key: string]: unknown;
+}
+
+export interface GroupedBillingStatement extends BillingStatement {
+  Product?: ObjectReference;
+  Publisher?: ObjectReference;
+}
+
+export interface Invoice {
+  Id: number;
+  InvoiceNumber?: string;
+  Date?: string;
+  DueDate?: string;
+  Status?: string;
+  SubscriptionId?: number;
+  Organization?: ObjectReference;
+  InvoiceProfile?: ObjectReference;
+  CurrencyCode: string;
+  TotalSalesPrice: Money;
+  [key: string]: unknown;
+}
+
+export interface InvoiceProfile {
+  Id: number;
+  Name: string;
+  Organization?: ObjectReference;
+  [key: string]: unknown;
+}
+
+export interface Organization {
+  Id: number;
+  Name: string;
+  [key: string]: unknown;
+}
+
+export interface Subscription {
+  Id: number;
+  Name: string;
+  Status?: string;
+  Type?: string;
+  CreatedDate?: string;
+  Organization?: ObjectReference;
+  Product?: ObjectReference;
+  Publisher?: ObjectReference;
+  [key: string]: unknown;
+}
+
+export interface AzurePlan {
+  Id: number;
+  Name?: string;
+  Organization?: ObjectReference;
+  CustomerTenant?: ObjectReference;
+  [key: string]: unknown;
+}
+
+export interface AzureSubscription {
+  Id: number;
+  Name?: string;
+  SubscriptionId?: string;
+  Status?: string;
+  [key: string]: unknown;
+}
+
+export interface CustomerTenant {
+  Id: number;
+  Name?: string;
+  DomainPrefix?: string;
+  Organization?: ObjectReference;
+  Publisher?: ObjectReference;
+  [key: string]: unknown;
+}
+
+export interface UsageCost {
+  Date: string;
+  TotalSalesPrice: Money;
+  [key: string]: unknown;
+}
+
+/**
+ * One line of Azure usage: a meter's consumption by one resource on one day.
+ * Only the columns below are kept, since usage exports carry dozens of columns per row.
+ */
+export interface AzureUsageRow {
+  Date: string;
+  SubscriptionId?: string;
+  MeterCategory: string;
+  MeterSubCategory: string;
+  MeterName?: string;
+  ResourceGroup: string;
+  ResourceId: string;
+  Region: string;
+  Quantity: number;
+  UnitPrice: number;
+  Cost: Money;
+  Tags: Record<string, string>;
+}
+
+/**
+ * Raised when the API returns an amount that cannot be read as a number.
+ * The message is safe to show to clients; it names the value but not where it came from.
+ */
+export class AmountDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AmountDecodeError';
+  }
+}
+
+// Plain decimals ("1234.56", "-.5", "1e3") and US-style thousands grouping ("1,234.56")
+const PLAIN_AMOUNT = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const GROUPED_AMOUNT = /^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+
+/**
+ * Read an amount or quantity. A missing value is 0; anything else that is not a finite number is an
+ * error rather than a silent 0. Decimal commas ("12,5") are rejected: accepting them would make
+ * "1,234" ambiguous.
+ */
+function toNumber(value: unknown): number {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === 'number' && isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (text === '') return 0;
+    if (PLAIN_AMOUNT.test(text)) return Number(text);
+    if (GROUPED_AMOUNT.test(text)) return Number(text.replace(/,/g, ''));
+  }
+
+  throw new AmountDecodeError(
+    `Cannot read ${typeof value === 'string' ? JSON.stringify(value) : String(value)} as an amount; ` +
+      'expected a number with "." as decimal point'
+  );
+}
+
+/**
+ * Normalize any API price representation into Money
+ * @param raw - Number, numeric string or { Value, CurrencyCode } object
+ * @param fallbackCurrency - Currency to use when the price itself carries none
+ * @throws AmountDecodeError when the amount is not a number
+ */
+export function decodeMoney(raw: unknown, fallbackCurrency?: string): Money {
+  if (raw && typeof raw === 'object') {
+    const price = raw as Record<string, unknown>;
+    return {
+      amount: toNumber(price.Value ?? price.Amount ?? price.amount),
+      currency: String(price.CurrencyCode ?? price.Currency ?? price.currency ?? fallbackCurrency ?? UNKNOWN_CURRENCY),
+    };
+  }
+  return { amount: toNumber(raw), currency: fallbackCurrency || UNKNOWN_CURRENCY };
+}
+
+function decodeReference(raw: any): ObjectReference | undefined {
+  if (!raw || raw.Id === undefined || raw.Id === null) return undefined;
+  return { ...raw, Id: Number(raw.Id), Name: raw.Name };
+}
+
+function decodeOptionalId(raw: unknown): number | undefined {
+  return raw === undefined || raw === null || raw === '' ? undefined : Number(raw);
+}
+
+/**
+ * Decode a Crayon list response, applying an item decoder to every item
+ */
+export function decodeList<T>(raw: any, decodeItem: (item: any) => T): CrayonList<T> {
+  const items = Array.isArray(raw?.Items) ? raw.Items : [];
+  return {
+    ...raw,
+    Items: items.map(decodeItem),
+    TotalHits: typeof raw?.TotalHits === 'number' ? raw.TotalHits : items.length,
+  };
+}
+
+/**
+ * Decode a billing statement (plain or grouped); the statement-level CurrencyCode backs a bare numeric price
+ */
+export function decodeBillingStatement(raw: any): GroupedBillingStatement {
+  const totalSalesPrice = decodeMoney(raw?.TotalSalesPrice, raw?.CurrencyCode);
+  return {
+    ...raw,
+    Organization: decodeReference(raw?.Organization),
+    InvoiceProfile: decodeReference(raw?.InvoiceProfile),
+    SubscriptionId: decodeOptionalId(raw?.SubscriptionId),
+    CurrencyCode: totalSalesPrice.currency,
+    TotalSalesPrice: totalSalesPrice,
+  };
+}
+
+/**
+ * Decode an invoice; the total may arrive as TotalSalesPrice, TotalAmount or Amount
+ */
+export function decodeInvoice(raw: any): Invoice {
+  const total = decodeMoney(raw?.TotalSalesPrice ?? raw?.TotalAmount ?? raw?.Amount, raw?.CurrencyCode);
+  return {
+    ...raw,
+    Id: Number(raw?.Id),
+    SubscriptionId: decodeOptionalId(raw?.SubscriptionId),
+    Organization: decodeReference(raw?.Organization),
+    InvoiceProfile: decodeReference(raw?.InvoiceProfile),
+    CurrencyCode: total.currency,
+    TotalSalesPrice: total,
+  };
+}
+
+/**
+ * Decode an invoice profile
+ */
+export function decodeInvoiceProfile(raw: any): InvoiceProfile {
+  return { ...raw, Id: Number(raw?.Id), Name: String(raw?.Name ?? ''), Organization: decodeReference(raw?.Organization) };
+}
+
+/**
+ * Decode an organization
+ */
+export function decodeOrganization(raw: any): Organization {
+  return { ...raw, Id: Number(raw?.Id), Name: String(raw?.Name ?? '') };
+}
+
+/**
+ * Decode a subscription
+ */
+export function decodeSubscription(raw: any): Subscription {
+  return {
+    ...raw,
+    Id: Number(raw?.Id),
+    Name: String(raw?.Name ?? ''),
+    Organization: decodeReference(raw?.Organization),
+    Product: decodeReference(raw?.Product),
+    Publisher: decodeReference(raw?.Publisher),
+  };
+}
+
+/**
+ * Decode an Azure plan
+ */
+export function decodeAzurePlan(raw: any): AzurePlan {
+  return {
+    ...raw,
+    Id: Number(raw?.Id),
+    Organization: decodeReference(raw?.Organization),
+    CustomerTenant: decodeReference(raw?.CustomerTenant),
+  };
+}
+
+/**
+ * Decode an Azure subscription under an Azure plan
+ */
+export function decodeAzureSubscription(raw: any): AzureSubscription {
+  return { ...raw, Id: Number(raw?.Id) };
+}
+
+/**
+ * Decode a customer tenant
+ */
+export function decodeCustomerTenant(raw: any): CustomerTenant {
+  return {
+    ...raw,
+    Id: Number(raw?.Id),
+    Organization: decodeReference(raw?.Organization),
+    Publisher: decodeReference(raw?.Publisher),
+  };
+}
+
+/**
+ * Decode a usage cost row; rows without a usage date cannot be placed on a day and decode to null
+ */
+export function decodeUsageCost(raw: any): UsageCost | null {
+  const date = raw?.Date ?? raw?.UsageDate;
+  if (!date) return null;
+
+  const cost = decodeMoney(raw?.TotalSalesPrice ?? raw?.TotalCost ?? raw?.Cost, raw?.CurrencyCode);
+  return { ...raw, Date: String(date), TotalSalesPrice: cost };
+}
+
+/**
+ * Value of the first matching column; usage exports differ in column naming
+ * ("MeterCategory", "Meter Category", "meterCategory"), so names are compared without case or spaces
+ */
+function pickColumn(columns: Map<string, unknown>, ...names: string[]): unknown {
+  for (const name of names) {
+    const value = columns.get(name.toLowerCase());
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+/**
+ * Order of day and month in slash-separated usage dates (USAGE_DATE_FORMAT)
+ */
+export type UsageDateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+/**
+ * Validate USAGE_DATE_FORMAT; usage exports default to US-style dates
+ */
+export function parseUsageDateFormat(raw: string | undefined): UsageDateFormat {
+  const format = raw?.trim().toUpperCase() || 'MM/DD/YYYY';
+  if (format !== 'MM/DD/YYYY' && format !== 'DD/MM/YYYY') {
+    throw new Error(`Invalid USAGE_DATE_FORMAT "${raw}": expected MM/DD/YYYY or DD/MM/YYYY`);
+  }
+  return format;
+}
+
+const pad = (value: number | string) => String(value).padStart(2, '0');
+
+/**
+ * Usage date as YYYY-MM-DD; usage exports use ISO dates or slash-separated dates in `format`.
+ * A slash date that is impossible in that format is an error rather than a guess, since reading
+ * 03/04 the wrong way round silently moves costs to another month.
+ */
+function decodeUsageDate(raw: unknown, format: UsageDateFormat): string | null {
+  if (raw === undefined) return null;
+  const text = String(raw).trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+
+  const slashed = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?!\d)/);
+  if (slashed) {
+    const [month, day] = (format === 'DD/MM/YYYY' ? [slashed[2], slashed[1]] : [slashed[1], slashed[2]]).map(Number);
+    const year = Number(slashed[3]);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      throw new Error(`Usage date "${text}" is not a valid ${format} date; set USAGE_DATE_FORMAT to the date format of the usage export`);
+    }
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+
+  // Other forms ("Mar 5, 2026") parse as local time, so the date is read back in local time too
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+/**
+ * Resource tags come as an object, a JSON object string, or the export's brace-less
+ * `"key": "value","key2": "value2"` form
+ */
+function decodeUsageTags(raw: unknown): Record<string, string> {
+  if (!raw) return {};
+  let tags: unknown = raw;
+  if (typeof raw === 'string') {
+    const text = raw.trim();
+    try {
+      tags = JSON.parse(text.startsWith('{') ? text : `{${text}}`);
+    } catch {
+      return {};
+    }
+  }
+  if (!tags || typeof tags !== 'object' || Array.isArray(tags)) return {};
+  return Object.fromEntries(Object.entries(tags as Record<string, unknown>).map(([key, value]) => [key, String(value ?? '')]));
+}
+
+/**
+ * Decode an Azure usage record (a parsed CSV line or a JSON row); rows without a usage date decode to null
+ */
+export function decodeAzureUsageRow(raw: Record<string, unknown>, dateFormat: UsageDateFormat = 'MM/DD/YYYY'): AzureUsageRow | null {
+  const columns = new Map<string, unknown>();
+  Object.entries(raw ?? {}).forEach(([key, value]) => columns.set(key.replace(/[\s_]/g, '').toLowerCase(), value));
+
+  const date = decodeUsageDate(pickColumn(columns, 'Date', 'UsageDate', 'UsageDateTime'), dateFormat);
+  if (!date) return null;
+
+  const resourceId = String(pickColumn(columns, 'ResourceId', 'InstanceId', 'InstanceName', 'ResourceUri') ?? '');
+  const resourceGroupFromId = resourceId.match(/\/resourceGroups\/([^/]+)/i)?.[1];
+  const currency = pickColumn(columns, 'BillingCurrency', 'BillingCurrencyCode', 'CurrencyCode', 'Currency');
+
+  return {
+    Date: date,
+    SubscriptionId: pickColumn(columns, 'SubscriptionId', 'SubscriptionGuid') as string | undefined,
+    MeterCategory: String(pickColumn(columns, 'MeterCategory') ?? 'Unknown'),
+    MeterSubCategory: String(pickColumn(columns, 'MeterSubCategory', 'MeterSubcategory') ?? ''),
+    MeterName: pickColumn(columns, 'MeterName') as string | undefined,
+    ResourceGroup: String(pickColumn(columns, 'ResourceGroup', 'ResourceGroupName') ?? resourceGroupFromId ?? 'Unknown'),
+    ResourceId: resourceId,
+    Region: String(pickColumn(columns, 'ResourceLocation', 'Location', 'ResourceRegion', 'MeterRegion') ?? 'Unknown'),
+    Quantity: toNumber(pickColumn(columns, 'Quantity', 'ConsumedQuantity', 'UsageQuantity')),
+    UnitPrice: toNumber(pickColumn(columns, 'UnitPrice', 'EffectivePrice', 'ResourceRate')),
+    Cost: decodeMoney(
+      pickColumn(columns, 'TotalSalesPrice', 'CostInBillingCurrency', 'Cost', 'TotalCost', 'PreTaxCost', 'ExtendedCost'),
+      currency !== undefined ? String(currency) : undefined
+    ),
+    Tags: decodeUsageTags(pickColumn(columns, 'Tags')),
+  };
+}
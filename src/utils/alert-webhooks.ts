@@ -0,0 +1,183 @@
+/**
+ * Alert webhooks - renders alerts as generic JSON, Slack or Microsoft Teams payloads and posts
+ * them, signed with HMAC-SHA256 when the webhook has a secret
+ */
+import axios from 'axios';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export type AlertKind = 'anomaly' | 'budget';
+export type AlertSeverity = 'warning' | 'critical';
+export type WebhookFormat = 'generic' | 'slack' | 'teams';
+
+export interface Alert {
+  id: string;
+  kind: AlertKind;
+  severity: AlertSeverity;
+  organizationId: number;
+  title: string;
+  text: string;
+  // Stable identifiers silences can match on
+  subscriptionId?: string;
+  budgetId?: string;
+  details: Record<string, unknown>;
+  detectedAt: string;
+}
+
+export interface AlertWebhook {
+  id: string;
+  url: string;
+  format: WebhookFormat;
+  secret?: string;
+  headers?: Record<string, string>;
+  organizations?: number[];
+  kinds?: AlertKind[];
+  minSeverity: AlertSeverity;
+}
+
+export const SIGNATURE_HEADER = 'X-Crayon-Signature';
+export const TIMESTAMP_HEADER = 'X-Crayon-Timestamp';
+
+// Slack allows 50 blocks per message and Teams cards get unwieldy well before that
+const MAX_ALERTS_PER_MESSAGE = 20;
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { warning: 1, critical: 2 };
+
+/**
+ * Whether a webhook subscribes to an alert
+ */
+export function webhookAccepts(webhook: AlertWebhook, alert: Alert): boolean {
+  if (webhook.organizations && !webhook.organizations.includes(alert.organizationId)) return false;
+  if (webhook.kinds && !webhook.kinds.includes(alert.kind)) return false;
+  return SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[webhook.minSeverity];
+}
+
+function headline(alerts: Alert[]): string {
+  const critical = alerts.filter((alert) => alert.severity === 'critical').length;
+  const organizations = Array.from(new Set(alerts.map((alert) => alert.organizationId)));
+  return `${alerts.length} cost alert(s)${critical > 0 ? `, ${critical} critical` : ''} for organization ${organizations.join(', ')}`;
+}
+
+/**
+ * Slack reads &, < and > in mrkdwn as entities, links and mentions (<!channel>), so alert text
+ * from subscription names and descriptions must be escaped
+ */
+function slackEscape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function slackPayload(alerts: Alert[]): Record<string, unknown> {
+  const shown = alerts.slice(0, MAX_ALERTS_PER_MESSAGE);
+  const blocks: any[] = [
+    { type: 'header', text: { type: 'plain_text', text: headline(alerts).slice(0, 150) } },
+    ...shown.map((alert) => ({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `${alert.severity === 'critical' ? ':red_circle:' : ':large_orange_circle:'} *${slackEscape(alert.title)}*\n${slackEscape(alert.text)}`.slice(0, 3000),
+      },
+    })),
+  ];
+  if (alerts.length > shown.length) {
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `…and ${alerts.length - shown.length} more` }] });
+  }
+  blocks.push({
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: `Alert IDs: ${shown.map((alert) => `\`${alert.id}\``).join(', ')}` }],
+  });
+
+  // `text` is the notification fallback for clients that do not render blocks
+  return { text: slackEscape(headline(alerts)), blocks };
+}
+
+function teamsPayload(alerts: Alert[]): Record<string, unknown> {
+  const shown = alerts.slice(0, MAX_ALERTS_PER_MESSAGE);
+  const body: any[] = [
+    { type: 'TextBlock', size: 'Large', weight: 'Bolder', wrap: true, text: headline(alerts) },
+    ...shown.flatMap((alert) => [
+      {
+        type: 'TextBlock',
+        weight: 'Bolder',
+        wrap: true,
+        spacing: 'Medium',
+        color: alert.severity === 'critical' ? 'Attention' : 'Warning',
+        text: alert.title,
+      },
+      { type: 'TextBlock', wrap: true, spacing: 'Small', text: alert.text },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Severity', value: alert.severity },
+          { title: 'Organization', value: String(alert.organizationId) },
+          { title: 'Alert ID', value: alert.id },
+        ],
+      },
+    ]),
+  ];
+  if (alerts.length > shown.length) {
+    body.push({ type: 'TextBlock', isSubtle: true, wrap: true, text: `…and ${alerts.length - shown.length} more` });
+  }
+
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Payload for a batch of alerts in the webhook's format
+ */
+export function renderAlertPayload(format: WebhookFormat, alerts: Alert[], sentAt: string): Record<string, unknown> {
+  if (format === 'slack') return slackPayload(alerts);
+  if (format === 'teams') return teamsPayload(alerts);
+  return { version: 1, sentAt, summary: headline(alerts), alerts };
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded with a "sha256=" prefix
+ */
+export function signAlertPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Check a received signature; for receivers of the webhooks
+ */
+export function verifyAlertSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signAlertPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * POST a batch of alerts to a webhook
+ * @returns The HTTP status of the receiver
+ */
+export async function postAlerts(webhook: AlertWebhook, alerts: Alert[]): Promise<number> {
+  const sentAt = new Date().toISOString();
+  const body = JSON.stringify(renderAlertPayload(webhook.format, alerts, sentAt));
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  const response = await axios.post(webhook.url, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      ...(webhook.headers ?? {}),
+      ...(webhook.secret
+        ? { [SIGNATURE_HEADER]: signAlertPayload(webhook.secret, timestamp, body), [TIMESTAMP_HEADER]: timestamp }
+        : {}),
+    },
+    timeout: parseInt(process.env.API_TIMEOUT_MS || '30000', 10),
+    // Send the body exactly as signed
+    transformRequest: [(data) => data],
+  });
+  return response.status;
+}
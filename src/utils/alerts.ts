@@ -0,0 +1,536 @@
+/**
+ * Alert watcher - periodically evaluates cost anomalies and budget thresholds per organization
+ * (ALERTS_FILE) and posts new alerts to webhooks, with deduplication, silences and acknowledgements
+ * kept in a state file (ALERTS_STATE_FILE)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomUUID } from 'node:crypto';
+import Joi from 'joi';
+import type { CrayonApiClient } from '../crayon-client.js';
+import { logger } from '../middleware/logger.js';
+import { AnomalyMethod, DEFAULT_THRESHOLDS } from './anomaly-detection.js';
+import { BudgetStore, evaluateBudget, getBudgetPeriodRange } from './budgets.js';
+import { Alert, AlertKind, AlertSeverity, AlertWebhook, postAlerts, webhookAccepts } from './alert-webhooks.js';
+
+export interface OrganizationAlertRules {
+  organizationId: number;
+  anomalies: {
+    enabled: boolean;
+    method: AnomalyMethod;
+    baselineMonths: number;
+    threshold?: number;
+    minAbsoluteChange: number;
+    changeThresholdPercent: number;
+    // Changes at least this large (in percent) are critical
+    criticalChangePercent: number;
+  };
+  budgets: { enabled: boolean };
+}
+
+export interface AlertConfig {
+  intervalMinutes: number;
+  // Re-send unacknowledged alerts after this many hours; 0 sends each alert once
+  renotifyHours: number;
+  webhooks: AlertWebhook[];
+  organizations: OrganizationAlertRules[];
+}
+
+export interface AlertSilence {
+  id: string;
+  organizationId: number;
+  alertId?: string;
+  kind?: AlertKind;
+  subscriptionId?: string;
+  budgetId?: string;
+  until: string;
+  reason?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type AlertSilenceMatch = Pick<AlertSilence, 'alertId' | 'kind' | 'subscriptionId' | 'budgetId'>;
+
+interface AlertRecord {
+  alert: Alert;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  // Last successful delivery per webhook ID
+  sentTo: Record<string, string>;
+  acknowledged?: { by: string; at: string; note?: string };
+}
+
+interface AlertState {
+  alerts: Record<string, AlertRecord>;
+  silences: AlertSilence[];
+}
+
+export type AlertStatus = 'active' | 'acknowledged' | 'silenced';
+
+export interface AlertCycleResult {
+  startedAt: string;
+  finishedAt: string;
+  alertsDetected: number;
+  newAlerts: number;
+  suppressed: number;
+  deliveries: Array<{ webhookId: string; alerts: number; status?: number; error?: string }>;
+  errors: Array<{ organizationId: number; source: AlertKind; error: string }>;
+}
+
+const webhookSchema = Joi.object({
+  id: Joi.string().pattern(/^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/).required(),
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+  format: Joi.string().valid('generic', 'slack', 'teams').default('generic'),
+  secret: Joi.string().min(16),
+  // Name of an environment variable holding the secret, to keep it out of the file
+  secretEnv: Joi.string().pattern(/^[A-Z_][A-Z0-9_]*$/),
+  headers: Joi.object().pattern(Joi.string(), Joi.string()),
+  organizations: Joi.array().items(Joi.number().integer().positive()).min(1),
+  kinds: Joi.array().items(Joi.string().valid('anomaly', 'budget')).min(1).unique(),
+  minSeverity: Joi.string().valid('warning', 'critical').default('warning'),
+}).oxor('secret', 'secretEnv');
+
+const alertConfigSchema = Joi.object({
+  intervalMinutes: Joi.number().integer().min(5).max(1440).default(60),
+  renotifyHours: Joi.number().min(0).max(720).default(0),
+  webhooks: Joi.array().items(webhookSchema).min(1).unique('id').required(),
+  organizations: Joi.array()
+    .items(
+      Joi.object({
+        organizationId: Joi.number().integer().positive().required(),
+        anomalies: Joi.object({
+          enabled: Joi.boolean().default(true),
+          method: Joi.string().valid('zscore', 'mad', 'seasonal').default('mad'),
+          baselineMonths: Joi.number().integer().min(3).max(24).default(6),
+          threshold: Joi.number().min(1).max(10),
+          minAbsoluteChange: Joi.number().min(0).default(100),
+          changeThresholdPercent: Joi.number().min(0).max(1000).default(25),
+          criticalChangePercent: Joi.number().min(0).default(100),
+        }).default(),
+        budgets: Joi.object({ enabled: Joi.boolean().default(true) }).default(),
+      })
+    )
+    .min(1)
+    .unique('organizationId')
+    .required(),
+});
+
+/**
+ * Validate an alert configuration; `secretEnv` references are resolved here
+ */
+export function parseAlertConfig(raw: any): AlertConfig {
+  const { error, value } = alertConfigSchema.validate(raw, { abortEarly: false });
+  if (error) {
+    throw new Error(`Invalid alert configuration: ${error.message}`);
+  }
+
+  value.webhooks = value.webhooks.map(({ secretEnv, ...webhook }: any) => {
+    if (!secretEnv) return webhook;
+    const secret = process.env[secretEnv];
+    if (!secret) {
+      throw new Error(`Invalid alert configuration: webhook ${webhook.id} uses ${secretEnv}, which is not set`);
+    }
+    return { ...webhook, secret };
+  });
+  return value;
+}
+
+/**
+ * Load the alert configuration from ALERTS_FILE; no file means no watcher
+ */
+export function loadAlertConfig(): AlertConfig | null {
+  const configFile = process.env.ALERTS_FILE;
+  if (!configFile) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid alert configuration: cannot read ${configFile}: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+      cause: error,
+    });
+  }
+  return parseAlertConfig(raw);
+}
+
+/**
+ * Short stable ID for an alert, derived from what makes it the same alert across cycles
+ */
+function alertId(fingerprint: string): string {
+  return createHash('sha256').update(fingerprint).digest('hex').slice(0, 16);
+}
+
+// Alerts not seen for this long are dropped from the state file
+const RETENTION_MS = 90 * 24 * 3600 * 1000;
+
+/**
+ * Evaluates alert rules on an interval and delivers new alerts.
+ * An alert is identified by what it is about (subscription and month for an anomaly, budget,
+ * period and threshold for a budget breach), so it is sent to each webhook once; with
+ * renotifyHours it is sent again until someone acknowledges it. A failed delivery is retried on
+ * the next cycle.
+ */
+export class AlertWatcher {
+  private state: AlertState;
+  private timer: NodeJS.Timeout | null = null;
+  private cycleRunning = false;
+  private lastCycle: AlertCycleResult | null = null;
+
+  constructor(
+    private client: CrayonApiClient,
+    private budgetStore: BudgetStore,
+    private config: AlertConfig | null,
+    private stateFile: string
+  ) {
+    this.state = this.readState();
+  }
+
+  private readState(): AlertState {
+    if (!fs.existsSync(this.stateFile)) return { alerts: {}, silences: [] };
+    try {
+      const data = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8'));
+      return { alerts: data?.alerts ?? {}, silences: Array.isArray(data?.silences) ? data.silences : [] };
+    } catch (error) {
+      // Losing the state re-sends open alerts, which is better than not watching at all
+      logger.warn(`Ignoring unreadable alert state file ${this.stateFile}`, {
+        stateFile: this.stateFile,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { alerts: {}, silences: [] };
+    }
+  }
+
+  private writeState(): void {
+    fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+    const tmpFile = `${this.stateFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tmpFile, this.stateFile);
+  }
+
+  get enabled(): boolean {
+    return this.config !== null;
+  }
+
+  start(): void {
+    if (!this.config) return;
+
+    const cycle = () => {
+      this.runCycle().catch((error) => logger.error('Alert cycle failed', { error: error?.message }));
+    };
+    this.timer = setInterval(cycle, this.config.intervalMinutes * 60 * 1000);
+    this.timer.unref();
+    setTimeout(cycle, 0).unref();
+
+    logger.info('Alert watcher started', {
+      organizations: this.config.organizations.length,
+      webhooks: this.config.webhooks.length,
+      intervalMinutes: this.config.intervalMinutes,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async anomalyAlerts(rules: OrganizationAlertRules, now: Date): Promise<Alert[]> {
+    const { method, baselineMonths, threshold, minAbsoluteChange, changeThresholdPercent, criticalChangePercent } = rules.anomalies;
+    const result = await this.client.detectCostAnomalies(rules.organizationId, {
+      monthsBack: 1,
+      method,
+      baselineMonths,
+      threshold: threshold ?? DEFAULT_THRESHOLDS[method],
+      minAbsoluteChange,
+      changeThresholdPercent,
+    });
+
+    return result.anomalies.map((anomaly) => ({
+      id: alertId(`anomaly:${rules.organizationId}:${anomaly.subscriptionId}:${anomaly.month}:${anomaly.type}`),
+      kind: 'anomaly' as const,
+      severity: (anomaly.changePercent !== null && Math.abs(anomaly.changePercent) >= criticalChangePercent
+        ? 'critical'
+        : 'warning') as AlertSeverity,
+      organizationId: rules.organizationId,
+      title: `Cost ${anomaly.type} on ${anomaly.subscriptionName} in ${anomaly.month}`,
+      text: anomaly.explanation,
+      subscriptionId: String(anomaly.subscriptionId),
+      details: {
+        type: anomaly.type,
+        subscriptionId: anomaly.subscriptionId,
+        subscriptionName: anomaly.subscriptionName,
+        month: anomaly.month,
+        actualCost: anomaly.actualCost,
+        expectedCost: anomaly.expectedCost,
+        change: anomaly.change,
+        changePercent: anomaly.changePercent,
+        score: anomaly.score,
+        currency: result.currency,
+        method: result.method,
+      },
+      detectedAt: now.toISOString(),
+    }));
+  }
+
+  private async budgetAlerts(rules: OrganizationAlertRules, now: Date): Promise<Alert[]> {
+    const alerts: Alert[] = [];
+
+    for (const budget of this.budgetStore.list(rules.organizationId)) {
+      const { from } = getBudgetPeriodRange(budget.period, now);
+      const actuals = await this.client.getBudgetActuals(rules.organizationId, budget.scope, from.toISOString(), now.toISOString());
+      if (actuals.currency && actuals.currency !== budget.currency) {
+        logger.warn('Skipping budget alert: actuals and budget currencies differ', {
+          budgetId: budget.id,
+          actualsCurrency: actuals.currency,
+          budgetCurrency: budget.currency,
+        });
+        continue;
+      }
+
+      const status = evaluateBudget(budget, actuals.monthlyActuals, now);
+      // Spending the whole budget always alerts, whether or not 100 is one of its thresholds
+      const crossed = [...status.thresholdsCrossed, ...(status.percentConsumed >= 100 ? [100] : [])];
+      if (crossed.length === 0) continue;
+
+      const threshold = Math.max(...crossed);
+      alerts.push({
+        id: alertId(`budget:${budget.id}:${status.period.from}:${threshold}`),
+        kind: 'budget',
+        severity: status.percentConsumed >= 100 ? 'critical' : 'warning',
+        organizationId: rules.organizationId,
+        title: `Budget "${budget.name}" has reached ${threshold}%`,
+        text: `${status.actual.toFixed(2)} ${budget.currency} of ${budget.amount.toFixed(2)} ${budget.currency} spent ` +
+          `(${status.percentConsumed.toFixed(1)}%) with ${status.period.elapsedPercent.toFixed(1)}% of the ${budget.period} period elapsed; ` +
+          `projected ${status.projectedSpend.toFixed(2)} ${budget.currency}`,
+        budgetId: budget.id,
+        details: {
+          budgetId: budget.id,
+          budgetName: budget.name,
+          threshold,
+          period: status.period,
+          actual: status.actual,
+          amount: budget.amount,
+          currency: budget.currency,
+          percentConsumed: status.percentConsumed,
+          projectedSpend: status.projectedSpend,
+          projectedOverrun: status.projectedOverrun,
+          status: status.status,
+        },
+        detectedAt: now.toISOString(),
+      });
+    }
+
+    return alerts;
+  }
+
+  private silenceFor(alert: Alert, now: Date): AlertSilence | undefined {
+    return this.state.silences.find((silence) =>
+      silence.organizationId === alert.organizationId &&
+      new Date(silence.until) > now &&
+      (!silence.alertId || silence.alertId === alert.id) &&
+      (!silence.kind || silence.kind === alert.kind) &&
+      (!silence.subscriptionId || silence.subscriptionId === alert.subscriptionId) &&
+      (!silence.budgetId || silence.budgetId === alert.budgetId)
+    );
+  }
+
+  private isDue(record: AlertRecord, webhookId: string, now: Date): boolean {
+    const lastSent = record.sentTo[webhookId];
+    if (!lastSent) return true;
+    const renotifyHours = this.config?.renotifyHours ?? 0;
+    return renotifyHours > 0 && !record.acknowledged && now.getTime() - new Date(lastSent).getTime() >= renotifyHours * 3600 * 1000;
+  }
+
+  /**
+   * Evaluate every organization's rules once and deliver what is due.
+   * Overlapping cycles are skipped rather than queued.
+   */
+  async runCycle(now: Date = new Date()): Promise<AlertCycleResult | null> {
+    if (!this.config || this.cycleRunning) return null;
+    this.cycleRunning = true;
+
+    try {
+      const result: AlertCycleResult = {
+        startedAt: now.toISOString(),
+        finishedAt: now.toISOString(),
+        alertsDetected: 0,
+        newAlerts: 0,
+        suppressed: 0,
+        deliveries: [],
+        errors: [],
+      };
+
+      const detected: Alert[] = [];
+      for (const rules of this.config.organizations) {
+        const sources: Array<[AlertKind, boolean, () => Promise<Alert[]>]> = [
+          ['anomaly', rules.anomalies.enabled, () => this.anomalyAlerts(rules, now)],
+          ['budget', rules.budgets.enabled, () => this.budgetAlerts(rules, now)],
+        ];
+        for (const [source, enabled, evaluate] of sources) {
+          if (!enabled) continue;
+          try {
+            detected.push(...(await evaluate()));
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            result.errors.push({ organizationId: rules.organizationId, source, error: message });
+            logger.error('Alert rule evaluation failed', { organizationId: rules.organizationId, source, error: message });
+          }
+        }
+      }
+
+      // Record what was seen; the first detection time survives later cycles
+      const due: AlertRecord[] = [];
+      detected.forEach((alert) => {
+        const existing = this.state.alerts[alert.id];
+        if (!existing) result.newAlerts++;
+        const record: AlertRecord = existing
+          ? { ...existing, alert: { ...alert, detectedAt: existing.alert.detectedAt }, lastSeenAt: now.toISOString() }
+          : { alert, firstSeenAt: now.toISOString(), lastSeenAt: now.toISOString(), sentTo: {} };
+        this.state.alerts[alert.id] = record;
+
+        if (record.acknowledged) return;
+        if (this.silenceFor(alert, now)) {
+          result.suppressed++;
+          return;
+        }
+        due.push(record);
+      });
+      result.alertsDetected = detected.length;
+
+      for (const webhook of this.config.webhooks) {
+        const batch = due.filter((record) => webhookAccepts(webhook, record.alert) && this.isDue(record, webhook.id, now));
+        if (batch.length === 0) continue;
+
+        // One message per organization, so a receiver never mixes organizations
+        const byOrganization = new Map<number, AlertRecord[]>();
+        batch.forEach((record) => byOrganization.set(record.alert.organizationId, [...(byOrganization.get(record.alert.organizationId) ?? []), record]));
+
+        for (const records of byOrganization.values()) {
+          const alerts = records
+            .map((record) => record.alert)
+            .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1));
+          try {
+            const status = await postAlerts(webhook, alerts);
+            const sentAt = new Date().toISOString();
+            records.forEach((record) => {
+              record.sentTo[webhook.id] = sentAt;
+            });
+            result.deliveries.push({ webhookId: webhook.id, alerts: alerts.length, status });
+            logger.info('Alerts delivered', { webhookId: webhook.id, organizationId: alerts[0].organizationId, alerts: alerts.length, status });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            result.deliveries.push({ webhookId: webhook.id, alerts: alerts.length, error: message });
+            logger.error('Alert delivery failed', { webhookId: webhook.id, organizationId: alerts[0].organizationId, error: message });
+          }
+        }
+      }
+
+      this.prune(now);
+      this.writeState();
+
+      result.finishedAt = new Date().toISOString();
+      this.lastCycle = result;
+      return result;
+    } finally {
+      this.cycleRunning = false;
+    }
+  }
+
+  private prune(now: Date): void {
+    Object.entries(this.state.alerts).forEach(([id, record]) => {
+      if (now.getTime() - new Date(record.lastSeenAt).getTime() > RETENTION_MS) delete this.state.alerts[id];
+    });
+    this.state.silences = this.state.silences.filter((silence) => new Date(silence.until) > now);
+  }
+
+  private statusOf(record: AlertRecord, now: Date): AlertStatus {
+    if (record.acknowledged) return 'acknowledged';
+    return this.silenceFor(record.alert, now) ? 'silenced' : 'active';
+  }
+
+  /**
+   * Alerts of an organization, most recently seen first
+   */
+  list(organizationId: number, status?: AlertStatus) {
+    const now = new Date();
+    return Object.values(this.state.alerts)
+      .filter((record) => record.alert.organizationId === organizationId)
+      .map((record) => ({
+        ...record.alert,
+        status: this.statusOf(record, now),
+        firstSeenAt: record.firstSeenAt,
+        lastSeenAt: record.lastSeenAt,
+        sentTo: record.sentTo,
+        acknowledged: record.acknowledged ?? null,
+      }))
+      .filter((alert) => !status || alert.status === status)
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }
+
+  silences(organizationId: number): AlertSilence[] {
+    const now = new Date();
+    return this.state.silences.filter((silence) => silence.organizationId === organizationId && new Date(silence.until) > now);
+  }
+
+  getLastCycle(): AlertCycleResult | null {
+    return this.lastCycle;
+  }
+
+  /**
+   * Acknowledge an alert so it is not sent again
+   */
+  acknowledge(organizationId: number, id: string, userId: string, note?: string): Alert {
+    const record = this.state.alerts[id];
+    if (!record || record.alert.organizationId !== organizationId) {
+      throw new Error(`Alert ${id} not found for organization ${organizationId}`);
+    }
+    record.acknowledged = { by: userId, at: new Date().toISOString(), ...(note ? { note } : {}) };
+    this.writeState();
+    return record.alert;
+  }
+
+  /**
+   * Silence matching alerts for a while; an empty match silences the whole organization
+   */
+  silence(organizationId: number, match: AlertSilenceMatch, durationHours: number, userId: string, reason?: string): AlertSilence {
+    if (match.alertId) {
+      const record = this.state.alerts[match.alertId];
+      if (!record || record.alert.organizationId !== organizationId) {
+        throw new Error(`Alert ${match.alertId} not found for organization ${organizationId}`);
+      }
+    }
+
+    const now = new Date();
+    const silence: AlertSilence = {
+      id: randomUUID(),
+      organizationId,
+      ...Object.fromEntries(Object.entries(match).filter(([, value]) => value !== undefined)),
+      until: new Date(now.getTime() + durationHours * 3600 * 1000).toISOString(),
+      ...(reason ? { reason } : {}),
+      createdBy: userId,
+      createdAt: now.toISOString(),
+    };
+    this.state.silences.push(silence);
+    this.writeState();
+    return silence;
+  }
+
+  /**
+   * @returns The removed silence
+   */
+  unsilence(organizationId: number, silenceId: string): AlertSilence {
+    const silence = this.state.silences.find((s) => s.id === silenceId && s.organizationId === organizationId);
+    if (!silence) {
+      throw new Error(`Silence ${silenceId} not found for organization ${organizationId}`);
+    }
+    this.state.silences = this.state.silences.filter((s) => s.id !== silenceId);
+    this.writeState();
+    return silence;
+  }
+}
+
+/**
+ * Create the watcher from ALERTS_FILE and ALERTS_STATE_FILE
+ */
+export function createAlertWatcherFromEnv(client: CrayonApiClient, budgetStore: BudgetStore): AlertWatcher {
+  return new AlertWatcher(client, budgetStore, loadAlertConfig(), process.env.ALERTS_STATE_FILE || './data/alerts-state.json');
+}
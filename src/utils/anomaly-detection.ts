@@ -0,0 +1,112 @@
+/**
+ * Anomaly detection utility - scores a value against its history with a z-score over a rolling
+ * window, the median absolute deviation, or a seasonal (same month last year) decomposition
+ */
+
+export type AnomalyMethod = 'zscore' | 'mad' | 'seasonal';
+
+export interface AnomalyScore {
+  method: AnomalyMethod;
+  expected: number;
+  score: number;
+}
+
+/**
+ * Default score above which a value is anomalous, per method
+ * (3 standard deviations; 3.5 for the modified z-score of Iglewicz and Hoaglin)
+ */
+export const DEFAULT_THRESHOLDS: Record<AnomalyMethod, number> = {
+  zscore: 3,
+  mad: 3.5,
+  seasonal: 3,
+};
+
+const SEASON_LENGTH = 12;
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Spread floor: a perfectly flat history would make any change infinitely anomalous,
+ * so the spread is never taken as less than 5% of the expected level
+ */
+function floorSpread(spread: number, expected: number): number {
+  return Math.max(spread, Math.abs(expected) * 0.05, 1e-9);
+}
+
+function zScore(history: number[], value: number): AnomalyScore {
+  const expected = mean(history);
+  return { method: 'zscore', expected, score: (value - expected) / floorSpread(stdDev(history), expected) };
+}
+
+function madScore(history: number[], value: number): AnomalyScore {
+  const expected = median(history);
+  const mad = median(history.map((v) => Math.abs(v - expected)));
+  // 0.6745 scales the MAD to a standard deviation for normally distributed data
+  return { method: 'mad', expected, score: (0.6745 * (value - expected)) / floorSpread(mad, expected) };
+}
+
+/**
+ * Expected value at position t from the 12-month level plus the seasonal offset of the same month a year earlier
+ */
+function seasonalExpectation(series: number[], t: number): number | null {
+  if (t < SEASON_LENGTH) return null;
+  const level = mean(series.slice(t - SEASON_LENGTH, t));
+  const lastYear = series[t - SEASON_LENGTH];
+  const lastYearLevel = t >= SEASON_LENGTH * 2 ? mean(series.slice(t - SEASON_LENGTH * 2, t - SEASON_LENGTH)) : level;
+  return level + (lastYear - lastYearLevel);
+}
+
+function seasonalScore(history: number[], value: number): AnomalyScore | null {
+  const series = [...history, value];
+  const t = history.length;
+  const expected = seasonalExpectation(series, t);
+  if (expected === null) return null;
+
+  // Spread of the same decomposition's errors on the earlier months
+  const residuals: number[] = [];
+  for (let i = SEASON_LENGTH; i < t; i++) {
+    residuals.push(series[i] - (seasonalExpectation(series, i) as number));
+  }
+  const spread = residuals.length >= 2 ? stdDev(residuals) : stdDev(history.slice(-SEASON_LENGTH));
+  return { method: 'seasonal', expected, score: (value - expected) / floorSpread(spread, expected) };
+}
+
+/**
+ * Minimum history each method needs to score a value
+ */
+export function minimumHistory(method: AnomalyMethod): number {
+  return method === 'seasonal' ? SEASON_LENGTH + 1 : 3;
+}
+
+/**
+ * Score a value against the values before it.
+ * The seasonal method falls back to MAD when there is less than 13 months of history.
+ * @param history - Earlier values, oldest first
+ * @param window - Number of most recent values used as baseline by zscore and mad
+ * @returns null when there is not enough history to score
+ */
+export function scoreValue(history: number[], value: number, method: AnomalyMethod, window: number): AnomalyScore | null {
+  if (method === 'seasonal') {
+    const seasonal = seasonalScore(history, value);
+    if (seasonal) return seasonal;
+  }
+
+  const baseline = history.slice(-window);
+  if (baseline.length < minimumHistory('mad')) return null;
+  return method === 'zscore' ? zScore(baseline, value) : madScore(baseline, value);
+}
@@ -0,0 +1,185 @@
+/**
+ * Azure usage query utility - filters usage rows and aggregates them by column as they stream in,
+ * keeping only the groups (or the top rows) in memory
+ */
+import { AzureUsageRow } from '../models/crayon.js';
+
+export const USAGE_COLUMNS = [
+  'date',
+  'subscriptionId',
+  'meterCategory',
+  'meterSubCategory',
+  'meterName',
+  'resourceGroup',
+  'resourceId',
+  'region',
+] as const;
+
+/**
+ * A usage column: one of USAGE_COLUMNS, or `tag:<name>` for a resource tag
+ */
+export type UsageColumn = (typeof USAGE_COLUMNS)[number] | `tag:${string}`;
+
+export type UsageFilterOperator = 'equals' | 'notEquals' | 'contains' | 'startsWith' | 'in';
+
+export interface UsageFilter {
+  column: UsageColumn;
+  operator: UsageFilterOperator;
+  value: string | string[];
+}
+
+export interface UsageQuery {
+  filters: UsageFilter[];
+  groupBy: UsageColumn[];
+  topN: number;
+  from?: string;
+  to?: string;
+  minCost?: number;
+}
+
+export interface UsageGroup {
+  key: Record<string, string>;
+  cost: number;
+  quantity: number;
+  rowCount: number;
+}
+
+export interface UsageQueryResult {
+  rowsScanned: number;
+  rowsMatched: number;
+  totalCost: number;
+  originalTotals: Record<string, number>;
+  groupCount: number;
+  groups: UsageGroup[];
+}
+
+const UNTAGGED = '(untagged)';
+
+/**
+ * Value of a column in a usage row; a missing tag reads as "(untagged)"
+ */
+export function usageColumnValue(row: AzureUsageRow, column: UsageColumn): string {
+  if (column.startsWith('tag:')) {
+    const tagKey = column.slice(4).toLowerCase();
+    const match = Object.keys(row.Tags).find((key) => key.toLowerCase() === tagKey);
+    return match ? row.Tags[match] : UNTAGGED;
+  }
+
+  switch (column) {
+    case 'date': return row.Date;
+    case 'subscriptionId': return row.SubscriptionId ?? '';
+    case 'meterCategory': return row.MeterCategory;
+    case 'meterSubCategory': return row.MeterSubCategory;
+    case 'meterName': return row.MeterName ?? '';
+    case 'resourceGroup': return row.ResourceGroup;
+    case 'resourceId': return row.ResourceId;
+    case 'region': return row.Region;
+    default: return '';
+  }
+}
+
+/**
+ * String comparisons ignore case, since usage exports are not consistent about it
+ */
+function matchesFilter(row: AzureUsageRow, filter: UsageFilter): boolean {
+  const actual = usageColumnValue(row, filter.column).toLowerCase();
+  const values = (Array.isArray(filter.value) ? filter.value : [filter.value]).map((value) => value.toLowerCase());
+
+  switch (filter.operator) {
+    case 'equals': return actual === values[0];
+    case 'notEquals': return actual !== values[0];
+    case 'contains': return actual.includes(values[0]);
+    case 'startsWith': return actual.startsWith(values[0]);
+    case 'in': return values.includes(actual);
+  }
+}
+
+/**
+ * Aggregates usage rows one at a time.
+ * With groupBy columns it sums cost and quantity per distinct combination; without, it keeps the
+ * topN most expensive rows. Either way memory is bounded by the result, not by the file.
+ */
+export class UsageAggregator {
+  private groups = new Map<string, UsageGroup>();
+  private topRows: UsageGroup[] = [];
+  private rowsScanned = 0;
+  private rowsMatched = 0;
+  private totalCost = 0;
+  private originalTotals: Record<string, number> = {};
+
+  constructor(private query: UsageQuery) {}
+
+  /**
+   * Add a row; `cost` is the row's cost in the result currency, `row.Cost` the unconverted cost
+   */
+  add(row: AzureUsageRow, cost: number): void {
+    this.rowsScanned++;
+    const { from, to, filters, groupBy, minCost } = this.query;
+    if (from && row.Date < from) return;
+    if (to && row.Date > to) return;
+    if (minCost !== undefined && cost < minCost) return;
+    if (!filters.every((filter) => matchesFilter(row, filter))) return;
+
+    this.rowsMatched++;
+    this.totalCost += cost;
+    this.originalTotals[row.Cost.currency] = (this.originalTotals[row.Cost.currency] || 0) + row.Cost.amount;
+
+    if (groupBy.length === 0) {
+      this.keepTopRow(row, cost);
+      return;
+    }
+
+    const values = groupBy.map((column) => usageColumnValue(row, column));
+    const id = values.join('\u0000');
+    const group = this.groups.get(id) ?? {
+      key: Object.fromEntries(groupBy.map((column, idx) => [column, values[idx]])),
+      cost: 0,
+      quantity: 0,
+      rowCount: 0,
+    };
+    group.cost += cost;
+    group.quantity += row.Quantity;
+    group.rowCount++;
+    this.groups.set(id, group);
+  }
+
+  private keepTopRow(row: AzureUsageRow, cost: number): void {
+    const { topN } = this.query;
+    if (this.topRows.length >= topN && cost <= this.topRows[this.topRows.length - 1].cost) return;
+
+    const entry: UsageGroup = {
+      key: Object.fromEntries([
+        ...USAGE_COLUMNS.map((column) => [column, usageColumnValue(row, column)]),
+        ['tags', JSON.stringify(row.Tags)],
+      ]),
+      cost,
+      quantity: row.Quantity,
+      rowCount: 1,
+    };
+
+    // Insert in cost order and drop the cheapest row past topN
+    const idx = this.topRows.findIndex((existing) => existing.cost < cost);
+    this.topRows.splice(idx < 0 ? this.topRows.length : idx, 0, entry);
+    if (this.topRows.length > topN) this.topRows.pop();
+  }
+
+  result(): UsageQueryResult {
+    const round = (value: number) => parseFloat(value.toFixed(4));
+    const all = this.query.groupBy.length > 0
+      ? Array.from(this.groups.values()).sort((a, b) => b.cost - a.cost)
+      : this.topRows;
+
+    return {
+      rowsScanned: this.rowsScanned,
+      rowsMatched: this.rowsMatched,
+      totalCost: round(this.totalCost),
+      originalTotals: this.originalTotals,
+      groupCount: this.query.groupBy.length > 0 ? this.groups.size : this.rowsMatched,
+      groups: all.slice(0, this.query.topN).map((group) => ({
+        ...group,
+        cost: round(group.cost),
+        quantity: round(group.quantity),
+      })),
+    };
+  }
+}
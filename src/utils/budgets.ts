@@ -0,0 +1,190 @@
+/**
+ * Budgets - a local JSON budget store and evaluation of actual spend against a budget period
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'node:crypto';
+import type { TagAttribution } from './tag-history.js';
+
+export type BudgetPeriod = 'monthly' | 'quarterly' | 'annual';
+
+export type BudgetScope =
+  | { type: 'organization' }
+  | { type: 'invoiceProfile'; invoiceProfileId: number }
+  | { type: 'tag'; tagKey: string; tagValue: string; attribution?: TagAttribution };
+
+export interface Budget {
+  id: string;
+  organizationId: number;
+  name: string;
+  scope: BudgetScope;
+  amount: number;
+  currency: string;
+  period: BudgetPeriod;
+  thresholds: number[];
+  createdAt: string;
+  createdBy: string;
+}
+
+export type BudgetInput = Omit<Budget, 'id' | 'createdAt' | 'createdBy'>;
+
+export interface BurnDownPoint {
+  date: string;
+  ideal: number;
+  remaining: number | null;
+  projected: number | null;
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  period: { from: string; to: string; elapsedPercent: number };
+  actual: number;
+  currency: string;
+  percentConsumed: number;
+  projectedSpend: number;
+  projectedOverrun: number;
+  thresholdsCrossed: number[];
+  status: 'on_track' | 'at_risk' | 'over_budget';
+  burnDown: BurnDownPoint[];
+}
+
+/**
+ * Budget store backed by a JSON file (BUDGETS_FILE). Writes go through a temporary file and a
+ * rename so a crash never leaves a half-written store behind.
+ */
+export class BudgetStore {
+  constructor(private file: string) {}
+
+  private readAll(): Budget[] {
+    if (!fs.existsSync(this.file)) return [];
+    const data = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+    return Array.isArray(data?.budgets) ? data.budgets : [];
+  }
+
+  private writeAll(budgets: Budget[]): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmpFile = `${this.file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify({ budgets }, null, 2));
+    fs.renameSync(tmpFile, this.file);
+  }
+
+  list(organizationId?: number): Budget[] {
+    const budgets = this.readAll();
+    return organizationId ? budgets.filter((b) => b.organizationId === organizationId) : budgets;
+  }
+
+  get(id: string): Budget | undefined {
+    return this.readAll().find((b) => b.id === id);
+  }
+
+  create(input: BudgetInput, createdBy: string): Budget {
+    const budgets = this.readAll();
+    const budget: Budget = {
+      ...input,
+      thresholds: [...input.thresholds].sort((a, b) => a - b),
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      createdBy,
+    };
+    budgets.push(budget);
+    this.writeAll(budgets);
+    return budget;
+  }
+
+  /**
+   * @returns The deleted budget, or undefined if it does not exist
+   */
+  delete(id: string): Budget | undefined {
+    const budgets = this.readAll();
+    const budget = budgets.find((b) => b.id === id);
+    if (budget) {
+      this.writeAll(budgets.filter((b) => b.id !== id));
+    }
+    return budget;
+  }
+}
+
+/**
+ * Create the budget store from BUDGETS_FILE
+ */
+export function createBudgetStoreFromEnv(): BudgetStore {
+  return new BudgetStore(process.env.BUDGETS_FILE || './data/budgets.json');
+}
+
+/**
+ * Calendar period (month, quarter or year) containing `now`; `to` is the first instant after the period
+ */
+export function getBudgetPeriodRange(period: BudgetPeriod, now: Date = new Date()): { from: Date; to: Date } {
+  const year = now.getFullYear();
+  if (period === 'annual') {
+    return { from: new Date(year, 0, 1), to: new Date(year + 1, 0, 1) };
+  }
+  if (period === 'quarterly') {
+    const quarterStart = Math.floor(now.getMonth() / 3) * 3;
+    return { from: new Date(year, quarterStart, 1), to: new Date(year, quarterStart + 3, 1) };
+  }
+  return { from: new Date(year, now.getMonth(), 1), to: new Date(year, now.getMonth() + 1, 1) };
+}
+
+function toDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
+
+/**
+ * Evaluate spend against a budget for the current period.
+ * Projection assumes the spend rate so far continues for the rest of the period. The burn-down has
+ * a point at the period start, at the end of each completed month, today and the period end.
+ * @param monthlyActuals - Spend per billing month (YYYY-MM) within the period, in the budget currency
+ */
+export function evaluateBudget(budget: Budget, monthlyActuals: Record<string, number>, now: Date = new Date()): BudgetStatus {
+  const { from, to } = getBudgetPeriodRange(budget.period, now);
+  const periodMs = to.getTime() - from.getTime();
+  const elapsed = Math.min(1, Math.max(0, (now.getTime() - from.getTime()) / periodMs));
+
+  const actual = Object.values(monthlyActuals).reduce((sum, cost) => sum + cost, 0);
+  const projectedSpend = elapsed > 0 ? actual / elapsed : actual;
+  const percentConsumed = budget.amount > 0 ? (actual / budget.amount) * 100 : 0;
+  const projectedOverrun = Math.max(0, projectedSpend - budget.amount);
+  const thresholdsCrossed = budget.thresholds.filter((threshold) => percentConsumed >= threshold);
+
+  const idealAt = (date: Date) => budget.amount * (1 - (date.getTime() - from.getTime()) / periodMs);
+  const burnDown: BurnDownPoint[] = [{ date: toDay(from), ideal: round(budget.amount), remaining: round(budget.amount), projected: null }];
+
+  // Completed months inside the period
+  let spentSoFar = 0;
+  for (let monthStart = new Date(from); ; ) {
+    const monthEnd = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1);
+    if (monthEnd.getTime() > now.getTime() || monthEnd.getTime() >= to.getTime()) break;
+
+    spentSoFar += monthlyActuals[`${monthStart.getFullYear()}-${String(monthStart.getMonth() + 1).padStart(2, '0')}`] || 0;
+    const lastDay = new Date(monthEnd.getTime() - 1);
+    burnDown.push({ date: toDay(lastDay), ideal: round(idealAt(monthEnd)), remaining: round(budget.amount - spentSoFar), projected: null });
+    monthStart = monthEnd;
+  }
+
+  const remainingNow = round(budget.amount - actual);
+  burnDown.push({ date: toDay(now), ideal: round(idealAt(now)), remaining: remainingNow, projected: remainingNow });
+  burnDown.push({
+    date: toDay(new Date(to.getTime() - 1)),
+    ideal: 0,
+    remaining: null,
+    projected: round(budget.amount - projectedSpend),
+  });
+
+  return {
+    budget,
+    period: { from: toDay(from), to: toDay(new Date(to.getTime() - 1)), elapsedPercent: round(elapsed * 100) },
+    actual: round(actual),
+    currency: budget.currency,
+    percentConsumed: round(percentConsumed),
+    projectedSpend: round(projectedSpend),
+    projectedOverrun: round(projectedOverrun),
+    thresholdsCrossed,
+    status: percentConsumed >= 100 ? 'over_budget' : projectedOverrun > 0 ? 'at_risk' : 'on_track',
+    burnDown,
+  };
+}
@@ -223,10 +223,17 @@ export class ChartGenerator {
 
   /**
    * Generate a line chart for trends over time
+   * Null values leave gaps; `fill` and `borderDash` allow drawing bands (e.g. fill: '+1' to the next dataset)
    */
   async generateLineChart(
     labels: string[], 
-    datasets: Array<{ label: string; data: number[]; borderColor?: string }>,
+    datasets: Array<{
+      label: string;
+      data: Array<number | null>;
+      borderColor?: string;
+      fill?: boolean | string;
+      borderDash?: number[];
+    }>,
     title: string,
     yAxisLabel?: string
   ): Promise<string> {
@@ -242,7 +249,8 @@ export class ChartGenerator {
           backgroundColor: (ds.borderColor || this.getColorPalette(datasets.length)[idx]).replace('1)', '0.2)'),
           borderWidth: 2,
           tension: 0.4,
-          fill: true
+          fill: ds.fill ?? true,
+          borderDash: ds.borderDash
         }))
       },
       options: {
@@ -0,0 +1,29 @@
+/**
+ * Concurrency utility for fanning out API calls without flooding the Crayon API
+ */
+
+/**
+ * Map over items with at most `limit` calls in flight, preserving input order in the result
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async mapper
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
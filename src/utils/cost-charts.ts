@@ -0,0 +1,127 @@
+/**
+ * Cost chart builder - turns a cost breakdown by dimension into a chart through the shared chartGenerator
+ */
+import { chartGenerator } from './chart-generator.js';
+import { formatMonthYear, getCurrentLocale } from './localization.js';
+
+export type CostDimension = 'subscription' | 'invoiceProfile' | 'tag' | 'provisionType' | 'month';
+export type CostMetric = 'cost' | 'averageMonthlyCost' | 'statementCount';
+export type CostChartType = 'pie' | 'doughnut' | 'bar' | 'stackedBar' | 'line';
+
+export interface CostGroup {
+  label: string;
+  total: number;
+  statementCount: number;
+  byMonth: Record<string, number>;
+  statementsByMonth: Record<string, number>;
+}
+
+export interface CostsByDimension {
+  dimension: CostDimension;
+  currency: string | null;
+  months: string[];
+  groups: CostGroup[];
+}
+
+export interface CostChart {
+  dataUrl: string;
+  rows: Array<{ label: string; value: number; percent: number }>;
+  valueLabel: string;
+}
+
+const OTHER_LABEL = 'Other';
+
+function metricValue(group: CostGroup, metric: CostMetric, monthCount: number): number {
+  if (metric === 'statementCount') return group.statementCount;
+  if (metric === 'averageMonthlyCost') return group.total / Math.max(monthCount, 1);
+  return group.total;
+}
+
+function monthlyValues(group: CostGroup, metric: CostMetric, months: string[]): number[] {
+  return months.map((month) =>
+    metric === 'statementCount' ? group.statementsByMonth[month] || 0 : group.byMonth[month] || 0
+  );
+}
+
+/**
+ * Keep the top N groups by total cost and fold the rest into a single "Other" group
+ */
+function limitGroups(groups: CostGroup[], topN: number): CostGroup[] {
+  const sorted = [...groups].sort((a, b) => b.total - a.total);
+  if (sorted.length <= topN) return sorted;
+
+  const other = sorted.slice(topN).reduce(
+    (acc: CostGroup, group) => {
+      acc.total += group.total;
+      acc.statementCount += group.statementCount;
+      Object.entries(group.byMonth).forEach(([month, cost]) => {
+        acc.byMonth[month] = (acc.byMonth[month] || 0) + cost;
+      });
+      Object.entries(group.statementsByMonth).forEach(([month, count]) => {
+        acc.statementsByMonth[month] = (acc.statementsByMonth[month] || 0) + count;
+      });
+      return acc;
+    },
+    { label: OTHER_LABEL, total: 0, statementCount: 0, byMonth: {}, statementsByMonth: {} }
+  );
+
+  return [...sorted.slice(0, topN), other];
+}
+
+/**
+ * Render a cost breakdown as a chart.
+ * Pie, doughnut and bar charts show one value per group; line and stacked bar charts show the
+ * groups over the months of the period (a single series when the dimension is the month itself).
+ */
+export async function renderCostChart(
+  data: CostsByDimension,
+  options: { metric: CostMetric; chartType: CostChartType; topN: number; title: string }
+): Promise<CostChart> {
+  const { metric, chartType, topN, title } = options;
+  const locale = getCurrentLocale();
+  const currency = data.currency || '';
+  const byMonth = data.dimension === 'month';
+  const displayLabel = (label: string) => (byMonth && label !== 'unknown' ? formatMonthYear(label, locale) : label);
+
+  const valueLabel = metric === 'statementCount'
+    ? 'Billing statements'
+    : metric === 'averageMonthlyCost'
+      ? `Average monthly cost (${currency})`
+      : `Cost (${currency})`;
+
+  // Months keep calendar order (empty months included); other dimensions are ranked by cost
+  const groups = byMonth
+    ? data.months.map((month) =>
+        data.groups.find((group) => group.label === month) ??
+          { label: month, total: 0, statementCount: 0, byMonth: {}, statementsByMonth: {} })
+    : limitGroups(data.groups, topN);
+
+  const values = groups.map((group) => metricValue(group, metric, data.months.length));
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const rows = groups.map((group, idx) => ({
+    label: displayLabel(group.label),
+    value: values[idx],
+    percent: total !== 0 ? parseFloat(((values[idx] / total) * 100).toFixed(1)) : 0,
+  }));
+  const labels = rows.map((row) => row.label);
+
+  let dataUrl: string;
+  if (chartType === 'pie') {
+    dataUrl = await chartGenerator.generatePieChart(labels, values, title, currency);
+  } else if (chartType === 'doughnut') {
+    dataUrl = await chartGenerator.generateDoughnutChart(labels, values, title, currency);
+  } else if (chartType === 'bar') {
+    dataUrl = await chartGenerator.generateBarChart(labels, [{ label: valueLabel, data: values }], title, valueLabel);
+  } else {
+    const monthLabels = data.months.map(displayLabel);
+    const datasets = byMonth
+      ? [{ label: valueLabel, data: values }]
+      : groups.map((group) => ({ label: group.label, data: monthlyValues(group, metric, data.months) }));
+
+    dataUrl = chartType === 'line'
+      ? await chartGenerator.generateLineChart(byMonth ? labels : monthLabels, datasets, title, valueLabel)
+      : await chartGenerator.generateStackedBarChart(byMonth ? labels : monthLabels, datasets, title, valueLabel);
+  }
+
+  return { dataUrl, rows, valueLabel };
+}
@@ -0,0 +1,790 @@
+/**
+ * Cost query language - a small read-only SQL subset evaluated in memory over normalized billing
+ * statements. Queries are checked against a fixed schema; nothing in them is sent to the Crayon
+ * API except the month range derived from their month conditions.
+ *
+ *   SELECT month, tag:CostCenter, SUM(cost) AS total
+ *   WHERE month BETWEEN '2026-01' AND '2026-06' AND provisionType = 'Usage'
+ *   GROUP BY month, tag:CostCenter
+ *   ORDER BY total DESC
+ *   LIMIT 20
+ */
+import { TagSet } from './tag-diff.js';
+
+export const QUERY_DIMENSIONS = [
+  'month',
+  'subscription',
+  'subscriptionId',
+  'invoiceProfile',
+  'invoiceProfileId',
+  'provisionType',
+  'product',
+  'publisher',
+  'currency',
+] as const;
+
+/**
+ * A dimension: one of QUERY_DIMENSIONS, or `tag:<key>` for a subscription tag
+ */
+export type QueryDimension = (typeof QUERY_DIMENSIONS)[number] | `tag:${string}`;
+
+export type QueryField = QueryDimension | 'cost';
+
+export const QUERY_AGGREGATES = ['sum', 'avg', 'count', 'min', 'max'] as const;
+
+export type QueryAggregate = (typeof QUERY_AGGREGATES)[number];
+
+export type CompareOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type QueryLiteral = string | number;
+
+export type QueryCondition =
+  | { type: 'and' | 'or'; left: QueryCondition; right: QueryCondition }
+  | { type: 'not'; condition: QueryCondition }
+  | { type: 'compare'; field: QueryField; operator: CompareOperator; value: QueryLiteral }
+  | { type: 'in'; field: QueryField; values: QueryLiteral[]; negated: boolean }
+  | { type: 'like'; field: QueryDimension; pattern: string; negated: boolean }
+  | { type: 'between'; field: QueryField; low: QueryLiteral; high: QueryLiteral; negated: boolean };
+
+export type QuerySelectItem =
+  | { kind: 'field'; field: QueryField; alias: string }
+  | { kind: 'aggregate'; aggregate: QueryAggregate; alias: string };
+
+export interface CostQuery {
+  select: QuerySelectItem[];
+  where?: QueryCondition;
+  groupBy: QueryDimension[];
+  orderBy: Array<{ alias: string; descending: boolean }>;
+  limit?: number;
+  // Tag keys the query reads, so tags are only fetched when needed
+  tagKeys: string[];
+}
+
+/**
+ * One billing statement (or the part of it attributed to one tag set), cost in the result currency
+ */
+export interface CostQueryRow {
+  month: string;
+  subscription: string;
+  subscriptionId: string;
+  invoiceProfile: string;
+  invoiceProfileId: string;
+  provisionType: string;
+  product: string;
+  publisher: string;
+  currency: string;
+  tags: TagSet;
+  cost: number;
+}
+
+export interface CostQueryResult {
+  columns: string[];
+  rows: Array<Record<string, QueryLiteral>>;
+  rowsScanned: number;
+  rowsMatched: number;
+  totalRows: number;
+  truncated: boolean;
+}
+
+/**
+ * Raised for queries that do not parse, do not fit the schema or exceed a limit.
+ * The message is safe to show to clients and points at what to change.
+ */
+export class CostQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CostQueryError';
+  }
+}
+
+const KEYWORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'BY', 'ORDER', 'ASC', 'DESC', 'LIMIT', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'BETWEEN', 'AS',
+]);
+
+const MAX_SELECT_ITEMS = 12;
+const MAX_GROUP_BY = 4;
+const MAX_IN_VALUES = 100;
+const MAX_CONDITION_DEPTH = 20;
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const NONE = '(none)';
+const UNTAGGED = '(untagged)';
+
+type Token =
+  | { type: 'keyword' | 'ident' | 'string' | 'op' | 'punct'; value: string; pos: number }
+  | { type: 'number'; value: string; pos: number }
+  | { type: 'end'; value: ''; pos: number };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const char = text[pos];
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+    if (char === "'" || char === '"') {
+      const quoted = readQuoted(text, pos);
+      pos += quoted.length;
+      tokens.push({ type: char === "'" ? 'string' : 'ident', value: quoted.value, pos: start });
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(text[pos + 1] ?? ''))) {
+      const match = /^-?\d+(\.\d+)?/.exec(text.slice(pos))!;
+      pos += match[0].length;
+      tokens.push({ type: 'number', value: match[0], pos: start });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(pos))!;
+      pos += match[0].length;
+      if (match[0].toLowerCase() === 'tag' && text[pos] === ':') {
+        // tag:<key>, the key either bare or quoted
+        pos++;
+        if (text[pos] === '"' || text[pos] === "'") {
+          const quoted = readQuoted(text, pos);
+          pos += quoted.length;
+          tokens.push({ type: 'ident', value: `tag:${quoted.value}`, pos: start });
+        } else {
+          const key = /^[A-Za-z0-9_.\-]+/.exec(text.slice(pos));
+          if (!key) throw new CostQueryError(`Expected a tag key after "tag:" at position ${pos + 1}`);
+          pos += key[0].length;
+          tokens.push({ type: 'ident', value: `tag:${key[0]}`, pos: start });
+        }
+      } else if (KEYWORDS.has(match[0].toUpperCase())) {
+        tokens.push({ type: 'keyword', value: match[0].toUpperCase(), pos: start });
+      } else {
+        tokens.push({ type: 'ident', value: match[0], pos: start });
+      }
+    } else if (/[<>!=]/.test(char)) {
+      const match = /^(<=|>=|<>|!=|=|<|>)/.exec(text.slice(pos));
+      if (!match) throw new CostQueryError(`Unexpected "${char}" at position ${pos + 1}`);
+      pos += match[0].length;
+      tokens.push({ type: 'op', value: match[0] === '<>' ? '!=' : match[0], pos: start });
+    } else if ('(),*'.includes(char)) {
+      pos++;
+      tokens.push({ type: 'punct', value: char, pos: start });
+    } else {
+      throw new CostQueryError(`Unexpected "${char}" at position ${pos + 1}`);
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', pos: text.length });
+  return tokens;
+}
+
+/**
+ * The quoted string or identifier starting at `pos`; a doubled quote inside it is an escaped quote
+ * @returns The unquoted value and the length consumed, quotes included
+ */
+function readQuoted(text: string, pos: number): { value: string; length: number } {
+  const quote = text[pos];
+  let value = '';
+  let end = pos + 1;
+  while (end < text.length) {
+    if (text[end] === quote && text[end + 1] === quote) {
+      value += quote;
+      end += 2;
+    } else if (text[end] === quote) {
+      return { value, length: end + 1 - pos };
+    } else {
+      value += text[end++];
+    }
+  }
+  throw new CostQueryError(`Unterminated ${quote === "'" ? 'string' : 'quoted identifier'} at position ${pos + 1}`);
+}
+
+function resolveField(name: string, pos: number): QueryField {
+  if (name.toLowerCase().startsWith('tag:')) {
+    const key = name.slice(4);
+    if (key.length === 0 || key.length > 100) throw new CostQueryError(`Invalid tag key at position ${pos + 1}`);
+    return `tag:${key}`;
+  }
+  if (name.toLowerCase() === 'cost') return 'cost';
+
+  const dimension = QUERY_DIMENSIONS.find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  if (!dimension) {
+    throw new CostQueryError(
+      `Unknown field "${name}" at position ${pos + 1}; use cost, ${QUERY_DIMENSIONS.join(', ')} or tag:<key>`
+    );
+  }
+  return dimension;
+}
+
+class CostQueryParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    const found = token.type === 'end' ? 'end of query' : `"${token.value}"`;
+    throw new CostQueryError(`${message} at position ${token.pos + 1}, found ${found}`);
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'keyword' && token.value === value;
+  }
+
+  private acceptKeyword(value: string): boolean {
+    if (!this.isKeyword(value)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(value: string): void {
+    if (!this.acceptKeyword(value)) this.fail(`Expected ${value}`);
+  }
+
+  private acceptPunct(value: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'punct' || token.value !== value) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) this.fail(`Expected "${value}"`);
+  }
+
+  private field(): { field: QueryField; pos: number } {
+    const token = this.next();
+    if (token.type !== 'ident') this.fail('Expected a field name', token);
+    return { field: resolveField(token.value, token.pos), pos: token.pos };
+  }
+
+  private literal(): QueryLiteral {
+    const token = this.next();
+    if (token.type === 'string') return token.value;
+    if (token.type === 'number') return parseFloat(token.value);
+    return this.fail('Expected a value', token);
+  }
+
+  parse(): CostQuery {
+    this.expectKeyword('SELECT');
+    const select = this.selectList();
+
+    if (this.acceptKeyword('FROM')) {
+      const source = this.next();
+      if (source.type !== 'ident' || source.value.toLowerCase() !== 'statements') {
+        this.fail('The only table is "statements"', source);
+      }
+    }
+
+    const where = this.acceptKeyword('WHERE') ? this.condition(0) : undefined;
+
+    const groupBy: QueryDimension[] = [];
+    if (this.acceptKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      do {
+        const { field, pos } = this.field();
+        if (field === 'cost') throw new CostQueryError(`Cannot group by cost at position ${pos + 1}`);
+        if (!groupBy.includes(field)) groupBy.push(field);
+      } while (this.acceptPunct(','));
+      if (groupBy.length > MAX_GROUP_BY) throw new CostQueryError(`GROUP BY takes at most ${MAX_GROUP_BY} fields`);
+    }
+
+    const orderBy: CostQuery['orderBy'] = [];
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const alias = this.orderTarget(select);
+        const descending = this.acceptKeyword('DESC');
+        if (!descending) this.acceptKeyword('ASC');
+        orderBy.push({ alias, descending });
+      } while (this.acceptPunct(','));
+    }
+
+    let limit: number | undefined;
+    if (this.acceptKeyword('LIMIT')) {
+      const token = this.next();
+      if (token.type !== 'number' || !/^\d+$/.test(token.value) || parseInt(token.value, 10) < 1) {
+        this.fail('LIMIT takes a positive whole number', token);
+      }
+      limit = parseInt(token.value, 10);
+    }
+
+    if (this.peek().type !== 'end') this.fail('Unexpected input');
+
+    const query: CostQuery = { select, where, groupBy, orderBy, limit, tagKeys: [] };
+    checkShape(query);
+    query.tagKeys = collectTagKeys(query);
+    return query;
+  }
+
+  private selectList(): QuerySelectItem[] {
+    const items: QuerySelectItem[] = [];
+    do {
+      const token = this.peek();
+      const next = this.tokens[this.index + 1];
+      let item: QuerySelectItem;
+
+      if (token.type === 'ident' && next?.type === 'punct' && next.value === '(') {
+        const aggregate = token.value.toLowerCase() as QueryAggregate;
+        if (!QUERY_AGGREGATES.includes(aggregate)) {
+          this.fail(`Unknown function; use ${QUERY_AGGREGATES.map((name) => name.toUpperCase()).join(', ')}`);
+        }
+        this.index += 2;
+        const argument = this.next();
+        const isStar = argument.type === 'punct' && argument.value === '*';
+        const isCost = argument.type === 'ident' && argument.value.toLowerCase() === 'cost';
+        if (!isCost && !(isStar && aggregate === 'count')) {
+          this.fail(aggregate === 'count' ? 'COUNT takes * or cost' : `${aggregate.toUpperCase()} takes cost`, argument);
+        }
+        this.expectPunct(')');
+        item = { kind: 'aggregate', aggregate, alias: aggregate === 'count' ? 'count' : `${aggregate}_cost` };
+      } else {
+        const { field } = this.field();
+        item = { kind: 'field', field, alias: field };
+      }
+
+      if (this.acceptKeyword('AS')) {
+        const alias = this.next();
+        if (alias.type !== 'ident' || alias.value.length > 64) this.fail('Expected an alias', alias);
+        item.alias = alias.value;
+      }
+      if (items.some((existing) => existing.alias === item.alias)) {
+        throw new CostQueryError(`Duplicate column "${item.alias}"; give one of them an alias with AS`);
+      }
+      items.push(item);
+    } while (this.acceptPunct(','));
+
+    if (items.length > MAX_SELECT_ITEMS) throw new CostQueryError(`SELECT takes at most ${MAX_SELECT_ITEMS} columns`);
+    return items;
+  }
+
+  /**
+   * ORDER BY names an output column: an alias, a selected field or an aggregate such as SUM(cost)
+   */
+  private orderTarget(select: QuerySelectItem[]): string {
+    const token = this.peek();
+    const next = this.tokens[this.index + 1];
+
+    if (token.type === 'ident' && next?.type === 'punct' && next.value === '(') {
+      const aggregate = token.value.toLowerCase();
+      this.index += 2;
+      const argument = this.next();
+      this.expectPunct(')');
+      const isStar = argument.type === 'punct' && argument.value === '*';
+      const match = select.find((item) => item.kind === 'aggregate' && item.aggregate === aggregate
+        && (isStar ? aggregate === 'count' : argument.value.toLowerCase() === 'cost'));
+      if (!match) throw new CostQueryError(`ORDER BY ${token.value}(...) at position ${token.pos + 1} must also be selected`);
+      return match.alias;
+    }
+
+    const name = this.next();
+    if (name.type !== 'ident') this.fail('Expected a column to order by', name);
+    const byAlias = select.find((item) => item.alias === name.value);
+    if (byAlias) return byAlias.alias;
+    const field = resolveField(name.value, name.pos);
+    const byField = select.find((item) => item.kind === 'field' && item.field === field);
+    if (!byField) throw new CostQueryError(`ORDER BY ${name.value} at position ${name.pos + 1} must be a selected column`);
+    return byField.alias;
+  }
+
+  private condition(depth: number): QueryCondition {
+    if (depth > MAX_CONDITION_DEPTH) this.fail('Condition is nested too deeply');
+    let left = this.conjunction(depth);
+    while (this.acceptKeyword('OR')) {
+      left = { type: 'or', left, right: this.conjunction(depth) };
+    }
+    return left;
+  }
+
+  private conjunction(depth: number): QueryCondition {
+    let left = this.negation(depth);
+    while (this.acceptKeyword('AND')) {
+      left = { type: 'and', left, right: this.negation(depth) };
+    }
+    return left;
+  }
+
+  private negation(depth: number): QueryCondition {
+    if (this.acceptKeyword('NOT')) return { type: 'not', condition: this.negation(depth + 1) };
+    if (this.acceptPunct('(')) {
+      const condition = this.condition(depth + 1);
+      this.expectPunct(')');
+      return condition;
+    }
+    return this.predicate();
+  }
+
+  private predicate(): QueryCondition {
+    const { field, pos } = this.field();
+    const negated = this.acceptKeyword('NOT');
+    let condition: QueryCondition;
+
+    if (this.acceptKeyword('IN')) {
+      this.expectPunct('(');
+      const values: QueryLiteral[] = [];
+      do {
+        values.push(this.literal());
+      } while (this.acceptPunct(','));
+      this.expectPunct(')');
+      if (values.length > MAX_IN_VALUES) throw new CostQueryError(`IN takes at most ${MAX_IN_VALUES} values`);
+      condition = { type: 'in', field, values, negated };
+    } else if (this.acceptKeyword('LIKE')) {
+      const pattern = this.next();
+      if (pattern.type !== 'string') this.fail('LIKE takes a quoted pattern', pattern);
+      if (field === 'cost') throw new CostQueryError(`LIKE cannot be used on cost at position ${pos + 1}`);
+      condition = { type: 'like', field, pattern: pattern.value, negated };
+    } else if (this.acceptKeyword('BETWEEN')) {
+      const low = this.literal();
+      this.expectKeyword('AND');
+      condition = { type: 'between', field, low, high: this.literal(), negated };
+    } else {
+      if (negated) this.fail('Expected IN, LIKE or BETWEEN after NOT');
+      const operator = this.next();
+      if (operator.type !== 'op') this.fail('Expected a comparison', operator);
+      condition = { type: 'compare', field, operator: operator.value as CompareOperator, value: this.literal() };
+    }
+
+    checkLiterals(condition, pos);
+    return condition;
+  }
+}
+
+/**
+ * cost compares with numbers, month with YYYY-MM strings
+ */
+function checkLiterals(condition: QueryCondition, pos: number): void {
+  const literals = condition.type === 'compare' ? [condition.value]
+    : condition.type === 'in' ? condition.values
+    : condition.type === 'between' ? [condition.low, condition.high]
+    : [];
+  const field = 'field' in condition ? condition.field : undefined;
+
+  literals.forEach((literal) => {
+    if (field === 'cost' && typeof literal !== 'number') {
+      throw new CostQueryError(`cost is compared with numbers, not '${literal}', at position ${pos + 1}`);
+    }
+    if (field === 'month' && (typeof literal !== 'string' || !MONTH_PATTERN.test(literal))) {
+      throw new CostQueryError(`month is compared with 'YYYY-MM' values, not ${literal}, at position ${pos + 1}`);
+    }
+  });
+}
+
+function checkShape(query: CostQuery): void {
+  const aggregated = query.groupBy.length > 0 || query.select.some((item) => item.kind === 'aggregate');
+  if (!aggregated) return;
+
+  query.select.forEach((item) => {
+    if (item.kind !== 'field') return;
+    if (item.field === 'cost') {
+      throw new CostQueryError('Select SUM(cost), AVG(cost), MIN(cost) or MAX(cost) in an aggregate query, not cost');
+    }
+    if (!query.groupBy.includes(item.field)) {
+      throw new CostQueryError(`${item.field} is selected but not in GROUP BY`);
+    }
+  });
+}
+
+function collectTagKeys(query: CostQuery): string[] {
+  const fields: QueryField[] = [
+    ...query.select.flatMap((item) => (item.kind === 'field' ? [item.field] : [])),
+    ...query.groupBy,
+  ];
+  const walk = (condition: QueryCondition | undefined): void => {
+    if (!condition) return;
+    if ('field' in condition) {
+      fields.push(condition.field);
+    } else if (condition.type === 'not') {
+      walk(condition.condition);
+    } else {
+      walk(condition.left);
+      walk(condition.right);
+    }
+  };
+  walk(query.where);
+
+  return Array.from(new Set(fields.filter((field) => field.startsWith('tag:')).map((field) => field.slice(4))));
+}
+
+/**
+ * Parse and check a query against the schema
+ * @throws CostQueryError describing the first problem and where it is
+ */
+export function parseCostQuery(text: string): CostQuery {
+  return new CostQueryParser(tokenize(text)).parse();
+}
+
+function addMonths(month: string, delta: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const date = new Date(year, monthNumber - 1 + delta, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Month range implied by the month conditions that every matching row must meet (those joined by
+ * AND at the top level); conditions under OR or NOT only filter
+ */
+export function queryMonthBounds(query: CostQuery): { from?: string; to?: string } {
+  const bounds: { from?: string; to?: string } = {};
+  const raiseFrom = (month: string) => {
+    if (!bounds.from || month > bounds.from) bounds.from = month;
+  };
+  const lowerTo = (month: string) => {
+    if (!bounds.to || month < bounds.to) bounds.to = month;
+  };
+
+  const walk = (condition: QueryCondition | undefined): void => {
+    if (!condition) return;
+    if (condition.type === 'and') {
+      walk(condition.left);
+      walk(condition.right);
+      return;
+    }
+    if (!('field' in condition) || condition.field !== 'month') return;
+
+    if (condition.type === 'compare') {
+      const month = String(condition.value);
+      if (condition.operator === '=' || condition.operator === '>=') raiseFrom(month);
+      if (condition.operator === '=' || condition.operator === '<=') lowerTo(month);
+      if (condition.operator === '>') raiseFrom(addMonths(month, 1));
+      if (condition.operator === '<') lowerTo(addMonths(month, -1));
+    } else if (condition.type === 'between' && !condition.negated) {
+      raiseFrom(String(condition.low));
+      lowerTo(String(condition.high));
+    } else if (condition.type === 'in' && !condition.negated) {
+      const months = condition.values.map(String).sort();
+      raiseFrom(months[0]);
+      lowerTo(months[months.length - 1]);
+    }
+  };
+  walk(query.where);
+
+  return bounds;
+}
+
+function fieldValue(row: CostQueryRow, field: QueryField): QueryLiteral {
+  if (field === 'cost') return row.cost;
+  if (field.startsWith('tag:')) {
+    const tagKey = field.slice(4).toLowerCase();
+    const match = Object.keys(row.tags).find((key) => key.toLowerCase() === tagKey);
+    return match ? row.tags[match] : UNTAGGED;
+  }
+  return row[field as (typeof QUERY_DIMENSIONS)[number]] || NONE;
+}
+
+/**
+ * SQL LIKE with % and _, case-insensitive; a linear-time wildcard match rather than a regular
+ * expression, so patterns cannot cause catastrophic backtracking
+ */
+function matchesLike(value: string, pattern: string): boolean {
+  const text = value.toLowerCase();
+  const glob = pattern.toLowerCase();
+  let t = 0;
+  let g = 0;
+  let starG = -1;
+  let starT = 0;
+
+  while (t < text.length) {
+    if (g < glob.length && (glob[g] === '_' || glob[g] === text[t])) {
+      t++;
+      g++;
+    } else if (g < glob.length && glob[g] === '%') {
+      starG = g++;
+      starT = t;
+    } else if (starG >= 0) {
+      g = starG + 1;
+      t = ++starT;
+    } else {
+      return false;
+    }
+  }
+  while (g < glob.length && glob[g] === '%') g++;
+  return g === glob.length;
+}
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+const asNumber = (value: QueryLiteral): number | undefined =>
+  typeof value === 'number' ? value : NUMERIC.test(value) ? Number(value) : undefined;
+
+/**
+ * Values that are both numeric compare numerically, so IDs held as strings order as numbers and
+ * match number literals; other strings compare case-insensitively
+ */
+function compareValues(a: QueryLiteral, b: QueryLiteral): number {
+  const leftNumber = asNumber(a);
+  const rightNumber = asNumber(b);
+  if (leftNumber !== undefined && rightNumber !== undefined) return leftNumber - rightNumber;
+  const left = String(a).toLowerCase();
+  const right = String(b).toLowerCase();
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function matches(row: CostQueryRow, condition: QueryCondition): boolean {
+  switch (condition.type) {
+    case 'and': return matches(row, condition.left) && matches(row, condition.right);
+    case 'or': return matches(row, condition.left) || matches(row, condition.right);
+    case 'not': return !matches(row, condition.condition);
+    case 'compare': {
+      const order = compareValues(fieldValue(row, condition.field), condition.value);
+      switch (condition.operator) {
+        case '=': return order === 0;
+        case '!=': return order !== 0;
+        case '<': return order < 0;
+        case '<=': return order <= 0;
+        case '>': return order > 0;
+        case '>=': return order >= 0;
+      }
+      return false;
+    }
+    case 'in': {
+      const value = fieldValue(row, condition.field);
+      return condition.values.some((candidate) => compareValues(value, candidate) === 0) !== condition.negated;
+    }
+    case 'like':
+      return matchesLike(String(fieldValue(row, condition.field)), condition.pattern) !== condition.negated;
+    case 'between': {
+      const value = fieldValue(row, condition.field);
+      const inside = compareValues(value, condition.low) >= 0 && compareValues(value, condition.high) <= 0;
+      return inside !== condition.negated;
+    }
+  }
+}
+
+interface Accumulator {
+  key: QueryLiteral[];
+  sum: number;
+  count: number;
+  min: number;
+  max: number;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(4));
+
+/**
+ * Run a parsed query over rows.
+ * @param options.maxRows - Hard cap on returned rows, applied after LIMIT
+ * @param options.deadline - Epoch milliseconds after which the query is abandoned
+ */
+export function runCostQuery(
+  query: CostQuery,
+  rows: CostQueryRow[],
+  options: { maxRows: number; deadline: number; timeoutMs: number }
+): CostQueryResult {
+  const checkDeadline = (scanned: number) => {
+    if (scanned % 1000 === 0 && Date.now() > options.deadline) {
+      throw new CostQueryError(`Query exceeded the time limit of ${options.timeoutMs} ms; narrow the month range or add conditions`);
+    }
+  };
+
+  const aggregated = query.groupBy.length > 0 || query.select.some((item) => item.kind === 'aggregate');
+  const columns = query.select.map((item) => item.alias);
+  let rowsMatched = 0;
+  let output: Array<Record<string, QueryLiteral>>;
+
+  if (aggregated) {
+    const groups = new Map<string, Accumulator>();
+    rows.forEach((row, idx) => {
+      checkDeadline(idx);
+      if (query.where && !matches(row, query.where)) return;
+      rowsMatched++;
+
+      const key = query.groupBy.map((dimension) => fieldValue(row, dimension));
+      const id = key.map(String).join('\u0000');
+      const group = groups.get(id) ?? { key, sum: 0, count: 0, min: Infinity, max: -Infinity };
+      group.sum += row.cost;
+      group.count++;
+      group.min = Math.min(group.min, row.cost);
+      group.max = Math.max(group.max, row.cost);
+      groups.set(id, group);
+    });
+
+    // Aggregates without GROUP BY still return their single row when nothing matched
+    if (groups.size === 0 && query.groupBy.length === 0) {
+      groups.set('', { key: [], sum: 0, count: 0, min: 0, max: 0 });
+    }
+
+    output = Array.from(groups.values()).map((group) => Object.fromEntries(query.select.map((item) => {
+      if (item.kind === 'field') return [item.alias, group.key[query.groupBy.indexOf(item.field as QueryDimension)]];
+      const value = {
+        sum: group.sum,
+        avg: group.count > 0 ? group.sum / group.count : 0,
+        count: group.count,
+        min: group.count > 0 ? group.min : 0,
+        max: group.count > 0 ? group.max : 0,
+      }[item.aggregate];
+      return [item.alias, item.aggregate === 'count' ? value : round(value)];
+    })));
+
+    // Without ORDER BY, groups come out in order of their GROUP BY values
+    if (query.orderBy.length === 0) {
+      const dimensionAliases = query.groupBy
+        .map((dimension) => query.select.find((item) => item.kind === 'field' && item.field === dimension)?.alias)
+        .filter((alias): alias is string => alias !== undefined);
+      output.sort((a, b) => {
+        for (const alias of dimensionAliases) {
+          const order = compareValues(a[alias], b[alias]);
+          if (order !== 0) return order;
+        }
+        return 0;
+      });
+    }
+  } else {
+    output = [];
+    rows.forEach((row, idx) => {
+      checkDeadline(idx);
+      if (query.where && !matches(row, query.where)) return;
+      rowsMatched++;
+      output.push(Object.fromEntries(query.select.map((item) => {
+        const value = fieldValue(row, (item as { field: QueryField }).field);
+        return [item.alias, typeof value === 'number' ? round(value) : value];
+      })));
+    });
+  }
+
+  if (query.orderBy.length > 0) {
+    output.sort((a, b) => {
+      for (const { alias, descending } of query.orderBy) {
+        const order = compareValues(a[alias], b[alias]);
+        if (order !== 0) return descending ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  const limit = Math.min(query.limit ?? options.maxRows, options.maxRows);
+  return {
+    columns,
+    rows: output.slice(0, limit),
+    rowsScanned: rows.length,
+    rowsMatched,
+    totalRows: output.length,
+    truncated: output.length > limit,
+  };
+}
+
+/**
+ * Reject with a CostQueryError when `work` does not settle before the deadline, and abort the
+ * signal passed to it so requests it started are cancelled rather than left running
+ */
+export async function withQueryDeadline<T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  deadline: number,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new CostQueryError(`Query exceeded the time limit of ${timeoutMs} ms; narrow the month range or add conditions`));
+      controller.abort();
+    }, Math.max(0, deadline - Date.now()));
+  });
+  try {
+    return await Promise.race([work(controller.signal), expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Cron utility - parses standard five-field cron expressions, computes their next run time and
+ * runs background tasks on a schedule
+ */
+import { logger } from '../middleware/logger.js';
+
+interface CronField {
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const FIELD_LABELS = ['minute', 'hour', 'day of month', 'month', 'day of week'];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, a day matching either one runs
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+function parseValue(raw: string, field: CronField, label: string): number {
+  const nameIdx = field.names?.indexOf(raw.toUpperCase()) ?? -1;
+  const value = nameIdx >= 0 ? nameIdx + (field.min === 1 ? 1 : 0) : Number(raw);
+  if (!Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new Error(`Invalid cron ${label} value "${raw}" (expected ${field.min}-${field.max})`);
+  }
+  return value;
+}
+
+function parseField(raw: string, field: CronField, label: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of raw.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron ${label} step "${part}"`);
+    }
+
+    let from = field.min;
+    let to = field.max;
+    if (range !== '*') {
+      const [start, end] = range.split('-');
+      from = parseValue(start, field, label);
+      to = end !== undefined ? parseValue(end, field, label) : stepText !== undefined ? field.max : from;
+      if (from > to) {
+        throw new Error(`Invalid cron ${label} range "${range}"`);
+      }
+    }
+
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression: minute, hour, day of month, month and day of week, each as `*`,
+ * a value, a range, a list or a step (`0-59/15`, `1-5`, `MON-FRI`), or one of the @daily style macros
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, idx) =>
+    parseField(part, FIELDS[idx], FIELD_LABELS[idx])
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+/**
+ * The first run strictly after `after`, in the server's local time zone
+ * @returns null when the expression never matches (e.g. 30 February)
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date = new Date()): Date | null {
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  // Skip whole months, days and hours at a time; five years covers every leap-day schedule
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + 5);
+
+  while (next <= limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+
+  return null;
+}
+
+// setTimeout cannot wait longer than this (about 24.8 days)
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Runs a background task on a cron schedule. A run that comes due while the previous one is
+ * still going is skipped rather than started alongside it.
+ */
+export class CronRunner {
+  private timer: NodeJS.Timeout | null = null;
+  private next: Date | null = null;
+  private running = false;
+  readonly schedule: CronSchedule;
+
+  constructor(expression: string, private name: string, private task: () => Promise<void>) {
+    this.schedule = parseCron(expression);
+  }
+
+  /**
+   * When the task is due next; null while stopped or when the schedule never matches
+   */
+  get nextRunAt(): Date | null {
+    return this.next;
+  }
+
+  start(): void {
+    this.arm(new Date());
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.next = null;
+  }
+
+  private arm(after: Date): void {
+    const next = nextCronRun(this.schedule, after);
+    this.next = next;
+    if (!next) {
+      logger.warn(`${this.name} schedule never matches`, { schedule: this.schedule.expression });
+      return;
+    }
+
+    const wait = () => {
+      const delay = next.getTime() - Date.now();
+      this.timer = setTimeout(() => {
+        if (delay > MAX_TIMER_MS) return wait();
+        this.arm(next);
+        this.run();
+      }, Math.max(0, Math.min(delay, MAX_TIMER_MS)));
+      this.timer.unref();
+    };
+    wait();
+  }
+
+  private async run(): Promise<void> {
+    if (this.running) {
+      logger.warn(`Skipping ${this.name}: previous run still in progress`);
+      return;
+    }
+    this.running = true;
+    try {
+      await this.task();
+    } catch (error) {
+      logger.error(`${this.name} failed`, { error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+/**
+ * Organization IDs from a comma-separated environment variable; entries that are not positive
+ * integers are ignored
+ */
+export function parseOrganizationIds(raw: string | undefined): number[] {
+  return (raw || '')
+    .split(',')
+    .map((id) => parseInt(id.trim(), 10))
+    .filter((id) => Number.isInteger(id) && id > 0);
+}
+
+/**
+ * Runs a task for each of a list of organizations on a cron schedule, one organization at a time.
+ * A failing organization is logged and does not stop the others; the task returns the details
+ * logged on success.
+ */
+export class OrganizationCronRunner {
+  private runner: CronRunner;
+
+  constructor(
+    private name: string,
+    readonly organizations: number[],
+    schedule: string,
+    private task: (organizationId: number) => Promise<Record<string, unknown>>
+  ) {
+    this.runner = new CronRunner(schedule, name, () => this.run());
+  }
+
+  start(): void {
+    if (this.organizations.length === 0) return;
+    this.runner.start();
+    logger.info(`${this.name} scheduled`, { organizations: this.organizations, schedule: this.runner.schedule.expression });
+  }
+
+  stop(): void {
+    this.runner.stop();
+  }
+
+  async run(): Promise<void> {
+    for (const organizationId of this.organizations) {
+      try {
+        const details = await this.task(organizationId);
+        logger.info(`${this.name} complete`, { organizationId, ...details });
+      } catch (error) {
+        logger.error(`${this.name} failed`, { organizationId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * CSV utility - incremental RFC 4180 parser that turns text chunks into records keyed by header
+ */
+
+/**
+ * Incremental CSV parser. Feed it chunks as they arrive; it keeps only the unfinished record in
+ * memory, so arbitrarily large files can be parsed without buffering them.
+ * Handles quoted fields with embedded delimiters, quotes ("") and line breaks, CRLF line endings
+ * and a leading byte order mark. The first record is the header row.
+ */
+export class CsvParser {
+  private headers: string[] | null = null;
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quotePending = false;
+  private started = false;
+
+  constructor(private delimiter: string = ',') {}
+
+  /**
+   * Parse the next chunk of text
+   * @returns The records completed by this chunk
+   */
+  push(chunk: string): Array<Record<string, string>> {
+    const records: Array<Record<string, string>> = [];
+    let text = chunk;
+    if (!this.started) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.quotePending) {
+        // A quote inside a quoted field either escapes another quote or closes the field
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.quotePending = true;
+        } else {
+          this.field += char;
+        }
+      } else if (char === '"' && this.field === '') {
+        this.inQuotes = true;
+      } else if (char === this.delimiter) {
+        this.record.push(this.field);
+        this.field = '';
+      } else if (char === '\n') {
+        this.endRecord(records);
+      } else if (char !== '\r') {
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Flush the last record when the input has no trailing line break
+   */
+  end(): Array<Record<string, string>> {
+    const records: Array<Record<string, string>> = [];
+    this.quotePending = false;
+    this.inQuotes = false;
+    if (this.field !== '' || this.record.length > 0) this.endRecord(records);
+    return records;
+  }
+
+  private endRecord(records: Array<Record<string, string>>): void {
+    this.record.push(this.field);
+    const values = this.record;
+    this.field = '';
+    this.record = [];
+
+    // Blank lines carry no data
+    if (values.length === 1 && values[0] === '') return;
+
+    if (!this.headers) {
+      this.headers = values.map((header) => header.trim());
+      return;
+    }
+
+    const row: Record<string, string> = {};
+    this.headers.forEach((header, idx) => {
+      row[header] = values[idx] ?? '';
+    });
+    records.push(row);
+  }
+}
+
+/**
+ * Parse a complete CSV document
+ */
+export function parseCsv(text: string, delimiter: string = ','): Array<Record<string, string>> {
+  const parser = new CsvParser(delimiter);
+  return [...parser.push(text), ...parser.end()];
+}
@@ -0,0 +1,257 @@
+/**
+ * Currency utility - keeps per-currency totals and converts statement prices into a reporting
+ * currency using a local FX rate table (FX_RATES_FILE)
+ */
+import * as fs from 'fs';
+import Joi from 'joi';
+import { Money } from '../models/crayon.js';
+
+/**
+ * FX rate table: rates are units of each currency per one unit of `base`.
+ * Keys are dates (YYYY-MM-DD) or months (YYYY-MM); a month key applies from the 1st of that month.
+ */
+export interface FxRateTable {
+  base: string;
+  rates: Record<string, Record<string, number>>;
+}
+
+/**
+ * Totals of a set of costs: `total` is in `currency`, `originalTotals` are the unconverted sums per source currency
+ */
+export interface CurrencyTotals {
+  currency: string | null;
+  total: number;
+  originalTotals: Record<string, number>;
+  converted: boolean;
+}
+
+export interface CostNormalization<T> {
+  currency: string | null;
+  costOf(item: T): number;
+  totals: CurrencyTotals;
+}
+
+export interface PricedItem {
+  TotalSalesPrice: Money;
+  StartDate?: string;
+}
+
+/**
+ * Raised when costs in different currencies cannot be combined.
+ * The message is safe to show to clients and tells them how to fix the configuration.
+ */
+export class CurrencyConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CurrencyConversionError';
+  }
+}
+
+const currencyCode = Joi.string().pattern(/^[A-Z]{3}$/);
+
+const fxRateTableSchema = Joi.object({
+  base: currencyCode.required(),
+  rates: Joi.object()
+    .pattern(
+      Joi.string().pattern(/^\d{4}-\d{2}(-\d{2})?$/),
+      Joi.object().pattern(currencyCode, Joi.number().positive())
+    )
+    .min(1)
+    .required(),
+});
+
+/**
+ * Validate an FX rate table definition
+ */
+export function parseFxRateTable(raw: any): FxRateTable {
+  const { error, value } = fxRateTableSchema.validate(raw, { abortEarly: false });
+  if (error) {
+    throw new Error(`Invalid FX rate table: ${error.message}`);
+  }
+  return value;
+}
+
+/**
+ * Sum prices per currency without converting anything
+ */
+export function sumByCurrency(prices: Money[]): Record<string, number> {
+  return prices.reduce((acc: Record<string, number>, price) => {
+    acc[price.currency] = (acc[price.currency] || 0) + price.amount;
+    return acc;
+  }, {});
+}
+
+/**
+ * Format per-currency totals for display, e.g. "1200.00 NOK, 310.50 SEK"
+ */
+export function formatCurrencyTotals(totals: Record<string, number>): string {
+  const entries = Object.entries(totals);
+  return entries.length > 0
+    ? entries.map(([currency, amount]) => `${amount.toFixed(2)} ${currency}`).join(', ')
+    : 'none';
+}
+
+/**
+ * A parsed FX rate table with its rate dates in ascending order
+ */
+interface LoadedRates {
+  table: FxRateTable;
+  sortedDates: string[];
+  modifiedAt: number;
+}
+
+/**
+ * Converts prices into the reporting currency. Without a reporting currency, costs are left as-is
+ * and mixing currencies is refused rather than summed.
+ */
+export class CurrencyConverter {
+  private loaded: LoadedRates | null = null;
+
+  constructor(public readonly reportingCurrency?: string, private ratesFile?: string) {}
+
+  /**
+   * Load (or reload after the file changed) the FX rate table
+   */
+  private getRates(): LoadedRates | null {
+    if (!this.ratesFile) return null;
+
+    const modifiedAt = fs.statSync(this.ratesFile).mtimeMs;
+    if (!this.loaded || modifiedAt !== this.loaded.modifiedAt) {
+      const table = parseFxRateTable(JSON.parse(fs.readFileSync(this.ratesFile, 'utf-8')));
+      this.loaded = { table, sortedDates: Object.keys(table.rates).sort(), modifiedAt };
+    }
+    return this.loaded;
+  }
+
+  /**
+   * The rate table as of its first use: a normalizer checks the file once, not for every price,
+   * and converts all of its costs with the same rates
+   */
+  private ratesSnapshot(): () => LoadedRates | null {
+    let rates: LoadedRates | null | undefined;
+    return () => (rates === undefined ? (rates = this.getRates()) : rates);
+  }
+
+  /**
+   * Units of `currency` per base unit on `date`: the most recent rate on or before that date
+   */
+  private rateFor({ table, sortedDates }: LoadedRates, currency: string, date?: string): number {
+    if (currency === table.base) return 1;
+
+    const day = date ? date.slice(0, 10) : undefined;
+    for (let i = sortedDates.length - 1; i >= 0; i--) {
+      const key = sortedDates[i];
+      if (day && key > day) continue;
+      const rate = table.rates[key][currency];
+      if (rate !== undefined) return rate;
+    }
+
+    throw new CurrencyConversionError(
+      `No FX rate for ${currency}${day ? ` on or before ${day}` : ''} in the FX rate table`
+    );
+  }
+
+  /**
+   * Convert a price into the reporting currency using the rate in effect on `date`
+   */
+  convert(price: Money, date?: string): Money {
+    return this.convertWith(() => this.getRates(), price, date);
+  }
+
+  private convertWith(getRates: () => LoadedRates | null, price: Money, date?: string): Money {
+    if (!this.reportingCurrency || price.currency === this.reportingCurrency) {
+      return price;
+    }
+
+    const rates = getRates();
+    if (!rates) {
+      throw new CurrencyConversionError(
+        `Cannot convert ${price.currency} to ${this.reportingCurrency}: FX_RATES_FILE is not configured`
+      );
+    }
+
+    const amount = (price.amount / this.rateFor(rates, price.currency, date)) * this.rateFor(rates, this.reportingCurrency, date);
+    return { amount, currency: this.reportingCurrency };
+  }
+
+  /**
+   * Express every item's cost in one currency.
+   * Each item is converted at the rate for its own StartDate; mixed currencies without a
+   * reporting currency raise CurrencyConversionError instead of being summed.
+   */
+  normalize<T extends PricedItem>(items: T[]): CostNormalization<T> {
+    const originalTotals = sumByCurrency(items.map((item) => item.TotalSalesPrice));
+    const currencies = Object.keys(originalTotals);
+
+    if (!this.reportingCurrency && currencies.length > 1) {
+      throw new CurrencyConversionError(
+        `Costs are billed in multiple currencies (${currencies.join(', ')}); ` +
+          'set REPORTING_CURRENCY and FX_RATES_FILE to combine them'
+      );
+    }
+
+    const rates = this.ratesSnapshot();
+    const costs = new Map<T, number>();
+    items.forEach((item) => costs.set(item, this.convertWith(rates, item.TotalSalesPrice, item.StartDate).amount));
+
+    const currency = this.reportingCurrency ?? currencies[0] ?? null;
+    const total = Array.from(costs.values()).reduce((sum, cost) => sum + cost, 0);
+
+    return {
+      currency,
+      costOf: (item: T) => costs.get(item) ?? this.convertWith(rates, item.TotalSalesPrice, item.StartDate).amount,
+      totals: {
+        currency,
+        total,
+        originalTotals,
+        converted: currencies.some((code) => code !== currency),
+      },
+    };
+  }
+
+  /**
+   * Convert costs one at a time, for data that is streamed instead of held in memory.
+   * Follows the same rules as normalize: without a reporting currency, a second currency raises
+   * CurrencyConversionError as soon as it appears.
+   */
+  streamNormalizer(): { costOf(price: Money, date?: string): number; totals(): CurrencyTotals } {
+    const rates = this.ratesSnapshot();
+    const originalTotals: Record<string, number> = {};
+    let total = 0;
+
+    return {
+      costOf: (price: Money, date?: string) => {
+        const seen = Object.keys(originalTotals);
+        if (!this.reportingCurrency && seen.length > 0 && !seen.includes(price.currency)) {
+          throw new CurrencyConversionError(
+            `Costs are billed in multiple currencies (${[...seen, price.currency].join(', ')}); ` +
+              'set REPORTING_CURRENCY and FX_RATES_FILE to combine them'
+          );
+        }
+
+        const amount = this.convertWith(rates, price, date).amount;
+        originalTotals[price.currency] = (originalTotals[price.currency] || 0) + price.amount;
+        total += amount;
+        return amount;
+      },
+      totals: () => {
+        const currencies = Object.keys(originalTotals);
+        const currency = this.reportingCurrency ?? currencies[0] ?? null;
+        return {
+          currency,
+          total,
+          originalTotals: { ...originalTotals },
+          converted: currencies.some((code) => code !== currency),
+        };
+      },
+    };
+  }
+}
+
+/**
+ * Create the converter from REPORTING_CURRENCY and FX_RATES_FILE
+ */
+export function createCurrencyConverterFromEnv(): CurrencyConverter {
+  const reportingCurrency = process.env.REPORTING_CURRENCY?.trim().toUpperCase() || undefined;
+  return new CurrencyConverter(reportingCurrency, process.env.FX_RATES_FILE || undefined);
+}
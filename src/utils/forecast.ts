@@ -0,0 +1,244 @@
+/**
+ * Forecasting utility - month-end run-rate projection and multi-month forecasts
+ * (linear regression, Holt-Winters, moving average) with confidence intervals
+ */
+
+export type ForecastModel = 'linear' | 'holtWinters' | 'movingAverage';
+
+export interface ForecastPoint {
+  step: number;
+  forecast: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastResult {
+  model: ForecastModel;
+  points: ForecastPoint[];
+  residualStdDev: number;
+  warnings: string[];
+}
+
+export interface MonthEndProjection {
+  actualToDate: number;
+  dailyRunRate: number;
+  daysElapsed: number;
+  daysRemaining: number;
+  projectedTotal: number;
+  lower: number;
+  upper: number;
+}
+
+const Z_SCORES: Record<number, number> = { 80: 1.2816, 90: 1.6449, 95: 1.96, 99: 2.5758 };
+
+/**
+ * Two-sided critical value for a confidence level; with degrees of freedom the Student t value is
+ * approximated (Cornish-Fisher expansion), which matters for the short histories billing data gives us
+ */
+export function criticalValue(confidenceLevel: number, degreesOfFreedom?: number): number {
+  const z = Z_SCORES[confidenceLevel] ?? Z_SCORES[95];
+  if (!degreesOfFreedom || degreesOfFreedom <= 0) return z;
+
+  const df = degreesOfFreedom;
+  return z + (z ** 3 + z) / (4 * df) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function stdDev(values: number[], ddof: number = 1): number {
+  if (values.length <= ddof) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - ddof));
+}
+
+function point(step: number, forecast: number, margin: number): ForecastPoint {
+  // Spend cannot go negative, so the band is clamped at zero
+  return {
+    step,
+    forecast: Math.max(0, forecast),
+    lower: Math.max(0, forecast - margin),
+    upper: Math.max(0, forecast + margin),
+  };
+}
+
+/**
+ * Ordinary least squares trend with prediction intervals
+ */
+export function linearRegressionForecast(values: number[], horizon: number, confidenceLevel: number): ForecastResult {
+  const n = values.length;
+  const xs = values.map((_, i) => i);
+  const xMean = mean(xs);
+  const yMean = mean(values);
+  const sxx = xs.reduce((sum, x) => sum + (x - xMean) ** 2, 0);
+  const slope = sxx > 0 ? xs.reduce((sum, x, i) => sum + (x - xMean) * (values[i] - yMean), 0) / sxx : 0;
+  const intercept = yMean - slope * xMean;
+
+  const residuals = values.map((y, i) => y - (intercept + slope * i));
+  const se = n > 2 ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (n - 2)) : stdDev(values);
+  const t = criticalValue(confidenceLevel, n - 2);
+
+  const points = Array.from({ length: horizon }, (_, h) => {
+    const x = n + h;
+    const margin = t * se * Math.sqrt(1 + 1 / n + (sxx > 0 ? (x - xMean) ** 2 / sxx : 0));
+    return point(h + 1, intercept + slope * x, margin);
+  });
+
+  return {
+    model: 'linear',
+    points,
+    residualStdDev: se,
+    warnings: n < 6 ? ['Fewer than 6 months of history; the trend is unreliable'] : [],
+  };
+}
+
+/**
+ * Flat forecast at the mean of the last `window` months; the interval comes from the
+ * historical one-step errors of the same moving average
+ */
+export function movingAverageForecast(
+  values: number[],
+  horizon: number,
+  confidenceLevel: number,
+  window: number = 3
+): ForecastResult {
+  const size = Math.min(window, values.length);
+  const errors: number[] = [];
+  for (let t = size; t < values.length; t++) {
+    errors.push(values[t] - mean(values.slice(t - size, t)));
+  }
+
+  const level = mean(values.slice(-size));
+  const sigma = errors.length > 1 ? stdDev(errors) : stdDev(values);
+  const z = criticalValue(confidenceLevel, errors.length > 1 ? errors.length - 1 : undefined);
+
+  return {
+    model: 'movingAverage',
+    points: Array.from({ length: horizon }, (_, h) => point(h + 1, level, z * sigma * Math.sqrt(1 + h / size))),
+    residualStdDev: sigma,
+    warnings: size < window ? [`Only ${size} months of history for a ${window}-month window`] : [],
+  };
+}
+
+/**
+ * Run additive Holt-Winters (or Holt's linear trend when seasonLength is 0) and return the
+ * sum of squared one-step errors together with the final state
+ */
+function runHoltWinters(values: number[], seasonLength: number, alpha: number, beta: number, gamma: number) {
+  const seasonal = seasonLength > 0;
+  let level: number;
+  let trend: number;
+  let season: number[] = [];
+
+  if (seasonal) {
+    const first = values.slice(0, seasonLength);
+    const second = values.slice(seasonLength, seasonLength * 2);
+    level = mean(first);
+    trend = (mean(second) - mean(first)) / seasonLength;
+    season = first.map((v) => v - level);
+  } else {
+    level = values[0];
+    trend = values.length > 1 ? values[1] - values[0] : 0;
+  }
+
+  const errors: number[] = [];
+  const start = seasonal ? 0 : 1;
+  for (let t = start; t < values.length; t++) {
+    const s = seasonal ? season[t % seasonLength] : 0;
+    const predicted = level + trend + s;
+    if (!seasonal || t >= seasonLength) errors.push(values[t] - predicted);
+
+    const previousLevel = level;
+    level = alpha * (values[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    if (seasonal) season[t % seasonLength] = gamma * (values[t] - level) + (1 - gamma) * s;
+  }
+
+  return { sse: errors.reduce((sum, e) => sum + e * e, 0), errors, level, trend, season };
+}
+
+/**
+ * Additive Holt-Winters with smoothing parameters picked by grid search.
+ * Needs two full seasons of history; with less it falls back to Holt's linear trend.
+ */
+export function holtWintersForecast(
+  values: number[],
+  horizon: number,
+  confidenceLevel: number,
+  seasonLength: number = 12
+): ForecastResult {
+  const warnings: string[] = [];
+  let period = seasonLength;
+  if (values.length < seasonLength * 2) {
+    warnings.push(
+      `Seasonal model needs ${seasonLength * 2} months of history (have ${values.length}); used Holt's linear trend without seasonality`
+    );
+    period = 0;
+  }
+
+  const grid = [0.1, 0.3, 0.5, 0.7, 0.9];
+  let best = runHoltWinters(values, period, grid[0], grid[0], grid[0]);
+  for (const alpha of grid) {
+    for (const beta of grid) {
+      for (const gamma of period > 0 ? grid : [0]) {
+        const candidate = runHoltWinters(values, period, alpha, beta, gamma);
+        if (candidate.sse < best.sse) best = candidate;
+      }
+    }
+  }
+
+  const sigma = best.errors.length > 1 ? stdDev(best.errors) : stdDev(values);
+  const z = criticalValue(confidenceLevel, best.errors.length > 1 ? best.errors.length - 1 : undefined);
+  const n = values.length;
+
+  const points = Array.from({ length: horizon }, (_, h) => {
+    const s = period > 0 ? best.season[(n + h) % period] : 0;
+    return point(h + 1, best.level + (h + 1) * best.trend + s, z * sigma * Math.sqrt(h + 1));
+  });
+
+  return { model: 'holtWinters', points, residualStdDev: sigma, warnings };
+}
+
+/**
+ * Forecast the next `horizon` values with the selected model
+ */
+export function forecastSeries(
+  values: number[],
+  horizon: number,
+  model: ForecastModel,
+  confidenceLevel: number,
+  options: { movingAverageWindow?: number; seasonLength?: number } = {}
+): ForecastResult {
+  if (values.length < 2) {
+    throw new Error('At least 2 months of history are needed to forecast');
+  }
+
+  if (model === 'holtWinters') return holtWintersForecast(values, horizon, confidenceLevel, options.seasonLength);
+  if (model === 'movingAverage') return movingAverageForecast(values, horizon, confidenceLevel, options.movingAverageWindow);
+  return linearRegressionForecast(values, horizon, confidenceLevel);
+}
+
+/**
+ * Project month-end spend from the daily costs so far: actual to date plus the average
+ * daily run rate for the remaining days, with an interval from the day-to-day variation
+ */
+export function projectMonthEnd(dailyCosts: number[], daysInMonth: number, confidenceLevel: number): MonthEndProjection {
+  const daysElapsed = dailyCosts.length;
+  const daysRemaining = Math.max(0, daysInMonth - daysElapsed);
+  const actualToDate = dailyCosts.reduce((sum, cost) => sum + cost, 0);
+  const dailyRunRate = mean(dailyCosts);
+  const projectedTotal = actualToDate + dailyRunRate * daysRemaining;
+  const z = criticalValue(confidenceLevel, daysElapsed > 1 ? daysElapsed - 1 : undefined);
+  const margin = z * stdDev(dailyCosts) * Math.sqrt(daysRemaining);
+
+  return {
+    actualToDate,
+    dailyRunRate,
+    daysElapsed,
+    daysRemaining,
+    projectedTotal,
+    lower: Math.max(actualToDate, projectedTotal - margin),
+    upper: projectedTotal + margin,
+  };
+}
@@ -0,0 +1,356 @@
+/**
+ * Cost digest - combines last month's costs by invoice profile and by tag with the cost trend into
+ * one document, rendered as Markdown or HTML with charts from chartGenerator
+ */
+import type { CrayonApiClient } from '../crayon-client.js';
+import { formatMonthYear, getCurrentLocale } from './localization.js';
+
+export const DIGEST_SECTIONS = ['invoiceProfiles', 'tags', 'trends'] as const;
+
+export type DigestSectionName = (typeof DIGEST_SECTIONS)[number];
+
+export interface DigestOptions {
+  title: string;
+  organizationId: number;
+  sections: DigestSectionName[];
+  trendMonths: number;
+  // Tag keys to include (case-insensitive); all tags when omitted
+  tagKeys?: string[];
+  topN: number;
+  charts: boolean;
+}
+
+export interface DigestChart {
+  id: string;
+  title: string;
+  dataUrl: string;
+}
+
+export interface DigestTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface DigestSection {
+  heading: string;
+  summary: string[];
+  table?: DigestTable;
+  chart?: DigestChart;
+  error?: string;
+}
+
+export interface CostDigest {
+  title: string;
+  organizationId: number;
+  month: string;
+  currency: string | null;
+  generatedAt: string;
+  sections: DigestSection[];
+  warnings: string[];
+}
+
+/**
+ * How a renderer refers to a chart image: a data URL, a file next to the document or a mail attachment
+ */
+export type ChartSource = (chart: DigestChart) => string;
+
+const dataUrlSource: ChartSource = (chart) => chart.dataUrl;
+
+function amount(value: number | null | undefined, currency: string | null): string {
+  if (value === null || value === undefined) return '-';
+  return `${value.toFixed(2)}${currency ? ` ${currency}` : ''}`;
+}
+
+function percentOf(value: number, total: number): string {
+  return total !== 0 ? `${((value / total) * 100).toFixed(1)}%` : '-';
+}
+
+function lastMonth(now: Date): string {
+  const date = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * The chart generator needs the native canvas module, so it is only loaded once a chart is drawn;
+ * a digest without charts (or on a host without canvas) never loads it
+ */
+const charts = () => import('./chart-generator.js');
+
+/**
+ * Keep the topN largest entries and fold the rest into one "Other" entry
+ */
+function topWithOther<T>(entries: T[], topN: number, costOf: (entry: T) => number): { top: T[]; other: number; otherCount: number } {
+  const top = entries.slice(0, topN);
+  const rest = entries.slice(topN);
+  return { top, other: rest.reduce((sum, entry) => sum + costOf(entry), 0), otherCount: rest.length };
+}
+
+class DigestBuilder {
+  readonly warnings: string[] = [];
+  currency: string | null = null;
+  private chartCount = 0;
+
+  constructor(private client: CrayonApiClient, private options: DigestOptions, private monthLabel: string) {}
+
+  /**
+   * Render a chart, or record a warning and go without when rendering fails (e.g. canvas is unavailable)
+   */
+  private async chart(title: string, render: () => Promise<string>): Promise<DigestChart | undefined> {
+    if (!this.options.charts) return undefined;
+    try {
+      return { id: `chart-${++this.chartCount}`, title, dataUrl: await render() };
+    } catch (error) {
+      this.warnings.push(`Chart "${title}" could not be rendered: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return undefined;
+    }
+  }
+
+  async invoiceProfiles(): Promise<DigestSection[]> {
+    const result = await this.client.getLastMonthCostsByInvoiceProfile(this.options.organizationId);
+    const currency = result.currencyCode ?? null;
+    this.currency = this.currency ?? currency;
+    const total = result.totalOrganizationCost;
+    const profiles = result.costsByProfile;
+
+    profiles
+      .filter((profile) => profile.error)
+      .forEach((profile) => this.warnings.push(`Invoice profile ${profile.profileName}: ${profile.error}`));
+
+    const { top, other, otherCount } = topWithOther(profiles, this.options.topN, (profile) => profile.totalCost || 0);
+    const rows = top.map((profile) => [
+      profile.profileName,
+      profile.error ? '-' : amount(profile.totalCost, currency),
+      profile.error ? '-' : percentOf(profile.totalCost, total),
+    ]);
+    if (otherCount > 0) rows.push([`Other (${otherCount})`, amount(other, currency), percentOf(other, total)]);
+
+    const title = `Costs by invoice profile - ${this.monthLabel}`;
+    const charted = top.filter((profile) => !profile.error && profile.totalCost > 0);
+    const chart = await this.chart(title, () =>
+      charts().then(({ chartGenerator }) => chartGenerator.generatePieChart(
+        [...charted.map((profile) => profile.profileName), ...(other > 0 ? ['Other'] : [])],
+        [...charted.map((profile) => parseFloat(profile.totalCost.toFixed(2))), ...(other > 0 ? [parseFloat(other.toFixed(2))] : [])],
+        title,
+        currency ?? undefined
+      ))
+    );
+
+    return [{
+      heading: 'Costs by invoice profile',
+      summary: [`Total: ${amount(total, currency)} across ${profiles.length} invoice profile(s)`],
+      table: { headers: ['Invoice profile', 'Cost', 'Share'], rows },
+      chart,
+    }];
+  }
+
+  async tags(): Promise<DigestSection[]> {
+    const result = await this.client.getLastMonthCostsByTags(this.options.organizationId);
+    const currency = result.currencyCode ?? null;
+    this.currency = this.currency ?? currency;
+
+    if ((result.tagFetchFailures ?? []).length > 0) {
+      this.warnings.push(`Tags could not be read for ${result.tagFetchFailures.length} subscription(s); their costs are missing from the tag breakdown`);
+    }
+
+    const wanted = this.options.tagKeys?.map((key) => key.toLowerCase());
+    const tags = result.costByTags.filter((tag) => !wanted || wanted.includes(String(tag.tag).toLowerCase()));
+    if (tags.length === 0) {
+      return [{ heading: 'Costs by tag', summary: ['No tagged costs last month'] }];
+    }
+
+    const sections: DigestSection[] = [];
+    for (const tag of tags) {
+      const { breakdown } = tag;
+      const { top, other, otherCount } = topWithOther(breakdown, this.options.topN, (entry) => entry.cost);
+      const rows = top.map((entry) => [entry.value, amount(entry.cost, currency), percentOf(entry.cost, tag.total), String(entry.subscriptionCount)]);
+      if (otherCount > 0) rows.push([`Other (${otherCount})`, amount(other, currency), percentOf(other, tag.total), '']);
+
+      const title = `Costs by ${tag.tag} - ${this.monthLabel}`;
+      const chart = await this.chart(title, () =>
+        charts().then(({ chartGenerator }) => chartGenerator.generateBarChart(
+          [...top.map((entry) => entry.value), ...(other > 0 ? ['Other'] : [])],
+          [{ label: tag.tag, data: [...top.map((entry) => parseFloat(entry.cost.toFixed(2))), ...(other > 0 ? [parseFloat(other.toFixed(2))] : [])] }],
+          title,
+          currency ?? undefined
+        ))
+      );
+
+      sections.push({
+        heading: `Costs by tag: ${tag.tag}`,
+        summary: [`Total tagged: ${amount(tag.total, currency)} across ${breakdown.length} value(s)`],
+        table: { headers: [tag.tag, 'Cost', 'Share', 'Subscriptions'], rows },
+        chart,
+      });
+    }
+    return sections;
+  }
+
+  async trends(): Promise<DigestSection[]> {
+    const result = await this.client.getCostTrends(this.options.organizationId, this.options.trendMonths);
+    const currency = result.currency ?? null;
+    this.currency = this.currency ?? currency;
+    const { trends } = result;
+    const locale = getCurrentLocale();
+
+    const rows = trends.map((trend) => [
+      formatMonthYear(trend.month, locale),
+      amount(trend.cost, currency),
+      trend.changePercent === null ? '-' : `${trend.changePercent > 0 ? '+' : ''}${trend.changePercent.toFixed(1)}%`,
+    ]);
+
+    const title = `Cost trend - last ${this.options.trendMonths} months`;
+    const chart = trends.length > 1
+      ? await this.chart(title, () =>
+          charts().then(({ chartGenerator }) => chartGenerator.generateLineChart(
+            trends.map((trend) => formatMonthYear(trend.month, locale)),
+            [{ label: currency ?? 'Cost', data: trends.map((trend) => parseFloat(trend.cost.toFixed(2))) }],
+            title,
+            currency ?? undefined
+          ))
+        )
+      : undefined;
+
+    return [{
+      heading: 'Cost trend',
+      summary: [
+        `Average: ${amount(result.summary.averageMonthlyCost, currency)} per month over ${trends.length} month(s)`,
+        ...(result.summary.highestMonth
+          ? [`Highest: ${formatMonthYear(result.summary.highestMonth.month, locale)} (${amount(result.summary.highestMonth.cost, currency)})`]
+          : []),
+      ],
+      table: { headers: ['Month', 'Cost', 'Change'], rows },
+      chart,
+    }];
+  }
+}
+
+/**
+ * Build the digest for last month. A section whose data cannot be fetched is kept with its error,
+ * so one failing API call does not stop the rest of the digest from being delivered.
+ */
+export async function buildCostDigest(client: CrayonApiClient, options: DigestOptions, now: Date = new Date()): Promise<CostDigest> {
+  const month = lastMonth(now);
+  const builder = new DigestBuilder(client, options, formatMonthYear(month, getCurrentLocale()));
+  const headings: Record<DigestSectionName, string> = {
+    invoiceProfiles: 'Costs by invoice profile',
+    tags: 'Costs by tag',
+    trends: 'Cost trend',
+  };
+
+  const sections: DigestSection[] = [];
+  for (const name of options.sections) {
+    try {
+      sections.push(...(await builder[name]()));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      builder.warnings.push(`${headings[name]}: ${message}`);
+      sections.push({ heading: headings[name], summary: [], error: message });
+    }
+  }
+
+  return {
+    title: options.title,
+    organizationId: options.organizationId,
+    month,
+    currency: builder.currency,
+    generatedAt: now.toISOString(),
+    sections,
+    warnings: builder.warnings,
+  };
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function renderDigestMarkdown(digest: CostDigest, chartSource: ChartSource = dataUrlSource): string {
+  const lines = [
+    `# ${digest.title}`,
+    '',
+    `Organization ${digest.organizationId} - ${formatMonthYear(digest.month, getCurrentLocale())}`,
+    '',
+  ];
+
+  digest.sections.forEach((section) => {
+    lines.push(`## ${section.heading}`, '');
+    if (section.error) {
+      lines.push(`_Not available: ${section.error}_`, '');
+      return;
+    }
+    section.summary.forEach((line) => lines.push(`- ${line}`));
+    if (section.summary.length > 0) lines.push('');
+    if (section.chart) {
+      lines.push(`![${section.chart.title}](${chartSource(section.chart)})`, '');
+    }
+    if (section.table) {
+      lines.push(`| ${section.table.headers.map(markdownCell).join(' | ')} |`);
+      lines.push(`| ${section.table.headers.map((_, idx) => (idx === 0 ? '---' : '---:')).join(' | ')} |`);
+      section.table.rows.forEach((row) => lines.push(`| ${row.map(markdownCell).join(' | ')} |`));
+      lines.push('');
+    }
+  });
+
+  if (digest.warnings.length > 0) {
+    lines.push('## Warnings', '');
+    digest.warnings.forEach((warning) => lines.push(`- ${warning}`));
+    lines.push('');
+  }
+
+  lines.push(`_Generated ${digest.generatedAt}_`, '');
+  return lines.join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Self-contained HTML with inline styles, so it also renders in mail clients
+ */
+export function renderDigestHtml(digest: CostDigest, chartSource: ChartSource = dataUrlSource): string {
+  const cell = 'style="padding:4px 8px;border-bottom:1px solid #ddd"';
+  const numeric = 'style="padding:4px 8px;border-bottom:1px solid #ddd;text-align:right"';
+  const parts = [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(digest.title)}</title></head>`,
+    '<body style="font-family:Segoe UI,Helvetica,Arial,sans-serif;color:#222;max-width:860px">',
+    `<h1>${escapeHtml(digest.title)}</h1>`,
+    `<p>Organization ${digest.organizationId} - ${escapeHtml(formatMonthYear(digest.month, getCurrentLocale()))}</p>`,
+  ];
+
+  digest.sections.forEach((section) => {
+    parts.push(`<h2>${escapeHtml(section.heading)}</h2>`);
+    if (section.error) {
+      parts.push(`<p><em>Not available: ${escapeHtml(section.error)}</em></p>`);
+      return;
+    }
+    if (section.summary.length > 0) {
+      parts.push(`<ul>${section.summary.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`);
+    }
+    if (section.chart) {
+      parts.push(`<p><img src="${escapeHtml(chartSource(section.chart))}" alt="${escapeHtml(section.chart.title)}" style="max-width:100%"></p>`);
+    }
+    if (section.table) {
+      const header = section.table.headers
+        .map((text, idx) => `<th ${idx === 0 ? cell : numeric}>${escapeHtml(text)}</th>`)
+        .join('');
+      const rows = section.table.rows
+        .map((row) => `<tr>${row.map((text, idx) => `<td ${idx === 0 ? cell : numeric}>${escapeHtml(text)}</td>`).join('')}</tr>`)
+        .join('');
+      parts.push(`<table style="border-collapse:collapse"><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`);
+    }
+  });
+
+  if (digest.warnings.length > 0) {
+    parts.push('<h2>Warnings</h2>');
+    parts.push(`<ul>${digest.warnings.map((warning) => `<li>${escapeHtml(warning)}</li>`).join('')}</ul>`);
+  }
+
+  parts.push(`<p style="color:#888;font-size:12px">Generated ${escapeHtml(digest.generatedAt)}</p>`, '</body></html>');
+  return parts.join('\n');
+}
@@ -0,0 +1,221 @@
+/**
+ * Report export - writes tabular report data as CSV, XLSX or NDJSON files into the export directory (EXPORT_DIR)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'node:crypto';
+import ExcelJS from 'exceljs';
+
+export type ReportFormat = 'csv' | 'xlsx' | 'ndjson';
+export type ReportColumnType = 'text' | 'number' | 'currency' | 'percent' | 'date';
+
+export interface ReportColumn {
+  key: string;
+  header: string;
+  type: ReportColumnType;
+}
+
+/**
+ * One table of a report; XLSX files get one worksheet per sheet
+ */
+export interface ReportSheet {
+  name: string;
+  columns: ReportColumn[];
+  rows: Array<Record<string, unknown>>;
+}
+
+export interface ReportData {
+  report: string;
+  title: string;
+  organizationId: number;
+  currency: string | null;
+  generatedAt: string;
+  sheets: ReportSheet[];
+}
+
+export interface ExportedReport {
+  fileName: string;
+  filePath: string;
+  format: ReportFormat;
+  mimeType: string;
+  size: number;
+  rowCount: number;
+  sheets: string[];
+}
+
+export const REPORT_MIME_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson',
+};
+
+// <report>-org<organizationId>-<timestamp>-<random>.<format>
+const EXPORT_FILE_PATTERN = /^[a-z_]+-org(\d+)-\d{8}T\d{6}-[0-9a-f]{8}\.(csv|xlsx|ndjson)$/;
+
+/**
+ * Spreadsheet apps evaluate text starting with = + - or @ as a formula, and some skip a leading tab
+ * or carriage return before looking; tag values and names come from users, so such text is
+ * prefixed with ' to keep it a plain string. Numbers are left alone.
+ */
+function neutralizeFormula(value: unknown): unknown {
+  return typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(neutralizeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Excel worksheet names are at most 31 characters and cannot contain []:*?/\
+ */
+function worksheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function numberFormat(type: ReportColumnType, currency: string | null): string | undefined {
+  if (type === 'currency') return currency ? `#,##0.00 "${currency}"` : '#,##0.00';
+  if (type === 'number') return '#,##0.##';
+  if (type === 'percent') return '0.00"%"';
+  return undefined;
+}
+
+/**
+ * Writes report files and resolves them again for download.
+ * File names carry the organization so the download route can check access without a separate index.
+ */
+export class ReportExporter {
+  private dir: string;
+
+  constructor(dir: string, private retentionHours: number = 168) {
+    // Absolute, so files can be handed to the HTTP download route as-is
+    this.dir = path.resolve(dir);
+  }
+
+  async write(report: ReportData, format: ReportFormat): Promise<ExportedReport> {
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.removeExpired();
+
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').slice(0, 15);
+    const fileName = `${report.report}-org${report.organizationId}-${stamp}-${randomUUID().slice(0, 8)}.${format}`;
+    const filePath = path.join(this.dir, fileName);
+
+    if (format === 'xlsx') {
+      await this.writeXlsx(report, filePath);
+    } else {
+      fs.writeFileSync(filePath, format === 'csv' ? this.toCsv(report) : this.toNdjson(report));
+    }
+
+    return {
+      fileName,
+      filePath,
+      format,
+      mimeType: REPORT_MIME_TYPES[format],
+      size: fs.statSync(filePath).size,
+      rowCount: report.sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0),
+      sheets: report.sheets.map((sheet) => sheet.name),
+    };
+  }
+
+  /**
+   * Look up an export by file name; anything that is not an export file name is rejected,
+   * which also rules out path traversal
+   */
+  resolve(fileName: string): { filePath: string; organizationId: number; mimeType: string } | null {
+    const match = fileName.match(EXPORT_FILE_PATTERN);
+    if (!match) return null;
+
+    const filePath = path.join(this.dir, fileName);
+    if (!fs.existsSync(filePath)) return null;
+    return { filePath, organizationId: Number(match[1]), mimeType: REPORT_MIME_TYPES[match[2] as ReportFormat] };
+  }
+
+  /**
+   * Delete exports older than the retention period
+   */
+  private removeExpired(): void {
+    const cutoff = Date.now() - this.retentionHours * 3600 * 1000;
+    fs.readdirSync(this.dir)
+      .filter((name) => EXPORT_FILE_PATTERN.test(name))
+      .forEach((name) => {
+        const filePath = path.join(this.dir, name);
+        if (fs.statSync(filePath).mtimeMs < cutoff) fs.unlinkSync(filePath);
+      });
+  }
+
+  /**
+   * A single CSV table; with several sheets the columns are merged and a leading Sheet column tells the rows apart
+   */
+  private toCsv(report: ReportData): string {
+    const multiSheet = report.sheets.length > 1;
+    const columns: ReportColumn[] = [];
+    report.sheets.forEach((sheet) =>
+      sheet.columns.forEach((column) => {
+        if (!columns.some((existing) => existing.key === column.key)) columns.push(column);
+      })
+    );
+
+    const header = [...(multiSheet ? ['Sheet'] : []), ...columns.map((column) => column.header)];
+    const lines = [header.map(csvField).join(',')];
+    report.sheets.forEach((sheet) =>
+      sheet.rows.forEach((row) => {
+        const values = [...(multiSheet ? [sheet.name] : []), ...columns.map((column) => row[column.key])];
+        lines.push(values.map(csvField).join(','));
+      })
+    );
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  private toNdjson(report: ReportData): string {
+    return report.sheets
+      .flatMap((sheet) => sheet.rows.map((row) => JSON.stringify({ sheet: sheet.name, currency: report.currency, ...row })))
+      .map((line) => `${line}\n`)
+      .join('');
+  }
+
+  private async writeXlsx(report: ReportData, filePath: string): Promise<void> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'crayon-cost-mcp';
+    workbook.created = new Date(report.generatedAt);
+    workbook.title = report.title;
+
+    const used = new Set<string>();
+    report.sheets.forEach((sheet) => {
+      const worksheet = workbook.addWorksheet(worksheetName(sheet.name, used), {
+        views: [{ state: 'frozen', ySplit: 1 }],
+      });
+      worksheet.columns = sheet.columns.map((column) => ({
+        header: column.header,
+        key: column.key,
+        width: Math.max(12, Math.min(60, column.header.length + 4)),
+        style: { numFmt: numberFormat(column.type, report.currency) },
+      }));
+      worksheet.getRow(1).font = { bold: true };
+      sheet.rows.forEach((row) =>
+        worksheet.addRow(Object.fromEntries(Object.entries(row).map(([key, value]) => [key, neutralizeFormula(value)])))
+      );
+      if (sheet.columns.length > 0) {
+        worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columns.length } };
+      }
+    });
+
+    await workbook.xlsx.writeFile(filePath);
+  }
+}
+
+/**
+ * Create the exporter from EXPORT_DIR and EXPORT_RETENTION_HOURS
+ */
+export function createReportExporterFromEnv(): ReportExporter {
+  return new ReportExporter(
+    process.env.EXPORT_DIR || './data/exports',
+    parseInt(process.env.EXPORT_RETENTION_HOURS || '168', 10)
+  );
+}
@@ -0,0 +1,407 @@
+/**
+ * Report jobs - runs cost digests on cron schedules (REPORT_JOBS_FILE) and delivers them to a
+ * file directory, an SMTP server or a webhook
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import Joi from 'joi';
+import nodemailer from 'nodemailer';
+import type { CrayonApiClient } from '../crayon-client.js';
+import { logger, logAudit } from '../middleware/logger.js';
+import { CronRunner, parseCron } from './cron.js';
+import {
+  CostDigest,
+  DIGEST_SECTIONS,
+  DigestChart,
+  DigestSectionName,
+  buildCostDigest,
+  renderDigestHtml,
+  renderDigestMarkdown,
+} from './report-digest.js';
+
+export type DigestFormat = 'markdown' | 'html';
+
+export type ReportSink =
+  | { type: 'file'; dir: string }
+  | { type: 'smtp'; to: string[]; cc?: string[]; subject?: string }
+  | { type: 'webhook'; url: string; headers?: Record<string, string> };
+
+export interface ReportJob {
+  id: string;
+  name: string;
+  organizationId: number;
+  schedule: string;
+  enabled: boolean;
+  sections: DigestSectionName[];
+  trendMonths: number;
+  tagKeys?: string[];
+  topN: number;
+  charts: boolean;
+  format: DigestFormat;
+  sink: ReportSink;
+}
+
+export interface ReportJobRun {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  status: 'success' | 'failure';
+  month?: string;
+  delivery?: string;
+  warnings: string[];
+  error?: string;
+}
+
+export interface ReportJobStatus {
+  id: string;
+  name: string;
+  organizationId: number;
+  schedule: string;
+  enabled: boolean;
+  sections: DigestSectionName[];
+  format: DigestFormat;
+  sink: Record<string, unknown>;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRun: ReportJobRun | null;
+}
+
+const cronSchema = Joi.string().max(100).custom((value, helpers) => {
+  try {
+    parseCron(value);
+  } catch (error) {
+    return helpers.message({ custom: error instanceof Error ? error.message : 'Invalid cron expression' });
+  }
+  return value;
+});
+
+const emailList = Joi.array().items(Joi.string().email()).min(1).max(50);
+
+const sinkSchema = Joi.alternatives().conditional('.type', {
+  switch: [
+    { is: 'file', then: Joi.object({ type: Joi.string().valid('file').required(), dir: Joi.string().default('./data/digests') }) },
+    {
+      is: 'smtp',
+      then: Joi.object({
+        type: Joi.string().valid('smtp').required(),
+        to: emailList.required(),
+        cc: emailList,
+        subject: Joi.string().max(200),
+      }),
+    },
+    {
+      is: 'webhook',
+      then: Joi.object({
+        type: Joi.string().valid('webhook').required(),
+        url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+        headers: Joi.object().pattern(Joi.string(), Joi.string()),
+      }),
+    },
+  ],
+  otherwise: Joi.any().forbidden().messages({ 'any.unknown': 'sink.type must be file, smtp or webhook' }),
+});
+
+const reportJobsSchema = Joi.object({
+  jobs: Joi.array()
+    .items(
+      Joi.object({
+        id: Joi.string().pattern(/^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/).required(),
+        name: Joi.string().max(200).required(),
+        organizationId: Joi.number().integer().positive().required(),
+        schedule: cronSchema.required(),
+        enabled: Joi.boolean().default(true),
+        sections: Joi.array().items(Joi.string().valid(...DIGEST_SECTIONS)).min(1).unique().default([...DIGEST_SECTIONS]),
+        trendMonths: Joi.number().integer().min(2).max(24).default(6),
+        tagKeys: Joi.array().items(Joi.string().max(512)).min(1),
+        topN: Joi.number().integer().min(1).max(50).default(10),
+        charts: Joi.boolean().default(true),
+        format: Joi.string().valid('markdown', 'html').default('html'),
+        sink: sinkSchema.required(),
+      })
+    )
+    .unique('id')
+    .required(),
+});
+
+/**
+ * Validate report job definitions
+ */
+export function parseReportJobs(raw: any): ReportJob[] {
+  const { error, value } = reportJobsSchema.validate(raw, { abortEarly: false });
+  if (error) {
+    throw new Error(`Invalid report jobs: ${error.message}`);
+  }
+  return value.jobs;
+}
+
+/**
+ * Load report jobs from REPORT_JOBS_FILE; no file means no jobs
+ */
+export function loadReportJobs(): ReportJob[] {
+  const jobsFile = process.env.REPORT_JOBS_FILE;
+  if (!jobsFile) return [];
+  return parseReportJobs(JSON.parse(fs.readFileSync(jobsFile, 'utf-8')));
+}
+
+/**
+ * Sink settings safe to show to clients: webhook URLs and headers often carry credentials
+ */
+function describeSink(sink: ReportSink): Record<string, unknown> {
+  if (sink.type === 'file') return { type: 'file', dir: sink.dir };
+  if (sink.type === 'smtp') return { type: 'smtp', to: sink.to, cc: sink.cc ?? [] };
+  return { type: 'webhook', host: new URL(sink.url).host, headers: Object.keys(sink.headers ?? {}) };
+}
+
+function subjectOf(job: ReportJob, digest: CostDigest): string {
+  const subject = job.sink.type === 'smtp' && job.sink.subject ? job.sink.subject : job.name;
+  return `${subject} (${digest.month})`;
+}
+
+function pngOf(chart: DigestChart): Buffer {
+  return Buffer.from(chart.dataUrl.replace(/^data:image\/png;base64,/, ''), 'base64');
+}
+
+function chartsOf(digest: CostDigest): DigestChart[] {
+  return digest.sections.flatMap((section) => (section.chart ? [section.chart] : []));
+}
+
+/**
+ * Write the digest and its charts (as PNG files next to it) into the sink directory
+ */
+async function deliverToFile(job: ReportJob, sink: { dir: string }, digest: CostDigest): Promise<string> {
+  const dir = path.resolve(sink.dir);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const stamp = digest.generatedAt.replace(/[-:]/g, '').slice(0, 15);
+  const baseName = `${job.id}-${digest.month}-${stamp}`;
+  const chartFile = (chart: DigestChart) => `${baseName}-${chart.id}.png`;
+  chartsOf(digest).forEach((chart) => fs.writeFileSync(path.join(dir, chartFile(chart)), pngOf(chart)));
+
+  const fileName = `${baseName}.${job.format === 'html' ? 'html' : 'md'}`;
+  const content = job.format === 'html' ? renderDigestHtml(digest, chartFile) : renderDigestMarkdown(digest, chartFile);
+  fs.writeFileSync(path.join(dir, fileName), content);
+  return path.join(dir, fileName);
+}
+
+/**
+ * Mail the digest through the server in SMTP_HOST/SMTP_PORT; charts go as inline attachments
+ */
+async function deliverBySmtp(job: ReportJob, sink: { to: string[]; cc?: string[] }, digest: CostDigest): Promise<string> {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) {
+    throw new Error('SMTP delivery requires SMTP_HOST and SMTP_FROM');
+  }
+
+  const transport = nodemailer.createTransport({
+    host,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD || '' } : undefined,
+  });
+
+  const cid = (chart: DigestChart) => `${chart.id}@crayon-cost-mcp`;
+  const charts = chartsOf(digest);
+  const info = await transport.sendMail({
+    from,
+    to: sink.to,
+    cc: sink.cc,
+    subject: subjectOf(job, digest),
+    text: renderDigestMarkdown(digest, (chart) => `${chart.id}.png`),
+    html: job.format === 'html' ? renderDigestHtml(digest, (chart) => `cid:${cid(chart)}`) : undefined,
+    attachments: charts.map((chart) => ({
+      filename: `${chart.id}.png`,
+      content: pngOf(chart),
+      contentType: 'image/png',
+      cid: job.format === 'html' ? cid(chart) : undefined,
+    })),
+  });
+
+  return `Mailed to ${[...sink.to, ...(sink.cc ?? [])].join(', ')} (${info.messageId})`;
+}
+
+/**
+ * POST the rendered digest as JSON; charts stay embedded as data URLs
+ */
+async function deliverToWebhook(job: ReportJob, sink: { url: string; headers?: Record<string, string> }, digest: CostDigest): Promise<string> {
+  const content = job.format === 'html' ? renderDigestHtml(digest) : renderDigestMarkdown(digest);
+  const response = await axios.post(
+    sink.url,
+    {
+      jobId: job.id,
+      name: job.name,
+      organizationId: job.organizationId,
+      month: digest.month,
+      generatedAt: digest.generatedAt,
+      subject: subjectOf(job, digest),
+      format: job.format,
+      content,
+      warnings: digest.warnings,
+    },
+    {
+      headers: { 'Content-Type': 'application/json', ...(sink.headers ?? {}) },
+      timeout: parseInt(process.env.API_TIMEOUT_MS || '30000', 10),
+      maxBodyLength: 20 * 1024 * 1024,
+    }
+  );
+
+  return `Posted to ${new URL(sink.url).host} (HTTP ${response.status})`;
+}
+
+async function deliver(job: ReportJob, digest: CostDigest): Promise<string> {
+  const { sink } = job;
+  if (sink.type === 'file') return deliverToFile(job, sink, digest);
+  if (sink.type === 'smtp') return deliverBySmtp(job, sink, digest);
+  return deliverToWebhook(job, sink, digest);
+}
+
+/**
+ * Runs report jobs on their schedules, one CronRunner per job. Runs do not overlap: a job still
+ * running when its next run is due (also when started by hand) skips that run. The last run of
+ * each job is kept in a state file (REPORT_JOBS_STATE_FILE) so it survives restarts.
+ */
+export class ReportJobScheduler {
+  private runners = new Map<string, CronRunner>();
+  private running = new Set<string>();
+  private lastRuns: Record<string, ReportJobRun>;
+
+  constructor(private client: CrayonApiClient, private jobs: ReportJob[], private stateFile: string) {
+    jobs.forEach((job) =>
+      this.runners.set(job.id, new CronRunner(job.schedule, `Report job ${job.id}`, () => this.scheduledRun(job)))
+    );
+    this.lastRuns = this.readState();
+  }
+
+  private readState(): Record<string, ReportJobRun> {
+    if (!fs.existsSync(this.stateFile)) return {};
+    try {
+      const data = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8'));
+      return data?.lastRuns && typeof data.lastRuns === 'object' ? data.lastRuns : {};
+    } catch (error) {
+      logger.warn('Ignoring unreadable report job state file', { stateFile: this.stateFile });
+      return {};
+    }
+  }
+
+  private writeState(): void {
+    fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+    const tmpFile = `${this.stateFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify({ lastRuns: this.lastRuns }, null, 2));
+    fs.renameSync(tmpFile, this.stateFile);
+  }
+
+  get size(): number {
+    return this.jobs.length;
+  }
+
+  start(): void {
+    this.jobs.filter((job) => job.enabled).forEach((job) => this.runners.get(job.id)!.start());
+    logger.info('Report job scheduler started', {
+      jobs: this.jobs.length,
+      enabled: this.jobs.filter((job) => job.enabled).length,
+    });
+  }
+
+  stop(): void {
+    this.runners.forEach((runner) => runner.stop());
+  }
+
+  private async scheduledRun(job: ReportJob): Promise<void> {
+    if (this.running.has(job.id)) {
+      logger.warn('Skipping report job run: previous run still in progress', { jobId: job.id });
+      return;
+    }
+    await this.runJob(job);
+  }
+
+  /**
+   * Build and deliver one job's digest, recording the outcome as the job's last run
+   */
+  async runJob(job: ReportJob): Promise<ReportJobRun> {
+    this.running.add(job.id);
+    const started = new Date();
+    let run: ReportJobRun;
+
+    try {
+      const digest = await buildCostDigest(this.client, {
+        title: job.name,
+        organizationId: job.organizationId,
+        sections: job.sections,
+        trendMonths: job.trendMonths,
+        tagKeys: job.tagKeys,
+        topN: job.topN,
+        charts: job.charts,
+      }, started);
+      const delivery = await deliver(job, digest);
+      run = {
+        startedAt: started.toISOString(),
+        finishedAt: new Date().toISOString(),
+        durationMs: Date.now() - started.getTime(),
+        status: 'success',
+        month: digest.month,
+        delivery,
+        warnings: digest.warnings,
+      };
+    } catch (error) {
+      run = {
+        startedAt: started.toISOString(),
+        finishedAt: new Date().toISOString(),
+        durationMs: Date.now() - started.getTime(),
+        status: 'failure',
+        warnings: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    } finally {
+      this.running.delete(job.id);
+    }
+
+    this.lastRuns[job.id] = run;
+    try {
+      this.writeState();
+    } catch (error) {
+      logger.error('Failed to write report job state', { stateFile: this.stateFile, error: (error as Error).message });
+    }
+
+    logAudit({
+      action: 'report_job_run',
+      userId: 'scheduler',
+      organizationId: job.organizationId,
+      resource: `report_job:${job.id}`,
+      status: run.status,
+      timestamp: started,
+      details: { delivery: run.delivery, error: run.error, warnings: run.warnings.length },
+    });
+
+    return run;
+  }
+
+  list(organizationId?: number): ReportJobStatus[] {
+    return this.jobs
+      .filter((job) => !organizationId || job.organizationId === organizationId)
+      .map((job) => ({
+        id: job.id,
+        name: job.name,
+        organizationId: job.organizationId,
+        schedule: job.schedule,
+        enabled: job.enabled,
+        sections: job.sections,
+        format: job.format,
+        sink: describeSink(job.sink),
+        running: this.running.has(job.id),
+        nextRunAt: job.enabled ? this.runners.get(job.id)!.nextRunAt?.toISOString() ?? null : null,
+        lastRun: this.lastRuns[job.id] ?? null,
+      }));
+  }
+}
+
+/**
+ * Create the scheduler from REPORT_JOBS_FILE and REPORT_JOBS_STATE_FILE
+ */
+export function createReportJobSchedulerFromEnv(client: CrayonApiClient): ReportJobScheduler {
+  return new ReportJobScheduler(
+    client,
+    loadReportJobs(),
+    process.env.REPORT_JOBS_STATE_FILE || './data/report-jobs-state.json'
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * Report builders - run an analytic and shape its result into sheets for export
+ */
+import type { CrayonApiClient } from '../crayon-client.js';
+import { ReportColumn, ReportData, ReportSheet } from './report-export.js';
+
+export const REPORT_NAMES = [
+  'billing_statements',
+  'cost_breakdown',
+  'tag_breakdown',
+  'cost_trends',
+  'invoice_profile_costs',
+] as const;
+
+export type ReportName = (typeof REPORT_NAMES)[number];
+
+export interface ReportParams {
+  organizationId: number;
+  monthsBack: number;
+}
+
+const text = (key: string, header: string): ReportColumn => ({ key, header, type: 'text' });
+const number = (key: string, header: string): ReportColumn => ({ key, header, type: 'number' });
+const currency = (key: string, header: string): ReportColumn => ({ key, header, type: 'currency' });
+const percent = (key: string, header: string): ReportColumn => ({ key, header, type: 'percent' });
+const date = (key: string, header: string): ReportColumn => ({ key, header, type: 'date' });
+
+function round(value: number | null | undefined): number | null {
+  return value === null || value === undefined ? null : parseFloat(value.toFixed(2));
+}
+
+function share(value: number, total: number): number | null {
+  return total !== 0 ? round((value / total) * 100) : null;
+}
+
+async function billingStatementsReport(client: CrayonApiClient, { organizationId, monthsBack }: ReportParams) {
+  const billing = await client.getHistoricalBilling(organizationId, monthsBack);
+  const costs = client.normalizeCosts(billing.Items);
+
+  const sheet: ReportSheet = {
+    name: 'Billing statements',
+    columns: [
+      date('startDate', 'Start date'),
+      date('endDate', 'End date'),
+      text('subscriptionId', 'Subscription ID'),
+      text('subscriptionName', 'Subscription'),
+      text('product', 'Product'),
+      text('provisionType', 'Provision type'),
+      text('invoiceProfile', 'Invoice profile'),
+      number('originalAmount', 'Billed amount'),
+      text('originalCurrency', 'Billed currency'),
+      currency('cost', 'Cost'),
+    ],
+    rows: billing.Items.map((item) => ({
+      startDate: item.StartDate?.slice(0, 10) ?? '',
+      endDate: item.EndDate?.slice(0, 10) ?? '',
+      subscriptionId: item.SubscriptionId ?? '',
+      subscriptionName: item.SubscriptionName ?? '',
+      product: item.Product?.Name ?? '',
+      provisionType: item.ProvisionType ?? '',
+      invoiceProfile: item.InvoiceProfile?.Name ?? '',
+      originalAmount: round(item.TotalSalesPrice.amount),
+      originalCurrency: item.TotalSalesPrice.currency,
+      cost: round(costs.costOf(item)),
+    })),
+  };
+
+  return { currency: costs.currency, sheets: [sheet] };
+}
+
+async function costBreakdownReport(client: CrayonApiClient, { organizationId, monthsBack }: ReportParams) {
+  const dimensions = [
+    { dimension: 'subscription', name: 'By subscription', header: 'Subscription' },
+    { dimension: 'invoiceProfile', name: 'By invoice profile', header: 'Invoice profile' },
+    { dimension: 'provisionType', name: 'By provision type', header: 'Provision type' },
+    { dimension: 'month', name: 'By month', header: 'Month' },
+  ] as const;
+
+  let reportCurrency: string | null = null;
+  const sheets: ReportSheet[] = [];
+  for (const { dimension, name, header } of dimensions) {
+    const data = await client.getCostsByDimension(organizationId, dimension, { monthsBack });
+    reportCurrency = reportCurrency ?? data.currency;
+    const total = data.groups.reduce((sum, group) => sum + group.total, 0);
+    const groups = dimension === 'month'
+      ? [...data.groups].sort((a, b) => a.label.localeCompare(b.label))
+      : [...data.groups].sort((a, b) => b.total - a.total);
+
+    sheets.push({
+      name,
+      columns: [text('label', header), currency('cost', 'Cost'), percent('share', 'Share'), number('statements', 'Statements')],
+      rows: groups.map((group) => ({
+        label: group.label,
+        cost: round(group.total),
+        share: share(group.total, total),
+        statements: group.statementCount,
+      })),
+    });
+  }
+
+  return { currency: reportCurrency, sheets };
+}
+
+async function tagBreakdownReport(client: CrayonApiClient, { organizationId, monthsBack }: ReportParams) {
+  const result = await client.analyzeCostsByTags(organizationId, monthsBack);
+
+  // One sheet per tag key
+  const sheets: ReportSheet[] = result.costBreakdown.map((tag) => ({
+    name: `Tag ${tag.tag}`,
+    columns: [text('value', 'Tag value'), currency('cost', 'Cost'), percent('share', 'Share')],
+    rows: tag.breakdown.map((entry) => ({
+      value: entry.value,
+      cost: round(entry.cost),
+      share: share(entry.cost, tag.total),
+    })),
+  }));
+
+  return { currency: result.currency, sheets };
+}
+
+async function costTrendsReport(client: CrayonApiClient, { organizationId, monthsBack }: ReportParams) {
+  const result = await client.getCostTrends(organizationId, monthsBack);
+
+  const sheet: ReportSheet = {
+    name: 'Cost trends',
+    columns: [
+      text('month', 'Month'),
+      currency('cost', 'Cost'),
+      currency('previousCost', 'Previous month'),
+      currency('change', 'Change'),
+      percent('changePercent', 'Change %'),
+    ],
+    rows: result.trends.map((trend) => ({
+      month: trend.month,
+      cost: round(trend.cost),
+      previousCost: round(trend.previousCost),
+      change: round(trend.change),
+      changePercent: trend.changePercent,
+    })),
+  };
+
+  return { currency: result.currency, sheets: [sheet] };
+}
+
+async function invoiceProfileCostsReport(client: CrayonApiClient, { organizationId }: ReportParams) {
+  const result = await client.getLastMonthCostsByInvoiceProfile(organizationId);
+
+  const sheet: ReportSheet = {
+    name: 'Invoice profiles',
+    columns: [
+      text('profileId', 'Invoice profile ID'),
+      text('profileName', 'Invoice profile'),
+      currency('cost', 'Cost'),
+      percent('share', 'Share'),
+      number('statements', 'Statements'),
+      text('error', 'Error'),
+    ],
+    rows: result.costsByProfile.map((profile) => ({
+      profileId: profile.profileId,
+      profileName: profile.profileName,
+      cost: round(profile.totalCost),
+      share: share(profile.totalCost, result.totalOrganizationCost),
+      statements: profile.itemsCount ?? null,
+      error: profile.error ?? '',
+    })),
+  };
+
+  return { currency: result.currencyCode, sheets: [sheet] };
+}
+
+const builders: Record<
+  ReportName,
+  { title: string; build: (client: CrayonApiClient, params: ReportParams) => Promise<{ currency: string | null; sheets: ReportSheet[] }> }
+> = {
+  billing_statements: { title: 'Billing statements', build: billingStatementsReport },
+  cost_breakdown: { title: 'Cost breakdown', build: costBreakdownReport },
+  tag_breakdown: { title: 'Costs by tag', build: tagBreakdownReport },
+  cost_trends: { title: 'Cost trends', build: costTrendsReport },
+  invoice_profile_costs: { title: 'Last month costs by invoice profile', build: invoiceProfileCostsReport },
+};
+
+/**
+ * Run a report and return its sheets
+ */
+export async function buildReport(client: CrayonApiClient, report: ReportName, params: ReportParams): Promise<ReportData> {
+  const { title, build } = builders[report];
+  const { currency: reportCurrency, sheets } = await build(client, params);
+
+  return {
+    report,
+    title,
+    organizationId: params.organizationId,
+    currency: reportCurrency,
+    generatedAt: new Date().toISOString(),
+    sheets,
+  };
+}
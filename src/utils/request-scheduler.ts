@@ -0,0 +1,104 @@
+/**
+ * Request scheduler - bounds the number of in-flight Crayon API calls across all fan-out
+ * operations and serves organizations round-robin so one large organization cannot starve others
+ */
+
+interface QueuedTask {
+  run: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+}
+
+export class RequestScheduler {
+  private inFlight = 0;
+  private queues = new Map<string, QueuedTask[]>();
+  private rotation: string[] = [];
+  private nextQueue = 0;
+  private completed = 0;
+  private failed = 0;
+
+  constructor(private maxInFlight: number = 8) {}
+
+  /**
+   * Queue a task for an organization; it starts once a slot is free and it is that organization's turn
+   */
+  schedule<T>(organizationId: number | string | undefined, task: () => Promise<T>): Promise<T> {
+    const key = String(organizationId ?? 'all');
+
+    return new Promise<T>((resolve, reject) => {
+      if (!this.queues.has(key)) {
+        this.queues.set(key, []);
+        this.rotation.push(key);
+      }
+      this.queues.get(key)!.push({ run: task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Pick the next task round-robin across organization queues
+   */
+  private takeNext(): QueuedTask | undefined {
+    for (let i = 0; i < this.rotation.length; i++) {
+      const index = (this.nextQueue + i) % this.rotation.length;
+      const key = this.rotation[index];
+      const queue = this.queues.get(key)!;
+      const task = queue.shift();
+
+      if (task) {
+        if (queue.length === 0) {
+          // Drop drained queues so the rotation only holds organizations with pending work
+          this.queues.delete(key);
+          this.rotation.splice(index, 1);
+          this.nextQueue = this.rotation.length > 0 ? index % this.rotation.length : 0;
+        } else {
+          this.nextQueue = (index + 1) % this.rotation.length;
+        }
+        return task;
+      }
+    }
+    return undefined;
+  }
+
+  private dispatch(): void {
+    while (this.inFlight < this.maxInFlight) {
+      const task = this.takeNext();
+      if (!task) return;
+
+      this.inFlight++;
+      Promise.resolve()
+        .then(task.run)
+        .then(
+          (value) => {
+            this.completed++;
+            this.release();
+            task.resolve(value);
+          },
+          (error) => {
+            this.failed++;
+            this.release();
+            task.reject(error);
+          }
+        );
+    }
+  }
+
+  private release(): void {
+    this.inFlight--;
+    this.dispatch();
+  }
+
+  /**
+   * Current load and lifetime counters. Only totals: the stats are served by the unauthenticated
+   * /health endpoint, so nothing is broken down by organization.
+   */
+  getStats() {
+    return {
+      maxInFlight: this.maxInFlight,
+      inFlight: this.inFlight,
+      queued: Array.from(this.queues.values()).reduce((sum, queue) => sum + queue.length, 0),
+      completed: this.completed,
+      failed: this.failed,
+    };
+  }
+}
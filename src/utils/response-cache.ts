@@ -0,0 +1,317 @@
+/**
+ * Response cache for Crayon API calls
+ * In-memory by default, with an optional on-disk store (CACHE_STORE=file)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'node:crypto';
+
+export interface CacheEntry {
+  key: string;
+  endpoint: string;
+  organizationId?: number;
+  expiresAt: number;
+  value: any;
+}
+
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(entry: CacheEntry): void;
+  delete(key: string): void;
+  entries(): CacheEntry[];
+  size(): number;
+  clear(): void;
+}
+
+/**
+ * In-memory store with a bounded number of entries (oldest evicted first)
+ */
+export class MemoryCacheStore implements CacheStore {
+  private items = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number = 5000) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.items.get(key);
+    return entry ? { ...entry, value: structuredClone(entry.value) } : undefined;
+  }
+
+  set(entry: CacheEntry): void {
+    this.items.delete(entry.key);
+    this.items.set(entry.key, { ...entry, value: structuredClone(entry.value) });
+    while (this.items.size > this.maxEntries) {
+      const oldest = this.items.keys().next().value;
+      this.items.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.items.delete(key);
+  }
+
+  entries(): CacheEntry[] {
+    return Array.from(this.items.values());
+  }
+
+  size(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+/**
+ * On-disk store - one JSON file per entry, survives restarts.
+ * Expired entries are removed when read and by a periodic sweep, and the entry count is kept in
+ * memory so statistics never have to scan the directory.
+ */
+export class FileCacheStore implements CacheStore {
+  private count: number;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private directory: string, sweepIntervalSeconds: number = 600) {
+    fs.mkdirSync(directory, { recursive: true });
+    this.count = this.files().length;
+    if (sweepIntervalSeconds > 0) {
+      this.sweepTimer = setInterval(() => this.sweep(), sweepIntervalSeconds * 1000);
+      this.sweepTimer.unref();
+    }
+  }
+
+  private files(): string[] {
+    return fs.readdirSync(this.directory).filter((file) => file.endsWith('.json'));
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private read(file: string): CacheEntry | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private remove(file: string): void {
+    try {
+      fs.unlinkSync(file);
+      this.count = Math.max(0, this.count - 1);
+    } catch {
+      // Already gone
+    }
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const file = this.fileFor(key);
+    const entry = this.read(file);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.remove(file);
+      return undefined;
+    }
+    return entry;
+  }
+
+  set(entry: CacheEntry): void {
+    const file = this.fileFor(entry.key);
+    const isNew = !fs.existsSync(file);
+    fs.writeFileSync(file, JSON.stringify(entry));
+    if (isNew) this.count++;
+  }
+
+  delete(key: string): void {
+    this.remove(this.fileFor(key));
+  }
+
+  entries(): CacheEntry[] {
+    return this.files()
+      .map((file) => this.read(path.join(this.directory, file)))
+      .filter((entry): entry is CacheEntry => !!entry);
+  }
+
+  size(): number {
+    return this.count;
+  }
+
+  clear(): void {
+    this.files().forEach((file) => fs.rmSync(path.join(this.directory, file), { force: true }));
+    this.count = 0;
+  }
+
+  /**
+   * Delete expired (and unreadable) entries
+   * @returns Number of files removed
+   */
+  sweep(): number {
+    const now = Date.now();
+    let removed = 0;
+    this.files().forEach((name) => {
+      const file = path.join(this.directory, name);
+      const entry = this.read(file);
+      if (!entry || entry.expiresAt <= now) {
+        this.remove(file);
+        removed++;
+      }
+    });
+    // Resync in case files were added or removed outside this process
+    this.count = this.files().length;
+    return removed;
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  close(): void {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+  }
+}
+
+/**
+ * TTLs in seconds per endpoint class
+ */
+export interface CacheTtls {
+  billingClosedMonth: number;
+  billingCurrentMonth: number;
+  tags: number;
+  subscriptions: number;
+  invoices: number;
+}
+
+/**
+ * Read cache TTLs from environment with sensible defaults
+ */
+export function getCacheTtlsFromEnv(): CacheTtls {
+  const ttl = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback), 10);
+  return {
+    billingClosedMonth: ttl('CACHE_TTL_BILLING_CLOSED_SECONDS', 24 * 60 * 60),
+    billingCurrentMonth: ttl('CACHE_TTL_BILLING_CURRENT_SECONDS', 5 * 60),
+    tags: ttl('CACHE_TTL_TAGS_SECONDS', 5 * 60),
+    subscriptions: ttl('CACHE_TTL_SUBSCRIPTIONS_SECONDS', 10 * 60),
+    invoices: ttl('CACHE_TTL_INVOICES_SECONDS', 30 * 60),
+  };
+}
+
+/**
+ * Whether a fetch failed because its caller aborted it (axios CanceledError or a DOM AbortError)
+ */
+function isCancellation(error: unknown): boolean {
+  const { code, name } = (error ?? {}) as { code?: string; name?: string };
+  return code === 'ERR_CANCELED' || name === 'AbortError';
+}
+
+/**
+ * Response cache with per-endpoint hit/miss statistics and invalidation by organization
+ */
+export class ResponseCache {
+  private stats: { [endpoint: string]: { hits: number; misses: number } } = {};
+  private pending = new Map<string, Promise<any>>();
+
+  constructor(private store: CacheStore, public readonly ttls: CacheTtls, private enabled: boolean = true) {}
+
+  private record(endpoint: string, hit: boolean): void {
+    if (!this.stats[endpoint]) this.stats[endpoint] = { hits: 0, misses: 0 };
+    if (hit) this.stats[endpoint].hits++;
+    else this.stats[endpoint].misses++;
+  }
+
+  /**
+   * Return a cached value or fetch and store it. Concurrent misses for the same key share one fetch.
+   */
+  async getOrFetch<T>(
+    endpoint: string,
+    key: string,
+    ttlSeconds: number,
+    fetcher: () => Promise<T>,
+    organizationId?: number | (() => Promise<number | undefined>)
+  ): Promise<T> {
+    if (!this.enabled || ttlSeconds <= 0) {
+      return fetcher();
+    }
+
+    const entry = this.store.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.record(endpoint, true);
+      return entry.value as T;
+    }
+
+    this.record(endpoint, false);
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      try {
+        return structuredClone(await inFlight);
+      } catch (error) {
+        // The caller that started the request cancelled it; that is no answer for this caller
+        if (!isCancellation(error)) throw error;
+      }
+    }
+
+    const request = fetcher();
+    this.pending.set(key, request);
+    try {
+      const value = await request;
+      // The owning organization may only be resolvable once there is something to store
+      const owner = typeof organizationId === 'function' ? await organizationId().catch(() => undefined) : organizationId;
+      this.store.set({ key, endpoint, organizationId: owner, expiresAt: Date.now() + ttlSeconds * 1000, value });
+      return value;
+    } finally {
+      if (this.pending.get(key) === request) this.pending.delete(key);
+    }
+  }
+
+  /**
+   * Drop a single cached key
+   */
+  invalidate(key: string): void {
+    this.store.delete(key);
+  }
+
+  /**
+   * Drop every cached entry belonging to an organization
+   * @returns Number of entries removed
+   */
+  invalidateOrganization(organizationId: number): number {
+    const entries = this.store.entries().filter((entry) => entry.organizationId === organizationId);
+    entries.forEach((entry) => this.store.delete(entry.key));
+    return entries.length;
+  }
+
+  /**
+   * Drop all cached entries
+   */
+  clear(): void {
+    this.store.clear();
+  }
+
+  /**
+   * Hit/miss statistics per endpoint and overall
+   */
+  getStats() {
+    const totals = Object.values(this.stats).reduce(
+      (acc, s) => ({ hits: acc.hits + s.hits, misses: acc.misses + s.misses }),
+      { hits: 0, misses: 0 }
+    );
+    const requests = totals.hits + totals.misses;
+    return {
+      enabled: this.enabled,
+      entries: this.store.size(),
+      hits: totals.hits,
+      misses: totals.misses,
+      hitRatePercent: requests > 0 ? parseFloat(((totals.hits / requests) * 100).toFixed(2)) : 0,
+      byEndpoint: this.stats,
+    };
+  }
+}
+
+/**
+ * Create the response cache from environment configuration
+ */
+export function createResponseCacheFromEnv(): ResponseCache {
+  const store: CacheStore = process.env.CACHE_STORE === 'file'
+    ? new FileCacheStore(process.env.CACHE_DIR || './cache', parseInt(process.env.CACHE_SWEEP_INTERVAL_SECONDS || '600', 10))
+    : new MemoryCacheStore(parseInt(process.env.CACHE_MAX_ENTRIES || '5000', 10));
+
+  return new ResponseCache(store, getCacheTtlsFromEnv(), process.env.CACHE_ENABLED !== 'false');
+}
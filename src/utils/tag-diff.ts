@@ -0,0 +1,86 @@
+/**
+ * Tag diff utility for previewing and auditing subscription tag changes
+ */
+
+export type TagSet = Record<string, string>;
+
+export type TagUpdateMode = 'replace' | 'merge';
+
+export interface TagDiff {
+  added: TagSet;
+  changed: Record<string, { from: string; to: string }>;
+  removed: TagSet;
+  unchanged: string[];
+  hasChanges: boolean;
+}
+
+/**
+ * Normalize a tags API response into a flat key/value map
+ */
+export function normalizeTags(tags: any): TagSet {
+  if (!tags || typeof tags !== 'object') {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(tags).map(([key, value]) => [key, value === null || value === undefined ? '' : String(value)])
+  );
+}
+
+/**
+ * Compute the resulting tag set for an update.
+ * 'replace' sends exactly the given tags, 'merge' patches them onto the current tags.
+ * @param current - Tags currently on the subscription
+ * @param tags - Tags to apply
+ * @param mode - Update mode
+ * @param removeKeys - Keys to drop (merge mode only)
+ */
+export function applyTagUpdate(
+  current: TagSet,
+  tags: TagSet,
+  mode: TagUpdateMode = 'replace',
+  removeKeys: string[] = []
+): TagSet {
+  if (mode === 'replace') {
+    return { ...tags };
+  }
+
+  const result: TagSet = { ...current, ...tags };
+  for (const key of removeKeys) {
+    delete result[key];
+  }
+  return result;
+}
+
+/**
+ * Diff two tag sets into added, changed and removed keys
+ */
+export function diffTags(before: TagSet, after: TagSet): TagDiff {
+  const added: TagSet = {};
+  const changed: Record<string, { from: string; to: string }> = {};
+  const removed: TagSet = {};
+  const unchanged: string[] = [];
+
+  for (const [key, value] of Object.entries(after)) {
+    if (!Object.hasOwn(before, key)) {
+      added[key] = value;
+    } else if (before[key] !== value) {
+      changed[key] = { from: before[key], to: value };
+    } else {
+      unchanged.push(key);
+    }
+  }
+
+  for (const [key, value] of Object.entries(before)) {
+    if (!Object.hasOwn(after, key)) {
+      removed[key] = value;
+    }
+  }
+
+  return {
+    added,
+    changed,
+    removed,
+    unchanged,
+    hasChanges: Object.keys(added).length + Object.keys(changed).length + Object.keys(removed).length > 0,
+  };
+}
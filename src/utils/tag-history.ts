@@ -0,0 +1,161 @@
+/**
+ * Tag history - point-in-time subscription tags, so costs can be attributed to the tags that were
+ * in effect during each billing period instead of the tags a subscription has today
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CrayonApiClient } from '../crayon-client.js';
+import { TagSet } from './tag-diff.js';
+import { OrganizationCronRunner, parseOrganizationIds } from './cron.js';
+
+/**
+ * Which tags costs are attributed to: those in effect during each billing period, or today's
+ */
+export type TagAttribution = 'historical' | 'current';
+
+export type TagVersionSource = 'capture' | 'update';
+
+export interface TagVersion {
+  tags: TagSet;
+  // The first time these tags were seen; they stay in effect until the next version
+  validFrom: string;
+  source: TagVersionSource;
+}
+
+export interface SubscriptionTagHistory {
+  subscriptionId: number;
+  organizationId?: number;
+  subscriptionName?: string;
+  versions: TagVersion[];
+  lastCapturedAt: string;
+}
+
+/**
+ * Part of a period during which a subscription had `tags`
+ */
+export interface TagShare {
+  tags: TagSet;
+  share: number;
+}
+
+function sameTags(a: TagSet, b: TagSet): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => Object.hasOwn(b, key) && a[key] === b[key]);
+}
+
+/**
+ * Tag history backed by a JSON file (TAG_HISTORY_FILE). A new version is only appended when a
+ * subscription's tags differ from its latest version, so the file grows with changes, not captures.
+ */
+export class TagHistoryStore {
+  constructor(readonly file: string) {}
+
+  private readAll(): Record<string, SubscriptionTagHistory> {
+    if (!fs.existsSync(this.file)) return {};
+    const data = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+    return data?.subscriptions && typeof data.subscriptions === 'object' ? data.subscriptions : {};
+  }
+
+  private writeAll(subscriptions: Record<string, SubscriptionTagHistory>): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmpFile = `${this.file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify({ subscriptions }, null, 2));
+    fs.renameSync(tmpFile, this.file);
+  }
+
+  /**
+   * Record the tags of several subscriptions as seen at `at`
+   * @returns Number of subscriptions whose tags changed (or were seen for the first time)
+   */
+  recordMany(
+    organizationId: number | undefined,
+    entries: Array<{ subscriptionId: number; subscriptionName?: string; tags: TagSet }>,
+    at: Date,
+    source: TagVersionSource
+  ): number {
+    if (entries.length === 0) return 0;
+
+    const all = this.readAll();
+    const seenAt = at.toISOString();
+    let changed = 0;
+
+    entries.forEach(({ subscriptionId, subscriptionName, tags }) => {
+      const history = all[subscriptionId] ?? { subscriptionId, versions: [], lastCapturedAt: seenAt };
+      if (organizationId !== undefined) history.organizationId = organizationId;
+      if (subscriptionName) history.subscriptionName = subscriptionName;
+
+      const latest = history.versions[history.versions.length - 1];
+      if (!latest || !sameTags(latest.tags, tags)) {
+        history.versions.push({ tags, validFrom: seenAt, source });
+        changed++;
+      }
+      if (seenAt > history.lastCapturedAt) history.lastCapturedAt = seenAt;
+      all[subscriptionId] = history;
+    });
+
+    this.writeAll(all);
+    return changed;
+  }
+
+  history(subscriptionId: number): SubscriptionTagHistory | undefined {
+    return this.readAll()[subscriptionId];
+  }
+
+  /**
+   * Histories of an organization's subscriptions, keyed by subscription ID
+   */
+  forOrganization(organizationId: number): Map<number, SubscriptionTagHistory> {
+    return new Map(
+      Object.values(this.readAll())
+        .filter((history) => history.organizationId === organizationId)
+        .map((history) => [history.subscriptionId, history])
+    );
+  }
+}
+
+/**
+ * Split the period [from, to) by the tag versions in effect. Time before the first recorded
+ * version is attributed to that version, since nothing older is known; `covered` is the fraction
+ * of the period that the recorded history actually spans.
+ */
+export function tagsDuring(history: SubscriptionTagHistory, from: Date, to: Date): { shares: TagShare[]; covered: number } {
+  const start = from.getTime();
+  const length = to.getTime() - start;
+  const versions = [...history.versions].sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+  if (versions.length === 0 || length <= 0) return { shares: [], covered: 0 };
+
+  const shares: TagShare[] = [];
+  versions.forEach((version, idx) => {
+    const versionStart = idx === 0 ? -Infinity : new Date(version.validFrom).getTime();
+    const versionEnd = idx + 1 < versions.length ? new Date(versions[idx + 1].validFrom).getTime() : Infinity;
+    const overlap = Math.min(versionEnd, to.getTime()) - Math.max(versionStart, start);
+    if (overlap > 0) shares.push({ tags: version.tags, share: overlap / length });
+  });
+
+  const historyStart = new Date(versions[0].validFrom).getTime();
+  const covered = Math.max(0, Math.min(1, (to.getTime() - Math.max(historyStart, start)) / length));
+  return { shares, covered };
+}
+
+/**
+ * Create the tag history store from TAG_HISTORY_FILE
+ */
+export function createTagHistoryStoreFromEnv(): TagHistoryStore {
+  return new TagHistoryStore(process.env.TAG_HISTORY_FILE || './data/tag-history.json');
+}
+
+/**
+ * Create the scheduler that captures the tags of the organizations in TAG_CAPTURE_ORGANIZATIONS on
+ * the TAG_CAPTURE_SCHEDULE cron schedule, feeding the tag history
+ */
+export function createTagCaptureSchedulerFromEnv(client: CrayonApiClient): OrganizationCronRunner {
+  return new OrganizationCronRunner(
+    'Tag capture',
+    parseOrganizationIds(process.env.TAG_CAPTURE_ORGANIZATIONS),
+    process.env.TAG_CAPTURE_SCHEDULE || '0 2 * * *',
+    async (organizationId) => {
+      const result = await client.captureTagHistory(organizationId);
+      return { subscriptions: result.subscriptions, changed: result.changed, failures: result.tagFetchFailures.length };
+    }
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Tag policy utility - loads a mandatory tagging policy and evaluates subscription tags against it
+ */
+import * as fs from 'fs';
+import Joi from 'joi';
+import { validateRegexPattern } from '../middleware/validation.js';
+import { TagSet } from './tag-diff.js';
+
+export interface TagKeyPolicy {
+  required?: boolean;
+  allowedValues?: string[];
+  pattern?: string;
+}
+
+export interface TagPolicy {
+  name?: string;
+  tags: Record<string, TagKeyPolicy>;
+}
+
+export interface TagComplianceResult {
+  compliant: boolean;
+  missingKeys: string[];
+  invalidValues: Array<{ key: string; value: string; reason: string }>;
+}
+
+const tagPatternSchema = Joi.string().max(100).custom((value, helpers) => {
+  const validation = validateRegexPattern(value);
+  if (validation.error) {
+    return helpers.message({ custom: validation.error });
+  }
+  return value;
+});
+
+const tagPolicySchema = Joi.object({
+  name: Joi.string().max(200),
+  tags: Joi.object()
+    .pattern(
+      Joi.string(),
+      Joi.object({
+        required: Joi.boolean().default(false),
+        allowedValues: Joi.array().items(Joi.string()).min(1),
+        pattern: tagPatternSchema,
+      })
+    )
+    .min(1)
+    .required(),
+});
+
+/**
+ * Validate a tag policy definition
+ */
+export function parseTagPolicy(raw: any): TagPolicy {
+  const { error, value } = tagPolicySchema.validate(raw, { abortEarly: false });
+  if (error) {
+    throw new Error(`Invalid tag policy: ${error.message}`);
+  }
+  return value;
+}
+
+/**
+ * Load the tag policy from TAG_POLICY_FILE
+ */
+export function loadTagPolicy(): TagPolicy {
+  const policyFile = process.env.TAG_POLICY_FILE;
+  if (!policyFile) {
+    throw new Error('No tag policy configured: set TAG_POLICY_FILE or pass a policy');
+  }
+  return parseTagPolicy(JSON.parse(fs.readFileSync(policyFile, 'utf-8')));
+}
+
+/**
+ * Evaluate one subscription's tags against the policy.
+ * Keys are matched case-sensitively; values are checked against allowedValues and pattern.
+ */
+export function evaluateTagCompliance(tags: TagSet, policy: TagPolicy): TagComplianceResult {
+  const missingKeys: string[] = [];
+  const invalidValues: Array<{ key: string; value: string; reason: string }> = [];
+
+  for (const [key, rule] of Object.entries(policy.tags)) {
+    const value = Object.hasOwn(tags, key) ? tags[key] : undefined;
+
+    if (value === undefined || value === '') {
+      if (rule.required) missingKeys.push(key);
+      continue;
+    }
+
+    if (rule.allowedValues && !rule.allowedValues.includes(value)) {
+      invalidValues.push({ key, value, reason: `Not one of allowed values: ${rule.allowedValues.join(', ')}` });
+    } else if (rule.pattern && !new RegExp(rule.pattern).test(value)) {
+      invalidValues.push({ key, value, reason: `Does not match pattern ${rule.pattern}` });
+    }
+  }
+
+  return {
+    compliant: missingKeys.length === 0 && invalidValues.length === 0,
+    missingKeys,
+    invalidValues,
+  };
+}
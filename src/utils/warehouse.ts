@@ -0,0 +1,342 @@
+/**
+ * Cost warehouse - a local SQLite copy (WAREHOUSE_FILE) of grouped billing statements, invoices,
+ * subscriptions and per-month tag snapshots, so analytics can run without the live API
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+import type { CrayonApiClient } from '../crayon-client.js';
+import { GroupedBillingStatement, Invoice, Subscription } from '../models/crayon.js';
+import { TagSet } from './tag-diff.js';
+import { OrganizationCronRunner, parseOrganizationIds } from './cron.js';
+
+/**
+ * Where analytics read billing history from: the live API or the local warehouse
+ */
+export type CostSource = 'api' | 'warehouse';
+
+/**
+ * A statement as stored in the warehouse, with the subscription's tags as of its billing month
+ */
+export type WarehouseStatement = GroupedBillingStatement & { Tags: TagSet };
+
+export interface WarehouseMonth {
+  month: string;
+  statementCount: number;
+  syncedAt: string;
+}
+
+export interface WarehouseStatus {
+  file: string;
+  organizationId: number;
+  months: WarehouseMonth[];
+  subscriptions: number;
+  invoices: number;
+  tagSnapshots: number;
+  lastSyncAt: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS statements (
+    organization_id INTEGER NOT NULL,
+    billing_month TEXT NOT NULL,
+    subscription_id INTEGER,
+    subscription_name TEXT,
+    invoice_profile_id INTEGER,
+    product_name TEXT,
+    provision_type TEXT,
+    start_date TEXT,
+    end_date TEXT,
+    amount REAL NOT NULL,
+    currency TEXT NOT NULL,
+    tags TEXT NOT NULL,
+    json TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS statements_org_month ON statements (organization_id, billing_month);
+
+  CREATE TABLE IF NOT EXISTS statement_months (
+    organization_id INTEGER NOT NULL,
+    billing_month TEXT NOT NULL,
+    statement_count INTEGER NOT NULL,
+    synced_at TEXT NOT NULL,
+    PRIMARY KEY (organization_id, billing_month)
+  );
+
+  CREATE TABLE IF NOT EXISTS subscriptions (
+    id INTEGER PRIMARY KEY,
+    organization_id INTEGER NOT NULL,
+    name TEXT,
+    status TEXT,
+    json TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS invoices (
+    id INTEGER PRIMARY KEY,
+    organization_id INTEGER NOT NULL,
+    invoice_number TEXT,
+    invoice_date TEXT,
+    due_date TEXT,
+    status TEXT,
+    invoice_profile_id INTEGER,
+    amount REAL NOT NULL,
+    currency TEXT NOT NULL,
+    json TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS tag_snapshots (
+    organization_id INTEGER NOT NULL,
+    billing_month TEXT NOT NULL,
+    subscription_id INTEGER NOT NULL,
+    tags TEXT NOT NULL,
+    captured_at TEXT NOT NULL,
+    PRIMARY KEY (organization_id, billing_month, subscription_id)
+  );
+`;
+
+function monthEnd(month: string): Date {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber, 1);
+}
+
+/**
+ * Raised when WAREHOUSE_FILE is set but this Node.js has no node:sqlite.
+ * The message is safe to show to clients and tells them how to fix the configuration.
+ */
+export class WarehouseConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WarehouseConfigurationError';
+  }
+}
+
+/**
+ * SQLite store for synced cost history. node:sqlite is loaded on first use, so the server runs
+ * on Node versions without it as long as the warehouse is not configured.
+ */
+export class CostWarehouse {
+  private db: DatabaseSync | null = null;
+
+  constructor(readonly file: string) {}
+
+  private async open(): Promise<DatabaseSync> {
+    if (!this.db) {
+      let sqlite: typeof import('node:sqlite');
+      try {
+        sqlite = await import('node:sqlite');
+      } catch {
+        throw new WarehouseConfigurationError(
+          `The cost warehouse (WAREHOUSE_FILE) needs node:sqlite, available from Node.js 22.5 ` +
+            `(with --experimental-sqlite before 22.13); this is ${process.version}. Upgrade Node.js or unset WAREHOUSE_FILE.`
+        );
+      }
+      const { DatabaseSync } = sqlite;
+      fs.mkdirSync(path.dirname(path.resolve(this.file)), { recursive: true });
+      this.db = new DatabaseSync(this.file);
+      this.db.exec('PRAGMA journal_mode = WAL;');
+      this.db.exec(SCHEMA);
+    }
+    return this.db;
+  }
+
+  private async transaction<T>(work: (db: DatabaseSync) => T): Promise<T> {
+    const db = await this.open();
+    db.exec('BEGIN');
+    try {
+      const result = work(db);
+      db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Months already synced, with the time of their last sync
+   */
+  async syncedMonths(organizationId: number): Promise<Map<string, WarehouseMonth>> {
+    const db = await this.open();
+    const rows = db
+      .prepare('SELECT billing_month, statement_count, synced_at FROM statement_months WHERE organization_id = ? ORDER BY billing_month')
+      .all(organizationId);
+    return new Map(rows.map((row) => [String(row.billing_month), {
+      month: String(row.billing_month),
+      statementCount: Number(row.statement_count),
+      syncedAt: String(row.synced_at),
+    }]));
+  }
+
+  /**
+   * Replace a billing month's statements; each row carries the tag snapshot of that month
+   */
+  async replaceMonth(organizationId: number, month: string, statements: GroupedBillingStatement[], syncedAt: string): Promise<void> {
+    await this.transaction((db) => {
+      const snapshots = this.readTagSnapshot(db, organizationId, month);
+      db.prepare('DELETE FROM statements WHERE organization_id = ? AND billing_month = ?').run(organizationId, month);
+
+      const insert = db.prepare(`
+        INSERT INTO statements (organization_id, billing_month, subscription_id, subscription_name, invoice_profile_id,
+          product_name, provision_type, start_date, end_date, amount, currency, tags, json)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      statements.forEach((item) => insert.run(
+        organizationId,
+        month,
+        item.SubscriptionId ?? null,
+        item.SubscriptionName ?? null,
+        item.InvoiceProfile?.Id ?? null,
+        item.Product?.Name ?? null,
+        item.ProvisionType ?? null,
+        item.StartDate ?? null,
+        item.EndDate ?? null,
+        item.TotalSalesPrice.amount,
+        item.TotalSalesPrice.currency,
+        JSON.stringify(item.SubscriptionId !== undefined ? snapshots.get(item.SubscriptionId) ?? {} : {}),
+        JSON.stringify(item)
+      ));
+
+      db.prepare(`
+        INSERT INTO statement_months (organization_id, billing_month, statement_count, synced_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (organization_id, billing_month) DO UPDATE SET statement_count = excluded.statement_count, synced_at = excluded.synced_at
+      `).run(organizationId, month, statements.length, syncedAt);
+    });
+  }
+
+  private readTagSnapshot(db: DatabaseSync, organizationId: number, month: string): Map<number, TagSet> {
+    const rows = db
+      .prepare('SELECT subscription_id, tags FROM tag_snapshots WHERE organization_id = ? AND billing_month = ?')
+      .all(organizationId, month);
+    return new Map(rows.map((row) => [Number(row.subscription_id), JSON.parse(String(row.tags))]));
+  }
+
+  /**
+   * Record the tags of `month`. A snapshot taken after the month ended is final and is not
+   * overwritten; earlier snapshots are refreshed so the final one reflects the end of the month.
+   * @returns Number of subscriptions whose snapshot was written
+   */
+  async saveTagSnapshot(organizationId: number, month: string, tagsById: Map<number, TagSet>, capturedAt: Date): Promise<number> {
+    const final = monthEnd(month).toISOString();
+    return this.transaction((db) => {
+      const upsert = db.prepare(`
+        INSERT INTO tag_snapshots (organization_id, billing_month, subscription_id, tags, captured_at) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (organization_id, billing_month, subscription_id) DO UPDATE SET tags = excluded.tags, captured_at = excluded.captured_at
+        WHERE tag_snapshots.captured_at < ?
+      `);
+      let written = 0;
+      tagsById.forEach((tags, subscriptionId) => {
+        written += Number(upsert.run(organizationId, month, subscriptionId, JSON.stringify(tags), capturedAt.toISOString(), final).changes);
+      });
+
+      // Statements already stored for the month pick up the (possibly refreshed) snapshot
+      const update = db.prepare(`
+        UPDATE statements SET tags = (
+          SELECT tags FROM tag_snapshots s
+          WHERE s.organization_id = statements.organization_id AND s.billing_month = statements.billing_month
+            AND s.subscription_id = statements.subscription_id
+        )
+        WHERE organization_id = ? AND billing_month = ? AND subscription_id IN (
+          SELECT subscription_id FROM tag_snapshots WHERE organization_id = ? AND billing_month = ?
+        )
+      `);
+      update.run(organizationId, month, organizationId, month);
+      return written;
+    });
+  }
+
+  async upsertSubscriptions(organizationId: number, subscriptions: Subscription[], syncedAt: string): Promise<void> {
+    await this.transaction((db) => {
+      const upsert = db.prepare(`
+        INSERT INTO subscriptions (id, organization_id, name, status, json, synced_at) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET organization_id = excluded.organization_id, name = excluded.name,
+          status = excluded.status, json = excluded.json, synced_at = excluded.synced_at
+      `);
+      subscriptions.forEach((sub) => upsert.run(sub.Id, organizationId, sub.Name ?? null, sub.Status ?? null, JSON.stringify(sub), syncedAt));
+    });
+  }
+
+  async upsertInvoices(organizationId: number, invoices: Invoice[], syncedAt: string): Promise<void> {
+    await this.transaction((db) => {
+      const upsert = db.prepare(`
+        INSERT INTO invoices (id, organization_id, invoice_number, invoice_date, due_date, status, invoice_profile_id, amount, currency, json, synced_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET organization_id = excluded.organization_id, invoice_number = excluded.invoice_number,
+          invoice_date = excluded.invoice_date, due_date = excluded.due_date, status = excluded.status,
+          invoice_profile_id = excluded.invoice_profile_id, amount = excluded.amount, currency = excluded.currency,
+          json = excluded.json, synced_at = excluded.synced_at
+      `);
+      invoices.forEach((invoice) => upsert.run(
+        invoice.Id,
+        organizationId,
+        invoice.InvoiceNumber ?? null,
+        invoice.Date ?? null,
+        invoice.DueDate ?? null,
+        invoice.Status ?? null,
+        invoice.InvoiceProfile?.Id ?? null,
+        invoice.TotalSalesPrice.amount,
+        invoice.TotalSalesPrice.currency,
+        JSON.stringify(invoice),
+        syncedAt
+      ));
+    });
+  }
+
+  /**
+   * Statements of the billing months from `fromMonth` to `toMonth` (YYYY-MM, inclusive)
+   */
+  async statements(organizationId: number, fromMonth: string, toMonth: string): Promise<WarehouseStatement[]> {
+    const db = await this.open();
+    return db
+      .prepare('SELECT json, tags FROM statements WHERE organization_id = ? AND billing_month BETWEEN ? AND ? ORDER BY billing_month')
+      .all(organizationId, fromMonth, toMonth)
+      .map((row) => ({ ...JSON.parse(String(row.json)), Tags: JSON.parse(String(row.tags)) }));
+  }
+
+  async subscriptions(organizationId: number): Promise<Subscription[]> {
+    const db = await this.open();
+    return db
+      .prepare('SELECT json FROM subscriptions WHERE organization_id = ? ORDER BY id')
+      .all(organizationId)
+      .map((row) => JSON.parse(String(row.json)));
+  }
+
+  async status(organizationId: number): Promise<WarehouseStatus> {
+    const db = await this.open();
+    const count = (sql: string) => Number(db.prepare(sql).get(organizationId)?.count ?? 0);
+    const months = Array.from((await this.syncedMonths(organizationId)).values());
+
+    return {
+      file: path.resolve(this.file),
+      organizationId,
+      months,
+      subscriptions: count('SELECT COUNT(*) AS count FROM subscriptions WHERE organization_id = ?'),
+      invoices: count('SELECT COUNT(*) AS count FROM invoices WHERE organization_id = ?'),
+      tagSnapshots: count('SELECT COUNT(*) AS count FROM tag_snapshots WHERE organization_id = ?'),
+      lastSyncAt: months.reduce<string | null>((latest, m) => (!latest || m.syncedAt > latest ? m.syncedAt : latest), null),
+    };
+  }
+}
+
+/**
+ * Create the warehouse from WAREHOUSE_FILE; null when it is not configured
+ */
+export function createCostWarehouseFromEnv(): CostWarehouse | null {
+  return process.env.WAREHOUSE_FILE ? new CostWarehouse(process.env.WAREHOUSE_FILE) : null;
+}
+
+/**
+ * Create the scheduler that syncs the organizations in WAREHOUSE_SYNC_ORGANIZATIONS on the
+ * WAREHOUSE_SYNC_SCHEDULE cron schedule
+ */
+export function createWarehouseSyncSchedulerFromEnv(client: CrayonApiClient): OrganizationCronRunner {
+  return new OrganizationCronRunner(
+    'Warehouse sync',
+    parseOrganizationIds(process.env.WAREHOUSE_SYNC_ORGANIZATIONS),
+    process.env.WAREHOUSE_SYNC_SCHEDULE || '0 3 * * *',
+    async (organizationId) => {
+      const result = await client.syncWarehouse(organizationId);
+      return { monthsSynced: result.monthsSynced.length, monthsSkipped: result.monthsSkipped };
+    }
+  );
+}
@@ -0,0 +1,184 @@
+import { after, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { CrayonApiClient, CostAnomaly } from '../src/crayon-client.js';
+import { AlertWatcher, loadAlertConfig, parseAlertConfig } from '../src/utils/alerts.js';
+import {
+  Alert,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  renderAlertPayload,
+  verifyAlertSignature,
+} from '../src/utils/alert-webhooks.js';
+import { BudgetStore } from '../src/utils/budgets.js';
+import { logger } from '../src/middleware/logger.js';
+import { reply, stubServer } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+const SECRET = 'a-webhook-secret-of-some-length';
+
+const anomaly = (subscriptionId: string, changePercent: number): CostAnomaly => ({
+  type: 'spike',
+  subscriptionId,
+  subscriptionName: `Subscription ${subscriptionId}`,
+  month: '2026-09',
+  actualCost: 2000,
+  expectedCost: 1000,
+  change: 1000,
+  changePercent,
+  score: 5,
+  drivers: [],
+  explanation: `Increase on ${subscriptionId}`,
+});
+
+describe('alert delivery to a webhook receiver', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alerts-'));
+  const statuses: number[] = [];
+  let anomalies: CostAnomaly[] = [];
+  const receiver = stubServer(() => reply(statuses.shift() ?? 200));
+  const received = receiver.requests;
+
+  const client = {
+    detectCostAnomalies: async () => ({ currency: 'NOK', method: 'mad', anomalies }),
+  } as unknown as CrayonApiClient;
+
+  let watcher: AlertWatcher;
+  let stateFiles = 0;
+
+  beforeEach(() => {
+    received.length = 0;
+    statuses.length = 0;
+    const config = parseAlertConfig({
+      webhooks: [{ id: 'receiver', url: receiver.url('/alerts'), secret: SECRET }],
+      organizations: [{ organizationId: 1, budgets: { enabled: false } }],
+    });
+    const stateFile = path.join(dir, `state-${++stateFiles}.json`);
+    watcher = new AlertWatcher(client, new BudgetStore(path.join(dir, 'budgets.json')), config, stateFile);
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('signs the exact body with a sha256= HMAC over timestamp and body', async () => {
+    anomalies = [anomaly('sub-1', 150)];
+
+    await watcher.runCycle();
+
+    assert.equal(received.length, 1);
+    const { headers, body } = received[0];
+    const signature = String(headers[SIGNATURE_HEADER.toLowerCase()]);
+    const timestamp = String(headers[TIMESTAMP_HEADER.toLowerCase()]);
+    assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+    assert.ok(Math.abs(Number(timestamp) - Date.now() / 1000) < 60);
+    assert.equal(verifyAlertSignature(SECRET, timestamp, body, signature), true);
+    assert.equal(verifyAlertSignature(SECRET, timestamp, body.replace('sub-1', 'sub-9'), signature), false);
+    assert.equal(verifyAlertSignature('another-secret-entirely', timestamp, body, signature), false);
+
+    const payload = JSON.parse(body);
+    assert.equal(payload.alerts[0].severity, 'critical');
+    assert.equal(payload.alerts[0].subscriptionId, 'sub-1');
+  });
+
+  it('retries a failed delivery on the next cycle and then sends each alert once', async () => {
+    anomalies = [anomaly('sub-1', 50)];
+    statuses.push(500);
+
+    const failed = await watcher.runCycle();
+    assert.match(failed?.deliveries[0].error ?? '', /500/);
+
+    const retried = await watcher.runCycle();
+    assert.equal(retried?.deliveries[0].status, 200);
+    assert.equal(retried?.newAlerts, 0);
+
+    const deduplicated = await watcher.runCycle();
+    assert.deepEqual(deduplicated?.deliveries, []);
+    assert.equal(received.length, 2);
+    assert.equal(received[0].body.includes('sub-1'), true);
+  });
+
+  it('does not deliver silenced alerts', async () => {
+    anomalies = [anomaly('sub-1', 50), anomaly('sub-2', 50)];
+    watcher.silence(1, { subscriptionId: 'sub-2' }, 1, 'tester', 'Known migration');
+
+    const result = await watcher.runCycle();
+
+    assert.equal(result?.alertsDetected, 2);
+    assert.equal(result?.suppressed, 1);
+    assert.equal(received.length, 1);
+    const delivered = JSON.parse(received[0].body).alerts.map((alert: Alert) => alert.subscriptionId);
+    assert.deepEqual(delivered, ['sub-1']);
+    assert.deepEqual(watcher.list(1, 'silenced').map((alert) => alert.subscriptionId), ['sub-2']);
+  });
+});
+
+describe('alert files', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alert-files-'));
+  after(() => {
+    delete process.env.ALERTS_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('names the configuration file and the parse error when ALERTS_FILE is not valid JSON', () => {
+    const file = path.join(dir, 'alerts.json');
+    fs.writeFileSync(file, '{ "webhooks": [ }');
+    process.env.ALERTS_FILE = file;
+
+    assert.throws(() => loadAlertConfig(), (error: unknown) => {
+      assert.ok(error instanceof Error);
+      assert.ok(error.message.startsWith(`Invalid alert configuration: cannot read ${file}: `), error.message);
+      assert.ok(error.cause instanceof SyntaxError);
+      assert.ok(error.message.endsWith(error.cause.message));
+      return true;
+    });
+  });
+
+  it('names a missing configuration file', () => {
+    process.env.ALERTS_FILE = path.join(dir, 'missing.json');
+
+    assert.throws(() => loadAlertConfig(), /^Error: Invalid alert configuration: cannot read .*missing\.json: ENOENT/);
+  });
+
+  it('starts from an empty state when the state file is unreadable, logging the file and the parse error', () => {
+    const stateFile = path.join(dir, 'state.json');
+    fs.writeFileSync(stateFile, '{ "alerts": ');
+    const warn = mock.method(logger, 'warn');
+
+    try {
+      const watcher = new AlertWatcher({} as CrayonApiClient, new BudgetStore(path.join(dir, 'budgets.json')), null, stateFile);
+
+      assert.deepEqual(watcher.list(1), []);
+      const [message, meta] = warn.mock.calls[0].arguments as unknown as [string, { stateFile: string; error: string }];
+      assert.equal(message, `Ignoring unreadable alert state file ${stateFile}`);
+      assert.equal(meta.stateFile, stateFile);
+      assert.match(meta.error, /JSON/);
+    } finally {
+      warn.mock.restore();
+    }
+  });
+});
+
+describe('Slack payloads', () => {
+  it('escapes &, < and > in mrkdwn text', () => {
+    const alert: Alert = {
+      id: 'abc',
+      kind: 'anomaly',
+      severity: 'warning',
+      organizationId: 1,
+      title: 'Cost spike on <!channel> & co',
+      text: 'See <https://evil.example|here> > now',
+      details: {},
+      detectedAt: new Date().toISOString(),
+    };
+
+    const payload = renderAlertPayload('slack', [alert], new Date().toISOString()) as { blocks: any[] };
+    const section = payload.blocks.find((block) => block.type === 'section');
+
+    assert.equal(
+      section.text.text,
+      ':large_orange_circle: *Cost spike on &lt;!channel&gt; &amp; co*\nSee &lt;https://evil.example|here&gt; &gt; now'
+    );
+  });
+});
+
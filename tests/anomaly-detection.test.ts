@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_THRESHOLDS, minimumHistory, scoreValue } from '../src/utils/anomaly-detection.js';
+import { logger } from '../src/middleware/logger.js';
+import { crayonStub } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+const near = (actual: number, expected: number, message?: string) =>
+  assert.ok(Math.abs(actual - expected) < 1e-6, message ?? `${actual} is not ${expected}`);
+
+describe('scoreValue', () => {
+  it('scores against the mean and standard deviation of the window with zscore', () => {
+    const scored = scoreValue([999, 10, 20, 30], 50, 'zscore', 3);
+
+    // The window keeps the last 3 values: mean 20, standard deviation 10
+    assert.equal(scored?.method, 'zscore');
+    near(scored!.expected, 20);
+    near(scored!.score, 3);
+  });
+
+  it('scores against the median and scaled median absolute deviation with mad', () => {
+    const scored = scoreValue([100, 110, 90, 100, 1000], 140, 'mad', 5);
+
+    // Median 100; absolute deviations 0, 10, 10, 0, 900 have median 10, so the outlier does not widen the spread
+    assert.equal(scored?.method, 'mad');
+    near(scored!.expected, 100);
+    near(scored!.score, (0.6745 * 40) / 10);
+  });
+
+  it('scores against the same month a year earlier with seasonal', () => {
+    // Flat at 100 except a December peak of 400; two years of history and this December to score
+    const history = Array.from({ length: 35 }, (_, i) => (i % 12 === 11 ? 400 : 100));
+
+    const usual = scoreValue(history, 400, 'seasonal', 6);
+    assert.equal(usual?.method, 'seasonal');
+    near(usual!.expected, 400);
+    near(usual!.score, 0);
+
+    const doubled = scoreValue(history, 800, 'seasonal', 6);
+    assert.ok(doubled!.score > DEFAULT_THRESHOLDS.seasonal);
+    // The same 400 peak would be a large spike for a method that ignores the season
+    assert.ok(scoreValue(history, 400, 'mad', 6)!.score > DEFAULT_THRESHOLDS.mad);
+  });
+
+  it('falls back to MAD when there is less than a season of history for seasonal', () => {
+    const scored = scoreValue([100, 110, 90, 100], 140, 'seasonal', 6);
+
+    assert.equal(minimumHistory('seasonal'), 13);
+    assert.equal(scored?.method, 'mad');
+    near(scored!.score, (0.6745 * 40) / 5);
+  });
+
+  it('returns null without enough history', () => {
+    assert.equal(minimumHistory('zscore'), 3);
+    assert.equal(scoreValue([100, 100], 500, 'zscore', 6), null);
+    assert.equal(scoreValue([100, 100], 500, 'mad', 6), null);
+    // The window limits the baseline even when there is more history
+    assert.equal(scoreValue([100, 100, 100, 100], 500, 'mad', 2), null);
+  });
+
+  it('floors the spread of a flat baseline at 5% of the expected level', () => {
+    const zscore = scoreValue([100, 100, 100, 100], 110, 'zscore', 6);
+    near(zscore!.score, 10 / 5);
+
+    // Most values equal gives a MAD of 0, even though the values are not all the same
+    const mad = scoreValue([100, 100, 100, 300], 110, 'mad', 6);
+    near(mad!.expected, 100);
+    near(mad!.score, (0.6745 * 10) / 5);
+
+    const below = scoreValue([100, 100, 100, 100], 90, 'zscore', 6);
+    near(below!.score, -2);
+  });
+
+  it('keeps the score finite for a baseline of zeros', () => {
+    const scored = scoreValue([0, 0, 0], 1, 'mad', 6);
+
+    assert.ok(Number.isFinite(scored!.score));
+    assert.ok(scored!.score > DEFAULT_THRESHOLDS.mad);
+    assert.equal(scoreValue([0, 0, 0], 0, 'zscore', 6)!.score, 0);
+  });
+});
+
+describe('detectCostAnomalies', () => {
+  // Nine months of history for July 2026: 2025-10 to 2026-06, the last three analyzed
+  const months = ['2025-10', '2025-11', '2025-12', '2026-01', '2026-02', '2026-03', '2026-04', '2026-05', '2026-06'];
+  const series = (id: number, costs: Record<string, number>, base: number) =>
+    months.map((month) => ({
+      SubscriptionId: id,
+      StartDate: `${month}-01T00:00:00`,
+      EndDate: `${month}-01T00:00:00`,
+      TotalSalesPrice: costs[month] ?? base,
+      CurrencyCode: 'NOK',
+    }));
+  const statements = [
+    // +500 (50%) in May
+    ...series(1, { '2026-05': 1500 }, 1000),
+    // +50 (500%) in May: below minAbsoluteChange
+    ...series(2, { '2026-05': 60 }, 10),
+    // +3000 (30%) in May: a high score, but below changeThresholdPercent
+    ...series(3, { '2026-05': 13000 }, 10000),
+    // First cost in June
+    ...series(4, { '2026-06': 200 }, 0),
+    // First cost in June, below minAbsoluteChange
+    ...series(5, { '2026-06': 40 }, 0),
+  ].filter((statement) => statement.TotalSalesPrice !== 0);
+
+  const stub = crayonStub(({ url }) => {
+    if (url.pathname === '/subscriptions/') {
+      return { TotalHits: 5, Items: [1, 2, 3, 4, 5].map((id) => ({ Id: id, Name: `Subscription ${id}` })) };
+    }
+    if (url.pathname === '/billingstatements/grouped') return { TotalHits: statements.length, Items: statements };
+    return undefined;
+  });
+
+  beforeEach(() => mock.timers.enable({ apis: ['Date'], now: new Date(2026, 6, 15, 12) }));
+  afterEach(() => mock.timers.reset());
+
+  it('only reports changes that pass both the absolute and the percentage gate', async () => {
+    const result = await stub.client().detectCostAnomalies(1, { changeThresholdPercent: 40 });
+
+    assert.deepEqual(result.analyzedMonths, ['2026-04', '2026-05', '2026-06']);
+    assert.deepEqual(
+      result.anomalies.map((a) => [a.subscriptionId, a.type, a.month, a.change, a.changePercent]),
+      [
+        ['1', 'spike', '2026-05', 500, 50],
+        ['4', 'new', '2026-06', 200, null],
+      ]
+    );
+    assert.match(result.anomalies[0].explanation, /^Increase of 500\.00 NOK \(50\.0%\) in 2026-05 against an expected 1000\.00 NOK/);
+  });
+
+  it('reports the smaller changes once the gates are lowered', async () => {
+    const result = await stub.client().detectCostAnomalies(1, { minAbsoluteChange: 10, changeThresholdPercent: 10 });
+
+    assert.deepEqual(
+      result.anomalies.map((a) => [a.subscriptionId, a.month]).sort(),
+      [['1', '2026-05'], ['2', '2026-05'], ['3', '2026-05'], ['4', '2026-06'], ['5', '2026-06']]
+    );
+  });
+
+  it('still needs a score above the threshold, whatever the size of the change', async () => {
+    const result = await stub.client().detectCostAnomalies(1, { minAbsoluteChange: 0, changeThresholdPercent: 0, threshold: 5 });
+
+    // Subscription 1 scores 0.6745 * 500 / 50 = 6.7, subscription 2 67 and subscription 3 only 0.6745 * 3000 / 500 = 4.0
+    assert.deepEqual(result.anomalies.filter((a) => a.type === 'spike').map((a) => a.subscriptionId).sort(), ['1', '2']);
+  });
+});
+
+describe('detectDailyAnomalies', () => {
+  // July 15th 2026: the last 7 complete days are 07-08 to 07-14, after a 14 day baseline from 06-24
+  const days = Array.from({ length: 21 }, (_, i) => {
+    const date = new Date(2026, 5, 24 + i);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  });
+  const resources: Array<{ group: string; category: string; cost: (day: string) => number }> = [
+    // +200 (200%) on the last day
+    { group: 'rg-app', category: 'Compute', cost: (day) => (day === '2026-07-14' ? 300 : 100) },
+    // +40 (400%) on the last day: below minAbsoluteChange
+    { group: 'rg-data', category: 'Storage', cost: (day) => (day === '2026-07-14' ? 50 : 10) },
+    // +400 (40%) the day before: below changeThresholdPercent
+    { group: 'rg-net', category: 'Networking', cost: (day) => (day === '2026-07-13' ? 1400 : 1000) },
+  ];
+
+  const stub = crayonStub(({ url }) => {
+    if (url.pathname.startsWith('/AzurePlans/1/azureSubscriptions')) return { TotalHits: 1, Items: [{ Id: 2, Name: 'Production' }] };
+    if (!url.pathname.endsWith('/monthlyUsage')) return undefined;
+    const month = `${url.searchParams.get('year')}-${url.searchParams.get('month')?.padStart(2, '0')}`;
+    const rows = days
+      .filter((day) => day.startsWith(month))
+      .flatMap((day) =>
+        resources.map(({ group, category, cost }) => ({
+          Date: day,
+          Cost: cost(day),
+          Currency: 'NOK',
+          ResourceGroup: group,
+          MeterCategory: category,
+          ResourceId: `/subscriptions/2/resourceGroups/${group}/providers/x/${category.toLowerCase()}`,
+        }))
+      );
+    return { Items: rows };
+  });
+
+  beforeEach(() => mock.timers.enable({ apis: ['Date'], now: new Date(2026, 6, 15, 12) }));
+  afterEach(() => mock.timers.reset());
+
+  it('only reports increases that pass both the absolute and the percentage gate', async () => {
+    const result = await stub.client().detectDailyAnomalies(1);
+
+    assert.deepEqual(result.period, { from: '2026-07-08', to: '2026-07-14' });
+    assert.deepEqual(
+      result.anomalies.map((a: any) => [a.dimension, a.key, a.date, a.change, a.changePercent]),
+      [
+        ['resourceGroup', 'Production/rg-app', '2026-07-14', 200, 200],
+        ['meterCategory', 'Compute', '2026-07-14', 200, 200],
+      ]
+    );
+    assert.equal(result.anomalies[0].topResources[0].resourceId, '/subscriptions/2/resourceGroups/rg-app/providers/x/compute');
+  });
+
+  it('reports the smaller increases once the gates are lowered', async () => {
+    const result = await stub.client().detectDailyAnomalies(1, { minAbsoluteChange: 20, changeThresholdPercent: 20 });
+    const found = result.anomalies.map((a: any) => `${a.dimension} ${a.key} ${a.date}`);
+
+    assert.ok(found.includes('resourceGroup Production/rg-data 2026-07-14'), found.join('; '));
+    assert.ok(found.includes('meterCategory Networking 2026-07-13'), found.join('; '));
+    // The subscription total rose 400 (36%) on the 13th; the 240 on the 14th scores below the threshold
+    assert.ok(found.includes('subscription Production 2026-07-13'), found.join('; '));
+    assert.ok(!found.includes('subscription Production 2026-07-14'), found.join('; '));
+  });
+
+  it('does not report drops', async () => {
+    const result = await stub.client().detectDailyAnomalies(1, { minAbsoluteChange: 0, changeThresholdPercent: 0 });
+
+    // Networking drops back to its baseline the day after its spike
+    assert.ok(result.anomalies.length > 0);
+    assert.ok(result.anomalies.every((a: any) => a.change > 0 && a.type === 'spike'));
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import type { CrayonApiClient } from '../src/crayon-client.js';
+import { checkOrganizationAccess, hasRequiredRole } from '../src/middleware/auth.js';
+import { loadTokenRegistry } from '../src/middleware/token-registry.js';
+import { authorizeToolCall, resolveToolOrganization } from '../src/middleware/tool-authorization.js';
+import { logger } from '../src/middleware/logger.js';
+
+logger.silent = true;
+
+describe('role hierarchy', () => {
+  it('lets higher roles satisfy lower requirements', () => {
+    assert.equal(hasRequiredRole(['admin'], 'editor'), true);
+    assert.equal(hasRequiredRole(['admin'], 'viewer'), true);
+    assert.equal(hasRequiredRole(['editor'], 'viewer'), true);
+    assert.equal(hasRequiredRole(['editor'], 'editor'), true);
+  });
+
+  it('rejects lower roles for higher requirements', () => {
+    assert.equal(hasRequiredRole(['viewer'], 'editor'), false);
+    assert.equal(hasRequiredRole(['editor'], 'admin'), false);
+    assert.equal(hasRequiredRole([], 'viewer'), false);
+  });
+
+  it('matches roles outside the hierarchy exactly', () => {
+    assert.equal(hasRequiredRole(['billing'], 'billing'), true);
+    assert.equal(hasRequiredRole(['editor'], 'billing'), false);
+    assert.equal(hasRequiredRole(['admin'], 'billing'), true);
+    assert.equal(hasRequiredRole(['billing'], 'viewer'), false);
+  });
+
+  it('checks organization membership before roles', () => {
+    const editor = { id: 'u1', email: 'editor@example.com', organizations: [1], roles: ['editor'] };
+
+    assert.equal(checkOrganizationAccess(editor, 1, 'viewer'), null);
+    assert.equal(checkOrganizationAccess(editor, 2, 'viewer')?.status, 403);
+    assert.match(checkOrganizationAccess(editor, 1, 'admin')?.error ?? '', /Requires admin role/);
+  });
+});
+
+describe('loadTokenRegistry', () => {
+  const sha256 = (token: string) => createHash('sha256').update(token).digest('hex');
+  const TOKEN = 'a-registered-token-of-some-length';
+
+  const load = (tokens: unknown[], env: Record<string, string> = {}) => {
+    const saved = { ...process.env };
+    delete process.env.AUTH_TOKENS_FILE;
+    delete process.env.AUTH_TOKEN;
+    delete process.env.AUTH_TOKEN_ORGANIZATIONS;
+    delete process.env.AUTH_TOKEN_ROLES;
+    Object.assign(process.env, { AUTH_TOKENS: JSON.stringify({ tokens }) }, env);
+    try {
+      return loadTokenRegistry();
+    } finally {
+      process.env = saved;
+    }
+  };
+
+  it('keys plain and hashed tokens by their digest', () => {
+    const registry = load([
+      { token: TOKEN, userId: 'plain', organizations: [1] },
+      { tokenSha256: sha256('another-token-of-some-length').toUpperCase(), userId: 'hashed', organizations: [2], roles: ['editor'] },
+    ]);
+
+    assert.deepEqual(registry.get(sha256(TOKEN)), { id: 'plain', email: 'plain@crayon-cost-mcp.local', organizations: [1], roles: ['viewer'] });
+    assert.equal(registry.get(sha256('another-token-of-some-length'))?.id, 'hashed');
+    assert.equal(registry.has(TOKEN), false);
+  });
+
+  it('rejects the same token registered twice, in plain or hashed form', () => {
+    assert.throws(
+      () => load([{ token: TOKEN, userId: 'a', organizations: [1] }, { token: TOKEN, userId: 'b', organizations: [2] }]),
+      /duplicate token for user b/
+    );
+    assert.throws(
+      () => load([{ token: TOKEN, userId: 'a', organizations: [1] }, { tokenSha256: sha256(TOKEN), userId: 'b', organizations: [2] }]),
+      /duplicate token for user b/
+    );
+  });
+
+  it('rejects entries with both or neither of token and tokenSha256', () => {
+    assert.throws(() => load([{ token: TOKEN, tokenSha256: sha256(TOKEN), userId: 'a', organizations: [1] }]), /Invalid token registry/);
+    assert.throws(() => load([{ userId: 'a', organizations: [1] }]), /Invalid token registry/);
+  });
+
+  it('scopes the legacy AUTH_TOKEN with AUTH_TOKEN_ORGANIZATIONS and AUTH_TOKEN_ROLES', () => {
+    const registry = load([], { AUTH_TOKEN: 'legacy-token', AUTH_TOKEN_ORGANIZATIONS: '100, 200,abc,-3,,300', AUTH_TOKEN_ROLES: 'viewer, editor' });
+
+    assert.deepEqual(registry.get(sha256('legacy-token')), {
+      id: 'api-user',
+      email: 'api@crayon-cost-mcp.local',
+      organizations: [100, 200, 300],
+      roles: ['viewer', 'editor'],
+    });
+  });
+
+  it('gives the legacy AUTH_TOKEN no organizations and admin by default, and does not override a registered token', () => {
+    assert.deepEqual(load([], { AUTH_TOKEN: 'legacy-token' }).get(sha256('legacy-token'))?.organizations, []);
+    assert.deepEqual(load([], { AUTH_TOKEN: 'legacy-token' }).get(sha256('legacy-token'))?.roles, ['admin']);
+
+    const registry = load([{ token: TOKEN, userId: 'registered', organizations: [1] }], { AUTH_TOKEN: TOKEN, AUTH_TOKEN_ORGANIZATIONS: '2' });
+    assert.equal(registry.get(sha256(TOKEN))?.id, 'registered');
+  });
+});
+
+describe('tool authorization', () => {
+  const client = {
+    getAzurePlan: async (id: number) => ({ Id: id, Organization: { Id: 10 } }),
+    getSubscriptionById: async (id: number) => (id === 404 ? { Id: id } : { Id: id, Organization: { Id: 20 } }),
+    getCustomerTenant: async (id: string) => ({ Id: id, OrganizationId: 30 }),
+  } as unknown as CrayonApiClient;
+  const viewer = { id: 'u1', email: 'viewer@example.com', organizations: [10, 20, 30], roles: ['viewer'] };
+
+  it('resolves the organization from organizationId, azurePlanId, subscriptionId or customerTenantId', async () => {
+    assert.equal(await resolveToolOrganization({ organizationId: '5' }, client), 5);
+    assert.equal(await resolveToolOrganization({ azurePlanId: 1 }, client), 10);
+    assert.equal(await resolveToolOrganization({ subscriptionId: 2 }, client), 20);
+    assert.equal(await resolveToolOrganization({ customerTenantId: 'tenant' }, client), 30);
+    assert.equal(await resolveToolOrganization({ subscriptionId: 404 }, client), null);
+    assert.equal(await resolveToolOrganization({}, client), null);
+  });
+
+  it('allows calls inside the caller scope', async () => {
+    assert.equal(await authorizeToolCall(viewer, 'get_subscription_tags', { subscriptionId: 2 }, client), 20);
+    assert.equal(await authorizeToolCall(viewer, 'get_organizations', {}, client), null);
+  });
+
+  it('forbids organizations outside the caller scope', async () => {
+    await assert.rejects(authorizeToolCall(viewer, 'get_billing_statements', { organizationId: 99 }, client), /^Error: Forbidden: No access to organization 99/);
+    await assert.rejects(
+      authorizeToolCall({ ...viewer, organizations: [10] }, 'get_subscription_tags', { subscriptionId: 2 }, client),
+      /Forbidden: No access to organization 20/
+    );
+  });
+
+  it('forbids calls whose organization cannot be resolved', async () => {
+    await assert.rejects(authorizeToolCall(viewer, 'get_subscription_tags', { subscriptionId: 404 }, client), /Forbidden: get_subscription_tags requires an organizationId/);
+    await assert.rejects(authorizeToolCall(viewer, 'get_billing_statements', {}, client), /Forbidden/);
+  });
+
+  it('requires the tool role', async () => {
+    await assert.rejects(authorizeToolCall(viewer, 'update_subscription_tags', { subscriptionId: 2 }, client), /Forbidden: Requires editor role/);
+    assert.equal(await authorizeToolCall({ ...viewer, roles: ['editor'] }, 'update_subscription_tags', { subscriptionId: 2 }, client), 20);
+  });
+
+  it('requires the editor role to capture tag history but not to read it', async () => {
+    assert.equal(await authorizeToolCall(viewer, 'get_tag_history', { organizationId: 10 }, client), 10);
+    await assert.rejects(authorizeToolCall(viewer, 'get_tag_history', { organizationId: 10, capture: true }, client), /Forbidden: Requires editor role/);
+    assert.equal(await authorizeToolCall({ ...viewer, roles: ['editor'] }, 'get_tag_history', { organizationId: 10, capture: true }, client), 10);
+  });
+
+  it('requires the editor role to sync the warehouse', async () => {
+    await assert.rejects(authorizeToolCall(viewer, 'sync_warehouse', { organizationId: 10 }, client), /Forbidden: Requires editor role/);
+  });
+});
@@ -0,0 +1,107 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CurrencyConversionError } from '../src/utils/currency.js';
+import { logger } from '../src/middleware/logger.js';
+import { crayonStub, reply } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+describe('Azure plan costs', () => {
+  let usageCostRows: unknown[] = [];
+  let usageCsvRows: unknown[] = [];
+  let usageFetches = 0;
+  const { client } = crayonStub(({ url }) => {
+    if (url.pathname.startsWith('/usagecost/')) return usageCostRows;
+    if (url.pathname.endsWith('/monthlyUsage')) {
+      usageFetches++;
+      return { Items: usageCsvRows };
+    }
+    if (url.pathname.startsWith('/AzurePlans/1/azureSubscriptions')) return { TotalHits: 1, Items: [{ Id: 2, Name: 'Production' }] };
+  });
+
+  before(() => {
+    delete process.env.REPORTING_CURRENCY;
+  });
+
+  it('does not double count a month when the cost endpoint fails part-way and the CSV is used', async () => {
+    usageCostRows = [
+      { Date: '2026-04-01', TotalSalesPrice: 10, CurrencyCode: 'NOK' },
+      { Date: 'not-a-date', TotalSalesPrice: 10, CurrencyCode: 'NOK' },
+    ];
+    usageCsvRows = [{ Date: '2026-04-01', Cost: 10, Currency: 'NOK' }];
+
+    const result = await client().getAzureCostsBySubscription(1, 2, '2026-04-01', '2026-04-30');
+
+    assert.equal(result.total, 10);
+    assert.deepEqual(result.originalTotals, { NOK: 10 });
+    assert.equal(result.months[0].source, 'usage_csv');
+  });
+
+  it('rethrows currency conversion errors unchanged', async () => {
+    usageCostRows = [
+      { Date: '2026-04-01', TotalSalesPrice: 10, CurrencyCode: 'NOK' },
+      { Date: '2026-04-02', TotalSalesPrice: 10, CurrencyCode: 'SEK' },
+    ];
+    usageCsvRows = [];
+
+    await assert.rejects(
+      client().getAzureCostsBySubscription(1, 2, '2026-04-01', '2026-04-30'),
+      (error: unknown) => error instanceof CurrencyConversionError && /REPORTING_CURRENCY/.test(error.message)
+    );
+  });
+
+  it('fetches daily anomaly usage through the request scheduler', async () => {
+    usageCsvRows = [];
+    usageFetches = 0;
+    const crayon = client();
+
+    await crayon.detectDailyAnomalies(1);
+
+    assert.ok(usageFetches > 0);
+    assert.equal(crayon.getSchedulerStats().completed, usageFetches);
+  });
+});
+
+describe('Azure resource costs comparison month', () => {
+  // Status of the usage file for 2026-03, the month before the range
+  let comparisonStatus = 200;
+  const { client } = crayonStub(({ url }) => {
+    if (!url.pathname.endsWith('/monthlyUsage')) return undefined;
+    const month = `${url.searchParams.get('year')}-${url.searchParams.get('month')?.padStart(2, '0')}`;
+    if (month === '2026-03' && comparisonStatus !== 200) return reply(comparisonStatus, {});
+    const cost = month === '2026-03' ? 50 : 100;
+    return { Items: [{ Date: `${month}-01`, Cost: cost, Currency: 'NOK', ResourceGroup: 'rg', MeterCategory: 'Compute', Region: 'norwayeast' }] };
+  });
+
+  const resourceCosts = () => client().getAzureResourceCosts(1, 2, '2026-04', '2026-04');
+
+  it('compares the first month with the month before it', async () => {
+    comparisonStatus = 200;
+
+    const result = await resourceCosts();
+
+    assert.equal(result.topResourceGroups[0].monthOverMonth.change, 50);
+    assert.equal(result.topResourceGroups[0].monthOverMonth.changePercent, 100);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it('counts a comparison month without a usage file as zero', async () => {
+    comparisonStatus = 404;
+
+    const result = await resourceCosts();
+
+    assert.equal(result.topResourceGroups[0].monthOverMonth.change, 100);
+    assert.equal(result.topResourceGroups[0].monthOverMonth.changePercent, null);
+    assert.match(result.warnings[0], /counted as zero/);
+  });
+
+  it('leaves the first month without a delta when the comparison month fails otherwise', async () => {
+    comparisonStatus = 403;
+
+    const result = await resourceCosts();
+
+    assert.equal(result.total, 100);
+    assert.equal(result.topResourceGroups[0].monthOverMonth.change, null);
+    assert.match(result.warnings[0], /could not be read/);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { logger } from '../src/middleware/logger.js';
+import { crayonStub } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+const statement = (startDate: string, amount: number) => ({
+  SubscriptionId: 7,
+  StartDate: startDate,
+  EndDate: startDate,
+  TotalSalesPrice: amount,
+  CurrencyCode: 'NOK',
+});
+
+describe('getBudgetActuals', () => {
+  // Like the API, return every statement overlapping the range, including the month before it
+  const stub = crayonStub(() => ({
+    TotalHits: 3,
+    Items: [
+      statement('2026-03-01T00:00:00', 500),
+      statement('2026-04-01T00:00:00', 100),
+      statement('2026-05-01T00:00:00', 200),
+    ],
+  }));
+
+  it('only counts statements whose billing month is inside the budget period', async () => {
+    const actuals = await stub.client().getBudgetActuals(
+      1,
+      { type: 'organization' },
+      new Date(2026, 3, 1).toISOString(),
+      new Date(2026, 4, 20).toISOString()
+    );
+
+    assert.deepEqual(actuals.monthlyActuals, { '2026-04': 100, '2026-05': 200 });
+  });
+});
@@ -0,0 +1,110 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from '../src/middleware/logger.js';
+import { crayonStub, reply } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+describe('bulk tag updates', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bulk-tags-'));
+  const subscriptions = [
+    { Id: 1, Name: 'Prod-Web' },
+    { Id: 2, Name: 'Prod-Db' },
+    { Id: 3, Name: 'Test-Web' },
+    { Id: 4, Name: 'Prod-Broken' },
+    { Id: 5, Name: 'Prod-Legacy' },
+    { Id: 6, Name: 'Prod-Done' },
+  ];
+  const tags: Record<number, Record<string, string>> = {
+    1: { env: 'prod' },
+    2: { env: 'prod', owner: 'dba' },
+    3: { env: 'test' },
+    5: { env: 'prod', CostCenter: 'CC-1' },
+    6: { env: 'prod', owner: 'web', CostCenter: 'CC-2', toString: 'kept' },
+  };
+  const puts = new Map<number, unknown>();
+
+  const stub = crayonStub(({ method, url, body }) => {
+    if (url.pathname === '/subscriptions/') return { TotalHits: subscriptions.length, Items: subscriptions };
+    const id = Number(url.pathname.match(/^\/subscriptions\/(\d+)\/tags$/)?.[1]);
+    if (!id) return undefined;
+    if (method === 'PUT') {
+      // Subscription 2 rejects the update
+      if (id === 2) return reply(403, { message: 'Forbidden' });
+      puts.set(id, JSON.parse(body));
+      return { updated: true };
+    }
+    return tags[id] ?? reply(403, { message: 'Forbidden' });
+  });
+
+  before(() => {
+    process.env.TAG_HISTORY_FILE = path.join(dir, 'history.json');
+  });
+  after(() => {
+    delete process.env.TAG_HISTORY_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const rules = [
+    // Every production subscription gets an owner, unless it has one
+    { namePattern: '^prod-', tags: { owner: 'platform' }, onlyMissing: true },
+    // Keys that are also Object.prototype members are still missing when the subscription lacks them
+    { tagEquals: { key: 'env', value: 'prod' }, tags: { CostCenter: 'CC-9', toString: 'added' }, onlyMissing: true },
+    // All criteria of a rule must match: Prod-Web has the name but not the ID
+    { namePattern: 'web', subscriptionIds: [3], tags: { owner: 'qa' } },
+  ];
+
+  it('plans the merged result of every rule a subscription matches', async () => {
+    const plan = await stub.client().planBulkTagUpdate(1, rules);
+
+    assert.equal(plan.subscriptionsEvaluated, 6);
+    assert.deepEqual(
+      plan.changes.map((change: any) => [change.subscriptionId, change.matchedRules, change.after]),
+      [
+        [1, [0, 1], { env: 'prod', owner: 'platform', CostCenter: 'CC-9', toString: 'added' }],
+        [2, [0, 1], { env: 'prod', owner: 'dba', CostCenter: 'CC-9', toString: 'added' }],
+        [3, [2], { env: 'test', owner: 'qa' }],
+        [5, [0, 1], { env: 'prod', CostCenter: 'CC-1', owner: 'platform', toString: 'added' }],
+      ]
+    );
+    assert.deepEqual(plan.changes[2].diff.added, { owner: 'qa' });
+    assert.equal(plan.subscriptionsUnchanged, 1);
+  });
+
+  it('skips subscriptions whose current tags could not be read', async () => {
+    const plan = await stub.client().planBulkTagUpdate(1, rules);
+
+    assert.deepEqual(plan.skipped.map((s: any) => [s.subscriptionId, s.subscriptionName]), [[4, 'Prod-Broken']]);
+    assert.match(plan.skipped[0].reason, /^Failed to fetch tags/);
+    assert.ok(!plan.changes.some((change: any) => change.subscriptionId === 4));
+  });
+
+  it('overwrites existing values with rules that are not onlyMissing', async () => {
+    const plan = await stub.client().planBulkTagUpdate(1, [{ subscriptionIds: [2, 6], tags: { owner: 'finance' } }]);
+
+    assert.deepEqual(
+      plan.changes.map((change: any) => [change.subscriptionId, change.diff.changed]),
+      [
+        [2, { owner: { from: 'dba', to: 'finance' } }],
+        [6, { owner: { from: 'web', to: 'finance' } }],
+      ]
+    );
+  });
+
+  it('applies every change and reports the ones that failed', async () => {
+    const client = stub.client();
+    const plan = await client.planBulkTagUpdate(1, rules);
+    puts.clear();
+
+    const results = await client.applyBulkTagPlan(1, plan.changes, 2);
+
+    assert.deepEqual(results.map((result) => [result.subscriptionId, result.status]), [[1, 'applied'], [2, 'failed'], [3, 'applied'], [5, 'applied']]);
+    assert.match(results[1].error, /^Failed to update tags: /);
+    assert.deepEqual(results[1].after, plan.changes[1].after);
+    assert.deepEqual([...puts.keys()].sort(), [1, 3, 5]);
+    assert.deepEqual(puts.get(5), plan.changes[3].after);
+  });
+});
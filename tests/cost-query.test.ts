@@ -0,0 +1,295 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CostQueryError,
+  CostQueryRow,
+  parseCostQuery,
+  queryMonthBounds,
+  runCostQuery,
+  withQueryDeadline,
+} from '../src/utils/cost-query.js';
+import { logger } from '../src/middleware/logger.js';
+import { crayonStub, reply } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+const row = (overrides: Partial<CostQueryRow>): CostQueryRow => ({
+  month: '2026-01',
+  subscription: 'Production',
+  subscriptionId: '7',
+  invoiceProfile: 'Main',
+  invoiceProfileId: '100',
+  provisionType: 'Usage',
+  product: 'Azure plan',
+  publisher: 'Microsoft',
+  currency: 'NOK',
+  tags: {},
+  cost: 0,
+  ...overrides,
+});
+
+const rows: CostQueryRow[] = [
+  row({ month: '2026-01', subscription: 'Production', subscriptionId: '7', cost: 100, tags: { CostCenter: '4100' } }),
+  row({ month: '2026-02', subscription: 'Production', subscriptionId: '7', cost: 120, tags: { CostCenter: '4100' } }),
+  row({ month: '2026-01', subscription: 'Test lab', subscriptionId: '10', cost: 30, provisionType: 'Seat', tags: { costcenter: '4200' } }),
+  row({ month: '2026-02', subscription: 'Sandbox', subscriptionId: '9', cost: 5, invoiceProfileId: '20' }),
+];
+
+const run = (text: string, maxRows = 1000) => runCostQuery(parseCostQuery(text), rows, { maxRows, deadline: Date.now() + 60_000, timeoutMs: 60_000 });
+
+/**
+ * The message of the CostQueryError `fn` throws
+ */
+function queryError(fn: () => unknown): string {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof CostQueryError, `expected a CostQueryError, got ${error}`);
+    return error.message;
+  }
+  assert.fail('expected a CostQueryError');
+}
+
+describe('parseCostQuery', () => {
+  it('parses a full query into select items, conditions, grouping, order and limit', () => {
+    const query = parseCostQuery(
+      "select month, tag:'Cost Center' as cc, SUM(cost) AS total FROM statements " +
+        "WHERE month >= '2026-01' and not provisionType = 'Seat' GROUP BY month, tag:'Cost Center' ORDER BY total desc, month LIMIT 5"
+    );
+
+    assert.deepEqual(query.select, [
+      { kind: 'field', field: 'month', alias: 'month' },
+      { kind: 'field', field: 'tag:Cost Center', alias: 'cc' },
+      { kind: 'aggregate', aggregate: 'sum', alias: 'total' },
+    ]);
+    assert.deepEqual(query.where, {
+      type: 'and',
+      left: { type: 'compare', field: 'month', operator: '>=', value: '2026-01' },
+      right: { type: 'not', condition: { type: 'compare', field: 'provisionType', operator: '=', value: 'Seat' } },
+    });
+    assert.deepEqual(query.groupBy, ['month', 'tag:Cost Center']);
+    assert.deepEqual(query.orderBy, [{ alias: 'total', descending: true }, { alias: 'month', descending: false }]);
+    assert.equal(query.limit, 5);
+    assert.deepEqual(query.tagKeys, ['Cost Center']);
+  });
+
+  it('binds AND tighter than OR and reads IN, LIKE, BETWEEN and <> predicates', () => {
+    const query = parseCostQuery(
+      "SELECT cost WHERE subscriptionId IN (7, '9') OR product NOT LIKE 'Azure%' AND cost NOT BETWEEN 1 AND 10 OR currency <> 'NOK'"
+    );
+
+    assert.deepEqual(query.where, {
+      type: 'or',
+      left: {
+        type: 'or',
+        left: { type: 'in', field: 'subscriptionId', values: [7, '9'], negated: false },
+        right: {
+          type: 'and',
+          left: { type: 'like', field: 'product', pattern: 'Azure%', negated: true },
+          right: { type: 'between', field: 'cost', low: 1, high: 10, negated: true },
+        },
+      },
+      right: { type: 'compare', field: 'currency', operator: '!=', value: 'NOK' },
+    });
+  });
+
+  it('names aggregate columns and resolves ORDER BY by alias, field or aggregate', () => {
+    const query = parseCostQuery('SELECT subscription, COUNT(*), AVG(cost) GROUP BY subscription ORDER BY COUNT(*) DESC, avg_cost');
+
+    assert.deepEqual(query.select.map((item) => item.alias), ['subscription', 'count', 'avg_cost']);
+    assert.deepEqual(query.orderBy, [{ alias: 'count', descending: true }, { alias: 'avg_cost', descending: false }]);
+  });
+
+  it('collects the tag keys read anywhere in the query', () => {
+    assert.deepEqual(parseCostQuery("SELECT tag:Env, SUM(cost) WHERE tag:Owner = 'a' GROUP BY tag:Env").tagKeys, ['Env', 'Owner']);
+    assert.deepEqual(parseCostQuery('SELECT SUM(cost)').tagKeys, []);
+  });
+
+  it('reports where a query goes wrong', () => {
+    assert.equal(queryError(() => parseCostQuery('SELECT colour')), 'Unknown field "colour" at position 8; use cost, month, subscription, subscriptionId, invoiceProfile, invoiceProfileId, provisionType, product, publisher, currency or tag:<key>');
+    assert.equal(queryError(() => parseCostQuery("SELECT cost WHERE month = '2026-01")), 'Unterminated string at position 27');
+    assert.equal(queryError(() => parseCostQuery('SELECT cost WHERE cost > 1;')), 'Unexpected ";" at position 27');
+    assert.equal(queryError(() => parseCostQuery('SELECT cost WHERE')), 'Expected a field name at position 18, found end of query');
+    assert.equal(queryError(() => parseCostQuery('SELECT cost LIMIT 0')), 'LIMIT takes a positive whole number at position 19, found "0"');
+    assert.equal(queryError(() => parseCostQuery('SELECT cost FROM invoices')), 'The only table is "statements" at position 18, found "invoices"');
+    assert.equal(queryError(() => parseCostQuery('SELECT month, cost month')), 'Unexpected input at position 20, found "month"');
+    assert.equal(queryError(() => parseCostQuery("SELECT cost WHERE cost LIKE '1%'")), 'LIKE cannot be used on cost at position 19');
+    assert.equal(queryError(() => parseCostQuery('SELECT cost WHERE month = 2026')), 'month is compared with \'YYYY-MM\' values, not 2026, at position 19');
+    assert.equal(queryError(() => parseCostQuery("SELECT cost WHERE cost > 'a'")), "cost is compared with numbers, not 'a', at position 19");
+    assert.equal(queryError(() => parseCostQuery('SELECT cost WHERE provisionType NOT = 1')), 'Expected IN, LIKE or BETWEEN after NOT at position 37, found "="');
+    assert.equal(queryError(() => parseCostQuery('SELECT MEDIAN(cost)')), 'Unknown function; use SUM, AVG, COUNT, MIN, MAX at position 8, found "MEDIAN"');
+    assert.equal(queryError(() => parseCostQuery('SELECT SUM(*)')), 'SUM takes cost at position 12, found "*"');
+  });
+
+  it('checks the shape of aggregate queries', () => {
+    assert.equal(queryError(() => parseCostQuery('SELECT month, SUM(cost)')), 'month is selected but not in GROUP BY');
+    assert.equal(queryError(() => parseCostQuery('SELECT cost GROUP BY month')), 'Select SUM(cost), AVG(cost), MIN(cost) or MAX(cost) in an aggregate query, not cost');
+    assert.equal(queryError(() => parseCostQuery('SELECT SUM(cost) GROUP BY cost')), 'Cannot group by cost at position 27');
+    assert.equal(queryError(() => parseCostQuery('SELECT month, month')), 'Duplicate column "month"; give one of them an alias with AS');
+    assert.equal(queryError(() => parseCostQuery('SELECT SUM(cost) ORDER BY MAX(cost)')), 'ORDER BY MAX(...) at position 27 must also be selected');
+  });
+});
+
+describe('queryMonthBounds', () => {
+  const bounds = (where: string) => queryMonthBounds(parseCostQuery(`SELECT cost WHERE ${where}`));
+
+  it('derives the range from comparisons, BETWEEN and IN', () => {
+    assert.deepEqual(bounds("month = '2026-03'"), { from: '2026-03', to: '2026-03' });
+    assert.deepEqual(bounds("month > '2025-12' AND month < '2026-03'"), { from: '2026-01', to: '2026-02' });
+    assert.deepEqual(bounds("month BETWEEN '2026-01' AND '2026-06'"), { from: '2026-01', to: '2026-06' });
+    assert.deepEqual(bounds("month IN ('2026-05', '2026-02', '2026-03')"), { from: '2026-02', to: '2026-05' });
+  });
+
+  it('narrows the range with every condition joined by AND', () => {
+    assert.deepEqual(
+      bounds("month >= '2026-01' AND provisionType = 'Usage' AND (month <= '2026-09' AND month BETWEEN '2026-03' AND '2026-12')"),
+      { from: '2026-03', to: '2026-09' }
+    );
+  });
+
+  it('ignores month conditions under OR or NOT, which only filter', () => {
+    assert.deepEqual(bounds("month = '2026-01' OR month = '2026-06'"), {});
+    assert.deepEqual(bounds("month >= '2026-01' AND (month = '2026-02' OR cost > 1)"), { from: '2026-01' });
+    assert.deepEqual(bounds("NOT month = '2026-01'"), {});
+    assert.deepEqual(bounds("month NOT BETWEEN '2026-01' AND '2026-03'"), {});
+    assert.deepEqual(bounds("month NOT IN ('2026-01')"), {});
+    assert.deepEqual(bounds("month != '2026-01'"), {});
+  });
+});
+
+describe('runCostQuery', () => {
+  it('lists matching rows with the selected columns', () => {
+    const result = run("SELECT month, subscription, cost WHERE subscription LIKE '%o_' ORDER BY cost DESC");
+
+    assert.deepEqual(result.columns, ['month', 'subscription', 'cost']);
+    assert.deepEqual(result.rows, [
+      { month: '2026-02', subscription: 'Production', cost: 120 },
+      { month: '2026-01', subscription: 'Production', cost: 100 },
+      { month: '2026-02', subscription: 'Sandbox', cost: 5 },
+    ]);
+    assert.deepEqual(
+      run("SELECT subscription WHERE subscription NOT LIKE 'pro%' ORDER BY subscription").rows.map((r) => r.subscription),
+      ['Sandbox', 'Test lab']
+    );
+  });
+
+  it('matches LIKE patterns case-insensitively with % and _ wildcards', () => {
+    const subscriptions = (pattern: string) =>
+      run(`SELECT subscription WHERE subscription LIKE '${pattern}' GROUP BY subscription`).rows.map((r) => r.subscription);
+
+    assert.deepEqual(subscriptions('PROD%'), ['Production']);
+    assert.deepEqual(subscriptions('%lab'), ['Test lab']);
+    assert.deepEqual(subscriptions('_andbox'), ['Sandbox']);
+    assert.deepEqual(subscriptions('%'), ['Production', 'Sandbox', 'Test lab']);
+    assert.deepEqual(subscriptions('Sand'), []);
+  });
+
+  it('aggregates per group, ordering groups by their values without ORDER BY', () => {
+    const result = run('SELECT month, SUM(cost) AS total, COUNT(*), MIN(cost), MAX(cost), AVG(cost) GROUP BY month');
+
+    assert.deepEqual(result.rows, [
+      { month: '2026-01', total: 130, count: 2, min_cost: 30, max_cost: 100, avg_cost: 65 },
+      { month: '2026-02', total: 125, count: 2, min_cost: 5, max_cost: 120, avg_cost: 62.5 },
+    ]);
+    assert.equal(result.rowsScanned, 4);
+    assert.equal(result.rowsMatched, 4);
+  });
+
+  it('reads tags without regard to key case and groups untagged rows', () => {
+    const result = run('SELECT tag:COSTCENTER AS cc, SUM(cost) AS total GROUP BY tag:COSTCENTER ORDER BY total DESC');
+
+    assert.deepEqual(result.rows, [
+      { cc: '4100', total: 220 },
+      { cc: '4200', total: 30 },
+      { cc: '(untagged)', total: 5 },
+    ]);
+  });
+
+  it('returns a single aggregate row when nothing matches', () => {
+    assert.deepEqual(run("SELECT SUM(cost), COUNT(*) WHERE currency = 'SEK'").rows, [{ sum_cost: 0, count: 0 }]);
+    assert.deepEqual(run("SELECT month, SUM(cost) WHERE currency = 'SEK' GROUP BY month").rows, []);
+  });
+
+  it('compares numeric string fields as numbers', () => {
+    assert.deepEqual(run('SELECT subscriptionId WHERE subscriptionId > 8 ORDER BY subscriptionId').rows.map((r) => r.subscriptionId), ['9', '10']);
+    assert.deepEqual(run('SELECT subscriptionId GROUP BY subscriptionId').rows.map((r) => r.subscriptionId), ['7', '9', '10']);
+    assert.equal(run('SELECT cost WHERE subscriptionId = 10').rowsMatched, 1);
+    assert.equal(run("SELECT cost WHERE invoiceProfileId IN (20, '100.0')").rowsMatched, 4);
+    assert.equal(run("SELECT cost WHERE invoiceProfileId BETWEEN 50 AND 150").rowsMatched, 3);
+    // Text still compares case-insensitively as text
+    assert.equal(run("SELECT cost WHERE subscription = 'PRODUCTION'").rowsMatched, 2);
+  });
+
+  it('applies LIMIT and the row cap and reports truncation', () => {
+    const limited = run('SELECT month, cost ORDER BY cost DESC LIMIT 2');
+    assert.deepEqual(limited.rows.map((r) => r.cost), [120, 100]);
+    assert.equal(limited.totalRows, 4);
+    assert.equal(limited.truncated, true);
+
+    const capped = run('SELECT cost LIMIT 3', 2);
+    assert.equal(capped.rows.length, 2);
+    assert.equal(capped.truncated, true);
+
+    const complete = run('SELECT cost LIMIT 4');
+    assert.equal(complete.rows.length, 4);
+    assert.equal(complete.truncated, false);
+  });
+
+  it('gives up once the deadline has passed', () => {
+    assert.throws(
+      () => runCostQuery(parseCostQuery('SELECT cost'), rows, { maxRows: 10, deadline: Date.now() - 1, timeoutMs: 5 }),
+      /Query exceeded the time limit of 5 ms/
+    );
+  });
+});
+
+describe('withQueryDeadline', () => {
+  it('returns the result of work that finishes in time', async () => {
+    assert.equal(await withQueryDeadline(async () => 42, Date.now() + 1000, 1000), 42);
+  });
+
+  it('rejects with a CostQueryError and aborts the work at the deadline', async () => {
+    let signal: AbortSignal | undefined;
+    const work = (given: AbortSignal) => {
+      signal = given;
+      return new Promise<never>((_, reject) => given.addEventListener('abort', () => reject(new Error('aborted'))));
+    };
+
+    await assert.rejects(withQueryDeadline(work, Date.now() + 20, 20), (error: unknown) =>
+      error instanceof CostQueryError && /time limit of 20 ms/.test(error.message)
+    );
+    assert.equal(signal?.aborted, true);
+  });
+});
+
+describe('queryCosts', () => {
+  let billingDelayMs = 0;
+  const stub = crayonStub(({ url }) => {
+    if (url.pathname === '/billingstatements/grouped') {
+      return reply(200, { TotalHits: 0, Items: [] }, {}, billingDelayMs);
+    }
+  });
+
+  before(() => {
+    process.env.QUERY_TIMEOUT_MS = '100';
+  });
+
+  after(() => {
+    delete process.env.QUERY_TIMEOUT_MS;
+  });
+
+  it('cancels the billing request when the query runs out of time', async () => {
+    billingDelayMs = 2000;
+    const cancelled = new Promise<boolean>((resolve) => {
+      stub.server.on('request', (req, res) => {
+        if (req.url?.startsWith('/billingstatements/grouped')) res.once('close', () => resolve(!res.writableFinished));
+      });
+    });
+
+    await assert.rejects(
+      stub.client().queryCosts(1, "SELECT SUM(cost) WHERE month = '2026-01'"),
+      (error: unknown) => error instanceof CostQueryError && /time limit of 100 ms/.test(error.message)
+    );
+    assert.equal(await cancelled, true);
+  });
+});
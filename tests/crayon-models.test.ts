@@ -0,0 +1,158 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AmountDecodeError,
+  UNKNOWN_CURRENCY,
+  decodeAzureUsageRow,
+  decodeBillingStatement,
+  decodeInvoice,
+  decodeMoney,
+  parseUsageDateFormat,
+} from '../src/models/crayon.js';
+import { parseCsv } from '../src/utils/csv.js';
+import { sanitizeErrorMessage } from '../src/middleware/security.js';
+import { logger } from '../src/middleware/logger.js';
+
+logger.silent = true;
+
+describe('decodeMoney', () => {
+  it('reads numbers, numeric strings and price objects', () => {
+    assert.deepEqual(decodeMoney(12.5, 'NOK'), { amount: 12.5, currency: 'NOK' });
+    assert.deepEqual(decodeMoney(' -1234.56 ', 'NOK'), { amount: -1234.56, currency: 'NOK' });
+    assert.deepEqual(decodeMoney('.5', 'NOK'), { amount: 0.5, currency: 'NOK' });
+    assert.deepEqual(decodeMoney('1.5E3', 'NOK'), { amount: 1500, currency: 'NOK' });
+    assert.deepEqual(decodeMoney({ Value: '99.90', CurrencyCode: 'SEK' }, 'NOK'), { amount: 99.9, currency: 'SEK' });
+    assert.deepEqual(decodeMoney({ Amount: 3, Currency: 'EUR' }), { amount: 3, currency: 'EUR' });
+    assert.deepEqual(decodeMoney({ amount: 4 }, 'DKK'), { amount: 4, currency: 'DKK' });
+  });
+
+  it('removes US-style thousands separators', () => {
+    assert.equal(decodeMoney('1,234.56').amount, 1234.56);
+    assert.equal(decodeMoney('-12,345,678').amount, -12345678);
+  });
+
+  it('reads missing amounts as 0 in the fallback or unknown currency', () => {
+    assert.deepEqual(decodeMoney(undefined), { amount: 0, currency: UNKNOWN_CURRENCY });
+    assert.deepEqual(decodeMoney(null, 'NOK'), { amount: 0, currency: 'NOK' });
+    assert.deepEqual(decodeMoney('  ', 'NOK'), { amount: 0, currency: 'NOK' });
+    assert.deepEqual(decodeMoney({ CurrencyCode: 'SEK' }), { amount: 0, currency: 'SEK' });
+  });
+
+  it('rejects decimal commas and other separators instead of misreading them', () => {
+    for (const value of ['12,5', '1.234,56', '1 234.56', '1,23', '1,2345.00', "1'234.56"]) {
+      assert.throws(() => decodeMoney(value, 'NOK'), AmountDecodeError, value);
+    }
+  });
+
+  it('rejects values that are not numbers instead of reading them as 0', () => {
+    for (const value of ['abc', '12 NOK', 'NaN', 'Infinity', '0x10', true, NaN, Infinity]) {
+      assert.throws(() => decodeMoney(value, 'NOK'), AmountDecodeError, String(value));
+    }
+    assert.throws(() => decodeMoney({ Value: 'n/a', CurrencyCode: 'NOK' }), /^AmountDecodeError: Cannot read "n\/a" as an amount/);
+  });
+
+  it('surfaces decode errors to clients', () => {
+    const error = (() => {
+      try {
+        decodeMoney('12,5');
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    assert.ok(error instanceof AmountDecodeError);
+    assert.equal(sanitizeErrorMessage(error, 'get_cost_trends'), error.message);
+  });
+});
+
+describe('statement and invoice decoders', () => {
+  it('back a bare price with the statement currency', () => {
+    const statement = decodeBillingStatement({ SubscriptionId: '7', TotalSalesPrice: '1,000.50', CurrencyCode: 'NOK' });
+
+    assert.equal(statement.SubscriptionId, 7);
+    assert.equal(statement.CurrencyCode, 'NOK');
+    assert.deepEqual(statement.TotalSalesPrice, { amount: 1000.5, currency: 'NOK' });
+  });
+
+  it('take the invoice total from whichever field carries it', () => {
+    assert.deepEqual(decodeInvoice({ Id: '1', TotalAmount: 10, CurrencyCode: 'SEK' }).TotalSalesPrice, { amount: 10, currency: 'SEK' });
+    assert.deepEqual(decodeInvoice({ Id: 1, Amount: { Value: 5, CurrencyCode: 'EUR' } }).TotalSalesPrice, { amount: 5, currency: 'EUR' });
+  });
+
+  it('fail on an unreadable total', () => {
+    assert.throws(() => decodeBillingStatement({ TotalSalesPrice: '12,5', CurrencyCode: 'NOK' }), AmountDecodeError);
+  });
+});
+
+describe('decodeAzureUsageRow', () => {
+  const csv = (date: string) =>
+    parseCsv(
+      'UsageDateTime,Meter Category,Meter Name,Instance ID,Resource Location,Consumed Quantity,ResourceRate,PreTaxCost,Currency,Tags\n' +
+        `${date},Storage,LRS,/subscriptions/s/resourceGroups/rg-data/providers/x/y,westeurope,"1,000",0.002,2,NOK,"""env"": ""prod"""\n`
+    )[0];
+
+  it('maps the columns of a usage export whatever their spelling', () => {
+    assert.deepEqual(decodeAzureUsageRow(csv('2026-03-05')), {
+      Date: '2026-03-05',
+      SubscriptionId: undefined,
+      MeterCategory: 'Storage',
+      MeterSubCategory: '',
+      MeterName: 'LRS',
+      ResourceGroup: 'rg-data',
+      ResourceId: '/subscriptions/s/resourceGroups/rg-data/providers/x/y',
+      Region: 'westeurope',
+      Quantity: 1000,
+      UnitPrice: 0.002,
+      Cost: { amount: 2, currency: 'NOK' },
+      Tags: { env: 'prod' },
+    });
+  });
+
+  it('reads ISO dates and timestamps as the date they name', () => {
+    assert.equal(decodeAzureUsageRow(csv('2026-03-05T23:30:00-05:00'))?.Date, '2026-03-05');
+    assert.equal(decodeAzureUsageRow({ Date: '2026-03-31T00:00:00Z' })?.Date, '2026-03-31');
+  });
+
+  it('reads slash dates as MM/DD/YYYY by default and as DD/MM/YYYY when configured', () => {
+    assert.equal(decodeAzureUsageRow(csv('03/05/2026'))?.Date, '2026-03-05');
+    assert.equal(decodeAzureUsageRow(csv('3/5/2026 12:00:00 AM'))?.Date, '2026-03-05');
+    assert.equal(decodeAzureUsageRow(csv('03/05/2026'), 'DD/MM/YYYY')?.Date, '2026-05-03');
+    assert.equal(decodeAzureUsageRow(csv('31/12/2026'), 'DD/MM/YYYY')?.Date, '2026-12-31');
+  });
+
+  it('fails on a slash date that is impossible in the configured format', () => {
+    assert.throws(() => decodeAzureUsageRow(csv('31/12/2026')), /Usage date "31\/12\/2026" is not a valid MM\/DD\/YYYY date; set USAGE_DATE_FORMAT/);
+    assert.throws(() => decodeAzureUsageRow(csv('02/30/2026')), /not a valid MM\/DD\/YYYY date/);
+  });
+
+  it('reads other date forms in local time, without shifting them by the UTC offset', () => {
+    const tz = process.env.TZ;
+    try {
+      for (const zone of ['Pacific/Auckland', 'America/Los_Angeles', 'UTC']) {
+        process.env.TZ = zone;
+        assert.equal(decodeAzureUsageRow({ Date: 'Mar 5, 2026' })?.Date, '2026-03-05', zone);
+      }
+    } finally {
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    }
+  });
+
+  it('decodes rows without a usage date to null', () => {
+    assert.equal(decodeAzureUsageRow({ MeterCategory: 'Storage', Cost: 1 }), null);
+    assert.equal(decodeAzureUsageRow({ Date: 'not a date', Cost: 1 }), null);
+  });
+
+  it('fails on unreadable quantities and costs', () => {
+    assert.throws(() => decodeAzureUsageRow({ Date: '2026-03-05', Quantity: '1,5' }), AmountDecodeError);
+    assert.throws(() => decodeAzureUsageRow({ Date: '2026-03-05', Cost: '2,50' }), AmountDecodeError);
+  });
+});
+
+describe('parseUsageDateFormat', () => {
+  it('defaults to MM/DD/YYYY and rejects other formats', () => {
+    assert.equal(parseUsageDateFormat(undefined), 'MM/DD/YYYY');
+    assert.equal(parseUsageDateFormat(' dd/mm/yyyy '), 'DD/MM/YYYY');
+    assert.throws(() => parseUsageDateFormat('YYYY/MM/DD'), /Invalid USAGE_DATE_FORMAT "YYYY\/MM\/DD"/);
+  });
+});
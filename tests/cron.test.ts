@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OrganizationCronRunner, parseOrganizationIds } from '../src/utils/cron.js';
+import { logger } from '../src/middleware/logger.js';
+
+logger.silent = true;
+
+describe('parseOrganizationIds', () => {
+  it('reads a comma-separated list and ignores entries that are not organization IDs', () => {
+    assert.deepEqual(parseOrganizationIds(' 12, 7,,abc,-3,0, 42 '), [12, 7, 42]);
+    assert.deepEqual(parseOrganizationIds(undefined), []);
+    assert.deepEqual(parseOrganizationIds(''), []);
+  });
+});
+
+describe('OrganizationCronRunner', () => {
+  it('runs the task for every organization in turn, past a failing one', async () => {
+    const calls: number[] = [];
+    const runner = new OrganizationCronRunner('Test task', [1, 2, 3], '0 3 * * *', async (organizationId) => {
+      calls.push(organizationId);
+      if (organizationId === 2) throw new Error('unavailable');
+      return { organizationId };
+    });
+
+    await runner.run();
+
+    assert.deepEqual(calls, [1, 2, 3]);
+  });
+
+  it('rejects an invalid schedule when it is created', () => {
+    assert.throws(() => new OrganizationCronRunner('Test task', [1], '0 25 * * *', async () => ({})), /Invalid cron hour value "25"/);
+  });
+});
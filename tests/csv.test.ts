@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CsvParser, parseCsv } from '../src/utils/csv.js';
+
+/**
+ * Feed `text` to a parser in the given chunk sizes, cycling through them, and collect every record
+ */
+function parseInChunks(text: string, sizes: number[]): Array<Record<string, string>> {
+  const parser = new CsvParser();
+  const records: Array<Record<string, string>> = [];
+  let offset = 0;
+  for (let idx = 0; offset < text.length; idx++) {
+    const size = sizes[idx % sizes.length];
+    records.push(...parser.push(text.slice(offset, offset + size)));
+    offset += size;
+  }
+  return [...records, ...parser.end()];
+}
+
+describe('CsvParser', () => {
+  const csv = 'Date,MeterName,Tags,Cost\n' +
+    '2026-03-01,"Storage, LRS","""env"": ""prod""",1.5\n' +
+    '2026-03-02,"Line one\nline two","",2\n';
+  const expected = [
+    { Date: '2026-03-01', MeterName: 'Storage, LRS', Tags: '"env": "prod"', Cost: '1.5' },
+    { Date: '2026-03-02', MeterName: 'Line one\nline two', Tags: '', Cost: '2' },
+  ];
+
+  it('parses quoted fields with delimiters, escaped quotes and line breaks', () => {
+    assert.deepEqual(parseCsv(csv), expected);
+  });
+
+  it('gives the same records however the input is split into chunks', () => {
+    for (const sizes of [[1], [2], [3, 1], [7], [16, 5]]) {
+      assert.deepEqual(parseInChunks(csv, sizes), expected, `chunk sizes ${sizes.join(',')}`);
+    }
+  });
+
+  it('keeps an escaped quote split across chunks', () => {
+    const parser = new CsvParser();
+    const records = [...parser.push('A,B\n"say ""hi"'), ...parser.push('" now",2\n')];
+
+    assert.deepEqual(records, [{ A: 'say "hi" now', B: '2' }]);
+  });
+
+  it('accepts CRLF line endings and keeps CR inside quoted fields', () => {
+    assert.deepEqual(parseCsv('A,B\r\n1,"x\r\ny"\r\n2,z\r\n'), [
+      { A: '1', B: 'x\r\ny' },
+      { A: '2', B: 'z' },
+    ]);
+  });
+
+  it('drops a leading byte order mark, even in a chunk of its own', () => {
+    assert.deepEqual(parseCsv('\uFEFFDate,Cost\n2026-03-01,1\n'), [{ Date: '2026-03-01', Cost: '1' }]);
+    assert.deepEqual(parseInChunks('\uFEFFDate,Cost\n2026-03-01,1\n', [1]), [{ Date: '2026-03-01', Cost: '1' }]);
+  });
+
+  it('flushes a last record without a line break, skips blank lines and fills missing columns', () => {
+    assert.deepEqual(parseCsv(' A , B \n\n1\n2,3'), [
+      { A: '1', B: '' },
+      { A: '2', B: '3' },
+    ]);
+  });
+
+  it('splits on another delimiter', () => {
+    assert.deepEqual(parseCsv('A;B\n"1;2";3\n', ';'), [{ A: '1;2', B: '3' }]);
+  });
+});
@@ -0,0 +1,130 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CurrencyConversionError, CurrencyConverter, parseFxRateTable } from '../src/utils/currency.js';
+import { sanitizeErrorMessage } from '../src/middleware/security.js';
+import { logger } from '../src/middleware/logger.js';
+
+logger.silent = true;
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'currency-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+let files = 0;
+
+/**
+ * Write an FX rate table (rates per one EUR) and return its path
+ */
+function ratesFile(rates: Record<string, Record<string, number>>): string {
+  const file = path.join(dir, `rates-${++files}.json`);
+  fs.writeFileSync(file, JSON.stringify({ base: 'EUR', rates }));
+  return file;
+}
+
+const nok = (amount: number) => ({ amount, currency: 'NOK' });
+const sek = (amount: number) => ({ amount, currency: 'SEK' });
+
+describe('CurrencyConverter', () => {
+  const file = ratesFile({
+    '2026-01': { NOK: 10, SEK: 11 },
+    '2026-02-15': { NOK: 12 },
+    '2026-03': { SEK: 12.5 },
+  });
+
+  it('converts at the most recent rate on or before the date', () => {
+    const converter = new CurrencyConverter('EUR', file);
+
+    assert.equal(converter.convert(nok(100), '2026-01-20T00:00:00').amount, 10);
+    assert.equal(converter.convert(nok(120), '2026-02-15').amount, 10);
+    // A month key applies from the 1st; SEK is not in the February rates, so January's applies
+    assert.equal(converter.convert(sek(110), '2026-02-20').amount, 10);
+    assert.equal(converter.convert(sek(125), '2026-03-01').amount, 10);
+    // Without a date the latest rate is used
+    assert.equal(converter.convert(nok(120)).amount, 10);
+  });
+
+  it('converts between two non-base currencies through the base', () => {
+    const converter = new CurrencyConverter('SEK', file);
+
+    assert.deepEqual(converter.convert(nok(100), '2026-01-31'), { amount: 110, currency: 'SEK' });
+  });
+
+  it('leaves prices already in the reporting currency, or without one configured, unconverted', () => {
+    assert.deepEqual(new CurrencyConverter('NOK').convert(nok(5)), nok(5));
+    assert.deepEqual(new CurrencyConverter(undefined, file).convert(sek(5)), sek(5));
+  });
+
+  it('raises CurrencyConversionError when no rate applies', () => {
+    const converter = new CurrencyConverter('EUR', file);
+
+    assert.throws(() => converter.convert(nok(100), '2025-12-31'), (error: unknown) => {
+      assert.ok(error instanceof CurrencyConversionError);
+      assert.equal(error.message, 'No FX rate for NOK on or before 2025-12-31 in the FX rate table');
+      assert.equal(sanitizeErrorMessage(error, 'get_cost_trends'), error.message);
+      return true;
+    });
+    assert.throws(() => converter.convert({ amount: 1, currency: 'USD' }, '2026-03-01'), /No FX rate for USD/);
+    assert.throws(() => new CurrencyConverter('EUR').convert(nok(1)), /FX_RATES_FILE is not configured/);
+  });
+
+  it('totals items in the reporting currency, converting each at the rate of its own date', () => {
+    const converter = new CurrencyConverter('EUR', file);
+    const items = [
+      { TotalSalesPrice: nok(100), StartDate: '2026-01-01' },
+      { TotalSalesPrice: nok(120), StartDate: '2026-02-20' },
+      { TotalSalesPrice: { amount: 5, currency: 'EUR' }, StartDate: '2026-02-20' },
+    ];
+
+    const costs = converter.normalize(items);
+
+    assert.equal(costs.currency, 'EUR');
+    assert.deepEqual(items.map((item) => costs.costOf(item)), [10, 10, 5]);
+    assert.deepEqual(costs.totals, { currency: 'EUR', total: 25, originalTotals: { NOK: 220, EUR: 5 }, converted: true });
+  });
+
+  it('refuses to total mixed currencies without a reporting currency', () => {
+    const converter = new CurrencyConverter(undefined, file);
+
+    assert.throws(
+      () => converter.normalize([{ TotalSalesPrice: nok(1) }, { TotalSalesPrice: sek(1) }]),
+      (error: unknown) => error instanceof CurrencyConversionError && /multiple currencies \(NOK, SEK\).*REPORTING_CURRENCY/.test(error.message)
+    );
+    assert.deepEqual(converter.normalize([{ TotalSalesPrice: nok(1) }, { TotalSalesPrice: nok(2) }]).totals, {
+      currency: 'NOK',
+      total: 3,
+      originalTotals: { NOK: 3 },
+      converted: false,
+    });
+
+    const stream = converter.streamNormalizer();
+    assert.equal(stream.costOf(nok(4)), 4);
+    assert.throws(() => stream.costOf(sek(1)), CurrencyConversionError);
+    assert.deepEqual(stream.totals(), { currency: 'NOK', total: 4, originalTotals: { NOK: 4 }, converted: false });
+  });
+
+  it('reads the rate table once per normalizer and picks up changes in the next one', () => {
+    const changing = ratesFile({ '2026-01': { NOK: 10 } });
+    const converter = new CurrencyConverter('EUR', changing);
+    const stream = converter.streamNormalizer();
+    assert.equal(stream.costOf(nok(100), '2026-01-10'), 10);
+
+    fs.writeFileSync(changing, JSON.stringify({ base: 'EUR', rates: { '2026-01': { NOK: 20 } } }));
+    fs.utimesSync(changing, new Date(), new Date(Date.now() + 60_000));
+
+    // The running stream keeps converting with the rates it started with
+    assert.equal(stream.costOf(nok(100), '2026-01-10'), 10);
+    assert.deepEqual(stream.totals(), { currency: 'EUR', total: 20, originalTotals: { NOK: 200 }, converted: true });
+    assert.equal(converter.streamNormalizer().costOf(nok(100), '2026-01-10'), 5);
+    assert.equal(converter.normalize([{ TotalSalesPrice: nok(100), StartDate: '2026-01-10' }]).totals.total, 5);
+  });
+});
+
+describe('parseFxRateTable', () => {
+  it('rejects malformed tables', () => {
+    assert.throws(() => parseFxRateTable({ base: 'eur', rates: { '2026-01': { NOK: 10 } } }), /Invalid FX rate table/);
+    assert.throws(() => parseFxRateTable({ base: 'EUR', rates: { 'January': { NOK: 10 } } }), /Invalid FX rate table/);
+    assert.throws(() => parseFxRateTable({ base: 'EUR', rates: { '2026-01': { NOK: -1 } } }), /Invalid FX rate table/);
+    assert.throws(() => parseFxRateTable({ base: 'EUR', rates: {} }), /Invalid FX rate table/);
+  });
+});
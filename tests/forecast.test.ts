@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  criticalValue,
+  forecastSeries,
+  holtWintersForecast,
+  linearRegressionForecast,
+  movingAverageForecast,
+  projectMonthEnd,
+} from '../src/utils/forecast.js';
+import { logger } from '../src/middleware/logger.js';
+import { crayonStub, reply } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+const near = (actual: number, expected: number, message?: string) =>
+  assert.ok(Math.abs(actual - expected) < 1e-6, message ?? `${actual} is not ${expected}`);
+
+describe('criticalValue', () => {
+  it('uses the normal value without degrees of freedom and a wider t value with few of them', () => {
+    assert.equal(criticalValue(95), 1.96);
+    assert.equal(criticalValue(80), 1.2816);
+    // Unknown levels fall back to 95%
+    assert.equal(criticalValue(42), 1.96);
+    // Student t with 4 degrees of freedom is 2.776; the expansion lands close to it
+    assert.ok(Math.abs(criticalValue(95, 4) - 2.776) < 0.05);
+    assert.ok(criticalValue(95, 4) > criticalValue(95, 30));
+  });
+});
+
+describe('linearRegressionForecast', () => {
+  it('continues an exact trend with no residual spread', () => {
+    const result = linearRegressionForecast([100, 110, 120, 130, 140, 150], 3, 95);
+
+    assert.equal(result.model, 'linear');
+    assert.deepEqual(result.warnings, []);
+    near(result.residualStdDev, 0);
+    assert.deepEqual(result.points.map((p) => p.step), [1, 2, 3]);
+    result.points.forEach((p, i) => {
+      near(p.forecast, 160 + 10 * i);
+      near(p.lower, p.forecast);
+      near(p.upper, p.forecast);
+    });
+  });
+
+  it('widens the interval further out and warns about a short history', () => {
+    const result = linearRegressionForecast([100, 130, 105, 140], 3, 95);
+
+    assert.deepEqual(result.warnings, ['Fewer than 6 months of history; the trend is unreliable']);
+    const widths = result.points.map((p) => p.upper - p.lower);
+    assert.ok(widths[0] > 0);
+    assert.ok(widths[1] > widths[0] && widths[2] > widths[1]);
+  });
+
+  it('never forecasts negative spend', () => {
+    const result = linearRegressionForecast([300, 200, 100], 3, 95);
+
+    assert.deepEqual(result.points.map((p) => p.forecast), [0, 0, 0]);
+    assert.ok(result.points.every((p) => p.lower === 0 && p.upper >= 0));
+  });
+});
+
+describe('movingAverageForecast', () => {
+  it('forecasts the mean of the last window months', () => {
+    const result = movingAverageForecast([10, 20, 30, 40, 50, 60], 2, 95, 3);
+
+    assert.equal(result.model, 'movingAverage');
+    assert.deepEqual(result.warnings, []);
+    assert.deepEqual(result.points.map((p) => p.forecast), [50, 50]);
+    // Every one-step error of the 3-month average on this series is 20, so the spread is 0
+    near(result.residualStdDev, 0);
+  });
+
+  it('shrinks the window to the history and says so', () => {
+    const result = movingAverageForecast([10, 30], 1, 95, 3);
+
+    assert.deepEqual(result.warnings, ['Only 2 months of history for a 3-month window']);
+    assert.equal(result.points[0].forecast, 20);
+    assert.ok(result.points[0].upper > result.points[0].lower);
+  });
+});
+
+describe('holtWintersForecast', () => {
+  const seasonal = (years: number) =>
+    Array.from({ length: years * 12 }, (_, i) => 1000 + 10 * i + (i % 12 === 11 ? 500 : 0));
+
+  it('falls back to Holt\'s linear trend with less than two seasons of history', () => {
+    const result = holtWintersForecast([100, 110, 120, 130, 140, 150, 160, 170, 180, 190], 2, 95);
+
+    assert.deepEqual(result.warnings, [
+      "Seasonal model needs 24 months of history (have 10); used Holt's linear trend without seasonality",
+    ]);
+    near(result.points[0].forecast, 200);
+    near(result.points[1].forecast, 210);
+  });
+
+  it('carries the seasonal peak forward with two seasons of history', () => {
+    const values = seasonal(2);
+    const result = holtWintersForecast(values, 12, 95);
+
+    assert.equal(result.model, 'holtWinters');
+    assert.deepEqual(result.warnings, []);
+    const forecasts = result.points.map((p) => p.forecast);
+    // The December peak (step 12) stands out from the months around it
+    assert.ok(forecasts[11] - forecasts[10] > 300, `no seasonal peak in ${forecasts.join(', ')}`);
+    assert.ok(forecasts[0] > values[12] && forecasts[0] < values[23]);
+  });
+});
+
+describe('forecastSeries', () => {
+  it('dispatches to the selected model', () => {
+    const values = [100, 120, 110, 130, 125, 140];
+
+    assert.equal(forecastSeries(values, 1, 'linear', 95).model, 'linear');
+    assert.equal(forecastSeries(values, 1, 'holtWinters', 95).model, 'holtWinters');
+    assert.deepEqual(forecastSeries(values, 1, 'movingAverage', 95, { movingAverageWindow: 2 }).points[0].forecast, 132.5);
+  });
+
+  it('needs at least two months of history', () => {
+    assert.throws(() => forecastSeries([100], 3, 'linear', 95), /At least 2 months of history are needed to forecast/);
+    assert.throws(() => forecastSeries([], 3, 'movingAverage', 95), /At least 2 months/);
+  });
+});
+
+describe('projectMonthEnd', () => {
+  it('adds the daily run rate for the remaining days to the actual so far', () => {
+    const projection = projectMonthEnd([10, 10, 10, 10, 10], 31, 95);
+
+    assert.deepEqual(projection, {
+      actualToDate: 50,
+      dailyRunRate: 10,
+      daysElapsed: 5,
+      daysRemaining: 26,
+      projectedTotal: 310,
+      lower: 310,
+      upper: 310,
+    });
+  });
+
+  it('bands the projection by the day-to-day variation, never below the actual so far', () => {
+    const projection = projectMonthEnd([5, 40, 5, 40], 30, 95);
+
+    near(projection.projectedTotal, 90 + 22.5 * 26);
+    assert.ok(projection.upper > projection.projectedTotal);
+    assert.ok(projection.lower < projection.projectedTotal);
+    assert.ok(projection.lower >= projection.actualToDate);
+
+    const wide = projectMonthEnd([0, 100], 31, 99);
+    assert.equal(wide.lower, 100);
+  });
+
+  it('has nothing left to project on the last day', () => {
+    const projection = projectMonthEnd([10, 20, 30], 3, 95);
+
+    assert.equal(projection.daysRemaining, 0);
+    assert.equal(projection.projectedTotal, 60);
+    assert.equal(projection.lower, 60);
+    assert.equal(projection.upper, 60);
+  });
+});
+
+describe('forecastCosts', () => {
+  const statement = (startDate: string, amount: number) => ({
+    SubscriptionId: 7,
+    StartDate: startDate,
+    EndDate: startDate,
+    TotalSalesPrice: amount,
+    CurrencyCode: 'NOK',
+  });
+  const statements = [
+    statement('2025-12-01T00:00:00', 1000),
+    statement('2026-01-01T00:00:00', 1100),
+    statement('2026-02-01T00:00:00', 1200),
+    // The current, partial month
+    statement('2026-03-01T00:00:00', 400),
+  ];
+  let usageCostFails = false;
+
+  const stub = crayonStub((request) => {
+    if (request.url.pathname.startsWith('/usagecost/organization/')) {
+      if (usageCostFails) return reply(500, { message: 'unavailable' });
+      return Array.from({ length: 10 }, (_, i) => ({
+        Date: `2026-03-${String(i + 1).padStart(2, '0')}`,
+        TotalSalesPrice: 40,
+        CurrencyCode: 'NOK',
+      }));
+    }
+    if (request.url.pathname === '/billingstatements/grouped') {
+      // Like the API, only return statements starting inside the range
+      const from = new Date(request.url.searchParams.get('from') ?? 0);
+      const items = statements.filter((s) => new Date(s.StartDate) >= from);
+      return { TotalHits: items.length, Items: items };
+    }
+    return undefined;
+  });
+
+  beforeEach(() => {
+    usageCostFails = false;
+    mock.timers.enable({ apis: ['Date'], now: new Date(2026, 2, 11, 12) });
+  });
+  afterEach(() => mock.timers.reset());
+
+  const options = { horizonMonths: 2, model: 'linear' as const, historyMonths: 3, confidenceLevel: 95 };
+
+  it('models complete months only and projects the partial current month from its daily run rate', async () => {
+    const forecast = await stub.client().forecastCosts(1, options);
+
+    assert.deepEqual(forecast.history, [
+      { month: '2025-12', cost: 1000 },
+      { month: '2026-01', cost: 1100 },
+      { month: '2026-02', cost: 1200 },
+    ]);
+    assert.equal(forecast.currentMonthModelEstimate.month, '2026-03');
+    near(forecast.currentMonthModelEstimate.forecast, 1300);
+    assert.deepEqual(forecast.forecast.map((p: any) => p.month), ['2026-04', '2026-05']);
+    near(forecast.forecast[1].forecast, 1500);
+
+    assert.equal(forecast.monthEnd.month, '2026-03');
+    assert.equal(forecast.monthEnd.source, 'usage_cost');
+    assert.equal(forecast.monthEnd.daysElapsed, 10);
+    assert.equal(forecast.monthEnd.daysRemaining, 21);
+    assert.equal(forecast.monthEnd.actualToDate, 400);
+    assert.equal(forecast.monthEnd.projectedTotal, 400 + 40 * 21);
+    assert.deepEqual(forecast.warnings, ['Fewer than 6 months of history; the trend is unreliable']);
+  });
+
+  it('spreads the month-to-date billed amount over the elapsed days when daily costs are unavailable', async () => {
+    usageCostFails = true;
+
+    const forecast = await stub.client().forecastCosts(1, options);
+
+    assert.equal(forecast.monthEnd.source, 'billing_statements');
+    assert.equal(forecast.monthEnd.dailyRunRate, 40);
+    assert.equal(forecast.monthEnd.projectedTotal, 400 + 40 * 21);
+    assert.ok(forecast.warnings.some((w: string) => w.startsWith('Usage cost endpoint failed')));
+    assert.ok(forecast.warnings.includes('Daily usage costs unavailable; run rate is the month-to-date billed amount per day, without an interval'));
+  });
+
+  it('has no month-end projection on the first day of the month', async () => {
+    mock.timers.setTime(new Date(2026, 2, 1, 12).getTime());
+
+    const forecast = await stub.client().forecastCosts(1, options);
+
+    assert.equal(forecast.monthEnd, null);
+    assert.ok(forecast.warnings.includes('No complete days in the current month yet; month-end projection is not available'));
+  });
+});
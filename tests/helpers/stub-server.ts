@@ -0,0 +1,84 @@
+import { after, before } from 'node:test';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { CrayonApiClient } from '../../src/crayon-client.js';
+
+export interface StubRequest {
+  method: string;
+  url: URL;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * A reply other than a plain 200; the body is sent as JSON unless it is a string
+ */
+export class StubReply {
+  constructor(
+    readonly status: number,
+    readonly body?: unknown,
+    readonly headers: Record<string, string> = {},
+    readonly delayMs = 0
+  ) {}
+}
+
+/**
+ * What a handler returns: a StubReply, or just the JSON body of a 200. undefined answers 404.
+ */
+export type StubHandler = (request: StubRequest) => unknown;
+
+export const reply = (status: number, body?: unknown, headers?: Record<string, string>, delayMs?: number) =>
+  new StubReply(status, body, headers, delayMs);
+
+/**
+ * Local HTTP server on a free port, started and stopped with the enclosing describe()
+ */
+export function stubServer(handler: StubHandler) {
+  const hits = new Map<string, number>();
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const request: StubRequest = { method: req.method ?? 'GET', url: new URL(req.url ?? '/', 'http://stub'), headers: req.headers, body };
+      requests.push(request);
+      hits.set(request.url.pathname, (hits.get(request.url.pathname) ?? 0) + 1);
+
+      const result = handler(request);
+      const response = result instanceof StubReply ? result : result === undefined ? reply(404) : reply(200, result);
+      setTimeout(() => {
+        res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+        res.end(response.body === undefined ? undefined : typeof response.body === 'string' ? response.body : JSON.stringify(response.body));
+      }, response.delayMs);
+    });
+  });
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  return {
+    server,
+    requests,
+    hits: (path: string) => hits.get(path) ?? 0,
+    url: (path: string) => `http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`,
+  };
+}
+
+/**
+ * Stub of the Crayon API that answers /connect/token, with a factory for clients pointed at it
+ */
+export function crayonStub(handler: StubHandler) {
+  const stub = stubServer((request) =>
+    request.url.pathname === '/connect/token' ? { access_token: 'token', expires_in: 3600 } : handler(request)
+  );
+  return {
+    ...stub,
+    client: () => new CrayonApiClient('id', 'secret', 'user', 'password', stub.url('')),
+  };
+}
@@ -0,0 +1,197 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Request, Response } from 'express';
+import { SignJWT, exportJWK, generateKeyPair, type KeyLike } from 'jose';
+import {
+  getProtectedResourceMetadataPath,
+  getProtectedResourceMetadataUrl,
+  loadOidcConfig,
+  verifyAccessToken,
+} from '../src/middleware/jwt.js';
+import { authenticateRequest } from '../src/middleware/auth.js';
+import { logger } from '../src/middleware/logger.js';
+
+logger.silent = true;
+
+const ISSUER = 'https://login.example.com/tenant';
+const AUDIENCE = 'api://crayon-cost-mcp';
+const REGISTERED_TOKEN = 'a-registered-token-of-some-length';
+
+let privateKey: KeyLike;
+let otherKey: KeyLike;
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-'));
+
+before(async () => {
+  const pair = await generateKeyPair('RS256');
+  privateKey = pair.privateKey;
+  otherKey = (await generateKeyPair('RS256')).privateKey;
+
+  const jwksFile = path.join(dir, 'jwks.json');
+  fs.writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...(await exportJWK(pair.publicKey)), kid: 'test', alg: 'RS256' }] }));
+
+  process.env.OIDC_ISSUER = ISSUER;
+  process.env.OIDC_AUDIENCE = AUDIENCE;
+  process.env.OIDC_JWKS_FILE = jwksFile;
+  process.env.OIDC_CLOCK_TOLERANCE_SECONDS = '30';
+  process.env.OIDC_GROUP_MAPPINGS = JSON.stringify({
+    'finops-team': { organizations: [300], roles: ['editor'] },
+    'auditors': { organizations: [400] },
+  });
+  process.env.AUTH_TOKENS = JSON.stringify({ tokens: [{ token: REGISTERED_TOKEN, userId: 'registered', organizations: [1] }] });
+  delete process.env.AUTH_TOKENS_FILE;
+  delete process.env.AUTH_TOKEN;
+});
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+/**
+ * Sign a token with the test key; claims override the valid defaults, null drops a claim
+ */
+async function token(claims: Record<string, unknown> = {}, key: KeyLike = privateKey): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = Object.fromEntries(
+    Object.entries({ iss: ISSUER, aud: AUDIENCE, sub: 'user-1', iat: now, exp: now + 300, ...claims }).filter(([, value]) => value !== null)
+  );
+  return new SignJWT(payload).setProtectedHeader({ alg: 'RS256', kid: 'test' }).sign(key);
+}
+
+describe('verifyAccessToken', () => {
+  it('accepts a valid token and maps its claims to a user', async () => {
+    const { user, expiresAt } = await verifyAccessToken(await token({ crayon_orgs: [100, 200], roles: 'viewer editor', email: 'u@example.com' }));
+
+    assert.equal(user.id, 'user-1');
+    assert.equal(user.email, 'u@example.com');
+    assert.deepEqual(user.organizations, [100, 200]);
+    assert.deepEqual(user.roles, ['viewer', 'editor']);
+    assert.ok(expiresAt && expiresAt > Date.now() / 1000);
+  });
+
+  it('rejects a token from another issuer', async () => {
+    await assert.rejects(verifyAccessToken(await token({ iss: 'https://evil.example.com' })), /unexpected "iss" claim value/);
+  });
+
+  it('rejects a token for another audience', async () => {
+    await assert.rejects(verifyAccessToken(await token({ aud: 'api://another-api' })), /unexpected "aud" claim value/);
+  });
+
+  it('rejects a token signed with another key', async () => {
+    await assert.rejects(verifyAccessToken(await token({}, otherKey)), /signature verification failed/);
+  });
+
+  it('rejects an expired token beyond the clock tolerance, and accepts one within it', async () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    await assert.rejects(verifyAccessToken(await token({ iat: now - 600, exp: now - 60 })), /"exp" claim timestamp check failed/);
+    const { user } = await verifyAccessToken(await token({ iat: now - 600, exp: now - 10 }));
+    assert.equal(user.id, 'user-1');
+  });
+
+  it('rejects a token without an expiry or a subject', async () => {
+    await assert.rejects(verifyAccessToken(await token({ exp: null })), /missing required "exp" claim/);
+    await assert.rejects(verifyAccessToken(await token({ sub: null })), /missing required "sub" claim/);
+  });
+
+  it('adds the organizations and roles of mapped groups and ignores unknown groups', async () => {
+    const { user } = await verifyAccessToken(await token({ crayon_orgs: '100', groups: ['finops-team', 'auditors', 'unmapped'] }));
+
+    assert.deepEqual(user.organizations.sort(), [100, 300, 400]);
+    assert.deepEqual(user.roles, ['editor']);
+  });
+
+  it('defaults to the viewer role when no claim or group grants one', async () => {
+    const { user } = await verifyAccessToken(await token({ groups: ['auditors'] }));
+
+    assert.deepEqual(user.organizations, [400]);
+    assert.deepEqual(user.roles, ['viewer']);
+  });
+});
+
+describe('OIDC configuration', () => {
+  it('fails with a clear error on invalid OIDC_GROUP_MAPPINGS', () => {
+    const mappings = process.env.OIDC_GROUP_MAPPINGS;
+    try {
+      process.env.OIDC_GROUP_MAPPINGS = '{ not json';
+      assert.throws(() => loadOidcConfig(), /^Error: Invalid OIDC_GROUP_MAPPINGS: /);
+
+      process.env.OIDC_GROUP_MAPPINGS = JSON.stringify({ admins: { organizations: ['all'] } });
+      assert.throws(() => loadOidcConfig(), /Invalid OIDC_GROUP_MAPPINGS: .*organizations/);
+    } finally {
+      process.env.OIDC_GROUP_MAPPINGS = mappings;
+    }
+  });
+
+  it('derives the metadata path from the resource URL', () => {
+    const resource = process.env.OIDC_RESOURCE_URL;
+    try {
+      process.env.OIDC_RESOURCE_URL = 'https://mcp.example.com/tenants/a/mcp';
+      assert.equal(getProtectedResourceMetadataPath(), '/.well-known/oauth-protected-resource/tenants/a/mcp');
+      assert.equal(getProtectedResourceMetadataUrl(), 'https://mcp.example.com/.well-known/oauth-protected-resource/tenants/a/mcp');
+
+      process.env.OIDC_RESOURCE_URL = 'https://mcp.example.com/';
+      assert.equal(getProtectedResourceMetadataPath(), '/.well-known/oauth-protected-resource');
+    } finally {
+      if (resource === undefined) delete process.env.OIDC_RESOURCE_URL;
+      else process.env.OIDC_RESOURCE_URL = resource;
+    }
+  });
+});
+
+describe('authenticateRequest', () => {
+  /**
+   * Run the middleware with a bearer token; resolves with the user on next() or the rejection
+   */
+  function authenticate(bearer: string) {
+    return new Promise<{ user?: Request['user']; status?: number; challenge?: string }>((resolve) => {
+      const headers: Record<string, string> = {};
+      const req = { method: 'POST', headers: { authorization: `Bearer ${bearer}` }, body: {} } as unknown as Request;
+      const res = {
+        setHeader: (name: string, value: string) => (headers[name] = value),
+        status: (status: number) => ({ json: () => resolve({ status, challenge: headers['WWW-Authenticate'] }) }),
+      } as unknown as Response;
+      authenticateRequest(req, res, () => resolve({ user: req.user }));
+    });
+  }
+
+  it('validates JWTs against the authorization server', async () => {
+    const result = await authenticate(await token({ crayon_orgs: [100] }));
+
+    assert.equal(result.user?.id, 'user-1');
+    assert.deepEqual(result.user?.organizations, [100]);
+  });
+
+  it('looks up other tokens in the registry', async () => {
+    const result = await authenticate(REGISTERED_TOKEN);
+
+    assert.equal(result.user?.id, 'registered');
+    assert.deepEqual(result.user?.organizations, [1]);
+  });
+
+  it('does not fall back to the registry for an invalid JWT', async () => {
+    const result = await authenticate(await token({ aud: 'api://another-api' }));
+
+    assert.equal(result.status, 401);
+    assert.match(result.challenge ?? '', /resource_metadata="http.*\/\.well-known\/oauth-protected-resource/);
+  });
+
+  it('rejects unknown tokens', async () => {
+    const result = await authenticate('not-a-registered-token');
+
+    assert.equal(result.status, 401);
+  });
+
+  it('looks up JWT-shaped tokens in the registry when OIDC is not configured', async () => {
+    const issuer = process.env.OIDC_ISSUER;
+    delete process.env.OIDC_ISSUER;
+    try {
+      const result = await authenticate(await token());
+
+      assert.equal(result.status, 401);
+      assert.equal(result.challenge, undefined);
+    } finally {
+      process.env.OIDC_ISSUER = issuer;
+    }
+  });
+});
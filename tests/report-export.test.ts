@@ -0,0 +1,69 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { ReportData, ReportExporter } from '../src/utils/report-export.js';
+
+const report: ReportData = {
+  report: 'tag_breakdown',
+  title: 'Costs by tag',
+  organizationId: 42,
+  currency: 'NOK',
+  generatedAt: new Date().toISOString(),
+  sheets: [
+    {
+      name: 'Tag CostCenter',
+      columns: [
+        { key: 'value', header: 'Tag value', type: 'text' },
+        { key: 'cost', header: 'Cost', type: 'currency' },
+      ],
+      rows: [
+        { value: '=HYPERLINK("http://example.com","x")', cost: 10 },
+        { value: '+1', cost: -5.5 },
+        { value: '-SUM(A1)', cost: 0 },
+        { value: '@cmd', cost: 1 },
+        { value: '\t=1+1', cost: 3 },
+        { value: '\r=1+1', cost: 4 },
+        { value: 'Finance', cost: 2 },
+      ],
+    },
+  ],
+};
+
+describe('ReportExporter formula neutralization', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'report-export-'));
+  const exporter = new ReportExporter(dir);
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('prefixes text cells that start with = + - @ tab or carriage return in CSV', async () => {
+    const exported = await exporter.write(report, 'csv');
+    const lines = fs.readFileSync(exported.filePath, 'utf-8').trim().split('\r\n');
+
+    assert.deepEqual(lines.slice(1), [
+      `"'=HYPERLINK(""http://example.com"",""x"")",10`,
+      `'+1,-5.5`,
+      `'-SUM(A1),0`,
+      `'@cmd,1`,
+      `'\t=1+1,3`,
+      `"'\r=1+1",4`,
+      `Finance,2`,
+    ]);
+  });
+
+  it('prefixes text cells in XLSX and keeps numbers numeric', async () => {
+    const exported = await exporter.write(report, 'xlsx');
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(exported.filePath);
+    const worksheet = workbook.worksheets[0];
+
+    assert.equal(worksheet.getCell('A2').value, `'=HYPERLINK("http://example.com","x")`);
+    assert.equal(worksheet.getCell('A6').value, `'\t=1+1`);
+    // XML reads the carriage return back as a line feed
+    assert.equal(worksheet.getCell('A7').value, `'\n=1+1`);
+    assert.equal(worksheet.getCell('A8').value, 'Finance');
+    assert.equal(worksheet.getCell('B3').value, -5.5);
+  });
+});
@@ -0,0 +1,177 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import type { CrayonApiClient } from '../src/crayon-client.js';
+import { ReportJobScheduler, parseReportJobs } from '../src/utils/report-jobs.js';
+import { logger } from '../src/middleware/logger.js';
+import { reply, stubServer } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+// Only what the invoice profile section of the digest reads
+const client = {
+  getLastMonthCostsByInvoiceProfile: async () => ({
+    currencyCode: 'NOK',
+    totalOrganizationCost: 150,
+    costsByProfile: [
+      { profileId: 1, profileName: 'Main', totalCost: 100 },
+      { profileId: 2, profileName: 'Lab', totalCost: 50 },
+    ],
+  }),
+} as unknown as CrayonApiClient;
+
+const jobWithSink = (sink: Record<string, unknown>) =>
+  parseReportJobs({
+    jobs: [{ id: 'monthly', name: 'Monthly digest', organizationId: 1, schedule: '0 6 1 * *', sections: ['invoiceProfiles'], charts: false, sink }],
+  })[0];
+
+/**
+ * Just enough of an SMTP server to accept one message per connection
+ */
+function smtpServer(messages: Array<{ from: string; to: string[]; data: string }>) {
+  return net.createServer((socket) => {
+    const message = { from: '', to: [] as string[], data: '' };
+    let inData = false;
+    let buffer = '';
+    socket.write('220 localhost ESMTP test\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let idx: number;
+      while ((idx = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push({ ...message });
+            socket.write('250 OK queued\r\n');
+          } else {
+            message.data += `${line}\n`;
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250-localhost\r\n250 8BITMIME\r\n');
+        } else if (/^MAIL FROM:/i.test(line)) {
+          message.from = line.slice(10).trim();
+          socket.write('250 OK\r\n');
+        } else if (/^RCPT TO:/i.test(line)) {
+          message.to.push(line.slice(8).trim());
+          socket.write('250 OK\r\n');
+        } else if (/^DATA/i.test(line)) {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+}
+
+describe('report job delivery', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'report-jobs-'));
+  const stateFile = path.join(dir, 'state.json');
+  const mails: Array<{ from: string; to: string[]; data: string }> = [];
+  const smtp = smtpServer(mails);
+  let webhookStatus = 200;
+  const webhook = stubServer(() => reply(webhookStatus));
+  const posts = webhook.requests;
+
+  before(async () => {
+    await new Promise<void>((resolve) => smtp.listen(0, '127.0.0.1', resolve));
+    process.env.SMTP_HOST = '127.0.0.1';
+    process.env.SMTP_PORT = String((smtp.address() as AddressInfo).port);
+    process.env.SMTP_FROM = 'costs@example.com';
+  });
+
+  after(() => {
+    smtp.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('mails the digest over SMTP', async () => {
+    const job = jobWithSink({ type: 'smtp', to: ['finance@example.com'], cc: ['cto@example.com'], subject: 'Cloud costs' });
+    const scheduler = new ReportJobScheduler(client, [job], stateFile);
+
+    const run = await scheduler.runJob(job);
+
+    assert.equal(run.status, 'success', run.error);
+    assert.match(run.delivery ?? '', /^Mailed to finance@example.com, cto@example.com/);
+    assert.equal(mails.length, 1);
+    assert.equal(mails[0].from, '<costs@example.com>');
+    assert.deepEqual(mails[0].to, ['<finance@example.com>', '<cto@example.com>']);
+    assert.match(mails[0].data, /^Subject: Cloud costs \(\d{4}-\d{2}\)$/m);
+    assert.match(mails[0].data, /Main/);
+  });
+
+  it('fails the run when SMTP is not configured', async () => {
+    const job = jobWithSink({ type: 'smtp', to: ['finance@example.com'] });
+    const scheduler = new ReportJobScheduler(client, [job], stateFile);
+    const host = process.env.SMTP_HOST;
+    delete process.env.SMTP_HOST;
+
+    try {
+      const run = await scheduler.runJob(job);
+      assert.equal(run.status, 'failure');
+      assert.match(run.error ?? '', /SMTP_HOST/);
+    } finally {
+      process.env.SMTP_HOST = host;
+    }
+  });
+
+  it('posts the digest to the webhook with its headers', async () => {
+    const url = webhook.url('/digest');
+    const job = jobWithSink({ type: 'webhook', url, headers: { 'X-Api-Key': 'secret' } });
+    const scheduler = new ReportJobScheduler(client, [job], stateFile);
+
+    const run = await scheduler.runJob(job);
+
+    assert.equal(run.status, 'success', run.error);
+    assert.match(run.delivery ?? '', /\(HTTP 200\)$/);
+    assert.equal(posts.length, 1);
+    assert.equal(posts[0].headers['x-api-key'], 'secret');
+    const body = JSON.parse(posts[0].body);
+    assert.equal(body.jobId, 'monthly');
+    assert.equal(body.format, 'html');
+    assert.match(body.content, /Main/);
+
+    // The webhook URL (and its headers) are not shown to clients
+    assert.deepEqual(scheduler.list()[0].sink, { type: 'webhook', host: new URL(url).host, headers: ['X-Api-Key'] });
+  });
+
+  it('records a failed webhook delivery as the last run', async () => {
+    const url = webhook.url('/digest');
+    const job = jobWithSink({ type: 'webhook', url });
+    const scheduler = new ReportJobScheduler(client, [job], stateFile);
+    webhookStatus = 500;
+
+    try {
+      const run = await scheduler.runJob(job);
+      assert.equal(run.status, 'failure');
+      assert.match(run.error ?? '', /500/);
+      assert.equal(new ReportJobScheduler(client, [job], stateFile).list()[0].lastRun?.status, 'failure');
+    } finally {
+      webhookStatus = 200;
+    }
+  });
+
+  it('reports the next scheduled run while started', () => {
+    const job = jobWithSink({ type: 'file', dir });
+    const scheduler = new ReportJobScheduler(client, [job], stateFile);
+
+    scheduler.start();
+    const nextRunAt = scheduler.list()[0].nextRunAt;
+    scheduler.stop();
+
+    assert.ok(nextRunAt);
+    const next = new Date(nextRunAt);
+    assert.equal(next.getDate(), 1);
+    assert.equal(next.getHours(), 6);
+    assert.equal(scheduler.list()[0].nextRunAt, null);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestScheduler } from '../src/utils/request-scheduler.js';
+
+describe('RequestScheduler stats', () => {
+  it('reports queued requests as a total, not per organization', async () => {
+    const scheduler = new RequestScheduler(1);
+    let release: () => void = () => {};
+    const blocker = new Promise<void>((resolve) => (release = resolve));
+
+    const running = [
+      scheduler.schedule(1, () => blocker),
+      scheduler.schedule(1, async () => 'a'),
+      scheduler.schedule(2, async () => 'b'),
+      scheduler.schedule(3, async () => 'c'),
+    ];
+
+    assert.deepEqual(scheduler.getStats(), { maxInFlight: 1, inFlight: 1, queued: 3, completed: 0, failed: 0 });
+
+    release();
+    await Promise.all(running);
+    assert.deepEqual(scheduler.getStats(), { maxInFlight: 1, inFlight: 0, queued: 0, completed: 4, failed: 0 });
+  });
+});
@@ -0,0 +1,110 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { createCircuitBreakerWrapper, RetryOptions } from '../src/middleware/security.js';
+import { logger } from '../src/middleware/logger.js';
+import { reply, stubServer } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+type Reply = { status: number; headers?: Record<string, string>; delayMs?: number };
+
+const fastRetries: RetryOptions = { maxRetries: 3, baseDelayMs: 10, maxDelayMs: 50, maxRetryAfterMs: 5000 };
+
+describe('createCircuitBreakerWrapper against a failing stub server', () => {
+  // Each path answers with the next scripted reply, repeating the last
+  const scripts = new Map<string, Reply[]>();
+  const script = (path: string, replies: Reply[]) => scripts.set(path, replies);
+  const stub = stubServer((request) => {
+    const path = request.url.pathname;
+    const replies = scripts.get(path) ?? [{ status: 200 }];
+    const attempt = stub.hits(path);
+    const next = replies[Math.min(attempt - 1, replies.length - 1)];
+    return reply(next.status, { path, attempt }, next.headers, next.delayMs);
+  });
+
+  before(() => {
+    process.env.API_TIMEOUT_MS = '300';
+    process.env.CIRCUIT_BREAKER_TIMEOUT_MS = '400';
+  });
+
+  it('retries 5xx responses with backoff until one succeeds', async () => {
+    script('/flaky', [{ status: 503 }, { status: 502 }, { status: 200 }]);
+    const wrapper = createCircuitBreakerWrapper('test-5xx', fastRetries);
+
+    const response = await wrapper.execute(() => axios.get(stub.url('/flaky')));
+
+    assert.equal(response.status, 200);
+    assert.equal(stub.hits('/flaky'), 3);
+    assert.equal(wrapper.getStatus().retryCount, 2);
+  });
+
+  it('waits for Retry-After on 429 before retrying', async () => {
+    script('/throttled', [{ status: 429, headers: { 'Retry-After': '1' } }, { status: 200 }]);
+    const wrapper = createCircuitBreakerWrapper('test-429', fastRetries);
+
+    const started = Date.now();
+    const response = await wrapper.execute(() => axios.get(stub.url('/throttled')));
+
+    assert.equal(response.status, 200);
+    assert.equal(stub.hits('/throttled'), 2);
+    assert.ok(Date.now() - started >= 950, 'the retry honoured the one second Retry-After');
+  });
+
+  it('gives up at once when Retry-After is longer than the allowed wait', async () => {
+    script('/throttled-long', [{ status: 429, headers: { 'Retry-After': '120' } }, { status: 200 }]);
+    const wrapper = createCircuitBreakerWrapper('test-429-long', fastRetries);
+
+    await assert.rejects(wrapper.execute(() => axios.get(stub.url('/throttled-long'))), (error: any) => error.response?.status === 429);
+    assert.equal(stub.hits('/throttled-long'), 1);
+  });
+
+  it('gives up after maxRetries attempts', async () => {
+    script('/down', [{ status: 500 }]);
+    const wrapper = createCircuitBreakerWrapper('test-give-up', fastRetries);
+
+    await assert.rejects(wrapper.execute(() => axios.get(stub.url('/down'))), (error: any) => error.response?.status === 500);
+    assert.equal(stub.hits('/down'), fastRetries.maxRetries + 1);
+  });
+
+  it('does not retry client errors or count them against the circuit', async () => {
+    script('/missing', [{ status: 404 }]);
+    const wrapper = createCircuitBreakerWrapper('test-404', fastRetries);
+
+    await assert.rejects(wrapper.execute(() => axios.get(stub.url('/missing'))), (error: any) => error.response?.status === 404);
+    assert.equal(stub.hits('/missing'), 1);
+    assert.equal(wrapper.getStatus().failureCount, 0);
+  });
+
+  it('times out slow calls', async () => {
+    script('/slow', [{ status: 200, delayMs: 1000 }]);
+    const wrapper = createCircuitBreakerWrapper('test-timeout', { ...fastRetries, maxRetries: 0 });
+
+    await assert.rejects(wrapper.execute(() => axios.get(stub.url('/slow'))), (error: any) => error.code === 'ETIMEDOUT');
+    assert.equal(wrapper.getStatus().timeoutCount, 1);
+  });
+
+  it('opens after repeated failures, then half-opens and closes on recovery', async () => {
+    script('/outage', [{ status: 500 }]);
+    const wrapper = createCircuitBreakerWrapper('test-breaker', { ...fastRetries, maxRetries: 0 });
+
+    // volumeThreshold is 10 calls
+    for (let i = 0; i < 10; i++) {
+      await assert.rejects(wrapper.execute(() => axios.get(stub.url('/outage'))));
+    }
+    assert.equal(wrapper.getStatus().state, 'open');
+
+    // An open circuit rejects without calling the server, and is not retried
+    const hitsWhenOpened = stub.hits('/outage');
+    await assert.rejects(wrapper.execute(() => axios.get(stub.url('/outage'))), (error: any) => error.code === 'EOPENBREAKER');
+    assert.equal(stub.hits('/outage'), hitsWhenOpened);
+
+    await new Promise((resolve) => setTimeout(resolve, 450));
+    assert.equal(wrapper.getStatus().state, 'halfOpen');
+
+    script('/outage', [{ status: 200 }]);
+    const response = await wrapper.execute(() => axios.get(stub.url('/outage')));
+    assert.equal(response.status, 200);
+    assert.equal(wrapper.getStatus().state, 'closed');
+  });
+});
@@ -0,0 +1,103 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCacheStore, MemoryCacheStore, ResponseCache, getCacheTtlsFromEnv } from '../src/utils/response-cache.js';
+
+const entry = (key: string, expiresAt: number, organizationId?: number) => ({ key, endpoint: 'test', organizationId, expiresAt, value: { key } });
+
+describe('FileCacheStore', () => {
+  const dirs: string[] = [];
+  const newStore = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-'));
+    dirs.push(dir);
+    return { dir, store: new FileCacheStore(dir, 0) };
+  };
+  const fileCount = (dir: string) => fs.readdirSync(dir).length;
+
+  after(() => dirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true })));
+
+  it('deletes expired entries when they are read', () => {
+    const { dir, store } = newStore();
+    store.set(entry('expired', Date.now() - 1000));
+    store.set(entry('fresh', Date.now() + 60_000));
+
+    assert.equal(store.get('expired'), undefined);
+    assert.deepEqual(store.get('fresh')?.value, { key: 'fresh' });
+    assert.equal(fileCount(dir), 1);
+    assert.equal(store.size(), 1);
+  });
+
+  it('sweeps expired entries and keeps the count without scanning', () => {
+    const { dir, store } = newStore();
+    store.set(entry('a', Date.now() - 1000));
+    store.set(entry('b', Date.now() - 1000));
+    store.set(entry('c', Date.now() + 60_000));
+    store.set(entry('c', Date.now() + 60_000));
+    assert.equal(store.size(), 3);
+
+    assert.equal(store.sweep(), 2);
+    assert.equal(store.size(), 1);
+    assert.equal(fileCount(dir), 1);
+
+    store.delete('c');
+    store.delete('c');
+    assert.equal(store.size(), 0);
+  });
+
+  it('picks up entries written before a restart', () => {
+    const { dir, store } = newStore();
+    store.set(entry('a', Date.now() + 60_000));
+    store.set(entry('b', Date.now() + 60_000));
+
+    assert.equal(new FileCacheStore(dir, 0).size(), 2);
+  });
+});
+
+describe('ResponseCache', () => {
+  it('stores an organization resolved after the fetch, so invalidateOrganization drops the entry', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-'));
+    const cache = new ResponseCache(new FileCacheStore(dir, 0), getCacheTtlsFromEnv());
+    let fetches = 0;
+    const fetchTags = () =>
+      cache.getOrFetch('subscription_tags', '/subscriptions/7/tags', 60, async () => ({ fetch: ++fetches }), async () => 42);
+
+    await fetchTags();
+    await fetchTags();
+    assert.equal(fetches, 1);
+    assert.equal(cache.getStats().entries, 1);
+
+    assert.equal(cache.invalidateOrganization(42), 1);
+    await fetchTags();
+    assert.equal(fetches, 2);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('fetches again for a caller that shared a fetch its starter cancelled', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore(10), getCacheTtlsFromEnv());
+    const cancelled = Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' });
+
+    const first = cache.getOrFetch('billingstatements_grouped', '/billing', 60, () => Promise.reject(cancelled));
+    const second = cache.getOrFetch('billingstatements_grouped', '/billing', 60, async () => ({ fetched: 'second' }));
+
+    await assert.rejects(first, /canceled/);
+    assert.deepEqual(await second, { fetched: 'second' });
+    assert.deepEqual(await cache.getOrFetch('billingstatements_grouped', '/billing', 60, async () => ({ fetched: 'third' })), { fetched: 'second' });
+  });
+
+  it('passes other failures of a shared fetch to every caller', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore(10), getCacheTtlsFromEnv());
+    let fetches = 0;
+    const fail = () => {
+      fetches++;
+      return Promise.reject(new Error('Request failed with status code 503'));
+    };
+
+    const results = await Promise.allSettled([cache.getOrFetch('x', '/x', 60, fail), cache.getOrFetch('x', '/x', 60, fail)]);
+
+    assert.deepEqual(results.map((result) => result.status), ['rejected', 'rejected']);
+    assert.equal(fetches, 1);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyTagUpdate, diffTags } from '../src/utils/tag-diff.js';
+
+describe('diffTags', () => {
+  it('splits keys into added, changed, removed and unchanged', () => {
+    const diff = diffTags({ Env: 'dev', Owner: 'alice', Team: 'core' }, { Env: 'prod', Owner: 'alice', CostCenter: '4100' });
+
+    assert.deepEqual(diff, {
+      added: { CostCenter: '4100' },
+      changed: { Env: { from: 'dev', to: 'prod' } },
+      removed: { Team: 'core' },
+      unchanged: ['Owner'],
+      hasChanges: true,
+    });
+  });
+
+  it('reports no changes for equal tag sets', () => {
+    assert.equal(diffTags({ Env: 'dev' }, { Env: 'dev' }).hasChanges, false);
+    assert.equal(diffTags({}, {}).hasChanges, false);
+  });
+
+  it('treats keys named like Object.prototype members as ordinary tags', () => {
+    const added = diffTags({}, { constructor: 'x', toString: 'y' });
+    assert.deepEqual(added.added, { constructor: 'x', toString: 'y' });
+    assert.deepEqual(added.changed, {});
+
+    const removed = diffTags({ constructor: 'x', hasOwnProperty: 'y' }, {});
+    assert.deepEqual(removed.removed, { constructor: 'x', hasOwnProperty: 'y' });
+    assert.deepEqual(removed.changed, {});
+  });
+});
+
+describe('applyTagUpdate', () => {
+  it('replaces all tags by default', () => {
+    assert.deepEqual(applyTagUpdate({ Env: 'dev', Owner: 'alice' }, { Env: 'prod' }), { Env: 'prod' });
+  });
+
+  it('merges tags onto the current ones and drops removeKeys', () => {
+    const result = applyTagUpdate({ Env: 'dev', Owner: 'alice', Team: 'core' }, { Env: 'prod', CostCenter: '4100' }, 'merge', ['Team', 'Missing']);
+
+    assert.deepEqual(result, { Env: 'prod', Owner: 'alice', CostCenter: '4100' });
+  });
+
+  it('merges and removes keys named like Object.prototype members', () => {
+    const merged = applyTagUpdate({ toString: 'a' }, { constructor: 'b' }, 'merge');
+    assert.deepEqual(merged, { toString: 'a', constructor: 'b' });
+    assert.deepEqual(Object.keys(merged), ['toString', 'constructor']);
+
+    assert.deepEqual(applyTagUpdate(merged, {}, 'merge', ['toString']), { constructor: 'b' });
+  });
+
+  it('does not modify its inputs', () => {
+    const current = { Env: 'dev' };
+    const tags = { Owner: 'alice' };
+
+    applyTagUpdate(current, tags, 'merge', ['Env']);
+
+    assert.deepEqual(current, { Env: 'dev' });
+    assert.deepEqual(tags, { Owner: 'alice' });
+  });
+});
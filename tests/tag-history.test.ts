@@ -0,0 +1,126 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TagHistoryStore } from '../src/utils/tag-history.js';
+import { logger } from '../src/middleware/logger.js';
+import { crayonStub } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+describe('updateSubscriptionTags tag history', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tag-history-'));
+  const puts: unknown[] = [];
+  const stub = crayonStub((request) => {
+    if (request.method === 'PUT') {
+      puts.push(JSON.parse(request.body));
+      return { updated: true };
+    }
+    if (request.url.pathname.endsWith('/tags')) return { CostCenter: 'Old' };
+    return { Id: 7, Name: 'Production', Organization: { Id: 1, Name: 'Org' } };
+  });
+
+  const clientWithHistoryFile = (file: string) => {
+    process.env.TAG_HISTORY_FILE = file;
+    return stub.client();
+  };
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('records the replaced tags and the new tags', async () => {
+    const file = path.join(dir, 'history.json');
+    const client = clientWithHistoryFile(file);
+
+    await client.updateSubscriptionTags(7, { CostCenter: 'New' });
+
+    const history = new TagHistoryStore(file).history(7);
+    assert.equal(history?.organizationId, 1);
+    assert.deepEqual(
+      history?.versions.map((version) => [version.source, version.tags.CostCenter]),
+      [['capture', 'Old'], ['update', 'New']]
+    );
+  });
+
+  it('still updates the tags when the history cannot be read or written', async () => {
+    const file = path.join(dir, 'corrupt.json');
+    fs.writeFileSync(file, '{ not json');
+    const client = clientWithHistoryFile(file);
+    puts.length = 0;
+
+    const result = await client.updateSubscriptionTags(7, { CostCenter: 'New' });
+
+    assert.deepEqual(result, { updated: true });
+    assert.deepEqual(puts, [{ CostCenter: 'New' }]);
+  });
+});
+
+describe('historical tag attribution of budgets and cost breakdowns', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tag-attribution-'));
+  const file = path.join(dir, 'history.json');
+  // CostCenter moved from A to B a quarter into February 2026; B is the current tag
+  fs.writeFileSync(file, JSON.stringify({
+    subscriptions: {
+      7: {
+        subscriptionId: 7,
+        organizationId: 1,
+        versions: [
+          { tags: { CostCenter: 'A' }, validFrom: new Date(2025, 11, 1).toISOString(), source: 'capture' },
+          { tags: { CostCenter: 'B' }, validFrom: new Date(2026, 1, 8).toISOString(), source: 'update' },
+        ],
+        lastCapturedAt: new Date(2026, 2, 1).toISOString(),
+      },
+    },
+  }));
+
+  const stub = crayonStub(({ url }) => {
+    if (url.pathname === '/billingstatements/grouped') {
+      return {
+        TotalHits: 2,
+        Items: [
+          { SubscriptionId: 7, SubscriptionName: 'Production', StartDate: '2026-01-01T00:00:00', TotalSalesPrice: 100, CurrencyCode: 'NOK' },
+          { SubscriptionId: 7, SubscriptionName: 'Production', StartDate: '2026-02-01T00:00:00', TotalSalesPrice: 80, CurrencyCode: 'NOK' },
+        ],
+      };
+    }
+    if (url.pathname === '/subscriptions/') return { TotalHits: 1, Items: [{ Id: 7, Name: 'Production' }] };
+    if (url.pathname === '/subscriptions/7/tags') return { CostCenter: 'B' };
+  });
+
+  const client = () => {
+    process.env.TAG_HISTORY_FILE = file;
+    return stub.client();
+  };
+  const from = new Date(2026, 0, 1).toISOString();
+  const to = new Date(2026, 1, 28).toISOString();
+
+  after(() => {
+    delete process.env.TAG_HISTORY_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('counts budget actuals under the tags of each month, split when they changed mid-month', async () => {
+    const scope = (tagValue: string, attribution?: 'historical' | 'current') =>
+      ({ type: 'tag' as const, tagKey: 'CostCenter', tagValue, ...(attribution ? { attribution } : {}) });
+
+    assert.deepEqual((await client().getBudgetActuals(1, scope('A'), from, to)).monthlyActuals, { '2026-01': 100, '2026-02': 20 });
+    assert.deepEqual((await client().getBudgetActuals(1, scope('B'), from, to)).monthlyActuals, { '2026-02': 60 });
+    assert.deepEqual((await client().getBudgetActuals(1, scope('A', 'current'), from, to)).monthlyActuals, {});
+    assert.deepEqual((await client().getBudgetActuals(1, scope('B', 'current'), from, to)).monthlyActuals, { '2026-01': 100, '2026-02': 80 });
+  });
+
+  it('groups costs by the tags of each month, or by current tags', async () => {
+    const historical = await client().getCostsByDimension(1, 'tag', { from, to }, 'CostCenter');
+    assert.equal(historical.attribution, 'historical');
+    assert.equal(historical.historyCoverage.percentOfCost, 100);
+    assert.equal(historical.totals.total, 180);
+    assert.deepEqual(
+      historical.groups.map((group) => [group.label, group.total, group.byMonth]),
+      [['A', 120, { '2026-01': 100, '2026-02': 20 }], ['B', 60, { '2026-02': 60 }]]
+    );
+
+    const current = await client().getCostsByDimension(1, 'tag', { from, to }, 'CostCenter', 'current');
+    assert.equal(current.historyCoverage, undefined);
+    assert.deepEqual(current.groups.map((group) => [group.label, group.total]), [['B', 180]]);
+  });
+});
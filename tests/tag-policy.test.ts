@@ -0,0 +1,185 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluateTagCompliance, loadTagPolicy, parseTagPolicy } from '../src/utils/tag-policy.js';
+import { logger } from '../src/middleware/logger.js';
+import { crayonStub, reply } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+const policy = parseTagPolicy({
+  name: 'Finance tagging',
+  tags: {
+    CostCenter: { required: true, pattern: '^CC-\\d{4}$' },
+    Environment: { required: true, allowedValues: ['prod', 'test'] },
+    Owner: { allowedValues: ['platform', 'data'] },
+    constructor: {},
+  },
+});
+
+describe('evaluateTagCompliance', () => {
+  it('accepts tags that have every required key with a valid value', () => {
+    assert.deepEqual(evaluateTagCompliance({ CostCenter: 'CC-1234', Environment: 'prod', Extra: 'anything' }, policy), {
+      compliant: true,
+      missingKeys: [],
+      invalidValues: [],
+    });
+  });
+
+  it('reports missing and empty required keys, but not missing optional ones', () => {
+    const result = evaluateTagCompliance({ Environment: '' }, policy);
+
+    assert.equal(result.compliant, false);
+    assert.deepEqual(result.missingKeys, ['CostCenter', 'Environment']);
+    assert.deepEqual(result.invalidValues, []);
+  });
+
+  it('reports values outside allowedValues or the pattern', () => {
+    const result = evaluateTagCompliance({ CostCenter: 'CC-12', Environment: 'staging', Owner: 'nobody' }, policy);
+
+    assert.deepEqual(result.missingKeys, []);
+    assert.deepEqual(result.invalidValues, [
+      { key: 'CostCenter', value: 'CC-12', reason: 'Does not match pattern ^CC-\\d{4}$' },
+      { key: 'Environment', value: 'staging', reason: 'Not one of allowed values: prod, test' },
+      { key: 'Owner', value: 'nobody', reason: 'Not one of allowed values: platform, data' },
+    ]);
+  });
+
+  it('matches keys and values case-sensitively', () => {
+    const result = evaluateTagCompliance({ costcenter: 'CC-1234', Environment: 'Prod' }, policy);
+
+    assert.deepEqual(result.missingKeys, ['CostCenter']);
+    assert.deepEqual(result.invalidValues.map((invalid) => [invalid.key, invalid.value]), [['Environment', 'Prod']]);
+  });
+
+  it('treats keys that are Object.prototype members as missing unless the tags have them', () => {
+    const required = parseTagPolicy({ tags: { constructor: { required: true, allowedValues: ['x'] } } });
+
+    assert.deepEqual(evaluateTagCompliance({}, required).missingKeys, ['constructor']);
+    assert.equal(evaluateTagCompliance({}, policy).invalidValues.length, 0);
+  });
+});
+
+describe('parseTagPolicy', () => {
+  it('defaults keys to optional', () => {
+    assert.equal(policy.tags.Owner.required, false);
+  });
+
+  it('rejects malformed policies', () => {
+    assert.throws(() => parseTagPolicy({ tags: {} }), /^Error: Invalid tag policy/);
+    assert.throws(() => parseTagPolicy({ tags: { Env: { allowedValues: [] } } }), /Invalid tag policy/);
+    assert.throws(() => parseTagPolicy({ tags: { Env: { required: 'yes' } } }), /Invalid tag policy/);
+    assert.throws(() => parseTagPolicy({ tags: { Env: { pattern: '(.*)*' } } }), /possible ReDoS/);
+  });
+});
+
+describe('loadTagPolicy', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tag-policy-'));
+  after(() => {
+    delete process.env.TAG_POLICY_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads the policy in TAG_POLICY_FILE', () => {
+    const file = path.join(dir, 'policy.json');
+    fs.writeFileSync(file, JSON.stringify({ tags: { CostCenter: { required: true } } }));
+    process.env.TAG_POLICY_FILE = file;
+
+    assert.deepEqual(loadTagPolicy(), { tags: { CostCenter: { required: true } } });
+  });
+
+  it('needs TAG_POLICY_FILE', () => {
+    delete process.env.TAG_POLICY_FILE;
+
+    assert.throws(() => loadTagPolicy(), /No tag policy configured: set TAG_POLICY_FILE/);
+  });
+});
+
+describe('checkTagCompliance', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tag-compliance-'));
+  const subscriptions = [
+    { Id: 1, Name: 'Compliant' },
+    { Id: 2, Name: 'No cost center' },
+    { Id: 3, Name: 'Wrong environment' },
+    { Id: 4, Name: 'Unreadable' },
+    { Id: 5, Name: 'Untagged' },
+  ];
+  const tags: Record<number, Record<string, string>> = {
+    1: { CostCenter: 'CC-1000', Environment: 'prod' },
+    2: { Environment: 'test' },
+    3: { CostCenter: 'CC-2000', Environment: 'staging' },
+    5: {},
+  };
+  const statement = (subscriptionId: number, amount: number) => ({
+    SubscriptionId: subscriptionId,
+    StartDate: '2026-09-01T00:00:00',
+    TotalSalesPrice: amount,
+    CurrencyCode: 'NOK',
+  });
+
+  const stub = crayonStub(({ url }) => {
+    if (url.pathname === '/subscriptions/') return { TotalHits: subscriptions.length, Items: subscriptions };
+    if (url.pathname === '/billingstatements/grouped') {
+      return { TotalHits: 5, Items: [statement(1, 600), statement(2, 250), statement(2, 50), statement(3, 100), statement(4, 400)] };
+    }
+    const id = Number(url.pathname.match(/^\/subscriptions\/(\d+)\/tags$/)?.[1]);
+    return tags[id] ?? reply(403, { message: 'Forbidden' });
+  });
+
+  before(() => {
+    process.env.TAG_HISTORY_FILE = path.join(dir, 'history.json');
+  });
+  after(() => {
+    delete process.env.TAG_HISTORY_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sizes the non-compliant spend from last month and lists the largest first', async () => {
+    const result = await stub.client().checkTagCompliance(1, policy);
+
+    assert.equal(result.policy, 'Finance tagging');
+    assert.deepEqual(
+      result.nonCompliant.map((s: any) => [s.subscriptionId, s.lastMonthCost, s.missingKeys]),
+      [
+        [2, 300, ['CostCenter']],
+        [3, 100, []],
+        [5, 0, ['CostCenter', 'Environment']],
+      ]
+    );
+    assert.deepEqual(result.nonCompliant[1].invalidValues.map((invalid: any) => invalid.key), ['Environment']);
+    assert.deepEqual(result.missingKeySummary, {
+      CostCenter: { subscriptions: 2, cost: 300 },
+      Environment: { subscriptions: 1, cost: 0 },
+    });
+    assert.deepEqual(
+      { ...result.summary, originalTotals: undefined },
+      {
+        subscriptionsEvaluated: 4,
+        compliant: 1,
+        nonCompliant: 3,
+        unknown: 1,
+        compliancePercent: 25,
+        totalCost: 1400,
+        nonCompliantCost: 400,
+        nonCompliantCostPercent: 28.57,
+        currencyCode: 'NOK',
+        originalTotals: undefined,
+      }
+    );
+  });
+
+  it('reports subscriptions whose tags could not be read as unknown, with their spend', async () => {
+    const result = await stub.client().checkTagCompliance(1, policy);
+
+    assert.deepEqual(result.unknown.map((s: any) => [s.subscriptionId, s.lastMonthCost]), [[4, 400]]);
+    assert.match(result.unknown[0].error, /^Failed to fetch tags/);
+  });
+
+  it('counts a missing key named like an Object.prototype member', async () => {
+    const result = await stub.client().checkTagCompliance(1, parseTagPolicy({ tags: { constructor: { required: true } } }));
+
+    assert.deepEqual(result.missingKeySummary, { constructor: { subscriptions: 4, cost: 1000 } });
+  });
+});
@@ -0,0 +1,193 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CostWarehouse, WarehouseConfigurationError } from '../src/utils/warehouse.js';
+import { decodeBillingStatement } from '../src/models/crayon.js';
+import { sanitizeErrorMessage } from '../src/middleware/security.js';
+import { logger } from '../src/middleware/logger.js';
+import { crayonStub } from './helpers/stub-server.js';
+
+logger.silent = true;
+
+const hasSqlite = await import('node:sqlite').then(
+  () => true,
+  () => false
+);
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'warehouse-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+let files = 0;
+const warehouseFile = () => path.join(dir, `warehouse-${++files}.sqlite`);
+
+/**
+ * YYYY-MM of the month `offset` months from the current one
+ */
+const monthFrom = (offset: number) => {
+  const date = new Date(new Date().getFullYear(), new Date().getMonth() + offset, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const statement = (month: string, amount: number, subscriptionId = 7) =>
+  decodeBillingStatement({
+    SubscriptionId: subscriptionId,
+    SubscriptionName: `Subscription ${subscriptionId}`,
+    StartDate: `${month}-01T00:00:00`,
+    TotalSalesPrice: amount,
+    CurrencyCode: 'NOK',
+  });
+
+describe('CostWarehouse without node:sqlite', { skip: hasSqlite && 'node:sqlite is available' }, () => {
+  it('fails with a configuration error clients can act on', async () => {
+    const warehouse = new CostWarehouse(path.join(dir, 'never-created', 'warehouse.sqlite'));
+
+    const error = await warehouse.status(1).catch((caught: unknown) => caught);
+
+    assert.ok(error instanceof WarehouseConfigurationError);
+    assert.match(error.message, /WAREHOUSE_FILE/);
+    assert.match(error.message, /22\.5/);
+    assert.match(error.message, new RegExp(process.version.replace(/\./g, '\\.')));
+    assert.equal(sanitizeErrorMessage(error, 'sync_warehouse'), error.message);
+  });
+});
+
+describe('CostWarehouse', { skip: !hasSqlite && 'node:sqlite is not available' }, () => {
+  it('replaces the statements of a month and records when it was synced', async () => {
+    const warehouse = new CostWarehouse(warehouseFile());
+
+    await warehouse.replaceMonth(1, '2026-03', [statement('2026-03', 100), statement('2026-03', 50, 8)], '2026-04-02T00:00:00.000Z');
+    await warehouse.replaceMonth(1, '2026-04', [statement('2026-04', 200)], '2026-04-02T00:00:00.000Z');
+    await warehouse.replaceMonth(1, '2026-03', [statement('2026-03', 120)], '2026-04-09T00:00:00.000Z');
+    await warehouse.replaceMonth(2, '2026-03', [statement('2026-03', 999)], '2026-04-09T00:00:00.000Z');
+
+    const march = await warehouse.statements(1, '2026-03', '2026-03');
+    assert.deepEqual(march.map((item) => item.TotalSalesPrice), [{ amount: 120, currency: 'NOK' }]);
+    assert.deepEqual(march[0].Tags, {});
+    assert.equal((await warehouse.statements(1, '2026-01', '2026-12')).length, 2);
+    assert.deepEqual(Array.from((await warehouse.syncedMonths(1)).values()), [
+      { month: '2026-03', statementCount: 1, syncedAt: '2026-04-09T00:00:00.000Z' },
+      { month: '2026-04', statementCount: 1, syncedAt: '2026-04-02T00:00:00.000Z' },
+    ]);
+  });
+
+  it('refreshes tag snapshots taken during the month and keeps the first one taken after it', async () => {
+    const warehouse = new CostWarehouse(warehouseFile());
+    await warehouse.replaceMonth(1, '2026-03', [statement('2026-03', 100)], '2026-03-20T00:00:00.000Z');
+    const tags = (costCenter: string) => new Map([[7, { CostCenter: costCenter }]]);
+
+    assert.equal(await warehouse.saveTagSnapshot(1, '2026-03', tags('During'), new Date(2026, 2, 20)), 1);
+    assert.equal(await warehouse.saveTagSnapshot(1, '2026-03', tags('Refreshed'), new Date(2026, 2, 30)), 1);
+    assert.deepEqual((await warehouse.statements(1, '2026-03', '2026-03'))[0].Tags, { CostCenter: 'Refreshed' });
+
+    assert.equal(await warehouse.saveTagSnapshot(1, '2026-03', tags('Final'), new Date(2026, 3, 2)), 1);
+    assert.equal(await warehouse.saveTagSnapshot(1, '2026-03', tags('Later'), new Date(2026, 4, 2)), 0);
+    assert.deepEqual((await warehouse.statements(1, '2026-03', '2026-03'))[0].Tags, { CostCenter: 'Final' });
+
+    // Statements written later for the month carry the stored snapshot
+    await warehouse.replaceMonth(1, '2026-03', [statement('2026-03', 110)], '2026-04-09T00:00:00.000Z');
+    assert.deepEqual((await warehouse.statements(1, '2026-03', '2026-03'))[0].Tags, { CostCenter: 'Final' });
+    assert.equal((await warehouse.status(1)).tagSnapshots, 1);
+  });
+});
+
+describe('syncWarehouse and warehouse-backed analytics', { skip: !hasSqlite && 'node:sqlite is not available' }, () => {
+  // Costs per month offset from the current month; the current month has accrued the least
+  const costs: Record<string, number> = { [monthFrom(-2)]: 100, [monthFrom(-1)]: 110, [monthFrom(0)]: 40 };
+  let costCenter = 'A';
+  const stub = crayonStub(({ url }) => {
+    if (url.pathname === '/billingstatements/grouped') {
+      const month = (url.searchParams.get('from') ?? '').slice(0, 7);
+      return { TotalHits: 1, Items: [{ SubscriptionId: 7, StartDate: `${month}-01T00:00:00`, TotalSalesPrice: costs[month] ?? 0, CurrencyCode: 'NOK' }] };
+    }
+    if (url.pathname === '/subscriptions/') return { TotalHits: 1, Items: [{ Id: 7, Name: 'Production' }] };
+    if (url.pathname === '/subscriptions/7/tags') return { CostCenter: costCenter };
+    if (url.pathname === '/invoices/') return { TotalHits: 1, Items: [{ Id: 1, InvoiceNumber: 'INV-1', TotalSalesPrice: 250, CurrencyCode: 'NOK' }] };
+  });
+  const file = warehouseFile();
+  const billingFetches = () => stub.hits('/billingstatements/grouped');
+
+  before(() => {
+    process.env.WAREHOUSE_FILE = file;
+    process.env.TAG_HISTORY_FILE = path.join(dir, 'tag-history.json');
+    // Closed months are final as soon as they were synced after their end
+    process.env.WAREHOUSE_RESYNC_DAYS = '0';
+  });
+
+  after(() => {
+    delete process.env.WAREHOUSE_FILE;
+    delete process.env.TAG_HISTORY_FILE;
+    delete process.env.WAREHOUSE_RESYNC_DAYS;
+  });
+
+  it('syncs every month the first time, then only months that can still change', async () => {
+    const client = stub.client();
+
+    const first = await client.syncWarehouse(1, { monthsBack: 2 });
+    assert.deepEqual(first.monthsSynced.map((m: { month: string }) => m.month), [monthFrom(-2), monthFrom(-1), monthFrom(0)]);
+    assert.equal(first.monthsSkipped, 0);
+    assert.equal(first.subscriptions, 1);
+    assert.equal(first.invoices, 1);
+    assert.equal(first.tagSnapshots, 3);
+    assert.equal(billingFetches(), 3);
+
+    const second = await client.syncWarehouse(1, { monthsBack: 2 });
+    assert.deepEqual(second.monthsSynced.map((m: { month: string }) => m.month), [monthFrom(0)]);
+    assert.equal(second.monthsSkipped, 2);
+
+    // A closed month last synced before it ended is synced again
+    await new CostWarehouse(file).replaceMonth(1, monthFrom(-1), [], `${monthFrom(-1)}-15T00:00:00.000Z`);
+    const third = await client.syncWarehouse(1, { monthsBack: 2 });
+    assert.deepEqual(third.monthsSynced.map((m: { month: string }) => m.month), [monthFrom(-1), monthFrom(0)]);
+
+    const full = await client.syncWarehouse(1, { monthsBack: 2, full: true });
+    assert.equal(full.monthsSynced.length, 3);
+
+    const status = await client.getWarehouseStatus(1);
+    assert.deepEqual(status.months.map((m) => [m.month, m.statementCount]), [[monthFrom(-2), 1], [monthFrom(-1), 1], [monthFrom(0), 1]]);
+    assert.equal(status.invoices, 1);
+  });
+
+  it('reads cost trends from the warehouse without calling the billing API', async () => {
+    const fetches = billingFetches();
+
+    const result = await stub.client().getCostTrends(1, 2, 'warehouse');
+
+    assert.equal(billingFetches(), fetches);
+    assert.equal(result.source, 'warehouse');
+    assert.equal(result.summary.totalCost, 250);
+    assert.deepEqual(result.trends.map((trend) => [trend.month, trend.change]), [[monthFrom(-2), null], [monthFrom(-1), 10], [monthFrom(0), -70]]);
+  });
+
+  it('fails when the warehouse is missing months of the range', async () => {
+    await assert.rejects(stub.client().getCostTrends(1, 6, 'warehouse'), /Warehouse has no billing data for organization 1 .*run sync_warehouse/);
+  });
+
+  it('attributes warehouse costs to the tags of their month, or to current tags', async () => {
+    costCenter = 'B';
+    try {
+      const historical = await stub.client().analyzeCostsByTags(1, 2, 'warehouse', 'historical');
+      assert.deepEqual(historical.costBreakdown, [{ tag: 'CostCenter', breakdown: [{ value: 'A', cost: 250 }], total: 250 }]);
+
+      const current = await stub.client().analyzeCostsByTags(1, 2, 'warehouse', 'current');
+      assert.deepEqual(current.costBreakdown, [{ tag: 'CostCenter', breakdown: [{ value: 'B', cost: 250 }], total: 250 }]);
+    } finally {
+      costCenter = 'A';
+    }
+  });
+
+  it('scores anomalies on warehouse history', async () => {
+    const fetches = billingFetches();
+
+    const result = await stub.client().detectCostAnomalies(1, { monthsBack: 1, baselineMonths: 1, source: 'warehouse' });
+
+    assert.equal(billingFetches(), fetches);
+    assert.equal(result.source, 'warehouse');
+    assert.deepEqual(result.analyzedMonths, [monthFrom(-1)]);
+    assert.equal(result.summary.totalSubscriptionsAnalyzed, 1);
+    await assert.rejects(
+      stub.client().detectCostAnomalies(1, { monthsBack: 1, baselineMonths: 6, source: 'warehouse' }),
+      /Warehouse has no billing data/
+    );
+  });
+});